@@ -0,0 +1,114 @@
+import express, { NextFunction, Request, Response } from 'express';
+import { ScoringService } from './scoringService';
+import { AuditStore } from './auditStore';
+import {
+  HttpError, ScoringRequest, validateBatch, validateBucket, validateId, validateNote, validateOutcome,
+  validatePatient, validatePredictionLog, validatePredictionQuery
+} from './validation';
+
+/** Score a patient and write the prediction to the audit log; `predictionId` refers to the log entry. */
+function scoreAndLog(service: ScoringService, store: AuditStore, { id, ...input }: ScoringRequest, note?: string) {
+  const score = service.score(input);
+  const logged = store.logPrediction({
+    ...(id !== undefined && { externalId: String(id) }),
+    features: input,
+    modelVersion: service.artifact.version,
+    probability: score.probability,
+    rawProbability: score.rawProbability,
+    band: score.band,
+    note,
+    source: 'api'
+  });
+  return { ...(id !== undefined && { id }), predictionId: logged.id, ...score };
+}
+
+export function createApiRouter(service: ScoringService, store: AuditStore) {
+  const router = express.Router();
+
+  router.post('/predict', (req, res) => {
+    const patient = validatePatient(req.body);
+    const note = validateNote(req.body);
+    res.json({ modelVersion: service.artifact.version, ...scoreAndLog(service, store, patient, note) });
+  });
+
+  router.post('/predict/batch', (req, res) => {
+    const patients = validateBatch(req.body);
+    const note = validateNote(req.body);
+    res.json({ modelVersion: service.artifact.version, results: patients.map(p => scoreAndLog(service, store, p, note)) });
+  });
+
+  router.get('/predictions', (req, res) => {
+    res.json(store.searchPredictions(validatePredictionQuery(req.query)));
+  });
+
+  router.post('/predictions', (req, res) => {
+    const { patient: { id, ...features }, family, ...prediction } = validatePredictionLog(req.body);
+    store.registerModel(prediction.modelVersion, family);
+    const logged = store.logPrediction({
+      ...prediction,
+      ...(id !== undefined && { externalId: String(id) }),
+      features,
+      source: 'app'
+    });
+    res.status(201).json(logged);
+  });
+
+  // Registered before '/predictions/:id' so these paths are not read as ids
+  router.get('/predictions/retrospective', (req, res) => {
+    res.json(store.retrospective(validatePredictionQuery(req.query)));
+  });
+
+  router.get('/predictions/timeline', (req, res) => {
+    const { bucket, ...query } = req.query;
+    res.json(store.timeline(validatePredictionQuery(query), validateBucket(bucket)));
+  });
+
+  router.get('/predictions/:id', (req, res) => {
+    const id = validateId(req.params.id);
+    const prediction = store.getPrediction(id);
+    if (!prediction) throw new HttpError(404, 'NOT_FOUND', `Prediction ${id} does not exist`);
+    res.json(prediction);
+  });
+
+  router.put('/predictions/:id/outcome', (req, res) => {
+    res.json(store.recordOutcome(validateId(req.params.id), validateOutcome(req.body)));
+  });
+
+  router.get('/models', (_req, res) => {
+    res.json(store.listModels());
+  });
+
+  router.get('/model', (_req, res) => {
+    res.json(service.modelInfo());
+  });
+
+  router.get('/cohort/summary', (_req, res) => {
+    res.json(service.cohortSummary());
+  });
+
+  router.use((req) => {
+    throw new HttpError(404, 'NOT_FOUND', `No route for ${req.method} ${req.originalUrl}`);
+  });
+
+  return router;
+}
+
+/** Every failure leaves the API as `{ error: { code, message, details } }`. */
+export function errorHandler(err: unknown, _req: Request, res: Response, _next: NextFunction) {
+  if (err instanceof HttpError) {
+    res.status(err.status).json({ error: { code: err.code, message: err.message, details: err.details } });
+    return;
+  }
+  // body-parser marks malformed JSON with type 'entity.parse.failed'
+  const bodyError = err as { type?: string; status?: number; message?: string };
+  if (bodyError?.type === 'entity.parse.failed') {
+    res.status(400).json({ error: { code: 'INVALID_JSON', message: 'Request body is not valid JSON', details: [] } });
+    return;
+  }
+  if (bodyError?.type === 'entity.too.large') {
+    res.status(413).json({ error: { code: 'PAYLOAD_TOO_LARGE', message: 'Request body is too large', details: [] } });
+    return;
+  }
+  console.error(err);
+  res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'Unexpected server error', details: [] } });
+}
@@ -0,0 +1,186 @@
+import Database from 'better-sqlite3';
+import { RiskBand } from '../src/utils/mlModel';
+import { PatientInput } from '../src/utils/explanation';
+import { ModelArtifact } from '../src/utils/modelArtifact';
+import {
+  OutcomePeriod, PredictionPage, PredictionQuery, PredictionRecord, RetrospectiveSummary, TimelineBucket,
+  outcomeTimeline, summarizeOutcomes
+} from '../src/utils/predictionLog';
+import { HttpError } from './validation';
+
+export interface NewPrediction {
+  externalId?: string;
+  features: PatientInput;
+  modelVersion: string;
+  probability: number;
+  rawProbability?: number;
+  band: RiskBand;
+  note?: string;
+  source: PredictionRecord['source'];
+}
+
+interface PredictionRow {
+  id: number;
+  patient_id: number | null;
+  external_id: string | null;
+  model_version: string;
+  features: string;
+  probability: number;
+  raw_probability: number | null;
+  band: RiskBand;
+  note: string | null;
+  source: PredictionRecord['source'];
+  created_at: string;
+  outcome: 0 | 1 | null;
+  outcome_recorded_at: string | null;
+}
+
+const SELECT_PREDICTIONS = `
+  SELECT pr.*, pa.external_id
+  FROM predictions pr
+  LEFT JOIN patients pa ON pa.id = pr.patient_id
+`;
+
+const toRecord = (row: PredictionRow): PredictionRecord => ({
+  id: row.id,
+  patientId: row.patient_id,
+  externalId: row.external_id,
+  modelVersion: row.model_version,
+  features: JSON.parse(row.features),
+  probability: row.probability,
+  rawProbability: row.raw_probability,
+  band: row.band,
+  note: row.note,
+  source: row.source,
+  createdAt: row.created_at,
+  outcome: row.outcome === null ? null : row.outcome === 1,
+  outcomeRecordedAt: row.outcome_recorded_at
+});
+
+const now = () => new Date().toISOString();
+
+// Patient columns written on every prediction, in the order of `upsertPatient`'s values
+const CORE_COLUMNS = ['age', 'delivery_type', 'labor_duration', 'complications', 'los', 'location'];
+// Nullable: a request that omits one leaves the stored value in place
+const EXTENDED_COLUMNS = ['hypertension', 'gestational_diabetes', 'hemorrhage', 'bmi', 'parity', 'gestational_age', 'preterm', 'prior_readmissions', 'payer'];
+const PATIENT_COLUMNS = [...CORE_COLUMNS, ...EXTENDED_COLUMNS];
+const PATIENT_PLACEHOLDERS = PATIENT_COLUMNS.map(() => '?').join(', ');
+
+/** Persistence for patients, model versions and the prediction audit log. */
+export class AuditStore {
+  constructor(private readonly db: Database.Database) {}
+
+  /** Record a model version; an artifact supplied later fills in a version first seen without one. */
+  public registerModel(version: string, family: string, artifact?: ModelArtifact): void {
+    this.db.prepare(`
+      INSERT INTO model_versions (version, family, artifact) VALUES (?, ?, ?)
+      ON CONFLICT(version) DO UPDATE SET artifact = COALESCE(model_versions.artifact, excluded.artifact)
+    `).run(version, family, artifact ? JSON.stringify(artifact) : null);
+  }
+
+  public listModels(): { version: string; family: string; registeredAt: string; predictions: number }[] {
+    return this.db.prepare(`
+      SELECT m.version, m.family, m.registered_at AS registeredAt, COUNT(p.id) AS predictions
+      FROM model_versions m LEFT JOIN predictions p ON p.model_version = m.version
+      GROUP BY m.version ORDER BY m.registered_at DESC
+    `).all() as { version: string; family: string; registeredAt: string; predictions: number }[];
+  }
+
+  /**
+   * Patients with an external id are upserted so repeat predictions share
+   * one row, keeping stored extended fields a repeat request omits;
+   * anonymous requests get a row of their own.
+   */
+  private upsertPatient(features: PatientInput, externalId?: string): number {
+    const flag = (v: boolean | undefined) => v === undefined ? null : v ? 1 : 0;
+    const values = [
+      features.age, features.deliveryType, features.laborDuration, features.complications ? 1 : 0, features.los, features.location,
+      features.hypertension ?? null, flag(features.gestationalDiabetes), flag(features.hemorrhage), features.bmi ?? null,
+      features.parity ?? null, features.gestationalAge ?? null, flag(features.preterm), features.priorReadmissions ?? null, features.payer ?? null
+    ];
+    if (externalId === undefined) {
+      return Number(this.db.prepare(`
+        INSERT INTO patients (${PATIENT_COLUMNS.join(', ')}) VALUES (${PATIENT_PLACEHOLDERS})
+      `).run(...values).lastInsertRowid);
+    }
+    return (this.db.prepare(`
+      INSERT INTO patients (external_id, ${PATIENT_COLUMNS.join(', ')}) VALUES (?, ${PATIENT_PLACEHOLDERS})
+      ON CONFLICT(external_id) DO UPDATE SET
+        ${CORE_COLUMNS.map(c => `${c} = excluded.${c}`).join(', ')},
+        ${EXTENDED_COLUMNS.map(c => `${c} = COALESCE(excluded.${c}, patients.${c})`).join(', ')},
+        updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+      RETURNING id
+    `).get(externalId, ...values) as { id: number }).id;
+  }
+
+  public logPrediction(p: NewPrediction): PredictionRecord {
+    const id = this.db.transaction(() => {
+      const patientId = this.upsertPatient(p.features, p.externalId);
+      return Number(this.db.prepare(`
+        INSERT INTO predictions (patient_id, model_version, features, probability, raw_probability, band, note, source, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(patientId, p.modelVersion, JSON.stringify(p.features), p.probability, p.rawProbability ?? null, p.band, p.note ?? null, p.source, now()).lastInsertRowid);
+    })();
+    return this.getPrediction(id)!;
+  }
+
+  public getPrediction(id: number): PredictionRecord | null {
+    const row = this.db.prepare(`${SELECT_PREDICTIONS} WHERE pr.id = ?`).get(id) as PredictionRow | undefined;
+    return row ? toRecord(row) : null;
+  }
+
+  private where(query: PredictionQuery) {
+    const clauses: string[] = [];
+    const params: unknown[] = [];
+    if (query.text) {
+      clauses.push(`(pa.external_id LIKE ? OR pr.note LIKE ?)`);
+      params.push(`%${query.text}%`, `%${query.text}%`);
+    }
+    if (query.band) { clauses.push('pr.band = ?'); params.push(query.band); }
+    if (query.modelVersion) { clauses.push('pr.model_version = ?'); params.push(query.modelVersion); }
+    if (query.outcome === 'recorded') clauses.push('pr.outcome IS NOT NULL');
+    if (query.outcome === 'pending') clauses.push('pr.outcome IS NULL');
+    if (query.from) { clauses.push('pr.created_at >= ?'); params.push(query.from); }
+    if (query.to) { clauses.push('pr.created_at <= ?'); params.push(query.to); }
+    return { sql: clauses.length ? `WHERE ${clauses.join(' AND ')}` : '', params };
+  }
+
+  public searchPredictions(query: PredictionQuery): PredictionPage {
+    const { sql, params } = this.where(query);
+    const { total } = this.db.prepare(`
+      SELECT COUNT(*) AS total FROM predictions pr LEFT JOIN patients pa ON pa.id = pr.patient_id ${sql}
+    `).get(...params) as { total: number };
+    const rows = this.db.prepare(`${SELECT_PREDICTIONS} ${sql} ORDER BY pr.created_at DESC, pr.id DESC LIMIT ? OFFSET ?`)
+      .all(...params, query.limit ?? 50, query.offset ?? 0) as PredictionRow[];
+    return { total, items: rows.map(toRecord) };
+  }
+
+  /** Record (or clear, with null) the observed outcome of a prediction and of its patient. */
+  public recordOutcome(id: number, readmitted: boolean | null): PredictionRecord {
+    const existing = this.getPrediction(id);
+    if (!existing) throw new HttpError(404, 'NOT_FOUND', `Prediction ${id} does not exist`);
+    const value = readmitted === null ? null : readmitted ? 1 : 0;
+    this.db.transaction(() => {
+      this.db.prepare('UPDATE predictions SET outcome = ?, outcome_recorded_at = ? WHERE id = ?')
+        .run(value, readmitted === null ? null : now(), id);
+      if (existing.patientId !== null) {
+        this.db.prepare(`UPDATE patients SET readmitted = ?, updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now') WHERE id = ?`)
+          .run(value, existing.patientId);
+      }
+    })();
+    return this.getPrediction(id)!;
+  }
+
+  private matching(query: PredictionQuery): PredictionRecord[] {
+    const { sql, params } = this.where(query);
+    return (this.db.prepare(`${SELECT_PREDICTIONS} ${sql}`).all(...params) as PredictionRow[]).map(toRecord);
+  }
+
+  public retrospective(query: PredictionQuery): RetrospectiveSummary {
+    return summarizeOutcomes(this.matching(query));
+  }
+
+  public timeline(query: PredictionQuery, bucket: TimelineBucket): OutcomePeriod[] {
+    return outcomeTimeline(this.matching(query), bucket);
+  }
+}
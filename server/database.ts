@@ -0,0 +1,86 @@
+import Database from 'better-sqlite3';
+import { mkdirSync } from 'node:fs';
+import { dirname } from 'node:path';
+
+/**
+ * Schema migrations, applied in order. `PRAGMA user_version` records how
+ * many have run, so each is applied exactly once per database file.
+ * Never edit a migration that has shipped; append a new one instead.
+ */
+const MIGRATIONS: string[] = [
+  // 1: patients, model versions and the prediction audit log
+  `
+  CREATE TABLE patients (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    external_id TEXT UNIQUE,
+    age REAL NOT NULL,
+    delivery_type TEXT NOT NULL CHECK (delivery_type IN ('Vaginal', 'Cesarean')),
+    labor_duration REAL NOT NULL,
+    complications INTEGER NOT NULL CHECK (complications IN (0, 1)),
+    los REAL NOT NULL,
+    location TEXT NOT NULL CHECK (location IN ('Urban', 'Rural')),
+    readmitted INTEGER CHECK (readmitted IN (0, 1)),
+    created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    updated_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+  );
+
+  CREATE TABLE model_versions (
+    version TEXT PRIMARY KEY,
+    family TEXT NOT NULL,
+    artifact TEXT,
+    registered_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+  );
+
+  CREATE TABLE predictions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    patient_id INTEGER REFERENCES patients(id),
+    model_version TEXT NOT NULL REFERENCES model_versions(version),
+    features TEXT NOT NULL,
+    probability REAL NOT NULL,
+    raw_probability REAL,
+    band TEXT NOT NULL CHECK (band IN ('low', 'moderate', 'high')),
+    note TEXT,
+    source TEXT NOT NULL DEFAULT 'api',
+    created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    outcome INTEGER CHECK (outcome IN (0, 1)),
+    outcome_recorded_at TEXT
+  );
+
+  CREATE INDEX predictions_created_at ON predictions(created_at);
+  CREATE INDEX predictions_patient ON predictions(patient_id);
+  CREATE INDEX predictions_model ON predictions(model_version);
+  `,
+  // 2: extended obstetric risk factors, nullable because callers may omit them
+  `
+  ALTER TABLE patients ADD COLUMN hypertension TEXT CHECK (hypertension IN ('None', 'Gestational', 'Preeclampsia'));
+  ALTER TABLE patients ADD COLUMN gestational_diabetes INTEGER CHECK (gestational_diabetes IN (0, 1));
+  ALTER TABLE patients ADD COLUMN hemorrhage INTEGER CHECK (hemorrhage IN (0, 1));
+  ALTER TABLE patients ADD COLUMN bmi REAL;
+  ALTER TABLE patients ADD COLUMN parity INTEGER;
+  ALTER TABLE patients ADD COLUMN gestational_age REAL;
+  ALTER TABLE patients ADD COLUMN preterm INTEGER CHECK (preterm IN (0, 1));
+  ALTER TABLE patients ADD COLUMN prior_readmissions INTEGER;
+  ALTER TABLE patients ADD COLUMN payer TEXT CHECK (payer IN ('Private', 'Medicaid', 'Uninsured'));
+  `
+];
+
+export function migrate(db: Database.Database): number {
+  const current = db.pragma('user_version', { simple: true }) as number;
+  for (let v = current; v < MIGRATIONS.length; v++) {
+    db.transaction(() => {
+      db.exec(MIGRATIONS[v]);
+      db.pragma(`user_version = ${v + 1}`);
+    })();
+  }
+  return MIGRATIONS.length;
+}
+
+/** Open (creating if needed) and migrate the database at `path`; ':memory:' works for tests and demos. */
+export function openDatabase(path: string): Database.Database {
+  if (path !== ':memory:') mkdirSync(dirname(path), { recursive: true });
+  const db = new Database(path);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+  migrate(db);
+  return db;
+}
@@ -0,0 +1,71 @@
+import 'dotenv/config';
+import { readFile } from 'node:fs/promises';
+import express from 'express';
+import { ScoringService } from './scoringService';
+import { createApiRouter, errorHandler } from './api';
+import { AuditStore } from './auditStore';
+import { openDatabase } from './database';
+import { CALIBRATION_LABELS, CalibrationMethod } from '../src/utils/calibration';
+import { BandCutoffs } from '../src/utils/mlModel';
+import { Patient } from '../src/utils/dataGenerator';
+import { autoMapColumns, mapRowsToPatients, parseCsv } from '../src/utils/csvImport';
+
+const PORT = Number(process.env.API_PORT ?? 3001);
+const DATABASE_PATH = process.env.DATABASE_PATH || 'data/matrisk.db';
+
+/** RISK_BAND_CUTOFFS="0.3,0.6": lower bounds of the moderate and high bands. */
+function parseCutoffs(raw: string | undefined): BandCutoffs | undefined {
+  if (!raw) return undefined;
+  const [moderate, high] = raw.split(',').map(Number);
+  if (!(moderate > 0 && moderate < high && high < 1)) {
+    throw new Error(`RISK_BAND_CUTOFFS must be "moderate,high" with 0 < moderate < high < 1, got "${raw}"`);
+  }
+  return { moderate, high };
+}
+
+/** MODEL_CALIBRATION="isotonic": one of the app's calibration methods. */
+function parseCalibration(raw: string | undefined): CalibrationMethod {
+  if (!raw) return 'platt';
+  const methods = Object.keys(CALIBRATION_LABELS) as CalibrationMethod[];
+  if (!methods.includes(raw as CalibrationMethod)) {
+    throw new Error(`MODEL_CALIBRATION must be one of ${methods.join(', ')}, got "${raw}"`);
+  }
+  return raw as CalibrationMethod;
+}
+
+/** CALIBRATION_COHORT: a CSV extract with outcomes, columns mapped as in the app's importer. */
+async function loadCohort(path: string | undefined): Promise<Patient[] | undefined> {
+  if (!path) return undefined;
+  const csv = parseCsv(await readFile(path, 'utf8'));
+  const { patients, rejected } = mapRowsToPatients(csv, autoMapColumns(csv.headers));
+  if (rejected.length > 0) {
+    throw new Error(`CALIBRATION_COHORT ${path}: ${rejected.length} rows rejected, first on line ${rejected[0].line}: ${rejected[0].errors.join('; ')}`);
+  }
+  if (patients.length === 0) throw new Error(`CALIBRATION_COHORT ${path} has no patients`);
+  return patients;
+}
+
+async function main() {
+  const service = await ScoringService.create({
+    artifactPath: process.env.MODEL_ARTIFACT || undefined,
+    calibration: parseCalibration(process.env.MODEL_CALIBRATION),
+    cutoffs: parseCutoffs(process.env.RISK_BAND_CUTOFFS),
+    calibrationCohort: await loadCohort(process.env.CALIBRATION_COHORT || undefined)
+  });
+  const store = new AuditStore(openDatabase(DATABASE_PATH));
+  store.registerModel(service.artifact.version, service.artifact.model.family, service.artifact);
+
+  const app = express();
+  app.use(express.json({ limit: '1mb' }));
+  app.use('/api', createApiRouter(service, store));
+  app.use(errorHandler);
+
+  app.listen(PORT, () => {
+    console.log(`MatRisk API listening on http://localhost:${PORT}/api (model ${service.artifact.version})`);
+  });
+}
+
+main().catch(err => {
+  console.error('Failed to start the API:', err);
+  process.exit(1);
+});
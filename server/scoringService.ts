@@ -0,0 +1,131 @@
+import { readFile } from 'node:fs/promises';
+import { DEFAULT_SCENARIO, Patient, generateMaternityData } from '../src/utils/dataGenerator';
+import { APP_MODEL_OPTIONS, BandCutoffs, DEFAULT_BAND_CUTOFFS, MODEL_NAME, LogisticRegression, RiskBand, riskBand } from '../src/utils/mlModel';
+import { Classifier, deserializeClassifier, fitOnPatients, predictPatient } from '../src/utils/classifier';
+import { evaluateModel, splitCohort } from '../src/utils/evaluation';
+import { CalibrationMethod, Calibrator, applyCalibration, fitCalibrator } from '../src/utils/calibration';
+import { FeatureContribution, PatientInput, explainPrediction, meanFeatureVector } from '../src/utils/explanation';
+import { AUDIT_DIMENSIONS } from '../src/utils/fairness';
+import { ModelArtifact, createArtifact, parseArtifact } from '../src/utils/modelArtifact';
+
+export interface ScoringServiceOptions {
+  /** Path to a model artifact exported from the registry; trains a fresh model when omitted */
+  artifactPath?: string;
+  /** Method used whenever the service fits a calibrator itself */
+  calibration: CalibrationMethod;
+  /** Band cut-offs saved under Decision Thresholds in the app; the defaults when omitted */
+  cutoffs?: BandCutoffs;
+  /** Cohort a fresh model is trained and evaluated on, and the cohort summary describes */
+  cohort?: Patient[];
+  /**
+   * Patients the model was not trained on, to fit the calibrator on. Without
+   * one, a served artifact keeps the calibrator saved with it and a fresh
+   * model is calibrated on out-of-fold training scores.
+   */
+  calibrationCohort?: Patient[];
+}
+
+export interface Score {
+  probability: number;
+  rawProbability: number;
+  band: RiskBand;
+  explanation: {
+    method: 'exact' | 'occlusion';
+    baseline: number;
+    contributions: FeatureContribution[];
+  };
+}
+
+export interface GroupSummary {
+  group: string;
+  n: number;
+  readmitted: number;
+  readmissionRate: number;
+}
+
+export interface CohortSummary {
+  size: number;
+  readmitted: number;
+  readmissionRate: number;
+  age: { mean: number; min: number; max: number };
+  los: { mean: number; min: number; max: number };
+  groups: { dimension: string; groups: GroupSummary[] }[];
+}
+
+const mean = (values: number[]) => values.reduce((s, v) => s + v, 0) / Math.max(1, values.length);
+const range = (values: number[]) => ({ mean: mean(values), min: Math.min(...values), max: Math.max(...values) });
+
+/**
+ * The model behind the REST API. A served artifact is used exactly as
+ * saved, metadata and held-out metrics included; a fresh model mirrors what
+ * the browser app does: evaluate on the cohort's stratified split and
+ * calibrate on out-of-fold training scores. Explanations are against the
+ * cohort's training-split mean.
+ */
+export class ScoringService {
+  private constructor(
+    private readonly model: Classifier,
+    private readonly calibrator: Calibrator,
+    private readonly reference: number[],
+    private readonly cohort: Patient[],
+    public readonly artifact: ModelArtifact,
+    public readonly cutoffs: BandCutoffs
+  ) {}
+
+  public static async create({
+    artifactPath, calibration, cutoffs = DEFAULT_BAND_CUTOFFS, cohort = generateMaternityData(DEFAULT_SCENARIO), calibrationCohort
+  }: ScoringServiceOptions): Promise<ScoringService> {
+    const split = splitCohort(cohort);
+    const fitOn = (model: Classifier, patients: Patient[], scores = patients.map(p => predictPatient(model, p))) =>
+      fitCalibrator(calibration, patients.map(p => p.readmitted ? 1 : 0), scores);
+
+    if (artifactPath) {
+      const artifact = parseArtifact(await readFile(artifactPath, 'utf8'));
+      const model = deserializeClassifier(artifact.model);
+      let calibrator = artifact.calibrator;
+      if (calibrationCohort) calibrator = fitOn(model, calibrationCohort);
+      if (!calibrator) {
+        throw new Error(`Artifact ${artifact.version} has no saved calibrator; provide a calibration cohort the model was not trained on`);
+      }
+      return new ScoringService(model, calibrator, meanFeatureVector(model, split.train), cohort, artifact, cutoffs);
+    }
+
+    const model = fitOnPatients(new LogisticRegression(APP_MODEL_OPTIONS), split.train);
+    const evaluation = evaluateModel(model, split, cohort);
+    const calibrator = calibrationCohort ? fitOn(model, calibrationCohort) : fitOn(model, split.train, evaluation.calibrationScores);
+    const version = `${MODEL_NAME}-${model.family}-${Date.now().toString(36)}`;
+    const artifact = createArtifact({ model, version, trainingData: split.train, evaluation, calibrator });
+    return new ScoringService(model, calibrator, meanFeatureVector(model, split.train), cohort, artifact, cutoffs);
+  }
+
+  public score(input: PatientInput): Score {
+    const rawProbability = predictPatient(this.model, input);
+    const probability = applyCalibration(this.calibrator, rawProbability);
+    const { method, baseline, contributions } = explainPrediction(this.model, input, this.reference);
+    return { probability, rawProbability, band: riskBand(probability, this.cutoffs), explanation: { method, baseline, contributions } };
+  }
+
+  public modelInfo() {
+    const { version, createdAt, model, featureSchema, trainingData, metrics } = this.artifact;
+    return { version, createdAt, family: model.family, calibration: this.calibrator.method, bandCutoffs: this.cutoffs, featureSchema, pipeline: model.pipeline, trainingData, metrics };
+  }
+
+  public cohortSummary(): CohortSummary {
+    const readmitted = this.cohort.filter(p => p.readmitted).length;
+    return {
+      size: this.cohort.length,
+      readmitted,
+      readmissionRate: readmitted / Math.max(1, this.cohort.length),
+      age: range(this.cohort.map(p => p.age)),
+      los: range(this.cohort.map(p => p.los)),
+      groups: AUDIT_DIMENSIONS.map(d => ({
+        dimension: d.label,
+        groups: d.groups.map(g => {
+          const members = this.cohort.filter(g.test);
+          const positives = members.filter(p => p.readmitted).length;
+          return { group: g.label, n: members.length, readmitted: positives, readmissionRate: positives / Math.max(1, members.length) };
+        })
+      }))
+    };
+  }
+}
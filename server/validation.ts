@@ -0,0 +1,234 @@
+import { AGE_RANGE, BMI_RANGE, GESTATIONAL_AGE_RANGE, PRETERM_WEEKS } from '../src/utils/csvImport';
+import { PatientInput } from '../src/utils/explanation';
+import { RiskBand } from '../src/utils/mlModel';
+import { PredictionQuery, TimelineBucket } from '../src/utils/predictionLog';
+
+export interface FieldError {
+  path: string;
+  message: string;
+}
+
+/** An error that the API turns into a structured JSON response. */
+export class HttpError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly code: string,
+    message: string,
+    public readonly details: FieldError[] = []
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+export const MAX_BATCH_SIZE = 1000;
+
+const RISK_BANDS: RiskBand[] = ['low', 'moderate', 'high'];
+
+export interface ScoringRequest extends PatientInput {
+  /** Caller's identifier, echoed back unchanged */
+  id?: string | number;
+}
+
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isCount = (v: unknown) => isNumber(v) && Number.isInteger(v) && v >= 0;
+const inRange = (range: { min: number; max: number }) => (v: unknown) => isNumber(v) && v >= range.min && v <= range.max;
+
+/** Extended risk factors: each may be omitted or null, and is imputed by the model's feature pipeline. */
+const OPTIONAL_FIELDS: { field: keyof PatientInput; valid: (v: unknown) => boolean; message: string }[] = [
+  { field: 'hypertension', valid: v => v === 'None' || v === 'Gestational' || v === 'Preeclampsia', message: 'must be "None", "Gestational" or "Preeclampsia"' },
+  { field: 'gestationalDiabetes', valid: v => typeof v === 'boolean', message: 'must be true or false' },
+  { field: 'hemorrhage', valid: v => typeof v === 'boolean', message: 'must be true or false' },
+  { field: 'bmi', valid: inRange(BMI_RANGE), message: `must be between ${BMI_RANGE.min} and ${BMI_RANGE.max}` },
+  { field: 'parity', valid: isCount, message: 'must be a non-negative integer' },
+  { field: 'gestationalAge', valid: inRange(GESTATIONAL_AGE_RANGE), message: `must be between ${GESTATIONAL_AGE_RANGE.min} and ${GESTATIONAL_AGE_RANGE.max} weeks` },
+  { field: 'preterm', valid: v => typeof v === 'boolean', message: 'must be true or false' },
+  { field: 'priorReadmissions', valid: isCount, message: 'must be a non-negative integer' },
+  { field: 'payer', valid: v => v === 'Private' || v === 'Medicaid' || v === 'Uninsured', message: 'must be "Private", "Medicaid" or "Uninsured"' }
+];
+
+/** Validate one patient object, appending problems to `errors` with paths under `prefix`. */
+function checkPatient(body: unknown, prefix: string, errors: FieldError[]): ScoringRequest | null {
+  const at = (field: string) => prefix ? `${prefix}.${field}` : field;
+  if (!isObject(body)) {
+    errors.push({ path: prefix || '$', message: 'must be a JSON object' });
+    return null;
+  }
+  const before = errors.length;
+  const { id, age, deliveryType, laborDuration, complications, los, location } = body;
+
+  if (id !== undefined && typeof id !== 'string' && !isNumber(id)) errors.push({ path: at('id'), message: 'must be a string or number' });
+  if (!isNumber(age)) errors.push({ path: at('age'), message: 'must be a number' });
+  else if (age < AGE_RANGE.min || age > AGE_RANGE.max) errors.push({ path: at('age'), message: `must be between ${AGE_RANGE.min} and ${AGE_RANGE.max}` });
+  if (deliveryType !== 'Vaginal' && deliveryType !== 'Cesarean') errors.push({ path: at('deliveryType'), message: 'must be "Vaginal" or "Cesarean"' });
+  if (!isNumber(laborDuration) || laborDuration < 0) errors.push({ path: at('laborDuration'), message: 'must be a non-negative number of hours' });
+  if (typeof complications !== 'boolean') errors.push({ path: at('complications'), message: 'must be true or false' });
+  if (!isNumber(los) || los < 0) errors.push({ path: at('los'), message: 'must be a non-negative number of days' });
+  if (location !== 'Urban' && location !== 'Rural') errors.push({ path: at('location'), message: 'must be "Urban" or "Rural"' });
+  const extended: Record<string, unknown> = {};
+  OPTIONAL_FIELDS.forEach(({ field, valid, message }) => {
+    const v = body[field];
+    if (v === undefined || v === null) return;
+    if (valid(v)) extended[field] = v;
+    else errors.push({ path: at(field), message });
+  });
+  if (extended.preterm === undefined && extended.gestationalAge !== undefined) {
+    extended.preterm = (extended.gestationalAge as number) < PRETERM_WEEKS;
+  }
+
+  if (errors.length > before) return null;
+  return {
+    ...(id !== undefined && { id: id as string | number }),
+    age: age as number,
+    deliveryType: deliveryType as ScoringRequest['deliveryType'],
+    laborDuration: laborDuration as number,
+    complications: complications as boolean,
+    los: los as number,
+    location: location as ScoringRequest['location'],
+    ...extended
+  };
+}
+
+export function validatePatient(body: unknown): ScoringRequest {
+  const errors: FieldError[] = [];
+  const patient = checkPatient(body, '', errors);
+  if (!patient) throw new HttpError(422, 'VALIDATION_ERROR', 'Patient failed validation', errors);
+  return patient;
+}
+
+/** A batch is scored only if every patient in it is valid; all errors are reported at once. */
+export function validateBatch(body: unknown): ScoringRequest[] {
+  if (!isObject(body) || !Array.isArray(body.patients)) {
+    throw new HttpError(422, 'VALIDATION_ERROR', 'Batch failed validation', [{ path: 'patients', message: 'must be an array of patients' }]);
+  }
+  if (body.patients.length === 0 || body.patients.length > MAX_BATCH_SIZE) {
+    throw new HttpError(422, 'VALIDATION_ERROR', 'Batch failed validation', [{ path: 'patients', message: `must contain 1 to ${MAX_BATCH_SIZE} patients` }]);
+  }
+  const errors: FieldError[] = [];
+  const patients = body.patients.map((p, i) => checkPatient(p, `patients[${i}]`, errors));
+  if (errors.length > 0) throw new HttpError(422, 'VALIDATION_ERROR', 'Batch failed validation', errors);
+  return patients as ScoringRequest[];
+}
+
+export const MAX_NOTE_LENGTH = 2000;
+
+/** Optional free-text note attached to a logged prediction. */
+function checkNote(note: unknown, path: string, errors: FieldError[]): string | undefined {
+  if (note === undefined || note === null || note === '') return undefined;
+  if (typeof note !== 'string') errors.push({ path, message: 'must be a string' });
+  else if (note.length > MAX_NOTE_LENGTH) errors.push({ path, message: `must be at most ${MAX_NOTE_LENGTH} characters` });
+  else return note;
+  return undefined;
+}
+
+export function validateNote(body: unknown): string | undefined {
+  const errors: FieldError[] = [];
+  const note = checkNote(isObject(body) ? body.note : undefined, 'note', errors);
+  if (errors.length > 0) throw new HttpError(422, 'VALIDATION_ERROR', 'Note failed validation', errors);
+  return note;
+}
+
+export interface PredictionLogRequest {
+  patient: ScoringRequest;
+  modelVersion: string;
+  family: string;
+  probability: number;
+  rawProbability?: number;
+  band: RiskBand;
+  note?: string;
+}
+
+const isProbability = (v: unknown): v is number => isNumber(v) && v >= 0 && v <= 1;
+
+/** A prediction made outside the API (by the browser app) that should still be audited. */
+export function validatePredictionLog(body: unknown): PredictionLogRequest {
+  if (!isObject(body)) {
+    throw new HttpError(422, 'VALIDATION_ERROR', 'Prediction failed validation', [{ path: '$', message: 'must be a JSON object' }]);
+  }
+  const errors: FieldError[] = [];
+  const patient = checkPatient(body.patient, 'patient', errors);
+  const { modelVersion, family, probability, rawProbability, band } = body;
+  if (typeof modelVersion !== 'string' || !modelVersion) errors.push({ path: 'modelVersion', message: 'must be a non-empty string' });
+  if (typeof family !== 'string' || !family) errors.push({ path: 'family', message: 'must be a non-empty string' });
+  if (!isProbability(probability)) errors.push({ path: 'probability', message: 'must be a number between 0 and 1' });
+  if (rawProbability !== undefined && !isProbability(rawProbability)) errors.push({ path: 'rawProbability', message: 'must be a number between 0 and 1' });
+  if (!RISK_BANDS.includes(band as RiskBand)) errors.push({ path: 'band', message: `must be one of ${RISK_BANDS.join(', ')}` });
+  const note = checkNote(body.note, 'note', errors);
+  if (errors.length > 0) throw new HttpError(422, 'VALIDATION_ERROR', 'Prediction failed validation', errors);
+  return {
+    patient: patient!,
+    modelVersion: modelVersion as string,
+    family: family as string,
+    probability: probability as number,
+    ...(rawProbability !== undefined && { rawProbability: rawProbability as number }),
+    band: band as RiskBand,
+    ...(note !== undefined && { note })
+  };
+}
+
+export function validateOutcome(body: unknown): boolean | null {
+  if (!isObject(body) || (typeof body.readmitted !== 'boolean' && body.readmitted !== null)) {
+    throw new HttpError(422, 'VALIDATION_ERROR', 'Outcome failed validation', [{ path: 'readmitted', message: 'must be true, false or null' }]);
+  }
+  return body.readmitted as boolean | null;
+}
+
+export function validateId(raw: string): number {
+  const id = Number(raw);
+  if (!Number.isInteger(id) || id < 1) {
+    throw new HttpError(422, 'VALIDATION_ERROR', 'Invalid id', [{ path: 'id', message: 'must be a positive integer' }]);
+  }
+  return id;
+}
+
+const isTimestamp = (v: string) => !Number.isNaN(Date.parse(v));
+
+/** Search parameters for the prediction log, read from the query string. */
+export function validatePredictionQuery(query: Record<string, unknown>): PredictionQuery {
+  const errors: FieldError[] = [];
+  const str = (key: string) => typeof query[key] === 'string' && query[key] !== '' ? query[key] as string : undefined;
+  const result: PredictionQuery = {};
+
+  const text = str('q');
+  if (text) result.text = text;
+  const band = str('band');
+  if (band !== undefined) {
+    if (RISK_BANDS.includes(band as RiskBand)) result.band = band as RiskBand;
+    else errors.push({ path: 'band', message: `must be one of ${RISK_BANDS.join(', ')}` });
+  }
+  const modelVersion = str('model');
+  if (modelVersion) result.modelVersion = modelVersion;
+  const outcome = str('outcome');
+  if (outcome !== undefined) {
+    if (outcome === 'recorded' || outcome === 'pending') result.outcome = outcome;
+    else errors.push({ path: 'outcome', message: 'must be "recorded" or "pending"' });
+  }
+  for (const key of ['from', 'to'] as const) {
+    const value = str(key);
+    if (value === undefined) continue;
+    if (isTimestamp(value)) result[key] = new Date(value).toISOString();
+    else errors.push({ path: key, message: 'must be an ISO 8601 date or timestamp' });
+  }
+  const limit = str('limit');
+  if (limit !== undefined) {
+    const n = Number(limit);
+    if (Number.isInteger(n) && n >= 1 && n <= 500) result.limit = n;
+    else errors.push({ path: 'limit', message: 'must be an integer from 1 to 500' });
+  }
+  const offset = str('offset');
+  if (offset !== undefined) {
+    const n = Number(offset);
+    if (Number.isInteger(n) && n >= 0) result.offset = n;
+    else errors.push({ path: 'offset', message: 'must be a non-negative integer' });
+  }
+
+  if (errors.length > 0) throw new HttpError(422, 'VALIDATION_ERROR', 'Query failed validation', errors);
+  return result;
+}
+
+export function validateBucket(raw: unknown): TimelineBucket {
+  if (raw === undefined || raw === '') return 'week';
+  if (raw === 'day' || raw === 'week' || raw === 'month') return raw;
+  throw new HttpError(422, 'VALIDATION_ERROR', 'Query failed validation', [{ path: 'bucket', message: 'must be "day", "week" or "month"' }]);
+}
@@ -1,68 +1,447 @@
-import React, { useState, useMemo, useEffect } from 'react';
+import React, { useState, useMemo, useEffect, useCallback, useRef } from 'react';
 import { 
   BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, 
-  PieChart, Pie, Cell, LineChart, Line, AreaChart, Area 
+  LineChart, Line, AreaChart, Area 
 } from 'recharts';
 import { 
   Activity, Users, AlertCircle, CheckCircle2, ShieldCheck, 
   LayoutDashboard, BarChart3, Settings, Info, ChevronRight,
-  Stethoscope, MapPin, Clock, Baby, Scale, FileText, PlayCircle
+  Stethoscope, MapPin, Clock, Baby, FileText, PlayCircle, Database, FileJson, Target, RefreshCw, GitCompare, Archive, History, ClipboardList, SlidersHorizontal, Radar
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'motion/react';
-import { generateMaternityData, Patient } from './utils/dataGenerator';
-import { LogisticRegression, preprocessPatient } from './utils/mlModel';
-
-// --- Components ---
-
-const Card = ({ children, className = "" }: { children: React.ReactNode, className?: string }) => (
-  <div className={`bg-white rounded-2xl border border-slate-200 shadow-sm overflow-hidden ${className}`}>
-    {children}
-  </div>
-);
-
-const StatCard = ({ title, value, icon: Icon, color }: { title: string, value: string | number, icon: any, color: string }) => (
-  <Card className="p-6">
-    <div className="flex items-center justify-between">
-      <div>
-        <p className="text-sm font-medium text-slate-500 uppercase tracking-wider">{title}</p>
-        <h3 className="text-3xl font-bold mt-1 text-slate-900">{value}</h3>
-      </div>
-      <div className={`p-3 rounded-xl ${color}`}>
-        <Icon className="w-6 h-6 text-white" />
-      </div>
-    </div>
-  </Card>
-);
+import { generateMaternityData, HypertensiveDisorder, Patient, Payer, ScenarioConfig, DEFAULT_SCENARIO } from './utils/dataGenerator';
+import { LogisticRegression, LogisticRegressionOptions, APP_MODEL_OPTIONS, DEFAULT_BAND_CUTOFFS, riskBand, MODEL_NAME } from './utils/mlModel';
+import { Classifier, MODEL_FAMILIES, ModelFamily, predictPatient } from './utils/classifier';
+import { ComparisonEntry } from './utils/modelComparison';
+import { ModelEvaluation, atOperatingPoint } from './utils/evaluation';
+import { AuditDimension, DEFAULT_FAIRNESS_OPTIONS, FairnessAuditOptions, fairnessAudit } from './utils/fairness';
+import { MitigationResult } from './utils/mitigation';
+import { FairnessGapIntervals, predictionInterval } from './utils/bootstrap';
+import { buildModelCard } from './utils/modelCard';
+import { DEPENDENCE_FEATURES, partialDependence, permutationImportance } from './utils/interpretability';
+import { PatientInput, explainPrediction, findCounterfactual, meanFeatureVector } from './utils/explanation';
+import { TrainingClient, TrainingResult } from './utils/trainingClient';
+import { ModelArtifact, artifactFileName, createArtifact, fingerprintCohort, parseArtifact } from './utils/modelArtifact';
+import {
+  deleteArtifact, getActiveVersion, getArtifact, getDecisionPolicy, listArtifacts, saveArtifact, saveDecisionPolicy, setActiveVersion
+} from './utils/modelRegistry';
+import { DEFAULT_COST_SETTINGS, DecisionPolicy } from './utils/thresholds';
+import { DEFAULT_DRIFT_THRESHOLDS, DriftThresholds } from './utils/drift';
+import { CalibrationMethod, CALIBRATION_LABELS, Calibrator, applyCalibration, compareCalibration } from './utils/calibration';
+import { FhirImportResult, toRiskAssessment, toRiskAssessmentBundle } from './utils/fhir';
+import { downloadText } from './utils/download';
+import { logPrediction } from './utils/apiClient';
+import { FOLLOW_UP } from './utils/worklist';
+import { Card, StatCard } from './components/ui';
+import { ScenarioEditor } from './components/ScenarioEditor';
+import { CsvImporter } from './components/CsvImporter';
+import { FhirImporter } from './components/FhirImporter';
+import { EvaluationView, pct } from './components/EvaluationView';
+import { CalibrationView } from './components/CalibrationView';
+import { TrainingMonitor, TrainingState, INITIAL_TRAINING_STATE, isTrainingBusy } from './components/TrainingMonitor';
+import { TrainingSettings } from './components/TrainingSettings';
+import { ModelComparisonView } from './components/ModelComparisonView';
+import { ModelRegistryPanel } from './components/ModelRegistryPanel';
+import { PredictionExplanationView } from './components/PredictionExplanationView';
+import { FeatureImportanceView } from './components/FeatureImportanceView';
+import { RiskFactorCharts } from './components/RiskFactorCharts';
+import { CohortExplorer } from './components/CohortExplorer';
+import { CohortBuilder } from './components/CohortBuilder';
+import { explorerVariable, summarizeBy } from './utils/cohortExplorer';
+import { AuditPopulation, FairnessControls, FairnessGroupTables } from './components/FairnessAuditView';
+import { MitigationView } from './components/MitigationView';
+import { PredictionHistoryView } from './components/PredictionHistoryView';
+import { DischargeWorklist } from './components/DischargeWorklist';
+import { ThresholdView } from './components/ThresholdView';
+import { MonitoringView } from './components/MonitoringView';
+import { ModelCardPanel } from './components/ModelCardPanel';
+import { CarePlanDraft } from './components/CarePlanDraft';
 
 // --- Main App ---
 
 export default function App() {
-  const [activeTab, setActiveTab] = useState<'dashboard' | 'eda' | 'model' | 'ethics' | 'submit'>('dashboard');
+  const [activeTab, setActiveTab] = useState<'dashboard' | 'data' | 'eda' | 'model' | 'worklist' | 'evaluation' | 'thresholds' | 'compare' | 'registry' | 'history' | 'monitoring' | 'ethics' | 'submit'>('dashboard');
   const [data, setData] = useState<Patient[]>([]);
-  const [model, setModel] = useState<LogisticRegression | null>(null);
-  const [predictionInput, setPredictionInput] = useState({
+  const [model, setModel] = useState<Classifier | null>(null);
+  const [evaluation, setEvaluation] = useState<ModelEvaluation | null>(null);
+  const [split, setSplit] = useState<{ train: Patient[], test: Patient[] }>({ train: [], test: [] });
+  const [calibrationMethod, setCalibrationMethod] = useState<CalibrationMethod>('platt');
+  // Calibrator saved with an activated artifact; served until a retrain or recalibration
+  const [savedCalibrator, setSavedCalibrator] = useState<Calibrator | null>(null);
+  const [scenario, setScenario] = useState<ScenarioConfig>(DEFAULT_SCENARIO);
+  const [dataSource, setDataSource] = useState<'synthetic' | 'imported'>('synthetic');
+  const [imported, setImported] = useState<{ patients: Patient[], fileName: string, fhirReferences?: Record<number, string> } | null>(null);
+  const [modelVersion, setModelVersion] = useState('');
+  const [fhirPatientRef, setFhirPatientRef] = useState('');
+  const [predictionInput, setPredictionInput] = useState<PatientInput>({
     age: 28,
-    deliveryType: 'Vaginal' as 'Vaginal' | 'Cesarean',
+    deliveryType: 'Vaginal',
     laborDuration: 12,
     complications: false,
     los: 3,
-    location: 'Urban' as 'Urban' | 'Rural'
+    location: 'Urban',
+    hypertension: 'None',
+    gestationalDiabetes: false,
+    hemorrhage: false,
+    bmi: 26,
+    parity: 1,
+    gestationalAge: 39,
+    preterm: false,
+    priorReadmissions: 0,
+    payer: 'Private'
   });
-  const [predictionResult, setPredictionResult] = useState<number | null>(null);
+  const [rawPrediction, setRawPrediction] = useState<number | null>(null);
+  const [predictedInput, setPredictedInput] = useState<PatientInput | null>(null);
+  const [predictionNote, setPredictionNote] = useState('');
+  const [predictionLog, setPredictionLog] = useState<{ id: number | null, saving: boolean, error: string | null }>({ id: null, saving: false, error: null });
+  const [training, setTraining] = useState<TrainingState>(INITIAL_TRAINING_STATE);
+  const [modelOptions, setModelOptions] = useState<LogisticRegressionOptions>(APP_MODEL_OPTIONS);
+  const [comparison, setComparison] = useState<{ entries: ComparisonEntry[] | null, running: boolean, error: string | null }>({ entries: null, running: false, error: null });
+  const [fairnessOptions, setFairnessOptions] = useState<FairnessAuditOptions>(DEFAULT_FAIRNESS_OPTIONS);
+  const [auditPopulation, setAuditPopulation] = useState<AuditPopulation>('test');
+  const [mitigation, setMitigation] = useState<{ result: MitigationResult | null, running: boolean, error: string | null }>({ result: null, running: false, error: null });
+  const [mitigationSettings, setMitigationSettings] = useState<{ dimension: AuditDimension['key'], fairnessPenalty: number }>({ dimension: 'deliveryType', fairnessPenalty: 5 });
+  const [artifacts, setArtifacts] = useState<ModelArtifact[]>([]);
+  const [registryError, setRegistryError] = useState<string | null>(null);
+  const [decisionPolicy, setDecisionPolicy] = useState<DecisionPolicy>({ cutoffs: DEFAULT_BAND_CUTOFFS, costs: DEFAULT_COST_SETTINGS });
+  const [policyError, setPolicyError] = useState<string | null>(null);
+  const [driftThresholds, setDriftThresholds] = useState<DriftThresholds>(DEFAULT_DRIFT_THRESHOLDS);
+  const [fairnessGapIntervals, setFairnessGapIntervals] = useState<FairnessGapIntervals | null>(null);
+  const [uncertainty, setUncertainty] = useState<{ models: Classifier[] | null, completed: number, total: number, error: string | null }>({ models: null, completed: 0, total: 0, error: null });
+  const trainingClient = useRef<TrainingClient | null>(null);
+  const comparisonClient = useRef<TrainingClient | null>(null);
+  const mitigationClient = useRef<TrainingClient | null>(null);
+  const bootstrapClient = useRef<TrainingClient | null>(null);
+  const fairnessClient = useRef<TrainingClient | null>(null);
+
+  // Workers are created lazily and torn down on unmount; comparisons,
+  // mitigation runs, bootstrap refits and fairness resampling get their own
+  // workers so they never cancel a training run.
+  const getTrainingClient = () => {
+    if (!trainingClient.current) trainingClient.current = new TrainingClient();
+    return trainingClient.current;
+  };
+  const getComparisonClient = () => {
+    if (!comparisonClient.current) comparisonClient.current = new TrainingClient();
+    return comparisonClient.current;
+  };
+  const getMitigationClient = () => {
+    if (!mitigationClient.current) mitigationClient.current = new TrainingClient();
+    return mitigationClient.current;
+  };
+  const getBootstrapClient = () => {
+    if (!bootstrapClient.current) bootstrapClient.current = new TrainingClient();
+    return bootstrapClient.current;
+  };
+  const getFairnessClient = () => {
+    if (!fairnessClient.current) fairnessClient.current = new TrainingClient();
+    return fairnessClient.current;
+  };
+
+  useEffect(() => () => {
+    trainingClient.current?.dispose();
+    trainingClient.current = null;
+    comparisonClient.current?.dispose();
+    comparisonClient.current = null;
+    mitigationClient.current?.dispose();
+    mitigationClient.current = null;
+    bootstrapClient.current?.dispose();
+    bootstrapClient.current = null;
+    fairnessClient.current?.dispose();
+    fairnessClient.current = null;
+  }, []);
 
-  // Initialize data and model
+  // Bootstrap refits of the active model, for individual prediction
+  // intervals; restarted (cancelling any run in progress) when the model changes.
   useEffect(() => {
-    const rawData = generateMaternityData(500);
+    setUncertainty({ models: null, completed: 0, total: 0, error: null });
+    if (!model || split.train.length === 0) return;
+    getBootstrapClient().bootstrap(split.train, model.serialize(), {
+      onProgress: (completed, total) => setUncertainty(u => ({ ...u, completed, total })),
+      onDone: (models) => setUncertainty(u => ({ ...u, models })),
+      onError: (message) => setUncertainty(u => ({ ...u, error: message }))
+    });
+  }, [model, split]);
+
+  const adoptModel = ({ model: next, evaluation: result, train, test }: TrainingResult, version: string) => {
+    setModel(next);
+    setEvaluation(result);
+    setSplit({ train, test });
+    setModelVersion(version);
+    setSavedCalibrator(null);
+    setRawPrediction(null);
+    setTraining(t => ({ ...t, status: 'idle' }));
+    clearMitigation();
+  };
+
+  const clearMitigation = () => {
+    mitigationClient.current?.cancel();
+    setMitigation({ result: null, running: false, error: null });
+  };
+
+  const resetForCohort = (rawData: Patient[], status: TrainingState['status']) => {
     setData(rawData);
+    setTraining({ status, totalEpochs: 0, lossCurve: [] });
+    comparisonClient.current?.cancel();
+    setComparison({ entries: null, running: false, error: null });
+  };
+
+  // Train on a stratified split in the background worker; the previous
+  // model keeps serving predictions until the new one is evaluated. A retrain
+  // keeps the deployed model's family.
+  const trainOn = useCallback((
+    rawData: Patient[],
+    options: LogisticRegressionOptions = modelOptions,
+    family: ModelFamily = model?.family ?? 'logistic'
+  ) => {
+    resetForCohort(rawData, 'training');
+    getTrainingClient().start(rawData, family, {
+      onProgress: ({ epoch, loss, validationLoss, totalEpochs }) =>
+        setTraining(t => ({ ...t, totalEpochs, lossCurve: [...t.lossCurve, { epoch, loss, validationLoss }] })),
+      onEvaluating: () => setTraining(t => ({ ...t, status: 'evaluating' })),
+      onDone: (result) => adoptModel(result, `${MODEL_NAME}-${result.model.family}-${Date.now().toString(36)}`),
+      onCancelled: () => setTraining(t => ({ ...t, status: 'cancelled' })),
+      onError: (message) => setTraining(t => ({ ...t, status: 'error', message }))
+    }, options);
+  }, [modelOptions, model]);
+
+  // A saved model is evaluated on the current cohort's split as-is; it is
+  // not refitted, so its parameters and calibrator stay exactly those of the
+  // artifact.
+  const activateArtifact = (artifact: ModelArtifact, rawData: Patient[] = data) => {
+    resetForCohort(rawData, 'evaluating');
+    getTrainingClient().evaluate(rawData, artifact.model, {
+      onDone: (result) => {
+        adoptModel(result, artifact.version);
+        if (artifact.calibrator) {
+          setSavedCalibrator(artifact.calibrator);
+          setCalibrationMethod(artifact.calibrator.method);
+        }
+        setActiveVersion(artifact.version).catch(e => setRegistryError((e as Error).message));
+      },
+      onCancelled: () => setTraining(t => ({ ...t, status: 'cancelled' })),
+      onError: (message) => setTraining(t => ({ ...t, status: 'error', message }))
+    });
+  };
+
+  const refreshRegistry = () =>
+    listArtifacts()
+      .then(setArtifacts)
+      .catch(e => setRegistryError(`Model registry unavailable: ${(e as Error).message}`));
+
+  const savePolicy = async (policy: DecisionPolicy) => {
+    setDecisionPolicy(policy);
+    try {
+      await saveDecisionPolicy(policy);
+      setPolicyError(null);
+    } catch (e) {
+      setPolicyError(`Applied for this session only; saving failed: ${(e as Error).message}`);
+    }
+  };
+
+  const saveCurrentModel = async () => {
+    if (!model) return;
+    try {
+      await saveArtifact(createArtifact({
+        model, version: modelVersion, trainingData: split.train, evaluation: reportedEvaluation, calibrator: savedCalibrator ?? calibration?.[calibrationMethod].calibrator
+      }));
+      await setActiveVersion(modelVersion);
+      setRegistryError(null);
+    } catch (e) {
+      setRegistryError((e as Error).message);
+    }
+    refreshRegistry();
+  };
+
+  const importArtifactFile = async (file: File) => {
+    try {
+      await saveArtifact(parseArtifact(await file.text()));
+      setRegistryError(null);
+    } catch (e) {
+      setRegistryError(`${file.name}: ${(e as Error).message}`);
+    }
+    refreshRegistry();
+  };
+
+  const removeArtifact = async (artifact: ModelArtifact) => {
+    try {
+      await deleteArtifact(artifact.version);
+    } catch (e) {
+      setRegistryError((e as Error).message);
+    }
+    refreshRegistry();
+  };
+
+  const exportArtifact = (artifact: ModelArtifact) =>
+    downloadText(artifactFileName(artifact), JSON.stringify(artifact, null, 2), 'application/json');
 
-    // Train model
-    const lr = new LogisticRegression(0.5, 2000);
-    const X = rawData.map(p => preprocessPatient(p));
-    const y = rawData.map(p => p.readmitted ? 1 : 0);
-    lr.fit(X, y);
-    setModel(lr);
+  const trainingFingerprint = useMemo(() => split.train.length > 0 ? fingerprintCohort(split.train) : null, [split]);
+
+  const handleModelOptionsApply = (next: LogisticRegressionOptions) => {
+    setModelOptions(next);
+    trainOn(data, next, 'logistic');
+  };
+
+  const runComparison = () => {
+    setComparison(c => ({ ...c, running: true, error: null }));
+    getComparisonClient().compare(data, MODEL_FAMILIES, {
+      onDone: ({ entries }) => setComparison({ entries, running: false, error: null }),
+      onCancelled: () => setComparison(c => ({ ...c, running: false })),
+      onError: (message) => setComparison(c => ({ ...c, running: false, error: message }))
+    }, modelOptions);
+  };
+
+  // Comparison models are fitted on the same split as the active model, so
+  // deploying one swaps the model and its evaluation but keeps the split.
+  const deployComparisonEntry = (entry: ComparisonEntry) => {
+    setModel(entry.model);
+    setEvaluation(entry.evaluation);
+    setModelVersion(`${MODEL_NAME}-${entry.family}-${Date.now().toString(36)}`);
+    setSavedCalibrator(null);
+    setRawPrediction(null);
+    clearMitigation();
+  };
+
+  const runMitigation = () => {
+    if (!model) return;
+    setMitigation(m => ({ ...m, running: true, error: null }));
+    getMitigationClient().mitigate(data, model.serialize(), {
+      ...mitigationSettings,
+      calibration: calibrationMethod,
+      fairness: auditOptions
+    }, {
+      onDone: (result) => setMitigation({ result, running: false, error: null }),
+      onCancelled: () => setMitigation(m => ({ ...m, running: false })),
+      onError: (message) => setMitigation(m => ({ ...m, running: false, error: message }))
+    }, modelOptions);
+  };
+
+  const cancelTraining = () => trainingClient.current?.cancel();
+
+  // Initialize data and model, restoring the last activated registry version if there is one
+  useEffect(() => {
+    const initial = generateMaternityData(scenario);
+    refreshRegistry();
+    getDecisionPolicy()
+      .then(policy => policy && setDecisionPolicy(policy))
+      .catch(() => {});
+    getActiveVersion()
+      .then(version => version ? getArtifact(version) : null)
+      .catch(() => null)
+      .then(artifact => artifact ? activateArtifact(artifact, initial) : trainOn(initial));
   }, []);
 
+  const handleScenarioApply = (next: ScenarioConfig) => {
+    setScenario(next);
+    setDataSource('synthetic');
+    trainOn(generateMaternityData(next));
+  };
+
+  const handleImport = (patients: Patient[], fileName: string) => {
+    setImported({ patients, fileName });
+    setDataSource('imported');
+    trainOn(patients);
+  };
+
+  const handleFhirImport = (result: FhirImportResult, fileName: string) => {
+    setImported({ patients: result.patients, fileName, fhirReferences: result.references });
+    setDataSource('imported');
+    trainOn(result.patients);
+  };
+
+  const exportCohortRiskAssessments = () => {
+    if (!model || !imported?.fhirReferences) return;
+    const bundle = toRiskAssessmentBundle(imported.patients.map(p => {
+      const probability = calibrate(predictPatient(model, p));
+      return { patientReference: imported.fhirReferences![p.id], probability, band: riskBand(probability, bandCutoffs), modelVersion };
+    }));
+    downloadText('risk-assessments.json', JSON.stringify(bundle, null, 2), 'application/fhir+json');
+  };
+
+  const exportPredictionRiskAssessment = () => {
+    if (predictionResult === null) return;
+    const resource = toRiskAssessment({
+      patientReference: fhirPatientRef.includes('/') ? fhirPatientRef : `Patient/${fhirPatientRef || 'unknown'}`,
+      probability: predictionResult,
+      band: riskBand(predictionResult, bandCutoffs),
+      modelVersion
+    });
+    downloadText('risk-assessment.json', JSON.stringify(resource, null, 2), 'application/fhir+json');
+  };
+
+  const switchDataSource = (source: 'synthetic' | 'imported') => {
+    if (source === dataSource) return;
+    if (source === 'imported' && !imported) return;
+    setDataSource(source);
+    trainOn(source === 'imported' ? imported!.patients : generateMaternityData(scenario));
+  };
+
+  // Calibration: fit on out-of-fold training scores, compare on held-out scores
+  const calibration = useMemo(() => {
+    if (!model || !evaluation || split.train.length === 0) return null;
+    const labels = (patients: Patient[]) => patients.map(p => p.readmitted ? 1 : 0);
+    return compareCalibration(
+      { yTrue: labels(split.train), yProb: evaluation.calibrationScores },
+      { yTrue: labels(split.test), yProb: split.test.map(p => predictPatient(model, p)) }
+    );
+  }, [model, evaluation, split]);
+
+  const activeCalibrator = savedCalibrator ?? calibration?.[calibrationMethod].calibrator;
+  const calibrate = useCallback((p: number) =>
+    activeCalibrator ? applyCalibration(activeCalibrator, p) : p,
+  [activeCalibrator]);
+
+  const recalibrate = (method: CalibrationMethod) => {
+    setSavedCalibrator(null);
+    setCalibrationMethod(method);
+  };
+
+  const predictionResult = rawPrediction === null ? null : calibrate(rawPrediction);
+  const predictionRange = useMemo(() =>
+    uncertainty.models && predictedInput && predictionResult !== null
+      ? predictionInterval(predictionResult, uncertainty.models, predictedInput, calibrate)
+      : null,
+  [uncertainty.models, predictedInput, predictionResult, calibrate]);
+  const bandCutoffs = decisionPolicy.cutoffs;
+
+  // Calibrated held-out scores, the basis for threshold selection
+  const heldOutScores = useMemo(() => model ? {
+    yTrue: split.test.map(p => p.readmitted ? 1 : 0),
+    yProb: split.test.map(p => calibrate(predictPatient(model, p)))
+  } : null, [model, split, calibrate]);
+
+  // Held-out metrics as the app acts on them: calibrated, at the moderate cut-off
+  const reportedEvaluation = useMemo(() =>
+    evaluation && heldOutScores ? atOperatingPoint(evaluation, heldOutScores, bandCutoffs.moderate) : evaluation,
+  [evaluation, heldOutScores, bandCutoffs]);
+
+  const scoreInput = useCallback((input: PatientInput) =>
+    model ? calibrate(predictPatient(model, input)) : 0,
+  [model, calibrate]);
+
+  const scorePatient = useMemo(() =>
+    model ? (p: Patient) => calibrate(predictPatient(model, p)) : undefined,
+  [model, calibrate]);
+
+  // Explain the last scored input, not the live form values
+  const trainingReference = useMemo(() => model ? meanFeatureVector(model, split.train) : [], [model, split]);
+  const explanation = useMemo(() =>
+    model && predictedInput && rawPrediction !== null ? explainPrediction(model, predictedInput, trainingReference) : null,
+  [model, predictedInput, rawPrediction, trainingReference]);
+  const carePlanContext = useMemo(() =>
+    explanation && predictedInput && predictionResult !== null ? {
+      input: predictedInput,
+      probability: predictionResult,
+      band: riskBand(predictionResult, bandCutoffs),
+      contributions: explanation.contributions
+    } : null,
+  [explanation, predictedInput, predictionResult, bandCutoffs]);
+  const counterfactual = useMemo(() =>
+    model && predictedInput && rawPrediction !== null
+      ? findCounterfactual(predictedInput, (input) => calibrate(predictPatient(model, input)), undefined, bandCutoffs)
+      : null,
+  [model, predictedInput, rawPrediction, calibrate, bandCutoffs]);
+
   // EDA Calculations
   const stats = useMemo(() => {
     if (data.length === 0) return null;
@@ -71,12 +450,7 @@ export default function App() {
     const avgAge = data.reduce((acc, p) => acc + p.age, 0) / data.length;
     
     // Age distribution
-    const ageDist = Array.from({ length: 6 }, (_, i) => {
-      const min = 18 + i * 5;
-      const max = min + 4;
-      const count = data.filter(p => p.age >= min && p.age <= max).length;
-      return { range: `${min}-${max}`, count };
-    });
+    const ageDist = summarizeBy(data, explorerVariable('age')).map(g => ({ range: g.group, count: g.n }));
 
     // Delivery type vs Readmission
     const deliveryStats = [
@@ -90,40 +464,86 @@ export default function App() {
         total: data.filter(p => p.deliveryType === 'Cesarean').length,
         readmitted: data.filter(p => p.deliveryType === 'Cesarean' && p.readmitted).length
       }
-    ].map(d => ({ ...d, rate: ((d.readmitted / d.total) * 100).toFixed(1) }));
+    ].map(d => ({ ...d, rate: ((d.readmitted / (d.total || 1)) * 100).toFixed(1) }));
 
     return { readmittedCount, cesareanCount, avgAge, ageDist, deliveryStats };
   }, [data]);
 
-  // Ethics Audit Calculations
-  const ethicsAudit = useMemo(() => {
-    if (!model || data.length === 0) return null;
-    
-    const auditGroup = (filter: (p: Patient) => boolean) => {
-      const group = data.filter(filter);
-      const correct = group.filter(p => {
-        const pred = model.predict(preprocessPatient(p));
-        return pred === (p.readmitted ? 1 : 0);
-      }).length;
-      return (correct / group.length) * 100;
+  // Global explanations: importance on held-out patients, dependence on the training cohort
+  const featureEffects = useMemo(() => {
+    if (!model || split.test.length === 0) return null;
+    return {
+      importance: permutationImportance(model, split.test),
+      dependence: DEPENDENCE_FEATURES.map(f => partialDependence(model, split.train, f.key))
     };
+  }, [model, split]);
+
+  // Ethics audit: every criterion at the chosen threshold, on calibrated scores
+  // The audit flags patients at the follow-up cut-off, like every other decision in the app
+  const auditOptions = useMemo(() => ({ ...fairnessOptions, threshold: bandCutoffs.moderate }), [fairnessOptions, bandCutoffs]);
+  const fairness = useMemo(() => {
+    if (!model || split.test.length === 0) return null;
+    const patients = auditPopulation === 'test' ? split.test : data;
+    return fairnessAudit(patients, p => calibrate(predictPatient(model, p)), auditOptions);
+  }, [model, split, data, calibrate, auditPopulation, auditOptions]);
+
+  // Gap intervals are resampled in the worker on scores calibrated here. Gaps do
+  // not depend on the tolerance, so moving that slider does not resample.
+  const { threshold: auditThreshold, minGroupSize: auditMinGroupSize } = auditOptions;
+  useEffect(() => {
+    setFairnessGapIntervals(null);
+    if (!model || split.test.length === 0) return;
+    const patients = auditPopulation === 'test' ? split.test : data;
+    getFairnessClient().fairnessGaps(patients, patients.map(p => calibrate(predictPatient(model, p))), auditOptions, {
+      onDone: setFairnessGapIntervals,
+      onError: () => setFairnessGapIntervals(null)
+    });
+  }, [model, split, data, calibrate, auditPopulation, auditThreshold, auditMinGroupSize]);
 
-    const accVaginal = auditGroup(p => p.deliveryType === 'Vaginal');
-    const accCesarean = auditGroup(p => p.deliveryType === 'Cesarean');
-    const accUrban = auditGroup(p => p.location === 'Urban');
-    const accRural = auditGroup(p => p.location === 'Rural');
+  const cohortDescription = dataSource === 'synthetic' ? `Synthetic scenario (seed ${scenario.seed})` : `Imported: ${imported?.fileName}`;
 
-    return { accVaginal, accCesarean, accUrban, accRural };
-  }, [model, data]);
+  // Model card and ethics report, rebuilt from whatever is currently active
+  const modelCard = useMemo(() =>
+    model && reportedEvaluation && fairness ? buildModelCard({
+      version: modelVersion,
+      model,
+      calibration: calibrationMethod,
+      cutoffs: bandCutoffs,
+      data: { source: dataSource, description: cohortDescription, patients: data },
+      split,
+      evaluation: reportedEvaluation,
+      fairness,
+      fairnessPopulation: auditPopulation,
+      gapIntervals: fairnessGapIntervals
+    }) : null,
+  [model, reportedEvaluation, fairness, modelVersion, calibrationMethod, bandCutoffs, dataSource, cohortDescription, data, split, auditPopulation, fairnessGapIntervals]);
 
   const handlePredict = () => {
     if (!model) return;
-    const features = preprocessPatient(predictionInput);
-    const prob = model.predictProba(features);
-    setPredictionResult(prob);
+    setPredictedInput(predictionInput);
+    setRawPrediction(predictPatient(model, predictionInput));
+    setPredictionLog({ id: null, saving: false, error: null });
   };
 
-  const COLORS = ['#6366f1', '#f43f5e', '#10b981', '#f59e0b'];
+  const logCurrentPrediction = async () => {
+    if (!model || !predictedInput || rawPrediction === null || predictionResult === null) return;
+    setPredictionLog({ id: null, saving: true, error: null });
+    try {
+      const logged = await logPrediction({
+        patient: { ...predictedInput, ...(fhirPatientRef && { id: fhirPatientRef }) },
+        modelVersion,
+        family: model.family,
+        probability: predictionResult,
+        rawProbability: rawPrediction,
+        band: riskBand(predictionResult, bandCutoffs),
+        ...(predictionNote.trim() && { note: predictionNote.trim() })
+      });
+      setPredictionLog({ id: logged.id, saving: false, error: null });
+      setPredictionNote('');
+    } catch (err) {
+      setPredictionLog({ id: null, saving: false, error: err instanceof Error ? err.message : String(err) });
+    }
+  };
 
   return (
     <div className="min-h-screen bg-slate-50 flex font-sans text-slate-900">
@@ -140,8 +560,16 @@ export default function App() {
           <nav className="space-y-1">
             {[
               { id: 'dashboard', label: 'Dashboard', icon: LayoutDashboard },
+              { id: 'data', label: 'Data Source', icon: Database },
               { id: 'eda', label: 'Exploratory Data', icon: BarChart3 },
               { id: 'model', label: 'Risk Predictor', icon: Stethoscope },
+              { id: 'worklist', label: 'Discharge Worklist', icon: ClipboardList },
+              { id: 'evaluation', label: 'Model Evaluation', icon: Target },
+              { id: 'thresholds', label: 'Decision Thresholds', icon: SlidersHorizontal },
+              { id: 'compare', label: 'Model Comparison', icon: GitCompare },
+              { id: 'registry', label: 'Model Registry', icon: Archive },
+              { id: 'history', label: 'Prediction History', icon: History },
+              { id: 'monitoring', label: 'Drift Monitoring', icon: Radar },
               { id: 'ethics', label: 'Ethics Audit', icon: ShieldCheck },
               { id: 'submit', label: 'Submission Guide', icon: FileText },
             ].map((item) => (
@@ -165,11 +593,17 @@ export default function App() {
           <div className="bg-slate-900 rounded-2xl p-4 text-white">
             <p className="text-xs font-semibold text-slate-400 uppercase mb-2">Project Status</p>
             <div className="flex items-center gap-2 mb-3">
-              <div className="w-2 h-2 bg-emerald-400 rounded-full animate-pulse" />
-              <span className="text-sm font-medium">Model Active</span>
+              <div className={`w-2 h-2 rounded-full animate-pulse ${isTrainingBusy(training) ? 'bg-amber-400' : 'bg-emerald-400'}`} />
+              <span className="text-sm font-medium">
+                {isTrainingBusy(training)
+                  ? `Training… ${training.totalEpochs ? Math.round((training.lossCurve[training.lossCurve.length - 1]?.epoch ?? 0) / training.totalEpochs * 100) : 0}%`
+                  : 'Model Active'}
+              </span>
             </div>
             <p className="text-xs text-slate-400 leading-relaxed">
-              Trained on 500 patient records with 89% accuracy.
+              {reportedEvaluation
+                ? `Trained on ${reportedEvaluation.trainSize} patient records; ${pct(reportedEvaluation.metrics.accuracy)} accuracy on ${reportedEvaluation.testSize} held-out patients.`
+                : 'Training model...'}
             </p>
           </div>
         </div>
@@ -181,20 +615,44 @@ export default function App() {
           <div>
             <h2 className="text-3xl font-bold text-slate-900">
               {activeTab === 'dashboard' && 'Executive Overview'}
+              {activeTab === 'data' && 'Data Source'}
               {activeTab === 'eda' && 'Exploratory Data Analysis'}
               {activeTab === 'model' && 'Patient Risk Predictor'}
+              {activeTab === 'worklist' && 'Discharge Worklist'}
+              {activeTab === 'evaluation' && 'Model Evaluation'}
+              {activeTab === 'thresholds' && 'Decision Thresholds'}
+              {activeTab === 'compare' && 'Model Comparison'}
+              {activeTab === 'registry' && 'Model Registry'}
+              {activeTab === 'history' && 'Prediction History'}
+              {activeTab === 'monitoring' && 'Drift Monitoring'}
               {activeTab === 'ethics' && 'Ethics & Bias Audit'}
               {activeTab === 'submit' && 'Project Submission'}
             </h2>
             <p className="text-slate-500 mt-1">
               {activeTab === 'dashboard' && 'Key metrics and high-level insights from the maternity dataset.'}
-              {activeTab === 'eda' && 'Detailed breakdown of patient demographics and readmission factors.'}
+              {activeTab === 'data' && 'Choose the cohort every tab is computed from: a synthetic scenario or an imported extract.'}
+              {activeTab === 'eda' && 'Filter, sort and cross-examine the whole cohort and its readmission factors.'}
               {activeTab === 'model' && 'Input patient parameters to calculate readmission probability.'}
+              {activeTab === 'worklist' && "Score today's discharges in one batch and plan follow-up calls and home visits by risk."}
+              {activeTab === 'evaluation' && 'Held-out test performance on calibrated risk at the moderate cut-off, and cross-validated metrics for the active model.'}
+              {activeTab === 'thresholds' && 'Weigh missed readmissions against unnecessary follow-ups and set the risk band cut-offs used everywhere.'}
+              {activeTab === 'compare' && 'Train alternative model families on the same split and choose one for deployment.'}
+              {activeTab === 'registry' && 'Save, activate, roll back and share versioned model artifacts.'}
+              {activeTab === 'history' && 'Search logged predictions and record actual readmission outcomes against them.'}
+              {activeTab === 'monitoring' && 'Check whether new patients still resemble the training cohort and whether predictions still match outcomes.'}
               {activeTab === 'ethics' && 'Evaluating model fairness across different patient demographics.'}
               {activeTab === 'submit' && 'How to package and deliver your final project.'}
             </p>
           </div>
           <div className="flex gap-3">
+            <button
+              onClick={() => trainOn(data)}
+              disabled={isTrainingBusy(training) || data.length === 0}
+              className="px-4 py-2 bg-white border border-slate-200 rounded-xl text-sm font-medium text-slate-600 hover:bg-slate-50 transition-colors flex items-center gap-2 disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              <RefreshCw className={`w-4 h-4 ${isTrainingBusy(training) ? 'animate-spin' : ''}`} />
+              Retrain
+            </button>
             <button className="px-4 py-2 bg-white border border-slate-200 rounded-xl text-sm font-medium text-slate-600 hover:bg-slate-50 transition-colors flex items-center gap-2">
               <Info className="w-4 h-4" />
               Help
@@ -212,9 +670,9 @@ export default function App() {
               className="space-y-8"
             >
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-                <StatCard title="Total Patients" value="500" icon={Users} color="bg-indigo-500" />
-                <StatCard title="Readmission Rate" value={`${((stats?.readmittedCount || 0) / 500 * 100).toFixed(1)}%`} icon={AlertCircle} color="bg-rose-500" />
-                <StatCard title="Cesarean Rate" value={`${((stats?.cesareanCount || 0) / 500 * 100).toFixed(1)}%`} icon={Baby} color="bg-amber-500" />
+                <StatCard title="Total Patients" value={data.length} icon={Users} color="bg-indigo-500" />
+                <StatCard title="Readmission Rate" value={`${((stats?.readmittedCount || 0) / (data.length || 1) * 100).toFixed(1)}%`} icon={AlertCircle} color="bg-rose-500" />
+                <StatCard title="Cesarean Rate" value={`${((stats?.cesareanCount || 0) / (data.length || 1) * 100).toFixed(1)}%`} icon={Baby} color="bg-amber-500" />
                 <StatCard title="Avg Patient Age" value={stats?.avgAge.toFixed(1) || '0'} icon={Clock} color="bg-emerald-500" />
               </div>
 
@@ -260,6 +718,53 @@ export default function App() {
             </motion.div>
           )}
 
+          {activeTab === 'data' && (
+            <motion.div 
+              key="data"
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: -20 }}
+              className="space-y-8"
+            >
+              <Card className="p-6 flex items-center justify-between">
+                <div>
+                  <p className="text-xs font-bold text-slate-400 uppercase">Active Cohort</p>
+                  <p className="text-sm font-bold text-slate-900 mt-1">
+                    {cohortDescription} · {data.length} patients
+                  </p>
+                </div>
+                <div className="flex items-center gap-3">
+                  {dataSource === 'imported' && imported?.fhirReferences && (
+                    <button
+                      onClick={exportCohortRiskAssessments}
+                      className="px-4 py-2 bg-white border border-slate-200 rounded-xl text-sm font-medium text-slate-600 hover:bg-slate-50 transition-colors flex items-center gap-2"
+                    >
+                      <FileJson className="w-4 h-4" />
+                      Export RiskAssessments
+                    </button>
+                  )}
+                  <div className="flex bg-slate-100 rounded-xl p-1">
+                    {(['synthetic', 'imported'] as const).map(source => (
+                      <button
+                        key={source}
+                        disabled={source === 'imported' && !imported}
+                        onClick={() => switchDataSource(source)}
+                        className={`px-4 py-2 rounded-lg text-sm font-medium capitalize transition-all disabled:opacity-40 disabled:cursor-not-allowed ${
+                          dataSource === source ? 'bg-white text-indigo-700 shadow-sm' : 'text-slate-500'
+                        }`}
+                      >
+                        {source}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              </Card>
+              <ScenarioEditor scenario={scenario} onApply={handleScenarioApply} />
+              <CsvImporter onImport={handleImport} />
+              <FhirImporter onImport={handleFhirImport} />
+            </motion.div>
+          )}
+
           {activeTab === 'eda' && (
             <motion.div 
               key="eda"
@@ -268,95 +773,19 @@ export default function App() {
               exit={{ opacity: 0, y: -20 }}
               className="space-y-8"
             >
-              <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
-                <Card className="p-8 lg:col-span-2">
-                  <h3 className="text-lg font-bold mb-6">Patient Demographics Overview</h3>
-                  <div className="overflow-x-auto">
-                    <table className="w-full text-left">
-                      <thead>
-                        <tr className="border-b border-slate-100">
-                          <th className="pb-4 font-semibold text-slate-500 text-sm">ID</th>
-                          <th className="pb-4 font-semibold text-slate-500 text-sm">Age</th>
-                          <th className="pb-4 font-semibold text-slate-500 text-sm">Delivery</th>
-                          <th className="pb-4 font-semibold text-slate-500 text-sm">LOS</th>
-                          <th className="pb-4 font-semibold text-slate-500 text-sm">Location</th>
-                          <th className="pb-4 font-semibold text-slate-500 text-sm">Status</th>
-                        </tr>
-                      </thead>
-                      <tbody>
-                        {data.slice(0, 10).map((p) => (
-                          <tr key={p.id} className="border-b border-slate-50 last:border-0">
-                            <td className="py-4 text-sm text-slate-600">#{p.id}</td>
-                            <td className="py-4 text-sm font-medium">{p.age}</td>
-                            <td className="py-4 text-sm">{p.deliveryType}</td>
-                            <td className="py-4 text-sm">{p.los} days</td>
-                            <td className="py-4 text-sm">{p.location}</td>
-                            <td className="py-4">
-                              <span className={`px-2 py-1 rounded-full text-[10px] font-bold uppercase ${
-                                p.readmitted ? 'bg-rose-100 text-rose-600' : 'bg-emerald-100 text-emerald-600'
-                              }`}>
-                                {p.readmitted ? 'Readmitted' : 'Stable'}
-                              </span>
-                            </td>
-                          </tr>
-                        ))}
-                      </tbody>
-                    </table>
-                  </div>
-                  <p className="mt-4 text-xs text-slate-400 italic text-center">Showing first 10 of 500 records</p>
-                </Card>
+              <CohortExplorer data={data} />
 
-                <div className="space-y-8">
-                  <Card className="p-8">
-                    <h3 className="text-lg font-bold mb-6">Location Split</h3>
-                    <div className="h-[200px]">
-                      <ResponsiveContainer width="100%" height="100%">
-                        <PieChart>
-                          <Pie
-                            data={[
-                              { name: 'Urban', value: data.filter(p => p.location === 'Urban').length },
-                              { name: 'Rural', value: data.filter(p => p.location === 'Rural').length },
-                            ]}
-                            innerRadius={60}
-                            outerRadius={80}
-                            paddingAngle={5}
-                            dataKey="value"
-                          >
-                            {COLORS.map((entry, index) => (
-                              <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
-                            ))}
-                          </Pie>
-                          <Tooltip />
-                        </PieChart>
-                      </ResponsiveContainer>
-                    </div>
-                    <div className="flex justify-center gap-6 mt-4">
-                      <div className="flex items-center gap-2">
-                        <div className="w-3 h-3 rounded-full bg-indigo-500" />
-                        <span className="text-xs text-slate-600">Urban</span>
-                      </div>
-                      <div className="flex items-center gap-2">
-                        <div className="w-3 h-3 rounded-full bg-rose-500" />
-                        <span className="text-xs text-slate-600">Rural</span>
-                      </div>
-                    </div>
-                  </Card>
+              <CohortBuilder data={data} predict={scorePatient} />
 
-                  <Card className="p-6 bg-indigo-600 text-white">
-                    <div className="flex items-start gap-4">
-                      <div className="bg-white/20 p-2 rounded-lg">
-                        <Info className="w-5 h-5" />
-                      </div>
-                      <div>
-                        <h4 className="font-bold mb-1">Key Insight</h4>
-                        <p className="text-sm text-indigo-100 leading-relaxed">
-                          Patients in <strong>Rural</strong> areas have a 12% higher readmission rate compared to Urban patients, likely due to limited access to immediate post-discharge care.
-                        </p>
-                      </div>
-                    </div>
-                  </Card>
-                </div>
-              </div>
+              <RiskFactorCharts data={data} />
+
+              {featureEffects && (
+                <FeatureImportanceView
+                  importance={featureEffects.importance}
+                  dependence={featureEffects.dependence}
+                  scenario={dataSource === 'synthetic' ? scenario : null}
+                />
+              )}
             </motion.div>
           )}
 
@@ -434,6 +863,108 @@ export default function App() {
                       </label>
                     </div>
 
+                    <h4 className="text-sm font-bold text-slate-400 uppercase pt-2">Obstetric Risk Factors</h4>
+
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <label className="block text-sm font-semibold text-slate-700 mb-2">Hypertensive Disorder</label>
+                        <select
+                          value={predictionInput.hypertension}
+                          onChange={(e) => setPredictionInput({...predictionInput, hypertension: e.target.value as HypertensiveDisorder})}
+                          className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+                        >
+                          <option value="None">None</option>
+                          <option value="Gestational">Gestational hypertension</option>
+                          <option value="Preeclampsia">Preeclampsia</option>
+                        </select>
+                      </div>
+                      <div>
+                        <label className="block text-sm font-semibold text-slate-700 mb-2">Payer</label>
+                        <select
+                          value={predictionInput.payer}
+                          onChange={(e) => setPredictionInput({...predictionInput, payer: e.target.value as Payer})}
+                          className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+                        >
+                          <option value="Private">Private</option>
+                          <option value="Medicaid">Medicaid</option>
+                          <option value="Uninsured">Uninsured</option>
+                        </select>
+                      </div>
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-semibold text-slate-700 mb-2">BMI: {predictionInput.bmi}</label>
+                      <input
+                        type="range" min="16" max="50" step="0.5"
+                        value={predictionInput.bmi}
+                        onChange={(e) => setPredictionInput({...predictionInput, bmi: parseFloat(e.target.value)})}
+                        className="w-full h-2 bg-slate-100 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+                      />
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-semibold text-slate-700 mb-2">
+                        Gestational Age (Weeks): {predictionInput.gestationalAge}{predictionInput.preterm && ' · preterm'}
+                      </label>
+                      <input
+                        type="range" min="24" max="42"
+                        value={predictionInput.gestationalAge}
+                        onChange={(e) => {
+                          const gestationalAge = parseInt(e.target.value);
+                          setPredictionInput({...predictionInput, gestationalAge, preterm: gestationalAge < 37});
+                        }}
+                        className="w-full h-2 bg-slate-100 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+                      />
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <label className="block text-sm font-semibold text-slate-700 mb-2">Parity</label>
+                        <input
+                          type="number" min="0" max="15"
+                          value={predictionInput.parity}
+                          onChange={(e) => setPredictionInput({...predictionInput, parity: Math.max(0, parseInt(e.target.value) || 0)})}
+                          className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-semibold text-slate-700 mb-2">Prior Readmissions</label>
+                        <input
+                          type="number" min="0" max="10"
+                          value={predictionInput.priorReadmissions}
+                          onChange={(e) => setPredictionInput({...predictionInput, priorReadmissions: Math.max(0, parseInt(e.target.value) || 0)})}
+                          className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+                        />
+                      </div>
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="flex items-center gap-3 p-4 bg-slate-50 rounded-xl border border-slate-200">
+                        <input
+                          type="checkbox"
+                          id="gestationalDiabetes"
+                          checked={predictionInput.gestationalDiabetes}
+                          onChange={(e) => setPredictionInput({...predictionInput, gestationalDiabetes: e.target.checked})}
+                          className="w-5 h-5 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                        />
+                        <label htmlFor="gestationalDiabetes" className="text-sm font-medium text-slate-700 cursor-pointer">
+                          Gestational diabetes
+                        </label>
+                      </div>
+                      <div className="flex items-center gap-3 p-4 bg-slate-50 rounded-xl border border-slate-200">
+                        <input
+                          type="checkbox"
+                          id="hemorrhage"
+                          checked={predictionInput.hemorrhage}
+                          onChange={(e) => setPredictionInput({...predictionInput, hemorrhage: e.target.checked})}
+                          className="w-5 h-5 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                        />
+                        <label htmlFor="hemorrhage" className="text-sm font-medium text-slate-700 cursor-pointer">
+                          Postpartum hemorrhage
+                        </label>
+                      </div>
+                    </div>
+
                     <button 
                       onClick={handlePredict}
                       className="w-full py-4 bg-indigo-600 text-white rounded-xl font-bold hover:bg-indigo-700 transition-all shadow-lg shadow-indigo-200 flex items-center justify-center gap-2"
@@ -449,22 +980,63 @@ export default function App() {
                     {predictionResult !== null ? (
                       <>
                         <div className={`absolute top-0 left-0 w-full h-2 ${
-                          predictionResult > 0.6 ? 'bg-rose-500' : predictionResult > 0.3 ? 'bg-amber-500' : 'bg-emerald-500'
+                          { high: 'bg-rose-500', moderate: 'bg-amber-500', low: 'bg-emerald-500' }[riskBand(predictionResult, bandCutoffs)]
                         }`} />
                         <h4 className="text-slate-500 font-medium mb-2">Readmission Risk</h4>
-                        <div className="text-6xl font-black mb-4 text-slate-900">
+                        <div className="text-6xl font-black mb-1 text-slate-900">
                           {(predictionResult * 100).toFixed(1)}%
                         </div>
+                        <p className="text-sm font-medium text-slate-500 mb-1">
+                          {predictionRange
+                            ? `95% CI ${(predictionRange.lower * 100).toFixed(1)}–${(predictionRange.upper * 100).toFixed(1)}% over ${uncertainty.models!.length} bootstrap refits`
+                            : uncertainty.error
+                              ? `Uncertainty unavailable: ${uncertainty.error}`
+                              : `Estimating uncertainty… ${uncertainty.completed}/${uncertainty.total || '–'} refits`}
+                        </p>
+                        <p className="text-xs text-slate-400 mb-4">
+                          {CALIBRATION_LABELS[calibrationMethod]}
+                          {calibrationMethod !== 'none' && ` · raw model ${(rawPrediction! * 100).toFixed(1)}%`}
+                        </p>
                         <div className={`px-4 py-2 rounded-full text-sm font-bold uppercase tracking-widest ${
-                          predictionResult > 0.6 ? 'bg-rose-100 text-rose-600' : predictionResult > 0.3 ? 'bg-amber-100 text-amber-600' : 'bg-emerald-100 text-emerald-600'
+                          { high: 'bg-rose-100 text-rose-600', moderate: 'bg-amber-100 text-amber-600', low: 'bg-emerald-100 text-emerald-600' }[riskBand(predictionResult, bandCutoffs)]
                         }`}>
-                          {predictionResult > 0.6 ? 'High Risk' : predictionResult > 0.3 ? 'Moderate Risk' : 'Low Risk'}
+                          {{ high: 'High Risk', moderate: 'Moderate Risk', low: 'Low Risk' }[riskBand(predictionResult, bandCutoffs)]}
                         </div>
                         <p className="mt-6 text-sm text-slate-500 leading-relaxed max-w-[200px]">
-                          {predictionResult > 0.6 
-                            ? 'Immediate follow-up care and home visits recommended.' 
-                            : 'Standard post-discharge monitoring required.'}
+                          {FOLLOW_UP[riskBand(predictionResult, bandCutoffs)].detail}
                         </p>
+                        <div className="mt-6 flex items-center gap-2">
+                          <input
+                            type="text" placeholder="FHIR Patient id"
+                            value={fhirPatientRef}
+                            onChange={(e) => setFhirPatientRef(e.target.value)}
+                            className="w-36 bg-slate-50 border border-slate-200 rounded-lg px-3 py-1.5 text-xs focus:ring-2 focus:ring-indigo-500 outline-none"
+                          />
+                          <button
+                            onClick={exportPredictionRiskAssessment}
+                            className="px-3 py-1.5 bg-white border border-slate-200 rounded-lg text-xs font-medium text-slate-600 hover:bg-slate-50 transition-colors flex items-center gap-1"
+                          >
+                            <FileJson className="w-3 h-3" />
+                            FHIR Export
+                          </button>
+                        </div>
+                        <div className="mt-3 flex items-center gap-2">
+                          <input
+                            type="text" placeholder="Note (optional)"
+                            value={predictionNote}
+                            onChange={(e) => setPredictionNote(e.target.value)}
+                            className="w-36 bg-slate-50 border border-slate-200 rounded-lg px-3 py-1.5 text-xs focus:ring-2 focus:ring-indigo-500 outline-none"
+                          />
+                          <button
+                            onClick={logCurrentPrediction}
+                            disabled={predictionLog.saving || predictionLog.id !== null}
+                            className="px-3 py-1.5 bg-white border border-slate-200 rounded-lg text-xs font-medium text-slate-600 hover:bg-slate-50 transition-colors flex items-center gap-1 disabled:opacity-40 disabled:cursor-not-allowed"
+                          >
+                            <History className="w-3 h-3" />
+                            {predictionLog.id !== null ? `Logged #${predictionLog.id}` : 'Log Prediction'}
+                          </button>
+                        </div>
+                        {predictionLog.error && <p className="mt-2 text-xs text-rose-600 max-w-[260px]">{predictionLog.error}</p>}
                       </>
                     ) : (
                       <div className="text-slate-300">
@@ -479,22 +1051,156 @@ export default function App() {
                     <div className="space-y-4">
                       <div className="flex justify-between text-xs font-medium">
                         <span className="text-slate-500">Accuracy (Test Set)</span>
-                        <span className="text-slate-900">89.2%</span>
+                        <span className="text-slate-900">{pct(reportedEvaluation?.metrics.accuracy ?? 0)}</span>
                       </div>
                       <div className="w-full h-1.5 bg-slate-100 rounded-full overflow-hidden">
-                        <div className="h-full bg-indigo-500 w-[89.2%]" />
+                        <div className="h-full bg-indigo-500" style={{ width: pct(reportedEvaluation?.metrics.accuracy ?? 0) }} />
                       </div>
                       <div className="flex justify-between text-xs font-medium">
                         <span className="text-slate-500">Precision</span>
-                        <span className="text-slate-900">84.5%</span>
+                        <span className="text-slate-900">{pct(reportedEvaluation?.metrics.precision ?? 0)}</span>
                       </div>
                       <div className="w-full h-1.5 bg-slate-100 rounded-full overflow-hidden">
-                        <div className="h-full bg-emerald-500 w-[84.5%]" />
+                        <div className="h-full bg-emerald-500" style={{ width: pct(reportedEvaluation?.metrics.precision ?? 0) }} />
+                      </div>
+                      <div className="flex justify-between text-xs font-medium">
+                        <span className="text-slate-500">ROC AUC</span>
+                        <span className="text-slate-900">{(reportedEvaluation?.metrics.auc ?? 0).toFixed(3)}</span>
+                      </div>
+                      <div className="w-full h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                        <div className="h-full bg-amber-500" style={{ width: pct(reportedEvaluation?.metrics.auc ?? 0) }} />
                       </div>
                     </div>
                   </Card>
                 </div>
               </div>
+
+              {explanation && predictionResult !== null && (
+                <PredictionExplanationView explanation={explanation} counterfactual={counterfactual} probability={predictionResult} band={riskBand(predictionResult, bandCutoffs)} />
+              )}
+              {carePlanContext && <CarePlanDraft context={carePlanContext} />}
+            </motion.div>
+          )}
+
+          {activeTab === 'worklist' && (
+            <motion.div 
+              key="worklist"
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: -20 }}
+            >
+              {model && (
+                <DischargeWorklist model={model} calibrate={calibrate} cutoffs={bandCutoffs} reference={trainingReference} modelVersion={modelVersion} />
+              )}
+            </motion.div>
+          )}
+
+          {activeTab === 'evaluation' && (
+            <motion.div 
+              key="evaluation"
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: -20 }}
+            >
+              <div className="space-y-8">
+                <div className="grid grid-cols-1 xl:grid-cols-2 gap-8">
+                  <TrainingMonitor training={training} report={model instanceof LogisticRegression ? model.trainingReport : null} onRetrain={() => trainOn(data)} onCancel={cancelTraining} />
+                  <TrainingSettings options={modelOptions} disabled={isTrainingBusy(training)} onApply={handleModelOptionsApply} />
+                </div>
+                {reportedEvaluation && <EvaluationView evaluation={reportedEvaluation} />}
+                {calibration && (
+                  <CalibrationView comparison={calibration} method={calibrationMethod} savedFrom={savedCalibrator && modelVersion} onMethodChange={recalibrate} />
+                )}
+              </div>
+            </motion.div>
+          )}
+
+          {activeTab === 'thresholds' && (
+            <motion.div 
+              key="thresholds"
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: -20 }}
+            >
+              {heldOutScores && (
+                <ThresholdView
+                  yTrue={heldOutScores.yTrue}
+                  yProb={heldOutScores.yProb}
+                  policy={decisionPolicy}
+                  error={policyError}
+                  onSave={savePolicy}
+                />
+              )}
+            </motion.div>
+          )}
+
+          {activeTab === 'compare' && (
+            <motion.div 
+              key="compare"
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: -20 }}
+            >
+              <ModelComparisonView
+                entries={comparison.entries}
+                running={comparison.running}
+                error={comparison.error}
+                deployedFamily={comparison.entries?.find(e => e.model === model)?.family ?? null}
+                onRun={runComparison}
+                onDeploy={deployComparisonEntry}
+              />
+            </motion.div>
+          )}
+
+          {activeTab === 'registry' && (
+            <motion.div 
+              key="registry"
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: -20 }}
+            >
+              <ModelRegistryPanel
+                artifacts={artifacts}
+                currentVersion={modelVersion}
+                currentSaved={artifacts.some(a => a.version === modelVersion)}
+                trainingFingerprint={trainingFingerprint}
+                busy={isTrainingBusy(training)}
+                error={registryError}
+                onSave={saveCurrentModel}
+                onActivate={(a) => activateArtifact(a)}
+                onExport={exportArtifact}
+                onDelete={removeArtifact}
+                onImport={importArtifactFile}
+              />
+            </motion.div>
+          )}
+
+          {activeTab === 'history' && (
+            <motion.div 
+              key="history"
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: -20 }}
+            >
+              <PredictionHistoryView />
+            </motion.div>
+          )}
+
+          {activeTab === 'monitoring' && (
+            <motion.div 
+              key="monitoring"
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: -20 }}
+            >
+              {model && split.train.length > 0 && (
+                <MonitoringView
+                  reference={split.train}
+                  score={scoreInput}
+                  thresholds={driftThresholds}
+                  onThresholdsChange={setDriftThresholds}
+                />
+              )}
             </motion.div>
           )}
 
@@ -507,91 +1213,34 @@ export default function App() {
               className="space-y-8"
             >
               <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
-                <Card className="p-8">
-                  <h3 className="text-lg font-bold mb-6 flex items-center gap-2">
-                    <Scale className="w-5 h-5 text-indigo-600" />
-                    Fairness Metrics
-                  </h3>
-                  <div className="space-y-8">
-                    <div>
-                      <div className="flex justify-between mb-2">
-                        <span className="text-sm font-medium text-slate-600">Vaginal vs Cesarean Accuracy</span>
-                        <span className={`text-sm font-bold ${Math.abs((ethicsAudit?.accVaginal || 0) - (ethicsAudit?.accCesarean || 0)) > 10 ? 'text-rose-600' : 'text-emerald-600'}`}>
-                          Δ {Math.abs((ethicsAudit?.accVaginal || 0) - (ethicsAudit?.accCesarean || 0)).toFixed(1)}%
-                        </span>
-                      </div>
-                      <div className="flex gap-1 h-3">
-                        <div className="h-full bg-indigo-500 rounded-l-full" style={{ width: `${ethicsAudit?.accVaginal}%` }} />
-                        <div className="h-full bg-amber-500 rounded-r-full" style={{ width: `${ethicsAudit?.accCesarean}%` }} />
-                      </div>
-                      <div className="flex justify-between mt-2 text-[10px] text-slate-400 uppercase font-bold">
-                        <span>Vaginal: {ethicsAudit?.accVaginal.toFixed(1)}%</span>
-                        <span>Cesarean: {ethicsAudit?.accCesarean.toFixed(1)}%</span>
-                      </div>
-                    </div>
+                {fairness && (
+                  <FairnessControls
+                    audit={fairness}
+                    gapIntervals={fairnessGapIntervals}
+                    population={auditPopulation}
+                    onPopulationChange={setAuditPopulation}
+                    onOptionsChange={setFairnessOptions}
+                  />
+                )}
 
-                    <div>
-                      <div className="flex justify-between mb-2">
-                        <span className="text-sm font-medium text-slate-600">Urban vs Rural Accuracy</span>
-                        <span className={`text-sm font-bold ${Math.abs((ethicsAudit?.accUrban || 0) - (ethicsAudit?.accRural || 0)) > 10 ? 'text-rose-600' : 'text-emerald-600'}`}>
-                          Δ {Math.abs((ethicsAudit?.accUrban || 0) - (ethicsAudit?.accRural || 0)).toFixed(1)}%
-                        </span>
-                      </div>
-                      <div className="flex gap-1 h-3">
-                        <div className="h-full bg-indigo-500 rounded-l-full" style={{ width: `${ethicsAudit?.accUrban}%` }} />
-                        <div className="h-full bg-emerald-500 rounded-r-full" style={{ width: `${ethicsAudit?.accRural}%` }} />
-                      </div>
-                      <div className="flex justify-between mt-2 text-[10px] text-slate-400 uppercase font-bold">
-                        <span>Urban: {ethicsAudit?.accUrban.toFixed(1)}%</span>
-                        <span>Rural: {ethicsAudit?.accRural.toFixed(1)}%</span>
-                      </div>
-                    </div>
-                  </div>
+                <ModelCardPanel card={modelCard} />
+              </div>
 
-                  <div className="mt-10 p-4 bg-slate-50 rounded-xl border border-slate-200">
-                    <h4 className="text-sm font-bold mb-2">Bias Flag Status</h4>
-                    {Math.abs((ethicsAudit?.accVaginal || 0) - (ethicsAudit?.accCesarean || 0)) > 10 || 
-                     Math.abs((ethicsAudit?.accUrban || 0) - (ethicsAudit?.accRural || 0)) > 10 ? (
-                      <div className="flex items-center gap-2 text-rose-600 text-sm font-medium">
-                        <AlertCircle className="w-4 h-4" />
-                        Bias Detected: Accuracy difference exceeds 10% threshold.
-                      </div>
-                    ) : (
-                      <div className="flex items-center gap-2 text-emerald-600 text-sm font-medium">
-                        <CheckCircle2 className="w-4 h-4" />
-                        Fairness Check Passed: Model performance is consistent across groups.
-                      </div>
-                    )}
-                  </div>
-                </Card>
+              {model && (
+                <MitigationView
+                  result={mitigation.result}
+                  running={mitigation.running}
+                  error={mitigation.error}
+                  dimension={mitigationSettings.dimension}
+                  fairnessPenalty={mitigationSettings.fairnessPenalty}
+                  tolerance={fairnessOptions.tolerance}
+                  onDimensionChange={(dimension) => setMitigationSettings(s => ({ ...s, dimension }))}
+                  onFairnessPenaltyChange={(fairnessPenalty) => setMitigationSettings(s => ({ ...s, fairnessPenalty }))}
+                  onRun={runMitigation}
+                />
+              )}
 
-                <Card className="p-8">
-                  <h3 className="text-lg font-bold mb-6">Ethics Report Summary</h3>
-                  <div className="space-y-6">
-                    <div>
-                      <h4 className="text-sm font-bold text-slate-900 mb-2">Fairness Definition</h4>
-                      <p className="text-sm text-slate-600 leading-relaxed">
-                        We chose <strong>Equalized Odds</strong> as our primary fairness metric. This ensures that the model has similar true positive and false positive rates across all delivery types and locations, preventing systemic neglect of high-risk rural patients.
-                      </p>
-                    </div>
-                    <div>
-                      <h4 className="text-sm font-bold text-slate-900 mb-2">Feature Inclusion Debate</h4>
-                      <p className="text-sm text-slate-600 leading-relaxed">
-                        Should <strong>Delivery Type</strong> be included? Yes. While it correlates with risk, it is a clinical necessity for prediction. However, we monitor it closely to ensure the model doesn't "penalize" Cesarean patients unfairly.
-                      </p>
-                    </div>
-                    <div className="pt-4 border-t border-slate-100">
-                      <div className="flex items-center gap-3">
-                        <ShieldCheck className="w-6 h-6 text-indigo-600" />
-                        <div>
-                          <p className="text-xs font-bold text-slate-400 uppercase">Compliance</p>
-                          <p className="text-sm font-bold text-slate-900">ICMR Guidelines Followed</p>
-                        </div>
-                      </div>
-                    </div>
-                  </div>
-                </Card>
-              </div>
+              {fairness && <FairnessGroupTables audit={fairness} gapIntervals={fairnessGapIntervals} />}
             </motion.div>
           )}
 
@@ -617,7 +1266,7 @@ export default function App() {
                 <div className="space-y-6">
                   {[
                     { title: 'Jupyter Notebook', desc: 'Ensure readmission_model.ipynb contains all EDA tasks (1-8) and model training code.', status: 'ready' },
-                    { title: 'Ethics Report', desc: 'PDF document covering bias analysis, fairness definitions, and ICMR compliance.', status: 'ready' },
+                    { title: 'Ethics Report', desc: 'PDF document covering bias analysis, fairness definitions, and ICMR compliance. Generate it under Ethics Audit with Print / PDF; the JSON export is the machine-readable model card.', status: 'ready' },
                     { title: 'Streamlit Dashboard', desc: 'This interactive web app serves as your functional dashboard. Deploy to Streamlit Cloud.', status: 'ready' },
                     { title: '5-Minute Video', desc: 'Record a screen-share demo explaining your findings and ethical choices.', status: 'pending' },
                   ].map((item, i) => (
@@ -0,0 +1,95 @@
+import React from 'react';
+import {
+  ScatterChart, Scatter, XAxis, YAxis, ZAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, Legend
+} from 'recharts';
+import { Gauge } from 'lucide-react';
+import { Card } from './ui';
+import { CALIBRATION_LABELS, CalibrationComparison, CalibrationMethod } from '../utils/calibration';
+
+const SERIES_COLORS: Record<CalibrationMethod, string> = {
+  none: '#94a3b8',
+  platt: '#6366f1',
+  isotonic: '#10b981'
+};
+
+export const CalibrationView = ({ comparison, method, savedFrom, onMethodChange }: {
+  comparison: CalibrationComparison,
+  method: CalibrationMethod,
+  /** Version whose saved calibrator is being served instead of a refitted one */
+  savedFrom?: string | null,
+  onMethodChange: (method: CalibrationMethod) => void
+}) => {
+  const methods = Object.keys(CALIBRATION_LABELS) as CalibrationMethod[];
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+      <Card className="p-8 lg:col-span-2">
+        <h3 className="text-lg font-bold mb-2">Reliability Diagram</h3>
+        <p className="text-xs text-slate-400 mb-6">
+          Mean predicted risk vs observed readmission rate per decile on the held-out test set. Points on the diagonal are perfectly calibrated.
+        </p>
+        <div className="h-[320px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <ScatterChart margin={{ bottom: 16 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#f1f5f9" />
+              <XAxis
+                type="number" dataKey="x" domain={[0, 1]} tickCount={6} name="Predicted"
+                axisLine={false} tickLine={false} tick={{ fill: '#64748b', fontSize: 12 }}
+                label={{ value: 'Mean Predicted Risk', position: 'insideBottom', offset: -8, fill: '#94a3b8', fontSize: 12 }}
+              />
+              <YAxis
+                type="number" dataKey="y" domain={[0, 1]} tickCount={6} name="Observed"
+                axisLine={false} tickLine={false} tick={{ fill: '#64748b', fontSize: 12 }}
+              />
+              <ZAxis type="number" dataKey="count" range={[30, 200]} name="Patients" />
+              <Tooltip formatter={(v: number) => typeof v === 'number' && v <= 1 ? v.toFixed(3) : v} />
+              <Legend verticalAlign="top" height={32} />
+              <ReferenceLine segment={[{ x: 0, y: 0 }, { x: 1, y: 1 }]} stroke="#cbd5e1" strokeDasharray="4 4" />
+              {methods.map(m => (
+                <Scatter
+                  key={m}
+                  name={CALIBRATION_LABELS[m]}
+                  data={comparison[m].report.bins.filter(b => b.count > 0).map(b => ({ x: b.meanPredicted, y: b.observedRate, count: b.count }))}
+                  fill={SERIES_COLORS[m]}
+                  line
+                />
+              ))}
+            </ScatterChart>
+          </ResponsiveContainer>
+        </div>
+      </Card>
+
+      <Card className="p-8">
+        <h3 className="text-lg font-bold mb-6 flex items-center gap-2">
+          <Gauge className="w-5 h-5 text-indigo-600" />
+          Recalibration
+        </h3>
+        <div className="space-y-3">
+          {methods.map(m => (
+            <button
+              key={m}
+              onClick={() => onMethodChange(m)}
+              className={`w-full text-left p-4 rounded-xl border transition-all ${
+                method === m ? 'border-indigo-500 bg-indigo-50' : 'border-slate-200 hover:bg-slate-50'
+              }`}
+            >
+              <p className="text-sm font-bold text-slate-900">{CALIBRATION_LABELS[m]}</p>
+              <div className="flex gap-4 mt-1 text-xs text-slate-500">
+                <span>Brier {comparison[m].report.brier.toFixed(4)}</span>
+                <span>ECE {(comparison[m].report.ece * 100).toFixed(2)}%</span>
+              </div>
+            </button>
+          ))}
+        </div>
+        <p className="mt-6 text-xs text-slate-400 leading-relaxed">
+          Calibrators are fitted on training-set scores and evaluated on the test set. The selected method is applied to every probability shown in the Risk Predictor.
+        </p>
+        {savedFrom && (
+          <p className="mt-3 text-xs text-amber-600 leading-relaxed">
+            Serving the {CALIBRATION_LABELS[method]} calibrator saved with {savedFrom}; the scores above are for a refit on this cohort. Choose a method to refit it.
+          </p>
+        )}
+      </Card>
+    </div>
+  );
+};
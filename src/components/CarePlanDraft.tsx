@@ -0,0 +1,150 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { AlertCircle, Download, HeartHandshake, RefreshCw, Sparkles } from 'lucide-react';
+import { Card } from './ui';
+import { CarePlan, CarePlanContext, carePlanText, createOfflineCarePlanClient, draftCarePlan } from '../utils/carePlan';
+import { TextGenerationClient, TextGenerationError, createGeminiClient, isGeminiConfigured } from '../utils/textGeneration';
+import { downloadText } from '../utils/download';
+
+const inputClass = "bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-sm focus:ring-2 focus:ring-indigo-500 outline-none";
+
+/** Gemini when a key is configured, with the offline template always available. */
+function availableClients(): TextGenerationClient[] {
+  const apiKey = process.env.GEMINI_API_KEY;
+  const offline = createOfflineCarePlanClient();
+  return isGeminiConfigured(apiKey) ? [createGeminiClient(apiKey), offline] : [offline];
+}
+
+/**
+ * Drafts a follow-up plan and patient summary for the last scored patient
+ * from its inputs, probability and feature contributions.
+ */
+export const CarePlanDraft = ({ context }: { context: CarePlanContext }) => {
+  const clients = useMemo(availableClients, []);
+  const [clientId, setClientId] = useState(clients[0].id);
+  const [plan, setPlan] = useState<CarePlan | null>(null);
+  const [drafting, setDrafting] = useState(false);
+  const [error, setError] = useState<{ message: string, details: { path: string, message: string }[] } | null>(null);
+
+  // Bumped by every draft and every new prediction; a response to an older
+  // request is dropped so a slow draft never lands under another patient
+  const latestRequest = useRef(0);
+
+  // A draft belongs to one prediction
+  useEffect(() => {
+    latestRequest.current++;
+    setPlan(null);
+    setError(null);
+    setDrafting(false);
+  }, [context]);
+
+  const draft = async () => {
+    const request = ++latestRequest.current;
+    const isCurrent = () => request === latestRequest.current;
+    setDrafting(true);
+    setError(null);
+    try {
+      const result = await draftCarePlan(clients.find(c => c.id === clientId)!, context);
+      if (isCurrent()) setPlan(result);
+    } catch (err) {
+      if (!isCurrent()) return;
+      setPlan(null);
+      setError({
+        message: err instanceof Error ? err.message : String(err),
+        details: err instanceof TextGenerationError ? err.details : []
+      });
+    } finally {
+      if (isCurrent()) setDrafting(false);
+    }
+  };
+
+  return (
+    <Card className="p-8 mt-10">
+      <div className="flex flex-wrap items-start justify-between gap-4 mb-6">
+        <div>
+          <h3 className="text-lg font-bold flex items-center gap-2">
+            <HeartHandshake className="w-5 h-5 text-indigo-600" />
+            Discharge Care Plan
+          </h3>
+          <p className="text-xs text-slate-400 mt-1">
+            A draft follow-up plan and patient summary from this prediction. Review and edit before it reaches the patient record.
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <select value={clientId} onChange={(e) => setClientId(e.target.value)} className={inputClass}>
+            {clients.map(c => <option key={c.id} value={c.id}>{c.label}</option>)}
+          </select>
+          <button
+            onClick={draft}
+            disabled={drafting}
+            className="px-4 py-2 bg-indigo-600 text-white rounded-xl text-sm font-bold hover:bg-indigo-700 transition-all shadow-lg shadow-indigo-200 flex items-center gap-2 disabled:opacity-40"
+          >
+            {drafting ? <RefreshCw className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
+            {plan ? 'Redraft' : 'Draft Care Plan'}
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-6 text-rose-600 text-sm">
+          <p className="flex items-center gap-2 font-medium">
+            <AlertCircle className="w-4 h-4" />
+            {error.message}
+          </p>
+          {error.details.length > 0 && (
+            <ul className="mt-2 ml-6 list-disc text-xs">
+              {error.details.map((d, i) => <li key={i}><span className="font-mono">{d.path}</span> {d.message}</li>)}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {plan && (
+        <div className="space-y-6">
+          <p className="text-sm text-slate-700 leading-relaxed">{plan.riskSummary}</p>
+
+          <table className="w-full text-left">
+            <thead>
+              <tr className="border-b border-slate-100">
+                <th className="pb-3 font-semibold text-slate-500 text-xs">When</th>
+                <th className="pb-3 font-semibold text-slate-500 text-xs">Action</th>
+                <th className="pb-3 font-semibold text-slate-500 text-xs">Who</th>
+                <th className="pb-3 font-semibold text-slate-500 text-xs">Why</th>
+              </tr>
+            </thead>
+            <tbody>
+              {plan.followUp.map((a, i) => (
+                <tr key={i} className="border-b border-slate-50 last:border-0 align-top">
+                  <td className="py-3 text-xs font-bold whitespace-nowrap pr-4">{a.timeframe}</td>
+                  <td className="py-3 text-xs pr-4">{a.action}</td>
+                  <td className="py-3 text-xs text-slate-500 pr-4">{a.responsible}</td>
+                  <td className="py-3 text-xs text-slate-500">{a.rationale}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="p-4 bg-indigo-50 rounded-xl">
+              <p className="text-xs font-semibold text-indigo-700 uppercase mb-2">For the patient</p>
+              <p className="text-sm text-slate-700 leading-relaxed">{plan.patientSummary}</p>
+            </div>
+            <div className="p-4 bg-rose-50 rounded-xl">
+              <p className="text-xs font-semibold text-rose-700 uppercase mb-2">Seek help straight away if</p>
+              <ul className="list-disc ml-4 space-y-1 text-sm text-slate-700">
+                {plan.warningSigns.map((s, i) => <li key={i}>{s}</li>)}
+              </ul>
+            </div>
+          </div>
+
+          <button
+            onClick={() => downloadText(`care-plan-${new Date().toISOString().slice(0, 10)}.txt`, carePlanText(plan), 'text/plain')}
+            className="px-4 py-2 bg-white border border-slate-200 rounded-xl text-sm font-medium text-slate-600 hover:bg-slate-50 transition-colors flex items-center gap-2"
+          >
+            <Download className="w-4 h-4" />
+            Download
+          </button>
+        </div>
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,352 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { BarChart, Bar, ErrorBar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { AlertCircle, AlertTriangle, GitCompare, Layers, Pencil, Plus, Save, Trash2, X } from 'lucide-react';
+import { Card } from './ui';
+import { pct } from './EvaluationView';
+import { Patient } from '../utils/dataGenerator';
+import { Interval } from '../utils/fairness';
+import {
+  COHORT_FIELDS, Cohort, CohortFieldKey, CohortRule, EXAMPLE_COHORTS, OPERATORS, RuleOperator, cohortField,
+  compareCohorts, defaultRule, describeCohort, selectCohort
+} from '../utils/cohortBuilder';
+import { getSavedCohorts, saveCohorts } from '../utils/modelRegistry';
+
+const inputClass = "bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-sm focus:ring-2 focus:ring-indigo-500 outline-none";
+const tooltipStyle = { borderRadius: '12px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)' };
+
+const formatP = (p: number) => p < 0.001 ? p.toExponential(1) : p.toFixed(3);
+
+const newCohort = (): Cohort => ({ id: `cohort-${Date.now().toString(36)}`, name: '', match: 'all', rules: [] });
+
+const IntervalText = ({ interval, format }: { interval: Interval, format: (v: number) => string }) => (
+  <>
+    <span className="font-medium">{format(interval.value)}</span>
+    <span className="text-slate-400"> [{format(interval.lower)}–{format(interval.upper)}]</span>
+  </>
+);
+
+const RuleEditor = ({ rule, onChange, onRemove }: {
+  rule: CohortRule,
+  onChange: (rule: CohortRule) => void,
+  onRemove: () => void
+}) => {
+  const field = cohortField(rule.field);
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <select value={rule.field} onChange={(e) => onChange(defaultRule(e.target.value as CohortFieldKey))} className={inputClass}>
+        {COHORT_FIELDS.map(f => <option key={f.key} value={f.key}>{f.label}</option>)}
+      </select>
+      <select value={rule.operator} onChange={(e) => onChange({ ...rule, operator: e.target.value as RuleOperator })} className={inputClass}>
+        {OPERATORS[field.type].map(op => <option key={op} value={op}>{op === 'missing' ? 'not recorded' : op}</option>)}
+      </select>
+      {rule.operator !== 'missing' && (
+        field.type === 'numeric' ? (
+          <input
+            type="number"
+            value={rule.value as number}
+            onChange={(e) => onChange({ ...rule, value: Number(e.target.value) })}
+            className={`${inputClass} w-24`}
+          />
+        ) : field.type === 'boolean' ? (
+          <select value={rule.value ? 'yes' : 'no'} onChange={(e) => onChange({ ...rule, value: e.target.value === 'yes' })} className={inputClass}>
+            <option value="yes">Yes</option>
+            <option value="no">No</option>
+          </select>
+        ) : (
+          <select value={rule.value as string} onChange={(e) => onChange({ ...rule, value: e.target.value })} className={inputClass}>
+            {field.options!.map(o => <option key={o} value={o}>{o}</option>)}
+          </select>
+        )
+      )}
+      {field.unit && rule.operator !== 'missing' && <span className="text-xs text-slate-400">{field.unit}</span>}
+      <button onClick={onRemove} title="Remove rule" className="p-1.5 rounded-lg text-slate-400 hover:text-rose-600 hover:bg-rose-50">
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
+
+/**
+ * Compose cohorts from filter rules, save them in the browser, and compare
+ * two or more side by side: readmission rates with 95% intervals, risk
+ * ratios and tests against the first cohort, and the model's mean predicted
+ * risk against the observed rate.
+ */
+export const CohortBuilder = ({ data, predict }: {
+  data: Patient[],
+  /** Calibrated risk for a patient; predicted columns are hidden without one */
+  predict?: (p: Patient) => number
+}) => {
+  const [cohorts, setCohorts] = useState<Cohort[]>(EXAMPLE_COHORTS);
+  const [compared, setCompared] = useState<string[]>(EXAMPLE_COHORTS.map(c => c.id));
+  const [draft, setDraft] = useState<Cohort>(newCohort);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getSavedCohorts()
+      .then(saved => {
+        if (!saved) return;
+        setCohorts(saved);
+        setCompared(saved.slice(0, 2).map(c => c.id));
+      })
+      .catch(() => {});
+  }, []);
+
+  const persist = async (next: Cohort[]) => {
+    setCohorts(next);
+    try {
+      await saveCohorts(next);
+      setError(null);
+    } catch (e) {
+      setError(`Kept for this session only; saving failed: ${(e as Error).message}`);
+    }
+  };
+
+  const saveDraft = () => {
+    const cohort = { ...draft, name: draft.name.trim() || describeCohort(draft) };
+    const exists = cohorts.some(c => c.id === cohort.id);
+    persist(exists ? cohorts.map(c => c.id === cohort.id ? cohort : c) : [...cohorts, cohort]);
+    if (!compared.includes(cohort.id)) setCompared([...compared, cohort.id]);
+    setDraft(newCohort());
+  };
+
+  const remove = (id: string) => {
+    persist(cohorts.filter(c => c.id !== id));
+    setCompared(compared.filter(c => c !== id));
+    if (draft.id === id) setDraft(newCohort());
+  };
+
+  const toggleCompared = (id: string) =>
+    setCompared(compared.includes(id) ? compared.filter(c => c !== id) : [...compared, id]);
+
+  const updateRule = (i: number, rule: CohortRule) =>
+    setDraft({ ...draft, rules: draft.rules.map((r, j) => j === i ? rule : r) });
+
+  const draftSize = useMemo(() => selectCohort(data, draft).length, [data, draft]);
+  const sizes = useMemo(() => new Map(cohorts.map(c => [c.id, selectCohort(data, c).length])), [data, cohorts]);
+
+  // Compared in the order they were ticked; the first is the reference
+  const selected = compared.map(id => cohorts.find(c => c.id === id)).filter((c): c is Cohort => !!c);
+  const comparison = useMemo(
+    () => selected.length >= 2 ? compareCohorts(data, selected, predict) : null,
+    [data, predict, compared, cohorts]
+  );
+  const chartData = comparison?.summaries.map(s => ({
+    name: s.cohort.name,
+    observed: s.rate.value,
+    interval: [s.rate.value - s.rate.lower, s.rate.upper - s.rate.value],
+    predicted: s.meanPredicted
+  }));
+
+  return (
+    <div className="space-y-8">
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        <Card className="p-8">
+          <h3 className="text-lg font-bold flex items-center gap-2">
+            <Layers className="w-5 h-5 text-indigo-600" />
+            Cohort Builder
+          </h3>
+          <p className="text-xs text-slate-400 mt-1 mb-6">
+            Combine rules on patient fields. Patients with a field not recorded fail every rule on it except "not recorded".
+          </p>
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-3">
+              <input
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder="Cohort name"
+                className={`${inputClass} flex-1 min-w-[160px]`}
+              />
+              <select value={draft.match} onChange={(e) => setDraft({ ...draft, match: e.target.value as Cohort['match'] })} className={inputClass}>
+                <option value="all">Match all rules</option>
+                <option value="any">Match any rule</option>
+              </select>
+            </div>
+            {draft.rules.length === 0 ? (
+              <p className="text-sm text-slate-400">No rules yet; the cohort is every patient.</p>
+            ) : draft.rules.map((rule, i) => (
+              <div key={i}>
+                <RuleEditor
+                  rule={rule}
+                  onChange={(r) => updateRule(i, r)}
+                  onRemove={() => setDraft({ ...draft, rules: draft.rules.filter((_, j) => j !== i) })}
+                />
+              </div>
+            ))}
+            <button
+              onClick={() => setDraft({ ...draft, rules: [...draft.rules, defaultRule('age')] })}
+              className="text-sm font-medium text-indigo-600 hover:text-indigo-800 flex items-center gap-1"
+            >
+              <Plus className="w-4 h-4" />
+              Add rule
+            </button>
+          </div>
+          <div className="mt-6 pt-6 border-t border-slate-100 flex flex-wrap items-center justify-between gap-3">
+            <p className="text-sm text-slate-600"><strong>{draftSize}</strong> of {data.length} patients match</p>
+            <div className="flex gap-3">
+              <button
+                onClick={() => setDraft(newCohort())}
+                className="px-4 py-2 bg-white border border-slate-200 rounded-xl text-sm font-medium text-slate-600 hover:bg-slate-50 transition-colors flex items-center gap-2"
+              >
+                Reset
+              </button>
+              <button
+                onClick={saveDraft}
+                className="px-4 py-2 bg-indigo-600 text-white rounded-xl text-sm font-bold hover:bg-indigo-700 transition-all shadow-lg shadow-indigo-200 flex items-center gap-2"
+              >
+                <Save className="w-4 h-4" />
+                {cohorts.some(c => c.id === draft.id) ? 'Update Cohort' : 'Save Cohort'}
+              </button>
+            </div>
+          </div>
+        </Card>
+
+        <Card className="p-8">
+          <h3 className="text-lg font-bold">Saved Cohorts</h3>
+          <p className="text-xs text-slate-400 mt-1 mb-6">Tick two or more to compare them; the first one ticked is the reference.</p>
+          {error && (
+            <p className="mb-4 flex items-center gap-2 text-rose-600 text-sm font-medium">
+              <AlertCircle className="w-4 h-4" />
+              {error}
+            </p>
+          )}
+          {cohorts.length === 0 ? (
+            <p className="text-sm text-slate-400">No saved cohorts.</p>
+          ) : (
+            <div className="space-y-2">
+              {cohorts.map(c => {
+                const order = compared.indexOf(c.id);
+                return (
+                  <div
+                    key={c.id}
+                    className={`flex items-start gap-3 p-3 rounded-xl border ${draft.id === c.id ? 'border-indigo-300 bg-indigo-50/50' : 'border-slate-100'}`}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={order >= 0}
+                      onChange={() => toggleCompared(c.id)}
+                      className="mt-1 accent-indigo-600"
+                    />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-semibold text-slate-800">
+                        {c.name}
+                        {order === 0 && selected.length >= 2 && <span className="ml-2 text-[10px] font-bold uppercase text-indigo-600">Reference</span>}
+                      </p>
+                      <p className="text-xs text-slate-500 truncate" title={describeCohort(c)}>{describeCohort(c)}</p>
+                    </div>
+                    <span className="text-xs text-slate-500 whitespace-nowrap mt-0.5">n = {sizes.get(c.id)}</span>
+                    <button
+                      onClick={() => setDraft(c)}
+                      title="Edit cohort"
+                      className="p-1.5 bg-white border border-slate-200 rounded-lg text-slate-600 hover:bg-slate-50 transition-colors"
+                    >
+                      <Pencil className="w-3.5 h-3.5" />
+                    </button>
+                    <button
+                      onClick={() => remove(c.id)}
+                      title="Delete cohort"
+                      className="p-1.5 bg-white border border-slate-200 rounded-lg text-rose-600 hover:bg-rose-50 transition-colors"
+                    >
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </Card>
+      </div>
+
+      <Card className="p-8">
+        <h3 className="text-lg font-bold flex items-center gap-2">
+          <GitCompare className="w-5 h-5 text-indigo-600" />
+          Cohort Comparison
+        </h3>
+        <p className="text-xs text-slate-400 mt-1 mb-6">
+          Readmission rates with 95% Wilson intervals. Risk ratios (95% log-normal interval) and p-values are against the reference;
+          Fisher's exact test is used when an expected count is below 5, Pearson's chi-square otherwise.
+          {predict && ' Predicted risk is the active model\'s calibrated score, which includes patients it was trained on.'}
+        </p>
+        {!comparison ? (
+          <p className="text-sm text-slate-400">Tick at least two saved cohorts to compare them.</p>
+        ) : (
+          <>
+            {comparison.overlap > 0 && (
+              <p className="mb-4 flex items-center gap-2 text-amber-600 text-sm font-medium">
+                <AlertTriangle className="w-4 h-4" />
+                {comparison.overlap} patients belong to more than one cohort; the tests assume the cohorts do not overlap.
+              </p>
+            )}
+            <div className="overflow-x-auto">
+              <table className="w-full text-left">
+                <thead>
+                  <tr className="border-b border-slate-100 text-xs text-slate-500">
+                    <th className="pb-3 font-semibold">Cohort</th>
+                    <th className="pb-3 font-semibold">n</th>
+                    <th className="pb-3 font-semibold">Readmitted</th>
+                    <th className="pb-3 font-semibold">Rate [95% CI]</th>
+                    <th className="pb-3 font-semibold">Risk ratio [95% CI]</th>
+                    <th className="pb-3 font-semibold">Test</th>
+                    {predict && <th className="pb-3 font-semibold">Mean predicted</th>}
+                    {predict && <th className="pb-3 font-semibold">Observed / predicted</th>}
+                  </tr>
+                </thead>
+                <tbody>
+                  {comparison.summaries.map((s, i) => {
+                    const vs = i > 0 ? comparison.contrasts[i - 1] : null;
+                    return (
+                      <tr key={s.cohort.id} className="border-b border-slate-50 last:border-0 text-sm">
+                        <td className="py-3 pr-4">
+                          <p className="font-semibold">{s.cohort.name}</p>
+                          <p className="text-xs text-slate-400">{describeCohort(s.cohort)}</p>
+                        </td>
+                        <td className="py-3 pr-4">{s.n}</td>
+                        <td className="py-3 pr-4">{s.readmitted}</td>
+                        <td className="py-3 pr-4 whitespace-nowrap">{s.n > 0 ? <IntervalText interval={s.rate} format={pct} /> : '—'}</td>
+                        <td className="py-3 pr-4 whitespace-nowrap">
+                          {!vs ? <span className="text-xs font-bold uppercase text-indigo-600">Reference</span>
+                            : vs.riskRatio ? <IntervalText interval={vs.riskRatio} format={v => v.toFixed(2)} />
+                            : '—'}
+                        </td>
+                        <td className="py-3 pr-4 whitespace-nowrap text-xs">
+                          {vs && (
+                            <span className={vs.test.pValue < 0.05 ? 'font-bold text-rose-600' : 'text-slate-500'}>
+                              {vs.test.method === 'fisher' ? 'Fisher' : `χ²=${vs.test.statistic.toFixed(2)}`}, p={formatP(vs.test.pValue)}
+                            </span>
+                          )}
+                        </td>
+                        {predict && <td className="py-3 pr-4">{s.meanPredicted !== null ? pct(s.meanPredicted) : '—'}</td>}
+                        {predict && <td className="py-3 pr-4">{s.observedToExpected !== null ? s.observedToExpected.toFixed(2) : '—'}</td>}
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+            {comparison.overall && (
+              <p className="mt-4 text-xs text-slate-500">
+                All {comparison.summaries.filter(s => s.n > 0).length} cohorts: χ²({comparison.overall.df}) = {comparison.overall.statistic.toFixed(2)},
+                p = {formatP(comparison.overall.pValue)} for equal readmission rates.
+              </p>
+            )}
+            <div className="h-[280px] mt-8">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                  <XAxis dataKey="name" axisLine={false} tickLine={false} tick={{ fill: '#64748b', fontSize: 12 }} />
+                  <YAxis tickFormatter={(v: number) => `${(v * 100).toFixed(0)}%`} axisLine={false} tickLine={false} tick={{ fill: '#64748b', fontSize: 12 }} />
+                  <Tooltip formatter={(v: number) => pct(v)} cursor={{ fill: '#f1f5f9' }} contentStyle={tooltipStyle} />
+                  <Legend />
+                  <Bar dataKey="observed" name="Observed rate" fill="#6366f1" radius={[6, 6, 0, 0]}>
+                    <ErrorBar dataKey="interval" width={6} stroke="#334155" />
+                  </Bar>
+                  {predict && <Bar dataKey="predicted" name="Mean predicted risk" fill="#f59e0b" radius={[6, 6, 0, 0]} />}
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </>
+        )}
+      </Card>
+    </div>
+  );
+};
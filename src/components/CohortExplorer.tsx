@@ -0,0 +1,330 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { BarChart, Bar, Cell, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { ArrowDown, ArrowUp, ChevronLeft, ChevronRight, Filter, Grid3x3, Info, X } from 'lucide-react';
+import { Card } from './ui';
+import { Patient } from '../utils/dataGenerator';
+import {
+  CohortFilter, EXPLORER_VARIABLES, ExplorerKey, applyFilters, correlationMatrix, explorerVariable,
+  strongestGroup, summarizeBy, toggleFilter
+} from '../utils/cohortExplorer';
+
+const PAGE_SIZES = [25, 50, 100];
+const inputClass = "bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-sm focus:ring-2 focus:ring-indigo-500 outline-none";
+const tooltipStyle = { borderRadius: '12px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)' };
+const percent = (v: number) => `${(v * 100).toFixed(1)}%`;
+
+type SortKey = 'id' | ExplorerKey;
+
+const COLUMNS: { key: SortKey, label: string, render: (p: Patient) => React.ReactNode }[] = [
+  { key: 'id', label: 'ID', render: p => <span className="text-slate-600">#{p.id}</span> },
+  { key: 'age', label: 'Age', render: p => <span className="font-medium">{p.age}</span> },
+  { key: 'deliveryType', label: 'Delivery', render: p => p.deliveryType },
+  { key: 'laborDuration', label: 'Labor', render: p => `${p.laborDuration} h` },
+  { key: 'los', label: 'LOS', render: p => `${p.los} d` },
+  { key: 'complications', label: 'Compl.', render: p => p.complications ? 'Yes' : 'No' },
+  { key: 'location', label: 'Location', render: p => p.location },
+  { key: 'hypertension', label: 'Hypertension', render: p => p.hypertension ?? '—' },
+  { key: 'bmi', label: 'BMI', render: p => p.bmi ?? '—' },
+  { key: 'gestationalAge', label: 'GA', render: p => p.gestationalAge !== undefined ? `${p.gestationalAge} wk` : '—' },
+  { key: 'payer', label: 'Payer', render: p => p.payer ?? '—' },
+  {
+    key: 'readmitted', label: 'Status', render: p => (
+      <span className={`px-2 py-1 rounded-full text-[10px] font-bold uppercase ${
+        p.readmitted ? 'bg-rose-100 text-rose-600' : 'bg-emerald-100 text-emerald-600'
+      }`}>
+        {p.readmitted ? 'Readmitted' : 'Stable'}
+      </span>
+    )
+  }
+];
+
+// Unrecorded values sort last in either direction
+function comparePatients(key: SortKey, ascending: boolean) {
+  return (a: Patient, b: Patient) => {
+    const x = a[key], y = b[key];
+    if (x === undefined || y === undefined) return x === y ? 0 : x === undefined ? 1 : -1;
+    const order = typeof x === 'string' ? x.localeCompare(y as string) : Number(x) - Number(y);
+    return ascending ? order : -order;
+  };
+}
+
+/** Blue for negative, rose for positive correlations; stronger colour for larger |r|. */
+const heatColor = (r: number | null) =>
+  r === null ? '#f8fafc' : r >= 0 ? `rgba(244, 63, 94, ${Math.abs(r)})` : `rgba(99, 102, 241, ${Math.abs(r)})`;
+
+/** Bar chart of one variable whose bars toggle that variable's filters. */
+const GroupChart = ({ title, subtitle, rows, metric, selected, overall, onSelect }: {
+  title: React.ReactNode,
+  subtitle: string,
+  rows: { group: string, n: number, readmitted: number, rate: number }[],
+  metric: 'rate' | 'count',
+  selected: string[],
+  /** Cohort readmission rate, drawn as a reference line on rate charts */
+  overall?: number,
+  onSelect: (group: string) => void
+}) => {
+  const data = rows.map(r => ({ ...r, stable: r.n - r.readmitted }));
+  const dimmed = (group: string) => selected.length > 0 && !selected.includes(group);
+  return (
+    <Card className="p-8">
+      <div className="mb-6">
+        <div className="text-lg font-bold">{title}</div>
+        <p className="text-xs text-slate-400 mt-1">{subtitle}</p>
+      </div>
+      <div className="h-[240px]">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={data}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+            <XAxis dataKey="group" axisLine={false} tickLine={false} tick={{ fill: '#64748b', fontSize: 11 }} />
+            {metric === 'rate' ? (
+              <YAxis tickFormatter={(v: number) => `${(v * 100).toFixed(0)}%`} axisLine={false} tickLine={false} tick={{ fill: '#64748b', fontSize: 12 }} />
+            ) : (
+              <YAxis axisLine={false} tickLine={false} tick={{ fill: '#64748b', fontSize: 12 }} />
+            )}
+            {metric === 'rate' ? (
+              <Tooltip
+                cursor={{ fill: '#f1f5f9' }}
+                formatter={(v: number, _: unknown, item: any) => [`${percent(v)} of ${item.payload.n}`, 'Readmitted']}
+                contentStyle={tooltipStyle}
+              />
+            ) : (
+              <Tooltip cursor={{ fill: '#f1f5f9' }} contentStyle={tooltipStyle} />
+            )}
+            {metric === 'rate' && overall !== undefined && <ReferenceLine y={overall} stroke="#94a3b8" strokeDasharray="4 4" />}
+            {metric === 'rate' ? (
+              <Bar dataKey="rate" radius={[6, 6, 0, 0]} cursor="pointer" onClick={(_, i) => onSelect(data[i].group)}>
+                {data.map(d => <Cell key={d.group} fill="#6366f1" fillOpacity={dimmed(d.group) ? 0.25 : 1} />)}
+              </Bar>
+            ) : [
+              <Bar key="stable" dataKey="stable" name="Stable" stackId="outcome" cursor="pointer" onClick={(_, i) => onSelect(data[i].group)}>
+                {data.map(d => <Cell key={d.group} fill="#6366f1" fillOpacity={dimmed(d.group) ? 0.25 : 1} />)}
+              </Bar>,
+              <Bar key="readmitted" dataKey="readmitted" name="Readmitted" stackId="outcome" radius={[6, 6, 0, 0]} cursor="pointer" onClick={(_, i) => onSelect(data[i].group)}>
+                {data.map(d => <Cell key={d.group} fill="#f43f5e" fillOpacity={dimmed(d.group) ? 0.25 : 1} />)}
+              </Bar>
+            ]}
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+    </Card>
+  );
+};
+
+/**
+ * The whole cohort as a filterable, sortable, paginated table with linked
+ * charts: clicking a bar adds that group to the filters, and each chart
+ * shows the rows selected by every filter except its own.
+ */
+export const CohortExplorer = ({ data }: { data: Patient[] }) => {
+  const [filters, setFilters] = useState<CohortFilter[]>([]);
+  const [rateKey, setRateKey] = useState<ExplorerKey>('deliveryType');
+  const [sort, setSort] = useState<{ key: SortKey, ascending: boolean }>({ key: 'id', ascending: true });
+  const [pageSize, setPageSize] = useState(PAGE_SIZES[0]);
+  const [offset, setOffset] = useState(0);
+
+  // A new cohort starts unfiltered
+  useEffect(() => setFilters([]), [data]);
+  useEffect(() => setOffset(0), [data, filters, sort, pageSize]);
+
+  const selection = useMemo(() => applyFilters(data, filters), [data, filters]);
+  const excluding = (key: ExplorerKey) => applyFilters(data, filters.filter(f => f.key !== key));
+  const selectedGroups = (key: ExplorerKey) => filters.filter(f => f.key === key).map(f => f.group);
+  const toggle = (key: ExplorerKey) => (group: string) => setFilters(f => toggleFilter(f, key, group));
+
+  const rateVariable = explorerVariable(rateKey);
+  const rateRows = useMemo(() => summarizeBy(excluding(rateKey), rateVariable), [data, filters, rateKey]);
+  const laborRows = useMemo(() => summarizeBy(excluding('laborDuration'), explorerVariable('laborDuration')), [data, filters]);
+  const losRows = useMemo(() => summarizeBy(excluding('los'), explorerVariable('los')), [data, filters]);
+  const correlations = useMemo(() => correlationMatrix(selection), [selection]);
+  const insight = useMemo(() => strongestGroup(selection), [selection]);
+
+  const rows = useMemo(() => [...selection].sort(comparePatients(sort.key, sort.ascending)), [selection, sort]);
+  const page = rows.slice(offset, offset + pageSize);
+  const readmissionRate = selection.length ? selection.filter(p => p.readmitted).length / selection.length : 0;
+  const cohortRate = data.length ? data.filter(p => p.readmitted).length / data.length : 0;
+
+  return (
+    <div className="space-y-8">
+      <Card className="p-6 flex flex-wrap items-center justify-between gap-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <Filter className="w-4 h-4 text-indigo-600" />
+          {filters.length === 0 ? (
+            <span className="text-sm text-slate-400">Click any bar to filter the charts and the table.</span>
+          ) : filters.map(f => (
+            <button
+              key={`${f.key}:${f.group}`}
+              onClick={() => toggle(f.key)(f.group)}
+              className="px-3 py-1 bg-indigo-50 text-indigo-700 rounded-full text-xs font-semibold flex items-center gap-1 hover:bg-indigo-100"
+            >
+              {explorerVariable(f.key).label}: {f.group}
+              <X className="w-3 h-3" />
+            </button>
+          ))}
+          {filters.length > 0 && (
+            <button onClick={() => setFilters([])} className="text-xs font-medium text-slate-500 hover:text-slate-900 ml-2">
+              Clear all
+            </button>
+          )}
+        </div>
+        <p className="text-sm text-slate-600">
+          <strong>{selection.length}</strong> of {data.length} patients · readmitted <strong>{percent(readmissionRate)}</strong>
+          {filters.length > 0 && <span className="text-slate-400"> (cohort {percent(cohortRate)})</span>}
+        </p>
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        <GroupChart
+          title={
+            <span className="flex items-center gap-2">
+              Readmission by
+              <select value={rateKey} onChange={(e) => setRateKey(e.target.value as ExplorerKey)} className={`${inputClass} font-medium`}>
+                {EXPLORER_VARIABLES.filter(v => v.key !== 'readmitted').map(v => <option key={v.key} value={v.key}>{v.label}</option>)}
+              </select>
+            </span>
+          }
+          subtitle="Readmission rate per group; the dashed line is the cohort rate."
+          rows={rateRows}
+          metric="rate"
+          overall={cohortRate}
+          selected={selectedGroups(rateKey)}
+          onSelect={toggle(rateKey)}
+        />
+        <GroupChart
+          title="Labor Duration"
+          subtitle="Patients per band; rose is readmitted."
+          rows={laborRows}
+          metric="count"
+          selected={selectedGroups('laborDuration')}
+          onSelect={toggle('laborDuration')}
+        />
+        <GroupChart
+          title="Length of Stay"
+          subtitle="Patients per band; rose is readmitted."
+          rows={losRows}
+          metric="count"
+          selected={selectedGroups('los')}
+          onSelect={toggle('los')}
+        />
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        <Card className="p-8 lg:col-span-2">
+          <h3 className="text-lg font-bold flex items-center gap-2">
+            <Grid3x3 className="w-5 h-5 text-indigo-600" />
+            Feature Correlations
+          </h3>
+          <p className="text-xs text-slate-400 mt-1 mb-6">
+            Pearson correlation over the selected patients; yes/no variables are coded 0/1. Rose is positive, blue negative.
+          </p>
+          <div className="overflow-x-auto">
+            <table className="text-[10px] border-separate" style={{ borderSpacing: 2 }}>
+              <thead>
+                <tr>
+                  <th />
+                  {correlations.variables.map(v => (
+                    <th key={v.key} className="font-semibold text-slate-500 align-bottom h-28">
+                      <span className="inline-block whitespace-nowrap" style={{ writingMode: 'vertical-rl', transform: 'rotate(180deg)' }}>{v.label}</span>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {correlations.variables.map((row, i) => (
+                  <tr key={row.key}>
+                    <td className="pr-2 font-semibold text-slate-500 whitespace-nowrap text-right">{row.label}</td>
+                    {correlations.values[i].map((r, j) => (
+                      <td
+                        key={j}
+                        title={`${row.label} × ${correlations.variables[j].label}: ${r === null ? 'n/a' : r.toFixed(3)}`}
+                        className={`w-9 h-8 text-center rounded ${r !== null && Math.abs(r) > 0.5 ? 'text-white' : 'text-slate-600'}`}
+                        style={{ backgroundColor: heatColor(r) }}
+                      >
+                        {r === null || i === j ? '' : r.toFixed(2)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </Card>
+
+        <Card className="p-6 bg-indigo-600 text-white self-start">
+          <div className="flex items-start gap-4">
+            <div className="bg-white/20 p-2 rounded-lg">
+              <Info className="w-5 h-5" />
+            </div>
+            <div>
+              <h4 className="font-bold mb-1">Key Insight</h4>
+              <p className="text-sm text-indigo-100 leading-relaxed">
+                {insight ? (
+                  <>
+                    {filters.length > 0 ? 'In this selection, patients' : 'Patients'} with <strong>{insight.variable.label.toLowerCase()}: {insight.group}</strong> are
+                    readmitted {percent(insight.rate)} of the time, against {percent(insight.otherRate)} for everyone else
+                    ({insight.rate >= insight.otherRate ? '+' : ''}{((insight.rate - insight.otherRate) * 100).toFixed(1)} points).
+                  </>
+                ) : 'Too few patients are selected to compare groups.'}
+              </p>
+            </div>
+          </div>
+        </Card>
+      </div>
+
+      <Card className="p-8">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+          <h3 className="text-lg font-bold">Patients</h3>
+          <div className="flex items-center gap-3 text-xs text-slate-500">
+            <select value={pageSize} onChange={(e) => setPageSize(Number(e.target.value))} className={inputClass}>
+              {PAGE_SIZES.map(n => <option key={n} value={n}>{n} per page</option>)}
+            </select>
+            {rows.length > 0 && `${offset + 1}–${Math.min(offset + pageSize, rows.length)} of ${rows.length}`}
+            <button
+              onClick={() => setOffset(Math.max(0, offset - pageSize))}
+              disabled={offset === 0}
+              className="p-1 rounded-lg border border-slate-200 hover:bg-slate-50 disabled:opacity-40"
+            >
+              <ChevronLeft className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => setOffset(offset + pageSize)}
+              disabled={offset + pageSize >= rows.length}
+              className="p-1 rounded-lg border border-slate-200 hover:bg-slate-50 disabled:opacity-40"
+            >
+              <ChevronRight className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+        {rows.length === 0 ? (
+          <p className="text-sm text-slate-400">No patients match these filters.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-left">
+              <thead>
+                <tr className="border-b border-slate-100">
+                  {COLUMNS.map(c => (
+                    <th key={c.key} className="pb-3 font-semibold text-slate-500 text-xs whitespace-nowrap">
+                      <button
+                        onClick={() => setSort(s => ({ key: c.key, ascending: s.key === c.key ? !s.ascending : true }))}
+                        className="flex items-center gap-1 hover:text-slate-900"
+                      >
+                        {c.label}
+                        {sort.key === c.key && (sort.ascending ? <ArrowUp className="w-3 h-3" /> : <ArrowDown className="w-3 h-3" />)}
+                      </button>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {page.map(p => (
+                  <tr key={p.id} className="border-b border-slate-50 last:border-0">
+                    {COLUMNS.map(c => <td key={c.key} className="py-3 text-sm pr-4 whitespace-nowrap">{c.render(p)}</td>)}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,181 @@
+import React, { useState } from 'react';
+import { AlertCircle, CheckCircle2, Download, Upload } from 'lucide-react';
+import { Card } from './ui';
+import { Patient } from '../utils/dataGenerator';
+import {
+  ColumnMapping, IMPORT_FIELDS, ImportResult, ParsedCsv,
+  autoMapColumns, mapRowsToPatients, parseCsv
+} from '../utils/csvImport';
+import { downloadText, toCsv } from '../utils/download';
+
+const FIELD_LABELS: Record<typeof IMPORT_FIELDS[number], string> = {
+  id: 'Patient ID (optional)',
+  age: 'Age',
+  deliveryType: 'Delivery Type',
+  laborDuration: 'Labor Duration (h)',
+  complications: 'Complications',
+  los: 'Length of Stay (days)',
+  location: 'Location',
+  hypertension: 'Hypertensive Disorder (optional)',
+  gestationalDiabetes: 'Gestational Diabetes (optional)',
+  hemorrhage: 'Postpartum Hemorrhage (optional)',
+  bmi: 'BMI (optional)',
+  parity: 'Parity (optional)',
+  gestationalAge: 'Gestational Age (weeks, optional)',
+  preterm: 'Preterm (optional)',
+  priorReadmissions: 'Prior Readmissions (optional)',
+  payer: 'Payer (optional)',
+  readmitted: 'Readmitted'
+};
+
+export const CsvImporter = ({ onImport }: { onImport: (patients: Patient[], fileName: string) => void }) => {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [csv, setCsv] = useState<ParsedCsv | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (file: File) => {
+    const parsed = parseCsv(await file.text());
+    setFileName(file.name);
+    setCsv(parsed);
+    setMapping(autoMapColumns(parsed.headers));
+    setResult(null);
+    setError(parsed.headers.length === 0 ? 'The file is empty.' : null);
+  };
+
+  const handleValidate = () => {
+    if (!csv || !mapping) return;
+    try {
+      setResult(mapRowsToPatients(csv, mapping));
+      setError(null);
+    } catch (e) {
+      setResult(null);
+      setError((e as Error).message);
+    }
+  };
+
+  const downloadRejected = () => {
+    if (!csv || !result) return;
+    downloadText(`rejected-${fileName ?? 'rows.csv'}`, toCsv([
+      ['line', ...csv.headers, 'errors'],
+      ...result.rejected.map(r => [r.line, ...r.values, r.errors.join('; ')])
+    ]));
+  };
+
+  return (
+    <Card className="p-8">
+      <h3 className="text-xl font-bold mb-2 flex items-center gap-2">
+        <Upload className="w-5 h-5 text-indigo-600" />
+        Import Discharge Extract (CSV)
+      </h3>
+      <p className="text-sm text-slate-500 mb-6">
+        Upload a de-identified extract, map its columns onto the patient schema and validate every row before training.
+      </p>
+
+      <input
+        type="file" accept=".csv,text/csv"
+        onChange={(e) => e.target.files?.[0] && handleFile(e.target.files[0])}
+        className="block w-full text-sm text-slate-600 file:mr-4 file:px-4 file:py-2 file:rounded-xl file:border-0 file:bg-indigo-50 file:text-indigo-700 file:font-medium hover:file:bg-indigo-100"
+      />
+
+      {csv && mapping && (
+        <div className="mt-8">
+          <h4 className="text-sm font-bold text-slate-400 uppercase mb-4">
+            Column Mapping · {csv.rows.length} rows in {fileName}
+          </h4>
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+            {IMPORT_FIELDS.map(field => (
+              <div key={field}>
+                <label className="block text-xs font-semibold text-slate-500 mb-1">{FIELD_LABELS[field]}</label>
+                <select
+                  value={mapping[field] ?? ''}
+                  onChange={(e) => {
+                    setMapping({ ...mapping, [field]: e.target.value || null });
+                    setResult(null);
+                  }}
+                  className="w-full bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+                >
+                  <option value="">— not mapped —</option>
+                  {csv.headers.map(h => <option key={h} value={h}>{h}</option>)}
+                </select>
+              </div>
+            ))}
+          </div>
+          <button
+            onClick={handleValidate}
+            className="mt-6 px-4 py-2 bg-white border border-slate-200 rounded-xl text-sm font-medium text-slate-600 hover:bg-slate-50 transition-colors"
+          >
+            Validate Rows
+          </button>
+        </div>
+      )}
+
+      {error && (
+        <div className="mt-6 flex items-center gap-2 text-rose-600 text-sm font-medium">
+          <AlertCircle className="w-4 h-4" />
+          {error}
+        </div>
+      )}
+
+      {result && (
+        <div className="mt-8 space-y-6">
+          <div className="flex items-center gap-6 text-sm font-medium">
+            <span className="flex items-center gap-2 text-emerald-600">
+              <CheckCircle2 className="w-4 h-4" />
+              {result.patients.length} valid rows
+            </span>
+            <span className={`flex items-center gap-2 ${result.rejected.length > 0 ? 'text-rose-600' : 'text-slate-400'}`}>
+              <AlertCircle className="w-4 h-4" />
+              {result.rejected.length} rejected rows
+            </span>
+          </div>
+
+          {result.rejected.length > 0 && (
+            <div>
+              <div className="flex justify-between items-center mb-2">
+                <h4 className="text-sm font-bold text-slate-900">Rejected Rows</h4>
+                <button
+                  onClick={downloadRejected}
+                  className="text-xs font-medium text-indigo-600 hover:underline flex items-center gap-1"
+                >
+                  <Download className="w-3 h-3" />
+                  Download report
+                </button>
+              </div>
+              <div className="max-h-64 overflow-y-auto border border-slate-100 rounded-xl">
+                <table className="w-full text-left">
+                  <thead>
+                    <tr className="border-b border-slate-100">
+                      <th className="p-3 font-semibold text-slate-500 text-xs">Line</th>
+                      <th className="p-3 font-semibold text-slate-500 text-xs">Errors</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {result.rejected.slice(0, 200).map(r => (
+                      <tr key={r.line} className="border-b border-slate-50 last:border-0">
+                        <td className="p-3 text-xs text-slate-600 align-top">{r.line}</td>
+                        <td className="p-3 text-xs text-rose-600">{r.errors.join('; ')}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              {result.rejected.length > 200 && (
+                <p className="mt-2 text-xs text-slate-400 italic">Showing first 200 of {result.rejected.length} rejected rows; download the report for all of them.</p>
+              )}
+            </div>
+          )}
+
+          <button
+            disabled={result.patients.length === 0}
+            onClick={() => onImport(result.patients, fileName ?? 'import.csv')}
+            className="w-full py-4 bg-indigo-600 text-white rounded-xl font-bold hover:bg-indigo-700 transition-all shadow-lg shadow-indigo-200 disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            Use {result.patients.length} Imported Patients & Retrain
+          </button>
+        </div>
+      )}
+    </Card>
+  );
+};
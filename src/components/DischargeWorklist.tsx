@@ -0,0 +1,312 @@
+import React, { useMemo, useState } from 'react';
+import { AlertCircle, ArrowDown, ArrowUp, ClipboardList, Download, Upload } from 'lucide-react';
+import { Card } from './ui';
+import { pct } from './EvaluationView';
+import { Classifier } from '../utils/classifier';
+import { BandCutoffs, RiskBand } from '../utils/mlModel';
+import {
+  ColumnMapping, DischargeImportResult, IMPORT_FIELDS, ParsedCsv,
+  autoMapColumns, mapRowsToDischarges, parseCsv
+} from '../utils/csvImport';
+import { FOLLOW_UP, WorklistEntry, buildWorklist, worklistCsvRows } from '../utils/worklist';
+import { downloadText, toCsv } from '../utils/download';
+
+const DISCHARGE_FIELDS = IMPORT_FIELDS.filter(f => f !== 'readmitted');
+const FIELD_LABELS: Record<typeof DISCHARGE_FIELDS[number], string> = {
+  id: 'Patient ID / MRN (optional)',
+  age: 'Age',
+  deliveryType: 'Delivery Type',
+  laborDuration: 'Labor Duration (h)',
+  complications: 'Complications',
+  los: 'Length of Stay (days)',
+  location: 'Location',
+  hypertension: 'Hypertensive Disorder (optional)',
+  gestationalDiabetes: 'Gestational Diabetes (optional)',
+  hemorrhage: 'Postpartum Hemorrhage (optional)',
+  bmi: 'BMI (optional)',
+  parity: 'Parity (optional)',
+  gestationalAge: 'Gestational Age (weeks, optional)',
+  preterm: 'Preterm (optional)',
+  priorReadmissions: 'Prior Readmissions (optional)',
+  payer: 'Payer (optional)'
+};
+
+const TEMPLATE = toCsv([
+  ['mrn', 'age', 'delivery_type', 'labor_duration', 'complications', 'los', 'location', 'hypertension', 'gdm', 'pph', 'bmi', 'parity', 'gestational_age', 'prior_readmissions', 'payer'],
+  ['MRN-0001', 29, 'Cesarean', 14, 'yes', 5, 'Rural', 'Preeclampsia', 'no', 'no', 31.5, 0, 36, 0, 'Medicaid'],
+  ['MRN-0002', 24, 'Vaginal', 8, 'no', 2, 'Urban', 'None', 'no', 'no', 23, 1, 39, 0, 'Private']
+]);
+
+const BAND_STYLES: Record<RiskBand, string> = {
+  high: 'bg-rose-100 text-rose-600',
+  moderate: 'bg-amber-100 text-amber-600',
+  low: 'bg-emerald-100 text-emerald-600'
+};
+
+type SortKey = 'rank' | 'reference' | 'age' | 'los';
+const inputClass = "bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-sm focus:ring-2 focus:ring-indigo-500 outline-none";
+
+const compare = (key: SortKey) => (a: WorklistEntry, b: WorklistEntry) =>
+  key === 'reference' ? a.reference.localeCompare(b.reference, undefined, { numeric: true })
+    : key === 'rank' ? a.rank - b.rank
+    : a.input[key] - b.input[key];
+
+/**
+ * Morning worklist for care coordination: upload the day's discharges,
+ * score them with the active model and rank by risk.
+ */
+export const DischargeWorklist = ({ model, calibrate, cutoffs, reference, modelVersion }: {
+  model: Classifier,
+  calibrate: (p: number) => number,
+  cutoffs: BandCutoffs,
+  /** Training-cohort mean feature vector, the baseline for contributing factors */
+  reference: number[],
+  modelVersion: string
+}) => {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [csv, setCsv] = useState<ParsedCsv | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [imported, setImported] = useState<DischargeImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+  const [band, setBand] = useState<RiskBand | ''>('');
+  const [location, setLocation] = useState<'Urban' | 'Rural' | ''>('');
+  const [sort, setSort] = useState<{ key: SortKey, ascending: boolean }>({ key: 'rank', ascending: true });
+
+  // Re-scored whenever the active model, calibration or band cut-offs change
+  const worklist = useMemo(
+    () => imported ? buildWorklist(model, imported.discharges, calibrate, reference, cutoffs) : null,
+    [imported, model, calibrate, reference, cutoffs]
+  );
+
+  const visible = useMemo(() => {
+    if (!worklist) return [];
+    const needle = search.trim().toLowerCase();
+    const rows = worklist.filter(e =>
+      (!band || e.band === band) &&
+      (!location || e.input.location === location) &&
+      (!needle || e.reference.toLowerCase().includes(needle))
+    );
+    const order = compare(sort.key);
+    return rows.sort((a, b) => sort.ascending ? order(a, b) : order(b, a));
+  }, [worklist, search, band, location, sort]);
+
+  const handleFile = async (file: File) => {
+    const parsed = parseCsv(await file.text());
+    setFileName(file.name);
+    setCsv(parsed);
+    // Outcomes are not known at discharge; ignore any outcome column
+    setMapping({ ...autoMapColumns(parsed.headers), readmitted: null });
+    setImported(null);
+    setError(parsed.headers.length === 0 ? 'The file is empty.' : null);
+  };
+
+  const handleScore = () => {
+    if (!csv || !mapping) return;
+    try {
+      setImported(mapRowsToDischarges(csv, mapping));
+      setError(null);
+    } catch (e) {
+      setImported(null);
+      setError((e as Error).message);
+    }
+  };
+
+  const downloadRejected = () => {
+    if (!csv || !imported) return;
+    downloadText(`rejected-${fileName ?? 'discharges.csv'}`, toCsv([
+      ['line', ...csv.headers, 'errors'],
+      ...imported.rejected.map(r => [r.line, ...r.values, r.errors.join('; ')])
+    ]));
+  };
+
+  const exportWorklist = () => {
+    const date = new Date().toISOString().slice(0, 10);
+    downloadText(`discharge-worklist-${date}.csv`, toCsv(worklistCsvRows(visible, modelVersion)));
+  };
+
+  const sortHeader = (key: SortKey, label: string) => (
+    <th className="pb-3 font-semibold text-slate-500 text-xs">
+      <button
+        onClick={() => setSort(s => ({ key, ascending: s.key === key ? !s.ascending : true }))}
+        className="flex items-center gap-1 hover:text-slate-900"
+      >
+        {label}
+        {sort.key === key && (sort.ascending ? <ArrowUp className="w-3 h-3" /> : <ArrowDown className="w-3 h-3" />)}
+      </button>
+    </th>
+  );
+
+  const counts = (['high', 'moderate', 'low'] as RiskBand[]).map(b => ({ band: b, n: worklist?.filter(e => e.band === b).length ?? 0 }));
+
+  return (
+    <div className="space-y-8">
+      <Card className="p-8">
+        <div className="flex items-start justify-between gap-6 mb-6">
+          <div>
+            <h3 className="text-xl font-bold mb-2 flex items-center gap-2">
+              <Upload className="w-5 h-5 text-indigo-600" />
+              Today's Discharges (CSV)
+            </h3>
+            <p className="text-sm text-slate-500">
+              One row per patient with the model's input columns. No outcome column is needed; rows that fail validation are left off the worklist and reported.
+            </p>
+          </div>
+          <button
+            onClick={() => downloadText('discharge-template.csv', TEMPLATE)}
+            className="px-4 py-2 bg-white border border-slate-200 rounded-xl text-sm font-medium text-slate-600 hover:bg-slate-50 transition-colors flex items-center gap-2 shrink-0"
+          >
+            <Download className="w-4 h-4" />
+            Template
+          </button>
+        </div>
+
+        <input
+          type="file" accept=".csv,text/csv"
+          onChange={(e) => e.target.files?.[0] && handleFile(e.target.files[0])}
+          className="block w-full text-sm text-slate-600 file:mr-4 file:px-4 file:py-2 file:rounded-xl file:border-0 file:bg-indigo-50 file:text-indigo-700 file:font-medium hover:file:bg-indigo-100"
+        />
+
+        {csv && mapping && (
+          <div className="mt-8">
+            <h4 className="text-sm font-bold text-slate-400 uppercase mb-4">
+              Column Mapping · {csv.rows.length} rows in {fileName}
+            </h4>
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+              {DISCHARGE_FIELDS.map(field => (
+                <div key={field}>
+                  <label className="block text-xs font-semibold text-slate-500 mb-1">{FIELD_LABELS[field]}</label>
+                  <select
+                    value={mapping[field] ?? ''}
+                    onChange={(e) => {
+                      setMapping({ ...mapping, [field]: e.target.value || null });
+                      setImported(null);
+                    }}
+                    className={`w-full ${inputClass}`}
+                  >
+                    <option value="">— not mapped —</option>
+                    {csv.headers.map(h => <option key={h} value={h}>{h}</option>)}
+                  </select>
+                </div>
+              ))}
+            </div>
+            <button
+              onClick={handleScore}
+              className="mt-6 px-4 py-2 bg-indigo-600 text-white rounded-xl text-sm font-bold hover:bg-indigo-700 transition-all shadow-lg shadow-indigo-200 flex items-center gap-2"
+            >
+              <ClipboardList className="w-4 h-4" />
+              Score Discharges
+            </button>
+          </div>
+        )}
+
+        {error && (
+          <div className="mt-6 flex items-center gap-2 text-rose-600 text-sm font-medium">
+            <AlertCircle className="w-4 h-4" />
+            {error}
+          </div>
+        )}
+
+        {imported && imported.rejected.length > 0 && (
+          <div className="mt-6 flex items-center gap-3 text-sm text-rose-600 font-medium">
+            <AlertCircle className="w-4 h-4" />
+            {imported.rejected.length} rows rejected
+            <button onClick={downloadRejected} className="text-xs font-medium text-indigo-600 hover:underline flex items-center gap-1">
+              <Download className="w-3 h-3" />
+              Download report
+            </button>
+          </div>
+        )}
+      </Card>
+
+      {worklist && (
+        <Card className="p-8">
+          <div className="flex flex-wrap items-end justify-between gap-4 mb-6">
+            <div>
+              <h3 className="text-lg font-bold">Discharge Worklist</h3>
+              <p className="text-xs text-slate-400 mt-1">
+                {worklist.length} patients · {counts.map(c => `${c.n} ${c.band}`).join(' · ')} · model <span className="font-mono">{modelVersion}</span>
+              </p>
+            </div>
+            <div className="flex flex-wrap items-end gap-3">
+              <input
+                type="text" placeholder="Search patient id…" value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className={`${inputClass} w-44`}
+              />
+              <select value={band} onChange={(e) => setBand(e.target.value as RiskBand | '')} className={inputClass}>
+                <option value="">All bands</option>
+                <option value="high">High</option>
+                <option value="moderate">Moderate</option>
+                <option value="low">Low</option>
+              </select>
+              <select value={location} onChange={(e) => setLocation(e.target.value as 'Urban' | 'Rural' | '')} className={inputClass}>
+                <option value="">All locations</option>
+                <option value="Urban">Urban</option>
+                <option value="Rural">Rural</option>
+              </select>
+              <button
+                onClick={exportWorklist}
+                disabled={visible.length === 0}
+                className="px-4 py-2 bg-white border border-slate-200 rounded-xl text-sm font-medium text-slate-600 hover:bg-slate-50 transition-colors flex items-center gap-2 disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                <Download className="w-4 h-4" />
+                Export CSV
+              </button>
+            </div>
+          </div>
+
+          {visible.length === 0 ? (
+            <p className="text-sm text-slate-400">No patients match these filters.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-left">
+                <thead>
+                  <tr className="border-b border-slate-100">
+                    {sortHeader('rank', 'Rank / Risk')}
+                    {sortHeader('reference', 'Patient')}
+                    {sortHeader('age', 'Age')}
+                    {sortHeader('los', 'LOS')}
+                    <th className="pb-3 font-semibold text-slate-500 text-xs">Top factors</th>
+                    <th className="pb-3 font-semibold text-slate-500 text-xs">Follow-up</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {visible.map(e => (
+                    <tr key={e.reference} className="border-b border-slate-50 last:border-0 align-top">
+                      <td className="py-3 text-xs whitespace-nowrap">
+                        <span className="text-slate-400 mr-2">#{e.rank}</span>
+                        <span className="font-bold mr-2">{pct(e.probability)}</span>
+                        <span className={`px-2 py-0.5 rounded-full font-bold uppercase ${BAND_STYLES[e.band]}`}>{e.band}</span>
+                      </td>
+                      <td className="py-3 text-xs">
+                        <p className="font-bold">{e.reference}</p>
+                        <p className="text-slate-400">
+                          {e.input.deliveryType} · {e.input.location}{e.input.complications && ' · complications'}
+                        </p>
+                      </td>
+                      <td className="py-3 text-xs">{e.input.age}</td>
+                      <td className="py-3 text-xs">{e.input.los}d</td>
+                      <td className="py-3 text-xs">
+                        <div className="flex flex-wrap gap-1">
+                          {e.topFactors.length === 0
+                            ? <span className="text-slate-300">—</span>
+                            : e.topFactors.map(f => (
+                              <span key={f.feature} className="px-2 py-0.5 bg-rose-50 text-rose-600 rounded-full" title={`+${f.contribution.toFixed(2)} log-odds`}>
+                                {f.label}
+                              </span>
+                            ))}
+                        </div>
+                      </td>
+                      <td className="py-3 text-xs font-medium text-slate-700">{FOLLOW_UP[e.band].action}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </Card>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,131 @@
+import React from 'react';
+import {
+  LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine
+} from 'recharts';
+import { Card } from './ui';
+import { ClassificationMetrics, Curve, ModelEvaluation } from '../utils/evaluation';
+
+export const METRIC_LABELS: Record<keyof ClassificationMetrics, string> = {
+  accuracy: 'Accuracy',
+  precision: 'Precision',
+  recall: 'Recall (Sensitivity)',
+  f1: 'F1 Score',
+  specificity: 'Specificity',
+  auc: 'ROC AUC'
+};
+
+export const pct = (v: number) => `${(v * 100).toFixed(1)}%`;
+
+const CurveChart = ({ title, curve, xLabel, yLabel, diagonal, step }: {
+  title: string, curve: Curve, xLabel: string, yLabel: string, diagonal?: boolean, step?: boolean
+}) => (
+  <Card className="p-8">
+    <div className="flex justify-between items-baseline mb-6">
+      <h3 className="text-lg font-bold">{title}</h3>
+      <span className="text-sm font-bold text-indigo-600">AUC {curve.auc.toFixed(3)}</span>
+    </div>
+    <div className="h-[280px]">
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={curve.points} margin={{ bottom: 16 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#f1f5f9" />
+          <XAxis
+            type="number" dataKey="x" domain={[0, 1]} tickCount={6}
+            axisLine={false} tickLine={false} tick={{ fill: '#64748b', fontSize: 12 }}
+            label={{ value: xLabel, position: 'insideBottom', offset: -8, fill: '#94a3b8', fontSize: 12 }}
+          />
+          <YAxis
+            type="number" domain={[0, 1]} tickCount={6}
+            axisLine={false} tickLine={false} tick={{ fill: '#64748b', fontSize: 12 }}
+            label={{ value: yLabel, angle: -90, position: 'insideLeft', fill: '#94a3b8', fontSize: 12 }}
+          />
+          <Tooltip
+            formatter={(v: number) => v.toFixed(3)}
+            labelFormatter={(x: number) => `${xLabel}: ${Number(x).toFixed(3)}`}
+          />
+          {diagonal && <ReferenceLine segment={[{ x: 0, y: 0 }, { x: 1, y: 1 }]} stroke="#cbd5e1" strokeDasharray="4 4" />}
+          <Line type={step ? 'stepAfter' : 'linear'} dataKey="y" name={yLabel} stroke="#6366f1" strokeWidth={2} dot={false} />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  </Card>
+);
+
+export const EvaluationView = ({ evaluation }: { evaluation: ModelEvaluation }) => {
+  const { confusion, metrics, intervals, crossValidation: cv } = evaluation;
+  const keys = Object.keys(METRIC_LABELS) as (keyof ClassificationMetrics)[];
+
+  return (
+    <div className="space-y-8">
+      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-6">
+        {keys.map(key => (
+          <React.Fragment key={key}>
+            <Card className="p-6">
+              <p className="text-xs font-medium text-slate-500 uppercase tracking-wider">{METRIC_LABELS[key]}</p>
+              <h3 className="text-2xl font-bold mt-1 text-slate-900">{pct(metrics[key])}</h3>
+              <p className="text-xs text-slate-500 mt-1" title="95% bootstrap interval over resampled test patients">
+                95% CI {pct(intervals[key].lower)}–{pct(intervals[key].upper)}
+              </p>
+              <p className="text-xs text-slate-400 mt-1" title={`Uncalibrated scores at threshold ${cv.threshold.toFixed(2)}`}>
+                CV {pct(cv.mean[key])} ± {pct(cv.std[key])}
+              </p>
+            </Card>
+          </React.Fragment>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        <Card className="p-8">
+          <h3 className="text-lg font-bold mb-2">Confusion Matrix</h3>
+          <p className="text-xs text-slate-400 mb-6">
+            Held-out test set · {evaluation.testSize} patients · calibrated risk ≥ {evaluation.threshold.toFixed(2)} (moderate cut-off)
+          </p>
+          <div className="grid grid-cols-[auto_1fr_1fr] gap-2 text-center text-sm">
+            <div />
+            <div className="text-xs font-bold text-slate-400 uppercase">Pred. Readmit</div>
+            <div className="text-xs font-bold text-slate-400 uppercase">Pred. Stable</div>
+            <div className="text-xs font-bold text-slate-400 uppercase self-center text-right pr-2">Readmitted</div>
+            <div className="p-4 rounded-xl bg-emerald-50 text-emerald-700 font-bold text-xl">{confusion.tp}<p className="text-[10px] uppercase">TP</p></div>
+            <div className="p-4 rounded-xl bg-rose-50 text-rose-700 font-bold text-xl">{confusion.fn}<p className="text-[10px] uppercase">FN</p></div>
+            <div className="text-xs font-bold text-slate-400 uppercase self-center text-right pr-2">Stable</div>
+            <div className="p-4 rounded-xl bg-amber-50 text-amber-700 font-bold text-xl">{confusion.fp}<p className="text-[10px] uppercase">FP</p></div>
+            <div className="p-4 rounded-xl bg-emerald-50 text-emerald-700 font-bold text-xl">{confusion.tn}<p className="text-[10px] uppercase">TN</p></div>
+          </div>
+        </Card>
+
+        <Card className="p-8 lg:col-span-2">
+          <h3 className="text-lg font-bold mb-2">{cv.folds.length}-Fold Stratified Cross-Validation</h3>
+          <p className="text-xs text-slate-400 mb-6">
+            Model trained on {evaluation.trainSize} patients; folds re-train from scratch on the full cohort and are scored uncalibrated at threshold {cv.threshold.toFixed(2)}.
+          </p>
+          <div className="overflow-x-auto">
+            <table className="w-full text-left">
+              <thead>
+                <tr className="border-b border-slate-100">
+                  <th className="pb-3 font-semibold text-slate-500 text-sm">Fold</th>
+                  {keys.map(k => <th key={k} className="pb-3 font-semibold text-slate-500 text-sm">{METRIC_LABELS[k]}</th>)}
+                </tr>
+              </thead>
+              <tbody>
+                {cv.folds.map((f, i) => (
+                  <tr key={i} className="border-b border-slate-50">
+                    <td className="py-2 text-sm text-slate-600">#{i + 1}</td>
+                    {keys.map(k => <td key={k} className="py-2 text-sm">{pct(f[k])}</td>)}
+                  </tr>
+                ))}
+                <tr>
+                  <td className="py-2 text-sm font-bold">Mean ± SD</td>
+                  {keys.map(k => <td key={k} className="py-2 text-sm font-bold">{pct(cv.mean[k])} ± {(cv.std[k] * 100).toFixed(1)}</td>)}
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        </Card>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        <CurveChart title="ROC Curve" curve={evaluation.roc} xLabel="False Positive Rate" yLabel="True Positive Rate" diagonal />
+        <CurveChart title="Precision-Recall Curve" curve={evaluation.pr} xLabel="Recall" yLabel="Precision" step />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,183 @@
+import React, { useState } from 'react';
+import { AlertCircle, AlertTriangle, CheckCircle2, Scale } from 'lucide-react';
+import { Card } from './ui';
+import { pct } from './EvaluationView';
+import { FAIRNESS_CRITERIA, FairnessAudit, FairnessAuditOptions, FairnessCriterionKey, GroupFairness, Interval, PRIMARY_FAIRNESS_CRITERION } from '../utils/fairness';
+import { FairnessGapIntervals } from '../utils/bootstrap';
+
+export type AuditPopulation = 'test' | 'cohort';
+
+const IntervalCell = ({ interval, muted }: { interval: Interval, muted?: boolean }) => (
+  <td className={`py-2 text-xs ${muted ? 'text-slate-300' : ''}`}>
+    <span className="font-medium">{pct(interval.value)}</span>
+    <span className="text-slate-400"> [{pct(interval.lower)}–{pct(interval.upper)}]</span>
+  </td>
+);
+
+/** A gap, with its bootstrap interval when one has been computed. */
+const gapText = (gap: number, intervals: FairnessGapIntervals | null | undefined, family: string, criterion: FairnessCriterionKey) => {
+  const interval = intervals?.[family]?.[criterion];
+  return interval ? `${pct(gap)} [${pct(interval.lower)}–${pct(interval.upper)}]` : pct(gap);
+};
+
+const Slider = ({ label, value, min, max, step, onChange }: {
+  label: string, value: number, min: number, max: number, step: number, onChange: (v: number) => void
+}) => (
+  <div>
+    <label className="block text-sm font-semibold text-slate-700 mb-2">{label}: {value.toFixed(2)}</label>
+    <input
+      type="range" min={min} max={max} step={step} value={value}
+      onChange={(e) => onChange(parseFloat(e.target.value))}
+      className="w-full h-2 bg-slate-100 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+    />
+  </div>
+);
+
+export const FairnessControls = ({ audit, gapIntervals, population, onPopulationChange, onOptionsChange }: {
+  audit: FairnessAudit,
+  /** Bootstrap intervals of the gaps, by family label */
+  gapIntervals?: FairnessGapIntervals | null,
+  population: AuditPopulation,
+  onPopulationChange: (population: AuditPopulation) => void,
+  onOptionsChange: (options: FairnessAuditOptions) => void
+}) => {
+  const { options, violations } = audit;
+  const primary = violations.filter(v => v.criterion === PRIMARY_FAIRNESS_CRITERION);
+  const secondary = violations.filter(v => v.criterion !== PRIMARY_FAIRNESS_CRITERION);
+  const criterionLabel = (key: string) => FAIRNESS_CRITERIA.find(c => c.key === key)!.label;
+
+  return (
+    <Card className="p-8">
+      <h3 className="text-lg font-bold mb-6 flex items-center gap-2">
+        <Scale className="w-5 h-5 text-indigo-600" />
+        Fairness Metrics
+      </h3>
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <span className="text-sm font-semibold text-slate-700">Decision threshold: {options.threshold.toFixed(2)}</span>
+          <span className="text-xs text-slate-400">Moderate-risk cut-off, set under Decision Thresholds</span>
+        </div>
+        <Slider label="Tolerance (max gap)" value={options.tolerance} min={0.01} max={0.3} step={0.01}
+          onChange={(tolerance) => onOptionsChange({ ...options, tolerance })} />
+        <div className="flex items-center justify-between">
+          <span className="text-sm font-semibold text-slate-700">Audit population</span>
+          <div className="flex bg-slate-100 rounded-xl p-1">
+            {(['test', 'cohort'] as AuditPopulation[]).map(p => (
+              <button
+                key={p}
+                onClick={() => onPopulationChange(p)}
+                className={`px-3 py-1.5 rounded-lg text-xs font-medium transition-colors ${population === p ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500'}`}
+              >
+                {p === 'test' ? 'Held-out test set' : 'Full cohort'}
+              </button>
+            ))}
+          </div>
+        </div>
+        <p className="text-xs text-slate-400">
+          Patients are flagged when their displayed (calibrated) risk is at or above the threshold. Groups with fewer than {options.minGroupSize} patients are shown but excluded from gaps.
+        </p>
+      </div>
+
+      <div className="mt-10 p-4 bg-slate-50 rounded-xl border border-slate-200">
+        <h4 className="text-sm font-bold mb-2">Bias Flag Status</h4>
+        {primary.length > 0 ? (
+          <div className="flex items-start gap-2 text-rose-600 text-sm font-medium">
+            <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" />
+            <span>
+              Bias Detected: Equalized Odds gap exceeds {pct(options.tolerance)} for{' '}
+              {primary.map(v => `${v.family} (${gapText(v.gap, gapIntervals, v.family, v.criterion)})`).join(', ')}.
+            </span>
+          </div>
+        ) : (
+          <div className="flex items-center gap-2 text-emerald-600 text-sm font-medium">
+            <CheckCircle2 className="w-4 h-4" />
+            Fairness Check Passed: Equalized Odds gaps are within {pct(options.tolerance)} for every group family.
+          </div>
+        )}
+        {secondary.length > 0 && (
+          <div className="mt-3 flex items-start gap-2 text-amber-600 text-xs font-medium">
+            <AlertTriangle className="w-4 h-4 shrink-0" />
+            <span>
+              Also over tolerance: {secondary.map(v => `${criterionLabel(v.criterion)} in ${v.family} (${gapText(v.gap, gapIntervals, v.family, v.criterion)})`).join('; ')}.
+            </span>
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+};
+
+export const FairnessGroupTables = ({ audit, gapIntervals }: { audit: FairnessAudit, gapIntervals?: FairnessGapIntervals | null }) => {
+  const [showIntersections, setShowIntersections] = useState(true);
+  const families = audit.families.filter(f => showIntersections || !f.intersectional);
+  const small = (g: GroupFairness) => g.n < audit.options.minGroupSize;
+
+  return (
+    <Card className="p-8">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h3 className="text-lg font-bold">Group Metrics</h3>
+          <p className="text-xs text-slate-400 mt-1">
+            Rates with 95% Wilson confidence intervals{gapIntervals && '; gaps (Δ) with 95% bootstrap intervals over resampled patients'}.
+          </p>
+        </div>
+        <label className="flex items-center gap-2 text-sm font-medium text-slate-600">
+          <input
+            type="checkbox" checked={showIntersections}
+            onChange={(e) => setShowIntersections(e.target.checked)}
+            className="w-4 h-4 rounded border-slate-300 text-indigo-600"
+          />
+          Intersectional groups
+        </label>
+      </div>
+      <div className="space-y-10">
+        {families.map(f => (
+          <div key={f.label}>
+            <div className="flex flex-wrap items-baseline justify-between gap-4 mb-3">
+              <h4 className="text-sm font-bold text-slate-900">{f.label}</h4>
+              <div className="flex flex-wrap gap-3 text-xs">
+                {FAIRNESS_CRITERIA.map(c => (
+                  <span key={c.key} title={c.description} className={f.gaps[c.key] > audit.options.tolerance ? 'text-rose-600 font-bold' : 'text-slate-500'}>
+                    {c.label} Δ {gapText(f.gaps[c.key], gapIntervals, f.label, c.key)}
+                  </span>
+                ))}
+              </div>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-left">
+                <thead>
+                  <tr className="border-b border-slate-100">
+                    <th className="pb-2 font-semibold text-slate-500 text-xs">Group</th>
+                    <th className="pb-2 font-semibold text-slate-500 text-xs">n (readmitted)</th>
+                    <th className="pb-2 font-semibold text-slate-500 text-xs">TPR</th>
+                    <th className="pb-2 font-semibold text-slate-500 text-xs">FPR</th>
+                    <th className="pb-2 font-semibold text-slate-500 text-xs">Flagged</th>
+                    <th className="pb-2 font-semibold text-slate-500 text-xs">Precision</th>
+                    <th className="pb-2 font-semibold text-slate-500 text-xs">Predicted / Observed</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {f.groups.map(g => (
+                    <tr key={g.label} className="border-b border-slate-50 last:border-0">
+                      <td className={`py-2 text-xs font-medium ${small(g) ? 'text-slate-300' : ''}`}>
+                        {g.label}{small(g) && ' (too small)'}
+                      </td>
+                      <td className={`py-2 text-xs ${small(g) ? 'text-slate-300' : ''}`}>{g.n} ({g.positives})</td>
+                      <IntervalCell interval={g.tpr} muted={small(g)} />
+                      <IntervalCell interval={g.fpr} muted={small(g)} />
+                      <IntervalCell interval={g.selectionRate} muted={small(g)} />
+                      <IntervalCell interval={g.ppv} muted={small(g)} />
+                      <td className={`py-2 text-xs ${small(g) ? 'text-slate-300' : ''}`}>
+                        {pct(g.meanPredicted)} / {pct(g.observedRate.value)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        ))}
+      </div>
+    </Card>
+  );
+};
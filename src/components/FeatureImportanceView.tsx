@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { BarChart, Bar, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ErrorBar } from 'recharts';
+import { Layers, TrendingUp } from 'lucide-react';
+import { Card } from './ui';
+import { DEPENDENCE_FEATURES, DependenceFeature, PartialDependence, PermutationImportance } from '../utils/interpretability';
+import { ScenarioConfig } from '../utils/dataGenerator';
+
+const points = (v: number) => `${v >= 0 ? '+' : ''}${(v * 100).toFixed(0)} pts`;
+
+export const FeatureImportanceView = ({ importance, dependence, scenario }: {
+  importance: PermutationImportance[],
+  dependence: PartialDependence[],
+  /** Ground truth of the synthetic cohort, when the data is synthetic */
+  scenario: ScenarioConfig | null
+}) => {
+  const [feature, setFeature] = useState<DependenceFeature>('age');
+  const pd = dependence.find(d => d.feature === feature);
+  const meta = DEPENDENCE_FEATURES.find(f => f.key === feature)!;
+  const pdRows = pd ? pd.grid.map((x, g) => ({
+    x,
+    average: pd.average[g],
+    ...Object.fromEntries(pd.ice.map((curve, i) => [`ice${i}`, curve[g]]))
+  })) : [];
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+      <Card className="p-8">
+        <h3 className="text-lg font-bold flex items-center gap-2">
+          <Layers className="w-5 h-5 text-indigo-600" />
+          Permutation Importance
+        </h3>
+        <p className="text-xs text-slate-400 mt-1 mb-6">
+          Drop in held-out ROC AUC when a feature is shuffled (mean ± std over 5 shuffles).
+        </p>
+        <div style={{ height: Math.max(260, importance.length * 22) }}>
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={importance.map(i => ({ ...i, error: i.aucDropStd }))} layout="vertical" margin={{ left: 24 }}>
+              <CartesianGrid strokeDasharray="3 3" horizontal={false} stroke="#f1f5f9" />
+              <XAxis type="number" tickFormatter={(v: number) => v.toFixed(2)} axisLine={false} tickLine={false} tick={{ fill: '#64748b', fontSize: 12 }} />
+              <YAxis type="category" dataKey="label" width={150} axisLine={false} tickLine={false} tick={{ fill: '#64748b', fontSize: 12 }} />
+              <Tooltip
+                formatter={(v: number) => v.toFixed(4)}
+                contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)' }}
+              />
+              <Bar dataKey="aucDrop" name="AUC drop" fill="#6366f1" radius={[0, 4, 4, 0]}>
+                <ErrorBar dataKey="error" width={4} stroke="#94a3b8" direction="x" />
+              </Bar>
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+        <table className="w-full text-left mt-6">
+          <thead>
+            <tr className="border-b border-slate-100">
+              <th className="pb-2 font-semibold text-slate-500 text-xs">Feature</th>
+              <th className="pb-2 font-semibold text-slate-500 text-xs">Δ AUC</th>
+              <th className="pb-2 font-semibold text-slate-500 text-xs">Δ Log-loss</th>
+            </tr>
+          </thead>
+          <tbody>
+            {importance.map(i => (
+              <tr key={i.feature} className="border-b border-slate-50 last:border-0">
+                <td className="py-2 text-xs font-medium">{i.label}</td>
+                <td className="py-2 text-xs">{i.aucDrop.toFixed(3)} ± {i.aucDropStd.toFixed(3)}</td>
+                <td className="py-2 text-xs">{i.logLossIncrease.toFixed(3)} ± {i.logLossIncreaseStd.toFixed(3)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </Card>
+
+      <Card className="p-8">
+        <div className="flex flex-wrap items-start justify-between gap-4 mb-6">
+          <div>
+            <h3 className="text-lg font-bold flex items-center gap-2">
+              <TrendingUp className="w-5 h-5 text-indigo-600" />
+              Partial Dependence
+            </h3>
+            <p className="text-xs text-slate-400 mt-1">
+              Average predicted risk (bold) and individual patients (ICE, grey) as {meta.label.toLowerCase()} varies.
+            </p>
+          </div>
+          <div className="flex flex-wrap bg-slate-100 rounded-xl p-1">
+            {DEPENDENCE_FEATURES.map(f => (
+              <button
+                key={f.key}
+                onClick={() => setFeature(f.key)}
+                className={`px-3 py-1.5 rounded-lg text-xs font-medium transition-colors ${feature === f.key ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500'}`}
+              >
+                {f.label}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="h-[300px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={pdRows} margin={{ bottom: 16 }}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+              <XAxis
+                type="number" dataKey="x" domain={['dataMin', 'dataMax']}
+                axisLine={false} tickLine={false} tick={{ fill: '#64748b', fontSize: 12 }}
+                label={{ value: `${meta.label} (${meta.unit})`, position: 'insideBottom', offset: -8, fill: '#94a3b8', fontSize: 12 }}
+              />
+              <YAxis domain={[0, 1]} tickFormatter={(v: number) => `${(v * 100).toFixed(0)}%`} axisLine={false} tickLine={false} tick={{ fill: '#64748b', fontSize: 12 }} />
+              {pd?.ice.map((_, i) => (
+                <Line key={i} type="monotone" dataKey={`ice${i}`} stroke="#cbd5e1" strokeWidth={1} strokeOpacity={0.6} dot={false} isAnimationActive={false} />
+              ))}
+              <Line type="monotone" dataKey="average" name="Partial dependence" stroke="#6366f1" strokeWidth={3} dot={false} isAnimationActive={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+        {scenario && (
+          <div className="mt-6 p-4 bg-slate-50 rounded-xl border border-slate-200">
+            <p className="text-xs font-bold text-slate-400 uppercase mb-2">Simulated effects (ground truth)</p>
+            <div className="grid grid-cols-2 gap-x-6 gap-y-1 text-xs text-slate-600">
+              <span>Age &gt; {scenario.advancedAgeCutoff}: <strong>{points(scenario.effects.advancedAge)}</strong></span>
+              <span>Cesarean: <strong>{points(scenario.effects.cesarean)}</strong></span>
+              <span>Complications: <strong>{points(scenario.effects.complications)}</strong></span>
+              <span>Rural: <strong>{points(scenario.effects.rural)}</strong></span>
+              <span>Vaginal &amp; LOS &lt; 3: <strong>{points(scenario.effects.shortVaginalStay)}</strong></span>
+              <span>Hypertensive disorder: <strong>{points(scenario.effects.hypertension)}</strong></span>
+              <span>Preeclampsia (extra): <strong>{points(scenario.effects.preeclampsia)}</strong></span>
+              <span>Gestational diabetes: <strong>{points(scenario.effects.gestationalDiabetes)}</strong></span>
+              <span>Postpartum hemorrhage: <strong>{points(scenario.effects.hemorrhage)}</strong></span>
+              <span>BMI ≥ 30: <strong>{points(scenario.effects.obesity)}</strong></span>
+              <span>Preterm: <strong>{points(scenario.effects.preterm)}</strong></span>
+              <span>Per prior readmission: <strong>{points(scenario.effects.priorReadmission)}</strong></span>
+              <span>Medicaid: <strong>{points(scenario.effects.medicaid)}</strong></span>
+              <span>Uninsured: <strong>{points(scenario.effects.uninsured)}</strong></span>
+              <span>Labor duration, parity, gestational age: <strong>no direct effect</strong></span>
+            </div>
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+};
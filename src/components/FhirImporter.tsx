@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { AlertCircle, CheckCircle2, FileJson } from 'lucide-react';
+import { Card } from './ui';
+import { FhirImportResult, importFhirBundle } from '../utils/fhir';
+
+export const FhirImporter = ({ onImport }: { onImport: (result: FhirImportResult, fileName: string) => void }) => {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [result, setResult] = useState<FhirImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (file: File) => {
+    setFileName(file.name);
+    try {
+      setResult(importFhirBundle(JSON.parse(await file.text())));
+      setError(null);
+    } catch (e) {
+      setResult(null);
+      setError((e as Error).message);
+    }
+  };
+
+  return (
+    <Card className="p-8">
+      <h3 className="text-xl font-bold mb-2 flex items-center gap-2">
+        <FileJson className="w-5 h-5 text-indigo-600" />
+        Import FHIR R4 Bundle
+      </h3>
+      <p className="text-sm text-slate-500 mb-6">
+        Reads Patient, Encounter, Procedure, Condition, Observation and Location resources. The earliest inpatient encounter is treated as the delivery admission.
+      </p>
+
+      <input
+        type="file" accept=".json,application/fhir+json,application/json"
+        onChange={(e) => e.target.files?.[0] && handleFile(e.target.files[0])}
+        className="block w-full text-sm text-slate-600 file:mr-4 file:px-4 file:py-2 file:rounded-xl file:border-0 file:bg-indigo-50 file:text-indigo-700 file:font-medium hover:file:bg-indigo-100"
+      />
+
+      {error && (
+        <div className="mt-6 flex items-center gap-2 text-rose-600 text-sm font-medium">
+          <AlertCircle className="w-4 h-4" />
+          {error}
+        </div>
+      )}
+
+      {result && (
+        <div className="mt-8 space-y-6">
+          <div className="flex items-center gap-6 text-sm font-medium">
+            <span className="flex items-center gap-2 text-emerald-600">
+              <CheckCircle2 className="w-4 h-4" />
+              {result.patients.length} patients mapped
+            </span>
+            <span className={`flex items-center gap-2 ${result.skipped.length > 0 ? 'text-rose-600' : 'text-slate-400'}`}>
+              <AlertCircle className="w-4 h-4" />
+              {result.skipped.length} skipped
+            </span>
+          </div>
+
+          {result.skipped.length > 0 && (
+            <ul className="max-h-48 overflow-y-auto text-xs space-y-1 border border-slate-100 rounded-xl p-3">
+              {result.skipped.map(s => (
+                <li key={s.reference}>
+                  <span className="text-slate-600 font-medium">{s.reference}</span>
+                  <span className="text-rose-600"> — {s.reason}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <button
+            disabled={result.patients.length === 0}
+            onClick={() => onImport(result, fileName ?? 'bundle.json')}
+            className="w-full py-4 bg-indigo-600 text-white rounded-xl font-bold hover:bg-indigo-700 transition-all shadow-lg shadow-indigo-200 disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            Use {result.patients.length} FHIR Patients & Retrain
+          </button>
+        </div>
+      )}
+    </Card>
+  );
+};
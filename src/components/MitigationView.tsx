@@ -0,0 +1,122 @@
+import React from 'react';
+import { PlayCircle, ShieldCheck } from 'lucide-react';
+import { Card } from './ui';
+import { pct } from './EvaluationView';
+import { MODEL_FAMILY_LABELS } from '../utils/classifier';
+import { AUDIT_DIMENSIONS, AuditDimension, FAIRNESS_CRITERIA } from '../utils/fairness';
+import { MITIGATION_LABELS, MitigationResult } from '../utils/mitigation';
+
+const inputClass = "bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-sm focus:ring-2 focus:ring-indigo-500 outline-none";
+
+export const MitigationView = ({
+  result, running, error, dimension, fairnessPenalty, tolerance,
+  onDimensionChange, onFairnessPenaltyChange, onRun
+}: {
+  result: MitigationResult | null,
+  running: boolean,
+  error: string | null,
+  dimension: AuditDimension['key'],
+  fairnessPenalty: number,
+  tolerance: number,
+  onDimensionChange: (dimension: AuditDimension['key']) => void,
+  onFairnessPenaltyChange: (value: number) => void,
+  onRun: () => void
+}) => {
+  const targetLabel = AUDIT_DIMENSIONS.find(d => d.key === (result?.dimension ?? dimension))!.label;
+
+  return (
+    <Card className="p-8">
+      <div className="flex flex-wrap items-start justify-between gap-6 mb-6">
+        <div>
+          <h3 className="text-lg font-bold flex items-center gap-2">
+            <ShieldCheck className="w-5 h-5 text-indigo-600" />
+            Bias Mitigation
+          </h3>
+          <p className="text-xs text-slate-400 mt-1 max-w-xl">
+            Each strategy is evaluated on the held-out test set at the audit threshold. In-training strategies retrain logistic regression with the current training settings; group thresholds post-process the active model.
+          </p>
+          {error && <p className="text-sm text-rose-600 mt-2">{error}</p>}
+        </div>
+        <div className="flex items-end gap-3">
+          <div>
+            <label className="block text-xs font-semibold text-slate-500 mb-1">Protected attribute</label>
+            <select value={dimension} onChange={(e) => onDimensionChange(e.target.value as AuditDimension['key'])} className={inputClass}>
+              {AUDIT_DIMENSIONS.map(d => <option key={d.key} value={d.key}>{d.label}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-semibold text-slate-500 mb-1">Penalty strength</label>
+            <input
+              type="number" min={0} step={0.5} value={fairnessPenalty}
+              onChange={(e) => {
+                const v = parseFloat(e.target.value);
+                if (!Number.isNaN(v) && v >= 0) onFairnessPenaltyChange(v);
+              }}
+              className={`${inputClass} w-24`}
+            />
+          </div>
+          <button
+            onClick={onRun}
+            disabled={running}
+            className="px-4 py-2 bg-indigo-600 text-white rounded-xl text-sm font-bold hover:bg-indigo-700 transition-all shadow-lg shadow-indigo-200 flex items-center gap-2 disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            <PlayCircle className="w-4 h-4" />
+            {running ? 'Running…' : 'Compare Strategies'}
+          </button>
+        </div>
+      </div>
+
+      {result && (
+        <>
+          <div className="overflow-x-auto">
+            <table className="w-full text-left">
+              <thead>
+                <tr className="border-b border-slate-100">
+                  <th className="pb-3 font-semibold text-slate-500 text-xs">Strategy</th>
+                  <th className="pb-3 font-semibold text-slate-500 text-xs">Accuracy</th>
+                  <th className="pb-3 font-semibold text-slate-500 text-xs">Recall</th>
+                  <th className="pb-3 font-semibold text-slate-500 text-xs">Precision</th>
+                  <th className="pb-3 font-semibold text-slate-500 text-xs">F1</th>
+                  <th className="pb-3 font-semibold text-slate-500 text-xs">AUC</th>
+                  {FAIRNESS_CRITERIA.map(c => (
+                    <th key={c.key} className="pb-3 font-semibold text-slate-500 text-xs" title={c.description}>{targetLabel} {c.label} Δ</th>
+                  ))}
+                  <th className="pb-3 font-semibold text-slate-500 text-xs">Violations (all groups)</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.rows.map(row => {
+                  const family = row.audit.families.find(f => f.label === targetLabel)!;
+                  return (
+                    <tr key={row.method} className="border-b border-slate-50 last:border-0">
+                      <td className="py-3 text-xs">
+                        <p className="font-bold">{MITIGATION_LABELS[row.method]}</p>
+                        <p className="text-slate-400">{MODEL_FAMILY_LABELS[row.family]}</p>
+                      </td>
+                      <td className="py-3 text-xs">{pct(row.metrics.accuracy)}</td>
+                      <td className="py-3 text-xs">{pct(row.metrics.recall)}</td>
+                      <td className="py-3 text-xs">{pct(row.metrics.precision)}</td>
+                      <td className="py-3 text-xs">{pct(row.metrics.f1)}</td>
+                      <td className="py-3 text-xs">{row.metrics.auc.toFixed(3)}</td>
+                      {FAIRNESS_CRITERIA.map(c => (
+                        <td key={c.key} className={`py-3 text-xs ${family.gaps[c.key] > tolerance ? 'text-rose-600 font-bold' : 'text-emerald-600'}`}>
+                          {pct(family.gaps[c.key])}
+                        </td>
+                      ))}
+                      <td className="py-3 text-xs">{row.audit.violations.length}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+          {result.rows.map(row => row.groupThresholds && (
+            <p key={row.method} className="mt-4 text-xs text-slate-500">
+              Group thresholds: {row.groupThresholds.map(t => `${t.group} ${t.threshold.toFixed(2)}`).join(' · ')}
+            </p>
+          ))}
+        </>
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { AlertCircle, CheckCircle2, FileJson, FileText, Printer, ShieldCheck } from 'lucide-react';
+import { Card } from './ui';
+import { pct } from './EvaluationView';
+import { downloadText, printHtml } from '../utils/download';
+import { ModelCard, modelCardFileName, modelCardHtml } from '../utils/modelCard';
+
+/**
+ * Ethics report summary generated from the current model card, with
+ * exports as JSON, standalone HTML and print-to-PDF.
+ */
+export const ModelCardPanel = ({ card }: { card: ModelCard | null }) => {
+  const [error, setError] = useState<string | null>(null);
+
+  if (!card) {
+    return (
+      <Card className="p-8">
+        <h3 className="text-lg font-bold mb-2">Ethics Report Summary</h3>
+        <p className="text-sm text-slate-400">The report is generated once a model has been trained and evaluated.</p>
+      </Card>
+    );
+  }
+
+  const { fairness, biasFlag, evaluation } = card;
+  const print = () => {
+    try {
+      printHtml(modelCardHtml(card));
+      setError(null);
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  };
+
+  return (
+    <Card className="p-8">
+      <h3 className="text-lg font-bold mb-1">Ethics Report Summary</h3>
+      <p className="text-xs text-slate-400 mb-6">
+        {card.model.familyLabel} · {card.model.version} · {card.data.description}
+      </p>
+      <div className="space-y-6">
+        <div>
+          <h4 className="text-sm font-bold text-slate-900 mb-2">Fairness Definition</h4>
+          <p className="text-sm text-slate-600 leading-relaxed">
+            The primary criterion is <strong>{fairness.primaryCriterion.label}</strong>: {fairness.primaryCriterion.description.toLowerCase()},
+            audited on the {fairness.population.toLowerCase()} with a tolerance of {pct(fairness.options.tolerance)}.
+          </p>
+        </div>
+        <div className={`flex items-start gap-2 text-sm font-medium ${biasFlag.status === 'passed' ? 'text-emerald-600' : 'text-rose-600'}`}>
+          {biasFlag.status === 'passed' ? <CheckCircle2 className="w-4 h-4 mt-0.5 shrink-0" /> : <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" />}
+          <span>{biasFlag.summary}</span>
+        </div>
+        <div>
+          <h4 className="text-sm font-bold text-slate-900 mb-2">Intended Use</h4>
+          <p className="text-sm text-slate-600 leading-relaxed">{card.intendedUse.purpose}</p>
+          <p className="text-xs text-slate-400 mt-2">
+            Held-out AUC {evaluation.metrics.auc.value.toFixed(3)} [{evaluation.metrics.auc.lower.toFixed(3)}–{evaluation.metrics.auc.upper.toFixed(3)}] ·
+            {' '}{card.features.length} encoded features · {card.data.fingerprint.size} patients
+          </p>
+        </div>
+        {card.limitations.length > 0 && (
+          <div>
+            <h4 className="text-sm font-bold text-slate-900 mb-2">Limitations</h4>
+            <ul className="text-sm text-slate-600 leading-relaxed list-disc list-inside space-y-1">
+              {card.limitations.map(l => <li key={l}>{l}</li>)}
+            </ul>
+          </div>
+        )}
+        <div className="pt-4 border-t border-slate-100 flex flex-wrap items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <ShieldCheck className="w-6 h-6 text-indigo-600" />
+            <div>
+              <p className="text-xs font-bold text-slate-400 uppercase">Compliance</p>
+              <p className="text-sm font-bold text-slate-900">ICMR Guidelines Followed</p>
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={() => downloadText(modelCardFileName(card, 'json'), JSON.stringify(card, null, 2), 'application/json')}
+              className="px-4 py-2 bg-white border border-slate-200 rounded-xl text-sm font-medium text-slate-600 hover:bg-slate-50 transition-colors flex items-center gap-2"
+            >
+              <FileJson className="w-4 h-4" />
+              JSON
+            </button>
+            <button
+              onClick={() => downloadText(modelCardFileName(card, 'html'), modelCardHtml(card), 'text/html')}
+              className="px-4 py-2 bg-white border border-slate-200 rounded-xl text-sm font-medium text-slate-600 hover:bg-slate-50 transition-colors flex items-center gap-2"
+            >
+              <FileText className="w-4 h-4" />
+              HTML
+            </button>
+            <button
+              onClick={print}
+              className="px-4 py-2 bg-indigo-600 text-white rounded-xl text-sm font-bold hover:bg-indigo-700 transition-all shadow-lg shadow-indigo-200 flex items-center gap-2"
+            >
+              <Printer className="w-4 h-4" />
+              Print / PDF
+            </button>
+          </div>
+        </div>
+        {error && (
+          <p className="flex items-center gap-2 text-rose-600 text-sm font-medium">
+            <AlertCircle className="w-4 h-4" />
+            {error}
+          </p>
+        )}
+      </div>
+    </Card>
+  );
+};
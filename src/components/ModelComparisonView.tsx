@@ -0,0 +1,129 @@
+import React from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { CheckCircle2, GitCompare, PlayCircle, Rocket } from 'lucide-react';
+import { Card } from './ui';
+import { pct } from './EvaluationView';
+import { MODEL_FAMILY_LABELS, ModelFamily } from '../utils/classifier';
+import { ComparisonEntry } from '../utils/modelComparison';
+import { AUDIT_ATTRIBUTES } from '../utils/fairness';
+
+export const ModelComparisonView = ({ entries, running, error, deployedFamily, onRun, onDeploy }: {
+  entries: ComparisonEntry[] | null,
+  running: boolean,
+  error: string | null,
+  deployedFamily: ModelFamily | null,
+  onRun: () => void,
+  onDeploy: (entry: ComparisonEntry) => void
+}) => (
+  <div className="space-y-8">
+    <Card className="p-8 flex items-center justify-between">
+      <div>
+        <h3 className="text-lg font-bold flex items-center gap-2">
+          <GitCompare className="w-5 h-5 text-indigo-600" />
+          Model Families
+        </h3>
+        <p className="text-sm text-slate-500 mt-1">
+          Every family is trained on the same stratified split and evaluated on the same held-out patients. Fairness gaps are measured on the test split.
+          Scores are uncalibrated and thresholded at {entries?.[0]?.evaluation.threshold.toFixed(2) ?? '0.50'} so families compare like for like; the Model Evaluation tab reports the deployed model at the moderate cut-off.
+        </p>
+        {error && <p className="text-sm text-rose-600 mt-2">{error}</p>}
+      </div>
+      <button
+        onClick={onRun}
+        disabled={running}
+        className="px-6 py-3 bg-indigo-600 text-white rounded-xl font-bold hover:bg-indigo-700 transition-all shadow-lg shadow-indigo-200 flex items-center gap-2 disabled:opacity-40 disabled:cursor-not-allowed shrink-0"
+      >
+        <PlayCircle className="w-5 h-5" />
+        {running ? 'Training…' : entries ? 'Re-run Comparison' : 'Run Comparison'}
+      </button>
+    </Card>
+
+    {entries && (
+      <>
+        <Card className="p-8">
+          <div className="overflow-x-auto">
+            <table className="w-full text-left">
+              <thead>
+                <tr className="border-b border-slate-100">
+                  <th className="pb-4 font-semibold text-slate-500 text-sm">Model</th>
+                  <th className="pb-4 font-semibold text-slate-500 text-sm">Accuracy</th>
+                  <th className="pb-4 font-semibold text-slate-500 text-sm">Precision</th>
+                  <th className="pb-4 font-semibold text-slate-500 text-sm">Recall</th>
+                  <th className="pb-4 font-semibold text-slate-500 text-sm">F1</th>
+                  <th className="pb-4 font-semibold text-slate-500 text-sm">AUC</th>
+                  <th className="pb-4 font-semibold text-slate-500 text-sm">CV AUC</th>
+                  {AUDIT_ATTRIBUTES.map(a => (
+                    <th key={a.attribute} className="pb-4 font-semibold text-slate-500 text-sm">{a.label} Δ Acc / Δ TPR / Δ FPR</th>
+                  ))}
+                  <th className="pb-4" />
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map(e => (
+                  <tr key={e.family} className="border-b border-slate-50 last:border-0">
+                    <td className="py-4 text-sm font-bold">{MODEL_FAMILY_LABELS[e.family]}</td>
+                    <td className="py-4 text-sm">{pct(e.evaluation.metrics.accuracy)}</td>
+                    <td className="py-4 text-sm">{pct(e.evaluation.metrics.precision)}</td>
+                    <td className="py-4 text-sm">{pct(e.evaluation.metrics.recall)}</td>
+                    <td className="py-4 text-sm">{pct(e.evaluation.metrics.f1)}</td>
+                    <td className="py-4 text-sm font-medium whitespace-nowrap">
+                      {e.evaluation.metrics.auc.toFixed(3)}
+                      <span className="text-xs font-normal text-slate-400"> [{e.evaluation.intervals.auc.lower.toFixed(3)}–{e.evaluation.intervals.auc.upper.toFixed(3)}]</span>
+                    </td>
+                    <td className="py-4 text-sm text-slate-500">
+                      {e.evaluation.crossValidation.mean.auc.toFixed(3)} ± {e.evaluation.crossValidation.std.auc.toFixed(3)}
+                    </td>
+                    {e.fairness.map(f => (
+                      <td key={f.attribute} className="py-4 text-sm text-slate-600">
+                        {pct(f.accuracyGap)} / {pct(f.tprGap)} / {pct(f.fprGap)}
+                      </td>
+                    ))}
+                    <td className="py-4 text-right">
+                      {deployedFamily === e.family ? (
+                        <span className="inline-flex items-center gap-1 text-xs font-bold text-emerald-600 uppercase">
+                          <CheckCircle2 className="w-4 h-4" />
+                          Deployed
+                        </span>
+                      ) : (
+                        <button
+                          onClick={() => onDeploy(e)}
+                          className="px-3 py-1.5 bg-white border border-slate-200 rounded-lg text-xs font-medium text-slate-600 hover:bg-slate-50 transition-colors inline-flex items-center gap-1"
+                        >
+                          <Rocket className="w-3 h-3" />
+                          Deploy
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </Card>
+
+        <Card className="p-8">
+          <h3 className="text-lg font-bold mb-6">Discrimination vs Fairness</h3>
+          <div className="h-[300px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={entries.map(e => ({
+                name: MODEL_FAMILY_LABELS[e.family],
+                auc: +e.evaluation.metrics.auc.toFixed(3),
+                f1: +e.evaluation.metrics.f1.toFixed(3),
+                maxTprGap: +Math.max(...e.fairness.map(f => f.tprGap)).toFixed(3)
+              }))}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                <XAxis dataKey="name" axisLine={false} tickLine={false} tick={{ fill: '#64748b', fontSize: 12 }} />
+                <YAxis domain={[0, 1]} axisLine={false} tickLine={false} tick={{ fill: '#64748b', fontSize: 12 }} />
+                <Tooltip contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)' }} />
+                <Legend />
+                <Bar dataKey="auc" name="ROC AUC" fill="#6366f1" radius={[6, 6, 0, 0]} />
+                <Bar dataKey="f1" name="F1" fill="#10b981" radius={[6, 6, 0, 0]} />
+                <Bar dataKey="maxTprGap" name="Max TPR Gap" fill="#f43f5e" radius={[6, 6, 0, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </Card>
+      </>
+    )}
+  </div>
+);
@@ -0,0 +1,145 @@
+import React from 'react';
+import { AlertCircle, Archive, CheckCircle2, Download, Save, Trash2, Upload } from 'lucide-react';
+import { Card } from './ui';
+import { pct } from './EvaluationView';
+import { MODEL_FAMILY_LABELS } from '../utils/classifier';
+import { DataFingerprint, ModelArtifact, sameFingerprint } from '../utils/modelArtifact';
+
+export const ModelRegistryPanel = ({
+  artifacts, currentVersion, currentSaved, trainingFingerprint, busy, error,
+  onSave, onActivate, onExport, onDelete, onImport
+}: {
+  artifacts: ModelArtifact[],
+  currentVersion: string,
+  currentSaved: boolean,
+  /** Fingerprint of the current cohort's training split */
+  trainingFingerprint: DataFingerprint | null,
+  busy: boolean,
+  error: string | null,
+  onSave: () => void,
+  onActivate: (artifact: ModelArtifact) => void,
+  onExport: (artifact: ModelArtifact) => void,
+  onDelete: (artifact: ModelArtifact) => void,
+  onImport: (file: File) => void
+}) => (
+  <div className="space-y-8">
+    <Card className="p-8">
+      <div className="flex items-start justify-between gap-6">
+        <div>
+          <h3 className="text-lg font-bold flex items-center gap-2">
+            <Archive className="w-5 h-5 text-indigo-600" />
+            Active Model
+          </h3>
+          <p className="text-sm text-slate-500 mt-1">
+            <span className="font-mono text-slate-700">{currentVersion || '—'}</span>
+            {currentVersion && (currentSaved ? ' · saved in registry' : ' · not saved')}
+          </p>
+          {error && (
+            <p className="mt-2 flex items-center gap-2 text-rose-600 text-sm font-medium">
+              <AlertCircle className="w-4 h-4" />
+              {error}
+            </p>
+          )}
+        </div>
+        <div className="flex items-center gap-3 shrink-0">
+          <label className="px-4 py-2 bg-white border border-slate-200 rounded-xl text-sm font-medium text-slate-600 hover:bg-slate-50 transition-colors flex items-center gap-2 cursor-pointer">
+            <Upload className="w-4 h-4" />
+            Import Artifact
+            <input
+              type="file" accept=".json,application/json" className="hidden"
+              onChange={(e) => {
+                if (e.target.files?.[0]) onImport(e.target.files[0]);
+                e.target.value = '';
+              }}
+            />
+          </label>
+          <button
+            onClick={onSave}
+            disabled={busy || !currentVersion || currentSaved}
+            className="px-4 py-2 bg-indigo-600 text-white rounded-xl text-sm font-bold hover:bg-indigo-700 transition-all shadow-lg shadow-indigo-200 flex items-center gap-2 disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            <Save className="w-4 h-4" />
+            Save Version
+          </button>
+        </div>
+      </div>
+    </Card>
+
+    <Card className="p-8">
+      <h3 className="text-lg font-bold mb-6">Saved Versions</h3>
+      {artifacts.length === 0 ? (
+        <p className="text-sm text-slate-400">No models saved yet. Save the active model or import an artifact file.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-left">
+            <thead>
+              <tr className="border-b border-slate-100">
+                <th className="pb-4 font-semibold text-slate-500 text-sm">Version</th>
+                <th className="pb-4 font-semibold text-slate-500 text-sm">Model</th>
+                <th className="pb-4 font-semibold text-slate-500 text-sm">Saved</th>
+                <th className="pb-4 font-semibold text-slate-500 text-sm">Training Data</th>
+                <th className="pb-4 font-semibold text-slate-500 text-sm">Test AUC</th>
+                <th className="pb-4 font-semibold text-slate-500 text-sm">Test F1</th>
+                <th className="pb-4" />
+              </tr>
+            </thead>
+            <tbody>
+              {artifacts.map(a => {
+                const active = a.version === currentVersion;
+                const sameData = trainingFingerprint !== null && sameFingerprint(a.trainingData, trainingFingerprint);
+                return (
+                  <tr key={a.version} className="border-b border-slate-50 last:border-0">
+                    <td className="py-4 text-sm font-mono">{a.version}</td>
+                    <td className="py-4 text-sm" title={a.featureSchema.map(f => `${f.label}: ${f.transform}`).join('\n')}>{MODEL_FAMILY_LABELS[a.model.family]}</td>
+                    <td className="py-4 text-sm text-slate-500">{new Date(a.createdAt).toLocaleString()}</td>
+                    <td className="py-4 text-sm">
+                      <span className="text-slate-600">{a.trainingData.size} patients</span>
+                      <span className={`ml-2 text-xs font-bold ${sameData ? 'text-emerald-600' : 'text-amber-600'}`}>
+                        {sameData ? 'current cohort' : 'other cohort'}
+                      </span>
+                    </td>
+                    <td className="py-4 text-sm font-medium">{a.metrics ? a.metrics.test.auc.toFixed(3) : '—'}</td>
+                    <td className="py-4 text-sm">{a.metrics ? pct(a.metrics.test.f1) : '—'}</td>
+                    <td className="py-4">
+                      <div className="flex items-center justify-end gap-2">
+                        {active ? (
+                          <span className="inline-flex items-center gap-1 text-xs font-bold text-emerald-600 uppercase px-2">
+                            <CheckCircle2 className="w-4 h-4" />
+                            Active
+                          </span>
+                        ) : (
+                          <button
+                            onClick={() => onActivate(a)}
+                            disabled={busy}
+                            className="px-3 py-1.5 bg-white border border-slate-200 rounded-lg text-xs font-medium text-slate-600 hover:bg-slate-50 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                          >
+                            Activate
+                          </button>
+                        )}
+                        <button
+                          onClick={() => onExport(a)}
+                          title="Export artifact"
+                          className="p-1.5 bg-white border border-slate-200 rounded-lg text-slate-600 hover:bg-slate-50 transition-colors"
+                        >
+                          <Download className="w-3.5 h-3.5" />
+                        </button>
+                        <button
+                          onClick={() => onDelete(a)}
+                          disabled={active}
+                          title="Delete version"
+                          className="p-1.5 bg-white border border-slate-200 rounded-lg text-rose-600 hover:bg-rose-50 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                        >
+                          <Trash2 className="w-3.5 h-3.5" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </Card>
+  </div>
+);
@@ -0,0 +1,351 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  BarChart, Bar, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend
+} from 'recharts';
+import { AlertCircle, AlertTriangle, CheckCircle2, Database, RefreshCw, Upload } from 'lucide-react';
+import { Card } from './ui';
+import { pct } from './EvaluationView';
+import { Patient } from '../utils/dataGenerator';
+import { PatientInput } from '../utils/explanation';
+import { autoMapColumns, mapRowsToDischarges, parseCsv } from '../utils/csvImport';
+import {
+  BatchRecord, DEFAULT_DRIFT_THRESHOLDS, DriftAlert, DriftStatus, DriftThresholds, FeatureDrift,
+  driftReport, timelineAlerts
+} from '../utils/drift';
+import { OutcomePeriod, PredictionQuery, TimelineBucket } from '../utils/predictionLog';
+import { fetchAllPredictions, fetchTimeline } from '../utils/apiClient';
+
+const inputClass = "bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-sm focus:ring-2 focus:ring-indigo-500 outline-none";
+
+const STATUS_STYLES: Record<DriftStatus, string> = {
+  alert: 'bg-rose-100 text-rose-600',
+  warning: 'bg-amber-100 text-amber-600',
+  stable: 'bg-emerald-100 text-emerald-600'
+};
+
+const THRESHOLD_FIELDS: { key: keyof DriftThresholds; label: string; step: number }[] = [
+  { key: 'psiWarning', label: 'PSI warning', step: 0.05 },
+  { key: 'psiAlert', label: 'PSI alert', step: 0.05 },
+  { key: 'alpha', label: 'Test significance (α)', step: 0.005 },
+  { key: 'categoryShift', label: 'Max category shift', step: 0.01 },
+  { key: 'calibrationGap', label: 'Max calibration gap', step: 0.01 },
+  { key: 'minOutcomes', label: 'Min outcomes', step: 5 }
+];
+
+interface Batch {
+  source: string;
+  records: BatchRecord[];
+  rejected: number;
+}
+
+/** Date inputs give local calendar days; the log stores UTC timestamps. */
+const toQuery = (from: string, to: string): PredictionQuery => ({
+  ...(from && { from: new Date(`${from}T00:00:00`).toISOString() }),
+  ...(to && { to: new Date(`${to}T23:59:59.999`).toISOString() })
+});
+
+const testSummary = (f: FeatureDrift) => f.kind === 'numeric'
+  ? `KS D=${f.ks.statistic.toFixed(3)}, p=${f.ks.pValue < 0.001 ? f.ks.pValue.toExponential(1) : f.ks.pValue.toFixed(3)}`
+  : `χ²=${f.chiSquare.statistic.toFixed(1)}, p=${f.chiSquare.pValue < 0.001 ? f.chiSquare.pValue.toExponential(1) : f.chiSquare.pValue.toFixed(3)}`;
+
+const shiftSummary = (f: FeatureDrift) => f.kind === 'numeric'
+  ? `Mean ${+f.referenceMean.toFixed(2)} → ${+f.batchMean.toFixed(2)}`
+  : `Largest share change ${(f.maxShift * 100).toFixed(1)} pts`;
+
+const AlertList = ({ alerts, empty }: { alerts: DriftAlert[], empty: string }) => alerts.length === 0 ? (
+  <p className="flex items-center gap-2 text-sm text-emerald-600 font-medium">
+    <CheckCircle2 className="w-4 h-4" />
+    {empty}
+  </p>
+) : (
+  <ul className="space-y-2">
+    {alerts.map((a, i) => (
+      <li key={i} className={`flex items-start gap-3 p-3 rounded-xl text-sm ${a.level === 'alert' ? 'bg-rose-50 text-rose-700' : 'bg-amber-50 text-amber-700'}`}>
+        <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+        <span><span className="font-bold">{a.subject}:</span> {a.message}</span>
+      </li>
+    ))}
+  </ul>
+);
+
+/**
+ * Compares a new batch of patients with the training cohort and tracks
+ * predicted against observed readmission in the prediction log. Batches
+ * come from a CSV upload or from the API's logged predictions.
+ */
+export const MonitoringView = ({ reference, score, thresholds, onThresholdsChange }: {
+  /** The cohort the active model was trained on */
+  reference: Patient[],
+  /** Displayed (calibrated) probability for an input */
+  score: (input: PatientInput) => number,
+  thresholds: DriftThresholds,
+  onThresholdsChange: (thresholds: DriftThresholds) => void
+}) => {
+  const [batch, setBatch] = useState<Batch | null>(null);
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [loadingBatch, setLoadingBatch] = useState(false);
+  const [batchError, setBatchError] = useState<string | null>(null);
+  const [selected, setSelected] = useState('age');
+  const [bucket, setBucket] = useState<TimelineBucket>('week');
+  const [timeline, setTimeline] = useState<OutcomePeriod[] | null>(null);
+  const [timelineError, setTimelineError] = useState<string | null>(null);
+  // Date range of the last loaded log batch; the timeline follows it
+  const [range, setRange] = useState<PredictionQuery>({});
+
+  const report = useMemo(
+    () => batch && batch.records.length > 0 ? driftReport(reference, batch.records, score, thresholds) : null,
+    [batch, reference, score, thresholds]
+  );
+  const periodAlerts = useMemo(() => timeline ? timelineAlerts(timeline, thresholds) : [], [timeline, thresholds]);
+  const features = report ? [...report.features, report.predictedRisk] : [];
+  const chartFeature = features.find(f => f.key === selected) ?? features[0];
+
+  const loadTimeline = useCallback(async () => {
+    setTimelineError(null);
+    try {
+      setTimeline(await fetchTimeline(range, bucket));
+    } catch (err) {
+      setTimeline(null);
+      setTimelineError(err instanceof Error ? err.message : String(err));
+    }
+  }, [range, bucket]);
+
+  useEffect(() => { loadTimeline(); }, [loadTimeline]);
+
+  const handleFile = async (file: File) => {
+    setBatchError(null);
+    try {
+      const csv = parseCsv(await file.text());
+      const result = mapRowsToDischarges(csv, autoMapColumns(csv.headers));
+      if (result.discharges.length === 0) throw new Error('No valid rows in the file.');
+      setBatch({
+        source: file.name,
+        records: result.discharges.map(d => ({ input: d.input, ...(d.readmitted !== undefined && { readmitted: d.readmitted }) })),
+        rejected: result.rejected.length
+      });
+    } catch (err) {
+      setBatch(null);
+      setBatchError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const loadLogged = async () => {
+    setLoadingBatch(true);
+    setBatchError(null);
+    try {
+      const query = toQuery(from, to);
+      const items = await fetchAllPredictions(query);
+      if (items.length === 0) throw new Error('No logged predictions in this date range.');
+      setBatch({
+        source: `Prediction log${from || to ? ` (${from || '…'} to ${to || '…'})` : ''}`,
+        records: items.map(p => ({ input: p.features, ...(p.outcome !== null && { readmitted: p.outcome }) })),
+        rejected: 0
+      });
+      setRange(query);
+    } catch (err) {
+      setBatchError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoadingBatch(false);
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        <Card className="p-8 lg:col-span-2">
+          <h3 className="text-lg font-bold mb-2">Batch to Compare</h3>
+          <p className="text-xs text-slate-400 mb-6">
+            Compared against the {reference.length} training patients. Upload a CSV with the model's input columns (a readmitted column is optional), or use predictions logged through the API.
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <label className="block text-xs font-semibold text-slate-500 mb-2 flex items-center gap-1">
+                <Upload className="w-3 h-3" />
+                CSV file
+              </label>
+              <input
+                type="file" accept=".csv,text/csv"
+                onChange={(e) => e.target.files?.[0] && handleFile(e.target.files[0])}
+                className="block w-full text-sm text-slate-600 file:mr-4 file:px-4 file:py-2 file:rounded-xl file:border-0 file:bg-indigo-50 file:text-indigo-700 file:font-medium hover:file:bg-indigo-100"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-semibold text-slate-500 mb-2 flex items-center gap-1">
+                <Database className="w-3 h-3" />
+                Logged predictions
+              </label>
+              <div className="flex flex-wrap items-center gap-2">
+                <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className={inputClass} />
+                <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className={inputClass} />
+                <button
+                  onClick={loadLogged}
+                  disabled={loadingBatch}
+                  className="px-4 py-2 bg-indigo-600 text-white rounded-xl text-sm font-bold hover:bg-indigo-700 transition-all shadow-lg shadow-indigo-200 flex items-center gap-2 disabled:opacity-40"
+                >
+                  <RefreshCw className={`w-4 h-4 ${loadingBatch ? 'animate-spin' : ''}`} />
+                  Load
+                </button>
+              </div>
+            </div>
+          </div>
+          {batchError && (
+            <p className="mt-6 flex items-center gap-2 text-rose-600 text-sm font-medium">
+              <AlertCircle className="w-4 h-4" />
+              {batchError}
+            </p>
+          )}
+          {batch && (
+            <p className="mt-6 text-xs text-slate-500">
+              <span className="font-bold text-slate-700">{batch.source}</span> · {batch.records.length} patients
+              {batch.rejected > 0 && ` · ${batch.rejected} rows rejected`}
+              {report?.performance && ` · ${report.performance.withOutcome} with outcomes`}
+            </p>
+          )}
+        </Card>
+
+        <Card className="p-8">
+          <h3 className="text-lg font-bold mb-6">Alert Thresholds</h3>
+          <div className="grid grid-cols-2 gap-4">
+            {THRESHOLD_FIELDS.map(f => (
+              <div key={f.key}>
+                <label className="block text-xs font-semibold text-slate-500 mb-1">{f.label}</label>
+                <input
+                  type="number" min={0} step={f.step} value={thresholds[f.key]}
+                  onChange={(e) => {
+                    const v = parseFloat(e.target.value);
+                    if (!Number.isNaN(v) && v >= 0) onThresholdsChange({ ...thresholds, [f.key]: v });
+                  }}
+                  className={`w-full ${inputClass}`}
+                />
+              </div>
+            ))}
+          </div>
+          <button
+            onClick={() => onThresholdsChange(DEFAULT_DRIFT_THRESHOLDS)}
+            className="mt-6 px-4 py-2 bg-white border border-slate-200 rounded-xl text-sm font-medium text-slate-600 hover:bg-slate-50 transition-colors flex items-center gap-2"
+          >
+            Defaults
+          </button>
+        </Card>
+      </div>
+
+      {report && (
+        <>
+          <Card className="p-8">
+            <h3 className="text-lg font-bold mb-6">Drift Alerts</h3>
+            <AlertList alerts={report.alerts} empty="No feature, output or calibration drift beyond the thresholds." />
+          </Card>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+            <Card className="p-8">
+              <h3 className="text-lg font-bold mb-2">Feature Drift</h3>
+              <p className="text-xs text-slate-400 mb-6">
+                PSI over reference deciles (categories for discrete features). Select a row to see its distribution.
+              </p>
+              <table className="w-full text-left">
+                <thead>
+                  <tr className="border-b border-slate-100">
+                    <th className="pb-3 font-semibold text-slate-500 text-xs">Feature</th>
+                    <th className="pb-3 font-semibold text-slate-500 text-xs">PSI</th>
+                    <th className="pb-3 font-semibold text-slate-500 text-xs">Test</th>
+                    <th className="pb-3 font-semibold text-slate-500 text-xs">Shift</th>
+                    <th className="pb-3 font-semibold text-slate-500 text-xs">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {features.map(f => (
+                    <tr
+                      key={f.key}
+                      onClick={() => setSelected(f.key)}
+                      className={`border-b border-slate-50 last:border-0 cursor-pointer hover:bg-slate-50 ${chartFeature?.key === f.key ? 'bg-indigo-50/50' : ''}`}
+                    >
+                      <td className="py-3 text-xs font-bold">{f.label}</td>
+                      <td className="py-3 text-xs font-mono">{f.psi.toFixed(3)}</td>
+                      <td className="py-3 text-xs text-slate-500">{testSummary(f)}</td>
+                      <td className="py-3 text-xs text-slate-500">{shiftSummary(f)}</td>
+                      <td className="py-3 text-xs">
+                        <span className={`px-2 py-1 rounded-full font-bold uppercase ${STATUS_STYLES[f.status]}`}>{f.status}</span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </Card>
+
+            {chartFeature && (
+              <Card className="p-8">
+                <h3 className="text-lg font-bold mb-2">{chartFeature.label}: Reference vs Batch</h3>
+                <p className="text-xs text-slate-400 mb-6">Share of patients in each bin.</p>
+                <div className="h-[300px]">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={chartFeature.bins}>
+                      <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                      <XAxis dataKey="label" axisLine={false} tickLine={false} tick={{ fill: '#64748b', fontSize: 11 }} />
+                      <YAxis tickFormatter={(v: number) => pct(v)} axisLine={false} tickLine={false} tick={{ fill: '#64748b', fontSize: 12 }} />
+                      <Tooltip formatter={(v: number) => pct(v)} contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)' }} />
+                      <Legend />
+                      <Bar dataKey="reference" name="Training cohort" fill="#94a3b8" radius={[6, 6, 0, 0]} />
+                      <Bar dataKey="batch" name="Batch" fill="#6366f1" radius={[6, 6, 0, 0]} />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
+              </Card>
+            )}
+          </div>
+        </>
+      )}
+
+      <Card className="p-8">
+        <div className="flex flex-wrap items-start justify-between gap-4 mb-6">
+          <div>
+            <h3 className="text-lg font-bold mb-2">Predicted vs Observed Readmission</h3>
+            <p className="text-xs text-slate-400">
+              Logged predictions per period. Observed rate and its matching predicted rate use only predictions with a recorded outcome.
+            </p>
+          </div>
+          <div className="flex bg-slate-50 border border-slate-200 rounded-lg p-0.5">
+            {(['week', 'month'] as TimelineBucket[]).map(b => (
+              <button
+                key={b}
+                onClick={() => setBucket(b)}
+                className={`px-3 py-1 rounded-md text-xs font-medium capitalize ${bucket === b ? 'bg-white shadow-sm text-indigo-600' : 'text-slate-500'}`}
+              >
+                {b}
+              </button>
+            ))}
+          </div>
+        </div>
+        {timelineError ? (
+          <p className="flex items-center gap-2 text-rose-600 text-sm font-medium">
+            <AlertCircle className="w-4 h-4" />
+            {timelineError}
+          </p>
+        ) : !timeline || timeline.length === 0 ? (
+          <p className="text-sm text-slate-400">No predictions have been logged yet.</p>
+        ) : (
+          <div className="space-y-6">
+            <div className="h-[300px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={timeline} margin={{ bottom: 16 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#f1f5f9" />
+                  <XAxis dataKey="period" axisLine={false} tickLine={false} tick={{ fill: '#64748b', fontSize: 12 }} />
+                  <YAxis domain={[0, 1]} tickFormatter={(v: number) => pct(v)} axisLine={false} tickLine={false} tick={{ fill: '#64748b', fontSize: 12 }} />
+                  <Tooltip formatter={(v: number) => pct(v)} labelFormatter={(p: string) => `${bucket === 'week' ? 'Week of' : 'Month of'} ${p}`} />
+                  <Legend verticalAlign="top" height={32} />
+                  <Line dataKey="meanPredicted" name="Mean predicted (all)" stroke="#94a3b8" strokeDasharray="5 5" />
+                  <Line dataKey="meanPredictedWithOutcome" name="Mean predicted (with outcome)" stroke="#6366f1" strokeWidth={2} connectNulls />
+                  <Line dataKey="observedRate" name="Observed" stroke="#f43f5e" strokeWidth={2} connectNulls />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+            <AlertList
+              alerts={periodAlerts}
+              empty={`No period with at least ${thresholds.minOutcomes} outcomes has a calibration gap above ${pct(thresholds.calibrationGap)}.`}
+            />
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,107 @@
+import React from 'react';
+import { BarChart, Bar, Cell, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { ArrowRight, BarChart3, Lightbulb } from 'lucide-react';
+import { Card } from './ui';
+import { pct } from './EvaluationView';
+import { Counterfactual, PredictionExplanation } from '../utils/explanation';
+import { RiskBand } from '../utils/mlModel';
+
+const BAND_LABELS = { high: 'High Risk', moderate: 'Moderate Risk', low: 'Low Risk' };
+
+// Each bar spans [running total before, running total after] in log-odds
+function waterfallRows(explanation: PredictionExplanation) {
+  const rows: { name: string, range: [number, number], delta: number, kind: 'base' | 'up' | 'down' | 'total' }[] = [];
+  let running = explanation.baseline;
+  rows.push({ name: explanation.method === 'exact' ? 'Intercept' : 'Average patient', range: [0, running], delta: running, kind: 'base' });
+  const steps = explanation.contributions.map(c => ({ name: c.label, delta: c.contribution }));
+  if (explanation.method === 'occlusion') steps.push({ name: 'Interactions', delta: explanation.interaction });
+  steps.forEach(({ name, delta }) => {
+    rows.push({ name, range: [running, running + delta], delta, kind: delta >= 0 ? 'up' : 'down' });
+    running += delta;
+  });
+  rows.push({ name: 'Log-odds', range: [0, explanation.logOdds], delta: explanation.logOdds, kind: 'total' });
+  return rows;
+}
+
+const BAR_COLORS = { base: '#94a3b8', up: '#f43f5e', down: '#10b981', total: '#6366f1' };
+
+export const PredictionExplanationView = ({ explanation, counterfactual, probability, band }: {
+  explanation: PredictionExplanation,
+  counterfactual: Counterfactual | null,
+  probability: number,
+  band: RiskBand
+}) => {
+  const rows = waterfallRows(explanation);
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-10 mt-10">
+      <Card className="p-8">
+        <h3 className="text-lg font-bold flex items-center gap-2">
+          <BarChart3 className="w-5 h-5 text-indigo-600" />
+          Why this score?
+        </h3>
+        <p className="text-xs text-slate-400 mt-1 mb-6">
+          {explanation.method === 'exact'
+            ? 'Each feature\'s weight × value, in log-odds of the uncalibrated model.'
+            : 'Log-odds change when each feature is reset to the training-cohort average.'}
+          {' '}Red raises risk, green lowers it.
+        </p>
+        <div style={{ height: Math.max(300, rows.length * 22) }}>
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={rows} layout="vertical" margin={{ left: 24 }}>
+              <CartesianGrid strokeDasharray="3 3" horizontal={false} stroke="#f1f5f9" />
+              <XAxis type="number" tickFormatter={(v: number) => v.toFixed(1)} axisLine={false} tickLine={false} tick={{ fill: '#64748b', fontSize: 12 }} />
+              <YAxis type="category" dataKey="name" width={150} axisLine={false} tickLine={false} tick={{ fill: '#64748b', fontSize: 12 }} />
+              <Tooltip
+                formatter={(_: unknown, __: unknown, item: any) => [`${item.payload.delta >= 0 ? '+' : ''}${item.payload.delta.toFixed(3)}`, 'Log-odds']}
+                contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)' }}
+              />
+              <ReferenceLine x={0} stroke="#cbd5e1" />
+              <Bar dataKey="range" radius={[4, 4, 4, 4]} isAnimationActive={false}>
+                {rows.map((r, i) => <Cell key={i} fill={BAR_COLORS[r.kind]} />)}
+              </Bar>
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </Card>
+
+      <Card className="p-8">
+        <h3 className="text-lg font-bold flex items-center gap-2">
+          <Lightbulb className="w-5 h-5 text-amber-500" />
+          What would lower the band?
+        </h3>
+        <p className="text-xs text-slate-400 mt-1 mb-6">
+          Smallest change to modifiable inputs that moves this patient into a lower risk band, holding everything else fixed.
+        </p>
+        {counterfactual ? (
+          <div className="space-y-4">
+            {counterfactual.changes.map(c => (
+              <div key={c.feature.key} className="flex items-center justify-between p-4 bg-slate-50 rounded-xl border border-slate-200 text-sm">
+                <span className="font-semibold text-slate-700">{c.feature.label}</span>
+                <span className="flex items-center gap-2 font-bold">
+                  {c.from} <ArrowRight className="w-4 h-4 text-slate-400" /> {c.to} {c.feature.unit}
+                </span>
+              </div>
+            ))}
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-slate-500">Predicted risk</span>
+              <span className="font-bold flex items-center gap-2">
+                {pct(probability)} <ArrowRight className="w-4 h-4 text-slate-400" /> {pct(counterfactual.probability)}
+                <span className="text-emerald-600">({BAND_LABELS[counterfactual.band]})</span>
+              </span>
+            </div>
+            <p className="text-xs text-slate-400 leading-relaxed">
+              This describes the model's behaviour, not a causal effect; use it to prompt discussion, not as a care instruction.
+            </p>
+          </div>
+        ) : band === 'low' ? (
+          <p className="text-sm text-slate-500">Already in the lowest risk band.</p>
+        ) : (
+          <p className="text-sm text-slate-500">
+            No change to the modifiable inputs within their allowed range lowers this patient's risk band.
+          </p>
+        )}
+      </Card>
+    </div>
+  );
+};
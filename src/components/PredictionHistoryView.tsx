@@ -0,0 +1,307 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { AlertCircle, ChevronLeft, ChevronRight, RefreshCw, Search } from 'lucide-react';
+import { Card } from './ui';
+import { pct } from './EvaluationView';
+import { RiskBand } from '../utils/mlModel';
+import { PredictionPage, PredictionQuery, PredictionRecord, RetrospectiveSummary } from '../utils/predictionLog';
+import { fetchRetrospective, recordOutcome, searchPredictions } from '../utils/apiClient';
+
+const PAGE_SIZE = 25;
+const inputClass = "bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-sm focus:ring-2 focus:ring-indigo-500 outline-none";
+const BAND_STYLES: Record<RiskBand, string> = {
+  high: 'bg-rose-100 text-rose-600',
+  moderate: 'bg-amber-100 text-amber-600',
+  low: 'bg-emerald-100 text-emerald-600'
+};
+
+interface Filters {
+  text: string;
+  band: RiskBand | '';
+  outcome: NonNullable<PredictionQuery['outcome']> | '';
+  from: string;
+  to: string;
+}
+
+const EMPTY_FILTERS: Filters = { text: '', band: '', outcome: '', from: '', to: '' };
+
+/** Date inputs give local calendar days; the log stores UTC timestamps. */
+const toQuery = (f: Filters): PredictionQuery => ({
+  ...(f.text && { text: f.text }),
+  ...(f.band && { band: f.band }),
+  ...(f.outcome && { outcome: f.outcome }),
+  ...(f.from && { from: new Date(`${f.from}T00:00:00`).toISOString() }),
+  ...(f.to && { to: new Date(`${f.to}T23:59:59.999`).toISOString() })
+});
+
+const describe = (p: PredictionRecord) => [
+  `${p.features.age}y`,
+  p.features.deliveryType,
+  `LOS ${p.features.los}d`,
+  p.features.location,
+  p.features.complications ? 'complications' : null
+].filter(Boolean).join(' · ');
+
+const OutcomeButtons = ({ prediction, busy, onRecord }: {
+  prediction: PredictionRecord,
+  busy: boolean,
+  onRecord: (readmitted: boolean | null) => void
+}) => {
+  const option = (value: boolean, label: string, active: string) => (
+    <button
+      onClick={() => onRecord(prediction.outcome === value ? null : value)}
+      disabled={busy}
+      title={prediction.outcome === value ? 'Click again to clear' : undefined}
+      className={`px-2 py-1 rounded-lg text-xs font-medium transition-all disabled:opacity-40 ${
+        prediction.outcome === value ? active : 'text-slate-500 hover:bg-slate-100'
+      }`}
+    >
+      {label}
+    </button>
+  );
+  return (
+    <div className="flex bg-slate-50 border border-slate-200 rounded-lg p-0.5 w-fit">
+      {option(true, 'Readmitted', 'bg-rose-100 text-rose-700')}
+      {option(false, 'Not readmitted', 'bg-emerald-100 text-emerald-700')}
+    </div>
+  );
+};
+
+const Metric = ({ label, value, detail }: { label: string, value: string, detail: string }) => (
+  <div className="p-4 bg-slate-50 rounded-xl border border-slate-100">
+    <p className="text-xs font-semibold text-slate-500 uppercase">{label}</p>
+    <p className="text-2xl font-bold text-slate-900 mt-1">{value}</p>
+    <p className="text-xs text-slate-400 mt-1">{detail}</p>
+  </div>
+);
+
+const RetrospectiveCard = ({ summary }: { summary: RetrospectiveSummary }) => (
+  <Card className="p-8">
+    <h3 className="text-lg font-bold mb-1">Retrospective Evaluation</h3>
+    <p className="text-xs text-slate-400 mb-6">
+      Logged probabilities scored against the outcomes recorded so far, for predictions matching the current filters.
+    </p>
+    {summary.withOutcome === 0 ? (
+      <p className="text-sm text-slate-400">No outcomes recorded yet. Mark predictions as readmitted or not once follow-up is complete.</p>
+    ) : (
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        <div className="grid grid-cols-2 gap-4">
+          <Metric label="Outcomes recorded" value={String(summary.withOutcome)} detail={`${summary.pending} still pending`} />
+          <Metric label="Observed rate" value={pct(summary.observedRate)} detail={`Mean predicted ${pct(summary.meanPredicted)}`} />
+          <Metric label="AUC" value={summary.metrics ? summary.metrics.auc.toFixed(3) : '—'} detail={summary.metrics ? `Recall ${pct(summary.metrics.recall)} at 0.5` : 'Needs both outcomes'} />
+          <Metric label="Brier score" value={summary.brier !== null ? summary.brier.toFixed(3) : '—'} detail="Lower is better" />
+        </div>
+        <table className="w-full text-left self-start">
+          <thead>
+            <tr className="border-b border-slate-100">
+              <th className="pb-3 font-semibold text-slate-500 text-xs">Risk band</th>
+              <th className="pb-3 font-semibold text-slate-500 text-xs">With outcome</th>
+              <th className="pb-3 font-semibold text-slate-500 text-xs">Mean predicted</th>
+              <th className="pb-3 font-semibold text-slate-500 text-xs">Observed</th>
+            </tr>
+          </thead>
+          <tbody>
+            {summary.byBand.map(b => (
+              <tr key={b.band} className="border-b border-slate-50 last:border-0">
+                <td className="py-3 text-xs">
+                  <span className={`px-2 py-1 rounded-full font-bold uppercase ${BAND_STYLES[b.band]}`}>{b.band}</span>
+                </td>
+                <td className="py-3 text-xs">{b.n}</td>
+                <td className="py-3 text-xs">{b.n ? pct(b.meanPredicted) : '—'}</td>
+                <td className="py-3 text-xs font-bold">{b.n ? pct(b.observedRate) : '—'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    )}
+  </Card>
+);
+
+/**
+ * Searchable log of every prediction made through the API or the Risk
+ * Predictor, with outcome recording for retrospective evaluation. Data
+ * lives in the API's SQLite store, so this view fetches rather than
+ * receiving props from the app state.
+ */
+export const PredictionHistoryView = () => {
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [applied, setApplied] = useState<Filters>(EMPTY_FILTERS);
+  const [offset, setOffset] = useState(0);
+  const [page, setPage] = useState<PredictionPage | null>(null);
+  const [summary, setSummary] = useState<RetrospectiveSummary | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [updating, setUpdating] = useState<number | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const query = toQuery(applied);
+      const [nextPage, nextSummary] = await Promise.all([
+        searchPredictions({ ...query, limit: PAGE_SIZE, offset }),
+        fetchRetrospective(query)
+      ]);
+      setPage(nextPage);
+      setSummary(nextSummary);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  }, [applied, offset]);
+
+  useEffect(() => { load(); }, [load]);
+
+  const search = () => {
+    setApplied(filters);
+    setOffset(0);
+  };
+
+  const record = async (prediction: PredictionRecord, readmitted: boolean | null) => {
+    setUpdating(prediction.id);
+    try {
+      const updated = await recordOutcome(prediction.id, readmitted);
+      setPage(p => p && { ...p, items: p.items.map(i => i.id === updated.id ? updated : i) });
+      setSummary(await fetchRetrospective(toQuery(applied)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setUpdating(null);
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      <Card className="p-8">
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="flex-1 min-w-[200px]">
+            <label className="block text-xs font-semibold text-slate-500 mb-1">Patient id or note</label>
+            <input
+              type="text" value={filters.text} placeholder="Search…"
+              onChange={(e) => setFilters({ ...filters, text: e.target.value })}
+              onKeyDown={(e) => { if (e.key === 'Enter') search(); }}
+              className={`${inputClass} w-full`}
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-semibold text-slate-500 mb-1">Risk band</label>
+            <select value={filters.band} onChange={(e) => setFilters({ ...filters, band: e.target.value as Filters['band'] })} className={inputClass}>
+              <option value="">All</option>
+              <option value="high">High</option>
+              <option value="moderate">Moderate</option>
+              <option value="low">Low</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-semibold text-slate-500 mb-1">Outcome</label>
+            <select value={filters.outcome} onChange={(e) => setFilters({ ...filters, outcome: e.target.value as Filters['outcome'] })} className={inputClass}>
+              <option value="">All</option>
+              <option value="pending">Pending</option>
+              <option value="recorded">Recorded</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-semibold text-slate-500 mb-1">From</label>
+            <input type="date" value={filters.from} onChange={(e) => setFilters({ ...filters, from: e.target.value })} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-xs font-semibold text-slate-500 mb-1">To</label>
+            <input type="date" value={filters.to} onChange={(e) => setFilters({ ...filters, to: e.target.value })} className={inputClass} />
+          </div>
+          <button
+            onClick={search}
+            className="px-4 py-2 bg-indigo-600 text-white rounded-xl text-sm font-bold hover:bg-indigo-700 transition-all shadow-lg shadow-indigo-200 flex items-center gap-2"
+          >
+            <Search className="w-4 h-4" />
+            Search
+          </button>
+          <button
+            onClick={load}
+            disabled={loading}
+            className="px-4 py-2 bg-white border border-slate-200 rounded-xl text-sm font-medium text-slate-600 hover:bg-slate-50 transition-colors flex items-center gap-2 disabled:opacity-40"
+          >
+            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </button>
+        </div>
+        {error && (
+          <p className="mt-4 flex items-center gap-2 text-rose-600 text-sm font-medium">
+            <AlertCircle className="w-4 h-4" />
+            {error}
+          </p>
+        )}
+      </Card>
+
+      {summary && <RetrospectiveCard summary={summary} />}
+
+      <Card className="p-8">
+        <div className="flex items-center justify-between mb-6">
+          <h3 className="text-lg font-bold">Logged Predictions</h3>
+          {page && page.total > 0 && (
+            <div className="flex items-center gap-3 text-xs text-slate-500">
+              {offset + 1}–{Math.min(offset + PAGE_SIZE, page.total)} of {page.total}
+              <button
+                onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+                disabled={offset === 0 || loading}
+                className="p-1 rounded-lg border border-slate-200 hover:bg-slate-50 disabled:opacity-40"
+              >
+                <ChevronLeft className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => setOffset(offset + PAGE_SIZE)}
+                disabled={offset + PAGE_SIZE >= page.total || loading}
+                className="p-1 rounded-lg border border-slate-200 hover:bg-slate-50 disabled:opacity-40"
+              >
+                <ChevronRight className="w-4 h-4" />
+              </button>
+            </div>
+          )}
+        </div>
+        {!page || page.items.length === 0 ? (
+          <p className="text-sm text-slate-400">
+            {page ? 'No predictions match these filters.' : 'Predictions appear here once the API is running.'}
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-left">
+              <thead>
+                <tr className="border-b border-slate-100">
+                  <th className="pb-3 font-semibold text-slate-500 text-xs">When</th>
+                  <th className="pb-3 font-semibold text-slate-500 text-xs">Patient</th>
+                  <th className="pb-3 font-semibold text-slate-500 text-xs">Risk</th>
+                  <th className="pb-3 font-semibold text-slate-500 text-xs">Model</th>
+                  <th className="pb-3 font-semibold text-slate-500 text-xs">Note</th>
+                  <th className="pb-3 font-semibold text-slate-500 text-xs">Outcome</th>
+                </tr>
+              </thead>
+              <tbody>
+                {page.items.map(p => (
+                  <tr key={p.id} className="border-b border-slate-50 last:border-0 align-top">
+                    <td className="py-3 text-xs text-slate-500 whitespace-nowrap">
+                      {new Date(p.createdAt).toLocaleString()}
+                      <p className="text-slate-400">{p.source === 'api' ? 'API' : 'Risk Predictor'}</p>
+                    </td>
+                    <td className="py-3 text-xs">
+                      <p className="font-bold">{p.externalId ?? `#${p.id}`}</p>
+                      <p className="text-slate-400">{describe(p)}</p>
+                    </td>
+                    <td className="py-3 text-xs">
+                      <span className="font-bold mr-2">{pct(p.probability)}</span>
+                      <span className={`px-2 py-0.5 rounded-full font-bold uppercase ${BAND_STYLES[p.band]}`}>{p.band}</span>
+                    </td>
+                    <td className="py-3 text-xs font-mono text-slate-500">{p.modelVersion}</td>
+                    <td className="py-3 text-xs text-slate-600 max-w-[220px]">{p.note ?? <span className="text-slate-300">—</span>}</td>
+                    <td className="py-3 text-xs">
+                      <OutcomeButtons prediction={p} busy={updating === p.id} onRecord={(r) => record(p, r)} />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,142 @@
+import React, { useMemo } from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { Stethoscope, Activity } from 'lucide-react';
+import { Card } from './ui';
+import { Patient } from '../utils/dataGenerator';
+import { BMI_BANDS, Band, GESTATIONAL_AGE_BANDS } from '../utils/cohortExplorer';
+
+interface FactorGroup {
+  factor: string;
+  group: string;
+  n: number;
+  /** Readmission rate in percent */
+  rate: number;
+}
+
+const readmissionRate = (patients: Patient[]) =>
+  patients.length ? +(patients.filter(p => p.readmitted).length / patients.length * 100).toFixed(1) : 0;
+
+// Records without the factor recorded are left out of its groups
+function factorGroups(data: Patient[]): FactorGroup[] {
+  const groups: { factor: string; group: string; match: (p: Patient) => boolean }[] = [
+    { factor: 'Hypertension', group: 'None', match: p => p.hypertension === 'None' },
+    { factor: 'Hypertension', group: 'Gestational HTN', match: p => p.hypertension === 'Gestational' },
+    { factor: 'Hypertension', group: 'Preeclampsia', match: p => p.hypertension === 'Preeclampsia' },
+    { factor: 'Diabetes', group: 'Gestational diabetes', match: p => p.gestationalDiabetes === true },
+    { factor: 'Hemorrhage', group: 'Postpartum hemorrhage', match: p => p.hemorrhage === true },
+    { factor: 'BMI', group: 'BMI ≥ 30', match: p => p.bmi !== undefined && p.bmi >= 30 },
+    { factor: 'Preterm', group: 'Preterm (< 37 wk)', match: p => p.preterm === true },
+    { factor: 'Parity', group: 'First birth', match: p => p.parity === 0 },
+    { factor: 'History', group: 'Prior readmission', match: p => (p.priorReadmissions ?? 0) > 0 },
+    { factor: 'Payer', group: 'Private', match: p => p.payer === 'Private' },
+    { factor: 'Payer', group: 'Medicaid', match: p => p.payer === 'Medicaid' },
+    { factor: 'Payer', group: 'Uninsured', match: p => p.payer === 'Uninsured' }
+  ];
+  return groups
+    .map(g => {
+      const members = data.filter(g.match);
+      return { factor: g.factor, group: g.group, n: members.length, rate: readmissionRate(members) };
+    })
+    .filter(g => g.n > 0);
+}
+
+function histogram(data: Patient[], value: (p: Patient) => number | undefined, bins: Band[]) {
+  return bins.map(b => {
+    const members = data.filter(p => {
+      const v = value(p);
+      return v !== undefined && v >= b.min && v < b.max;
+    });
+    return {
+      label: b.label,
+      readmitted: members.filter(p => p.readmitted).length,
+      stable: members.filter(p => !p.readmitted).length
+    };
+  });
+}
+
+const tooltipStyle = { borderRadius: '12px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)' };
+
+const StackedHistogram = ({ title, rows }: { title: string, rows: ReturnType<typeof histogram> }) => (
+  <div>
+    <p className="text-xs font-semibold text-slate-500 mb-2">{title}</p>
+    <div className="h-[180px]">
+      <ResponsiveContainer width="100%" height="100%">
+        <BarChart data={rows}>
+          <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+          <XAxis dataKey="label" axisLine={false} tickLine={false} tick={{ fill: '#64748b', fontSize: 11 }} />
+          <YAxis axisLine={false} tickLine={false} tick={{ fill: '#64748b', fontSize: 11 }} />
+          <Tooltip contentStyle={tooltipStyle} />
+          <Bar dataKey="stable" name="Stable" stackId="outcome" fill="#6366f1" />
+          <Bar dataKey="readmitted" name="Readmitted" stackId="outcome" fill="#f43f5e" radius={[4, 4, 0, 0]} />
+        </BarChart>
+      </ResponsiveContainer>
+    </div>
+  </div>
+);
+
+/** Readmission rates and distributions for the extended obstetric risk factors. */
+export const RiskFactorCharts = ({ data }: { data: Patient[] }) => {
+  const overall = readmissionRate(data);
+  const groups = useMemo(() => factorGroups(data), [data]);
+  const bmi = useMemo(() => histogram(data, p => p.bmi, BMI_BANDS), [data]);
+  const gestationalAge = useMemo(() => histogram(data, p => p.gestationalAge, GESTATIONAL_AGE_BANDS), [data]);
+  const recorded = data.filter(p => p.hypertension !== undefined).length;
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+      <Card className="p-8">
+        <h3 className="text-lg font-bold flex items-center gap-2">
+          <Stethoscope className="w-5 h-5 text-indigo-600" />
+          Readmission by Obstetric Risk Factor
+        </h3>
+        <p className="text-xs text-slate-400 mt-1 mb-6">
+          Readmission rate among patients with each factor; the dashed line is the cohort rate ({overall}%).
+          {recorded < data.length && ` ${data.length - recorded} of ${data.length} records have no extended risk factors recorded.`}
+        </p>
+        {groups.length > 0 ? (
+          <div style={{ height: Math.max(260, groups.length * 28) }}>
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={groups} layout="vertical" margin={{ left: 24 }}>
+                <CartesianGrid strokeDasharray="3 3" horizontal={false} stroke="#f1f5f9" />
+                <XAxis type="number" unit="%" axisLine={false} tickLine={false} tick={{ fill: '#64748b', fontSize: 12 }} />
+                <YAxis type="category" dataKey="group" width={150} axisLine={false} tickLine={false} tick={{ fill: '#64748b', fontSize: 12 }} />
+                <Tooltip
+                  formatter={(v: number, _: unknown, item: any) => [`${v}% (n = ${item.payload.n})`, 'Readmission rate']}
+                  contentStyle={tooltipStyle}
+                />
+                <ReferenceLine x={overall} stroke="#94a3b8" strokeDasharray="4 4" />
+                <Bar dataKey="rate" fill="#f43f5e" radius={[0, 4, 4, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        ) : (
+          <p className="text-sm text-slate-400">This cohort has no extended risk factors recorded.</p>
+        )}
+      </Card>
+
+      <Card className="p-8">
+        <h3 className="text-lg font-bold flex items-center gap-2">
+          <Activity className="w-5 h-5 text-indigo-600" />
+          BMI and Gestational Age
+        </h3>
+        <p className="text-xs text-slate-400 mt-1 mb-6">
+          Patients per band, split by 30-day readmission.
+        </p>
+        <div className="space-y-6">
+          <StackedHistogram title="Pre-pregnancy BMI (kg/m²)" rows={bmi} />
+          <StackedHistogram title="Gestational age at delivery (weeks)" rows={gestationalAge} />
+        </div>
+        <div className="flex justify-center gap-6 mt-4">
+          <div className="flex items-center gap-2">
+            <div className="w-3 h-3 rounded-full bg-indigo-500" />
+            <span className="text-xs text-slate-600">Stable</span>
+          </div>
+          <div className="flex items-center gap-2">
+            <div className="w-3 h-3 rounded-full bg-rose-500" />
+            <span className="text-xs text-slate-600">Readmitted</span>
+          </div>
+        </div>
+      </Card>
+    </div>
+  );
+};
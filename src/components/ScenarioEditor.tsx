@@ -0,0 +1,165 @@
+import React, { useState } from 'react';
+import { RefreshCw, RotateCcw, Shuffle, SlidersHorizontal } from 'lucide-react';
+import { Card } from './ui';
+import { DEFAULT_SCENARIO, ScenarioConfig } from '../utils/dataGenerator';
+
+const inputClass = "w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-2 text-sm focus:ring-2 focus:ring-indigo-500 outline-none";
+
+const NumberField = ({ label, value, step = 1, min, max, error, onChange }: {
+  label: string, value: number, step?: number, min?: number, max?: number, error?: string | null, onChange: (v: number) => void
+}) => (
+  <div>
+    <label className="block text-xs font-semibold text-slate-500 mb-1">{label}</label>
+    <input
+      type="number" step={step} min={min} max={max}
+      value={value}
+      onChange={(e) => {
+        const v = parseFloat(e.target.value);
+        if (!Number.isNaN(v)) onChange(v);
+      }}
+      className={`${inputClass} ${error ? 'border-rose-400' : ''}`}
+    />
+    {error && <p className="mt-1 text-xs text-rose-600">{error}</p>}
+  </div>
+);
+
+/** Why a min/max pair cannot be sampled from, or null if it can. */
+const rangeError = ({ min, max }: { min: number, max: number }) => {
+  if (!Number.isFinite(min) || !Number.isFinite(max)) return 'Enter finite values';
+  return min > max ? 'Must not exceed the maximum' : null;
+};
+
+const RateSlider = ({ label, value, onChange }: { label: string, value: number, onChange: (v: number) => void }) => (
+  <div>
+    <label className="block text-sm font-semibold text-slate-700 mb-2">{label}: {(value * 100).toFixed(0)}%</label>
+    <input
+      type="range" min="0" max="1" step="0.01"
+      value={value}
+      onChange={(e) => onChange(parseFloat(e.target.value))}
+      className="w-full h-2 bg-slate-100 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+    />
+  </div>
+);
+
+export const ScenarioEditor = ({ scenario, onApply }: {
+  scenario: ScenarioConfig,
+  onApply: (scenario: ScenarioConfig) => void
+}) => {
+  const [draft, setDraft] = useState<ScenarioConfig>(scenario);
+  const ageError = rangeError(draft.ageRange);
+  const laborError = rangeError(draft.laborDurationRange);
+
+  const setEffect = (key: keyof ScenarioConfig['effects'], v: number) =>
+    setDraft({ ...draft, effects: { ...draft.effects, [key]: v } });
+  const setInteraction = (key: keyof ScenarioConfig['interactions'], v: number) =>
+    setDraft({ ...draft, interactions: { ...draft.interactions, [key]: v } });
+
+  return (
+    <Card className="p-8">
+      <div className="flex items-center justify-between mb-8">
+        <h3 className="text-xl font-bold flex items-center gap-2">
+          <SlidersHorizontal className="w-5 h-5 text-indigo-600" />
+          Synthetic Cohort Scenario
+        </h3>
+        <div className="flex gap-2">
+          <button
+            onClick={() => setDraft({ ...draft, seed: Math.floor(Math.random() * 1_000_000) })}
+            className="px-3 py-2 bg-white border border-slate-200 rounded-xl text-sm font-medium text-slate-600 hover:bg-slate-50 transition-colors flex items-center gap-2"
+          >
+            <Shuffle className="w-4 h-4" />
+            New Seed
+          </button>
+          <button
+            onClick={() => setDraft(DEFAULT_SCENARIO)}
+            className="px-3 py-2 bg-white border border-slate-200 rounded-xl text-sm font-medium text-slate-600 hover:bg-slate-50 transition-colors flex items-center gap-2"
+          >
+            <RotateCcw className="w-4 h-4" />
+            Defaults
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        <div className="space-y-6">
+          <h4 className="text-sm font-bold text-slate-400 uppercase">Population</h4>
+          <div className="grid grid-cols-2 gap-4">
+            <NumberField label="Seed" value={draft.seed} onChange={(v) => setDraft({ ...draft, seed: Math.floor(v) })} />
+            <NumberField label="Cohort Size" value={draft.cohortSize} min={10} max={20000}
+              onChange={(v) => setDraft({ ...draft, cohortSize: Math.max(10, Math.floor(v)) })} />
+            <NumberField label="Min Age" value={draft.ageRange.min} error={ageError}
+              onChange={(v) => setDraft({ ...draft, ageRange: { ...draft.ageRange, min: v } })} />
+            <NumberField label="Max Age" value={draft.ageRange.max}
+              onChange={(v) => setDraft({ ...draft, ageRange: { ...draft.ageRange, max: v } })} />
+            <NumberField label="Min Labor (h)" value={draft.laborDurationRange.min} error={laborError}
+              onChange={(v) => setDraft({ ...draft, laborDurationRange: { ...draft.laborDurationRange, min: v } })} />
+            <NumberField label="Max Labor (h)" value={draft.laborDurationRange.max}
+              onChange={(v) => setDraft({ ...draft, laborDurationRange: { ...draft.laborDurationRange, max: v } })} />
+          </div>
+          <RateSlider label="Cesarean Rate" value={draft.cesareanRate} onChange={(v) => setDraft({ ...draft, cesareanRate: v })} />
+          <RateSlider label="Complication Rate" value={draft.complicationRate} onChange={(v) => setDraft({ ...draft, complicationRate: v })} />
+          <RateSlider label="Rural Rate" value={draft.ruralRate} onChange={(v) => setDraft({ ...draft, ruralRate: v })} />
+          <RateSlider label="Hypertensive Disorder Rate" value={draft.hypertensionRate} onChange={(v) => setDraft({ ...draft, hypertensionRate: v })} />
+          <RateSlider label="Preeclampsia Share" value={draft.preeclampsiaShare} onChange={(v) => setDraft({ ...draft, preeclampsiaShare: v })} />
+          <RateSlider label="Gestational Diabetes Rate" value={draft.gestationalDiabetesRate} onChange={(v) => setDraft({ ...draft, gestationalDiabetesRate: v })} />
+          <RateSlider label="Hemorrhage Rate" value={draft.hemorrhageRate} onChange={(v) => setDraft({ ...draft, hemorrhageRate: v })} />
+          <RateSlider label="Preterm Rate" value={draft.pretermRate} onChange={(v) => setDraft({ ...draft, pretermRate: v })} />
+          <RateSlider label="Medicaid Share" value={draft.payerMix.medicaid}
+            onChange={(v) => setDraft({ ...draft, payerMix: { ...draft.payerMix, medicaid: v } })} />
+          <RateSlider label="Uninsured Share" value={draft.payerMix.uninsured}
+            onChange={(v) => setDraft({ ...draft, payerMix: { ...draft.payerMix, uninsured: v } })} />
+          <div className="grid grid-cols-2 gap-4">
+            <NumberField label="Mean BMI" step={0.5} value={draft.bmi.mean}
+              onChange={(v) => setDraft({ ...draft, bmi: { ...draft.bmi, mean: v } })} />
+            <NumberField label="BMI SD" step={0.5} min={0} value={draft.bmi.sd}
+              onChange={(v) => setDraft({ ...draft, bmi: { ...draft.bmi, sd: Math.max(0, v) } })} />
+          </div>
+        </div>
+
+        <div className="space-y-6">
+          <h4 className="text-sm font-bold text-slate-400 uppercase">Effect Sizes (Δ probability)</h4>
+          <div className="grid grid-cols-2 gap-4">
+            <NumberField label="Base Rate" step={0.01} value={draft.effects.base} onChange={(v) => setEffect('base', v)} />
+            <NumberField label="Cesarean" step={0.01} value={draft.effects.cesarean} onChange={(v) => setEffect('cesarean', v)} />
+            <NumberField label="Complications" step={0.01} value={draft.effects.complications} onChange={(v) => setEffect('complications', v)} />
+            <NumberField label="Rural" step={0.01} value={draft.effects.rural} onChange={(v) => setEffect('rural', v)} />
+            <NumberField label="Advanced Age" step={0.01} value={draft.effects.advancedAge} onChange={(v) => setEffect('advancedAge', v)} />
+            <NumberField label="Short Vaginal Stay" step={0.01} value={draft.effects.shortVaginalStay} onChange={(v) => setEffect('shortVaginalStay', v)} />
+            <NumberField label="Hypertension" step={0.01} value={draft.effects.hypertension} onChange={(v) => setEffect('hypertension', v)} />
+            <NumberField label="Preeclampsia (extra)" step={0.01} value={draft.effects.preeclampsia} onChange={(v) => setEffect('preeclampsia', v)} />
+            <NumberField label="Gestational Diabetes" step={0.01} value={draft.effects.gestationalDiabetes} onChange={(v) => setEffect('gestationalDiabetes', v)} />
+            <NumberField label="Hemorrhage" step={0.01} value={draft.effects.hemorrhage} onChange={(v) => setEffect('hemorrhage', v)} />
+            <NumberField label="BMI ≥ 30" step={0.01} value={draft.effects.obesity} onChange={(v) => setEffect('obesity', v)} />
+            <NumberField label="Preterm" step={0.01} value={draft.effects.preterm} onChange={(v) => setEffect('preterm', v)} />
+            <NumberField label="Per Prior Readmission" step={0.01} value={draft.effects.priorReadmission} onChange={(v) => setEffect('priorReadmission', v)} />
+            <NumberField label="Medicaid" step={0.01} value={draft.effects.medicaid} onChange={(v) => setEffect('medicaid', v)} />
+            <NumberField label="Uninsured" step={0.01} value={draft.effects.uninsured} onChange={(v) => setEffect('uninsured', v)} />
+            <NumberField label="Advanced Age Cutoff" value={draft.advancedAgeCutoff}
+              onChange={(v) => setDraft({ ...draft, advancedAgeCutoff: v })} />
+          </div>
+        </div>
+
+        <div className="space-y-6">
+          <h4 className="text-sm font-bold text-slate-400 uppercase">Interactions & Noise</h4>
+          <div className="grid grid-cols-2 gap-4">
+            <NumberField label="Rural × Cesarean" step={0.01} value={draft.interactions.ruralCesarean} onChange={(v) => setInteraction('ruralCesarean', v)} />
+            <NumberField label="Rural × Complications" step={0.01} value={draft.interactions.ruralComplications} onChange={(v) => setInteraction('ruralComplications', v)} />
+            <NumberField label="Age × Cesarean" step={0.01} value={draft.interactions.advancedAgeCesarean} onChange={(v) => setInteraction('advancedAgeCesarean', v)} />
+          </div>
+          <RateSlider label="Label Noise" value={draft.labelNoise} onChange={(v) => setDraft({ ...draft, labelNoise: v })} />
+          <p className="text-xs text-slate-400 leading-relaxed">
+            The same seed and scenario always produce the same cohort, so demos and stress tests can be reproduced exactly.
+          </p>
+        </div>
+      </div>
+
+      <button
+        onClick={() => onApply(draft)}
+        disabled={ageError !== null || laborError !== null}
+        className="mt-8 w-full py-4 bg-indigo-600 text-white rounded-xl font-bold hover:bg-indigo-700 transition-all shadow-lg shadow-indigo-200 flex items-center justify-center gap-2 disabled:opacity-40 disabled:cursor-not-allowed"
+      >
+        <RefreshCw className="w-5 h-5" />
+        Regenerate Cohort & Retrain Model
+      </button>
+    </Card>
+  );
+};
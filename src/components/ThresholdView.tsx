@@ -0,0 +1,240 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, Legend
+} from 'recharts';
+import { AlertCircle, Save, SlidersHorizontal, Target } from 'lucide-react';
+import { Card } from './ui';
+import { pct } from './EvaluationView';
+import { BandCutoffs, DEFAULT_BAND_CUTOFFS } from '../utils/mlModel';
+import {
+  CostSettings, DEFAULT_COST_SETTINGS, DecisionPolicy,
+  bandDistribution, recommendThreshold, thresholdSweep
+} from '../utils/thresholds';
+
+const inputClass = "w-full bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-sm focus:ring-2 focus:ring-indigo-500 outline-none";
+const money = (v: number) => v.toLocaleString(undefined, { maximumFractionDigits: 0 });
+
+// Thresholds above this are rarely useful for a ~25% outcome and flatten the curves
+const CURVE_MAX_THRESHOLD = 0.8;
+
+const NumberField = ({ label, value, step, onChange }: {
+  label: string, value: number, step: number, onChange: (v: number) => void
+}) => (
+  <div>
+    <label className="block text-xs font-semibold text-slate-500 mb-1">{label}</label>
+    <input
+      type="number" min={0} step={step} value={value}
+      onChange={(e) => {
+        const v = parseFloat(e.target.value);
+        if (!Number.isNaN(v) && v >= 0) onChange(v);
+      }}
+      className={inputClass}
+    />
+  </div>
+);
+
+const CutoffSlider = ({ label, value, min, max, onChange }: {
+  label: string, value: number, min: number, max: number, onChange: (v: number) => void
+}) => (
+  <div>
+    <label className="block text-sm font-semibold text-slate-700 mb-2">{label}: {value.toFixed(2)}</label>
+    <input
+      type="range" min={min} max={max} step={0.01} value={value}
+      onChange={(e) => onChange(parseFloat(e.target.value))}
+      className="w-full h-2 bg-slate-100 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+    />
+  </div>
+);
+
+/**
+ * Cost and capacity inputs, decision curves and the band cut-offs every
+ * other tab uses. Analysis runs on the calibrated held-out probabilities.
+ */
+export const ThresholdView = ({ yTrue, yProb, policy, error, onSave }: {
+  yTrue: number[],
+  yProb: number[],
+  policy: DecisionPolicy,
+  error: string | null,
+  onSave: (policy: DecisionPolicy) => void
+}) => {
+  const [costs, setCosts] = useState<CostSettings>(policy.costs);
+  const [cutoffs, setCutoffs] = useState<BandCutoffs>(policy.cutoffs);
+  useEffect(() => {
+    setCosts(policy.costs);
+    setCutoffs(policy.cutoffs);
+  }, [policy]);
+
+  const points = useMemo(() => thresholdSweep(yTrue, yProb, costs), [yTrue, yProb, costs]);
+  const recommendation = useMemo(() => recommendThreshold(points, yTrue, costs), [points, yTrue, costs]);
+  const atCutoff = points.reduce((best, p) =>
+    Math.abs(p.threshold - cutoffs.moderate) < Math.abs(best.threshold - cutoffs.moderate) ? p : best);
+  const distribution = bandDistribution(yProb, cutoffs);
+  const curve = points.filter(p => p.threshold <= CURVE_MAX_THRESHOLD);
+  const maxBenefit = Math.max(0.05, ...curve.map(p => Math.max(p.netBenefit, p.treatAll)));
+  const changed = JSON.stringify({ cutoffs, costs }) !== JSON.stringify(policy);
+
+  const setModerate = (moderate: number) =>
+    setCutoffs(c => ({ moderate, high: Math.max(c.high, Math.min(0.99, moderate + 0.01)) }));
+  const setHigh = (high: number) =>
+    setCutoffs(c => ({ high, moderate: Math.min(c.moderate, Math.max(0.01, high - 0.01)) }));
+
+  return (
+    <div className="space-y-8">
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        <Card className="p-8">
+          <h3 className="text-lg font-bold mb-2 flex items-center gap-2">
+            <Target className="w-5 h-5 text-indigo-600" />
+            Costs & Capacity
+          </h3>
+          <p className="text-xs text-slate-400 mb-6">
+            Relative costs are what matter; use any currency. Capacity is the share of discharges the team can follow up.
+          </p>
+          <div className="grid grid-cols-3 gap-4">
+            <NumberField label="Missed readmission" value={costs.missedReadmission} step={500}
+              onChange={(missedReadmission) => setCosts({ ...costs, missedReadmission })} />
+            <NumberField label="Unnecessary follow-up" value={costs.unnecessaryFollowUp} step={100}
+              onChange={(unnecessaryFollowUp) => setCosts({ ...costs, unnecessaryFollowUp })} />
+            <NumberField label="Capacity (%)" value={Math.round(costs.capacity * 100)} step={5}
+              onChange={(v) => setCosts({ ...costs, capacity: Math.min(100, v) / 100 })} />
+          </div>
+
+          <div className="mt-8 p-4 bg-indigo-50 rounded-xl border border-indigo-100">
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <p className="text-xs font-bold text-indigo-400 uppercase">Recommended follow-up threshold</p>
+                <p className="text-3xl font-black text-indigo-700 mt-1">{recommendation.point.threshold.toFixed(2)}</p>
+              </div>
+              <button
+                onClick={() => setModerate(recommendation.point.threshold)}
+                className="px-3 py-1.5 bg-white border border-slate-200 rounded-lg text-xs font-medium text-slate-600 hover:bg-slate-50 transition-colors"
+              >
+                Use as moderate cut-off
+              </button>
+            </div>
+            <p className="text-xs text-slate-600 mt-3 leading-relaxed">
+              Follows up {pct(recommendation.point.flaggedRate)} of discharges, catching {pct(recommendation.point.sensitivity)} of readmissions
+              (PPV {pct(recommendation.point.ppv)}). Expected cost {money(recommendation.point.expectedCost)} per discharge, against{' '}
+              {money(recommendation.treatNoneCost)} with no follow-up and {money(recommendation.treatAllCost)} following up everyone.
+            </p>
+            <p className="text-xs text-slate-500 mt-2">
+              {recommendation.capacityBound
+                ? `Capacity-limited: the cheapest threshold would flag more than ${pct(costs.capacity)} of discharges.`
+                : `The cost ratio alone implies ${recommendation.costRatioThreshold.toFixed(2)}; on held-out data the lowest observed cost is at ${recommendation.point.threshold.toFixed(2)}.`}
+            </p>
+          </div>
+        </Card>
+
+        <Card className="p-8">
+          <h3 className="text-lg font-bold mb-2 flex items-center gap-2">
+            <SlidersHorizontal className="w-5 h-5 text-indigo-600" />
+            Risk Band Cut-offs
+          </h3>
+          <p className="text-xs text-slate-400 mb-6">
+            Moderate and high patients both receive follow-up, so the moderate cut-off is the decision threshold used by the Risk Predictor, worklist and fairness audit.
+          </p>
+          <div className="space-y-6">
+            <CutoffSlider label="Moderate risk from" value={cutoffs.moderate} min={0.01} max={0.98} onChange={setModerate} />
+            <CutoffSlider label="High risk from" value={cutoffs.high} min={0.02} max={0.99} onChange={setHigh} />
+          </div>
+
+          <div className="mt-6 grid grid-cols-3 gap-3 text-center">
+            {([['low', 'bg-emerald-50 text-emerald-700'], ['moderate', 'bg-amber-50 text-amber-700'], ['high', 'bg-rose-50 text-rose-700']] as const).map(([band, style]) => (
+              <div key={band} className={`p-3 rounded-xl ${style}`}>
+                <p className="text-xs font-bold uppercase">{band}</p>
+                <p className="text-lg font-bold">{pct(distribution[band])}</p>
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-slate-400 mt-2">
+            Held-out patients per band. At the moderate cut-off: sensitivity {pct(atCutoff.sensitivity)}, PPV {pct(atCutoff.ppv)}, expected cost {money(atCutoff.expectedCost)} per discharge.
+          </p>
+
+          {error && (
+            <p className="mt-4 flex items-center gap-2 text-rose-600 text-sm font-medium">
+              <AlertCircle className="w-4 h-4" />
+              {error}
+            </p>
+          )}
+          <div className="mt-6 flex gap-3">
+            <button
+              onClick={() => onSave({ cutoffs, costs })}
+              disabled={!changed}
+              className="flex-1 py-3 bg-indigo-600 text-white rounded-xl text-sm font-bold hover:bg-indigo-700 transition-all shadow-lg shadow-indigo-200 flex items-center justify-center gap-2 disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              <Save className="w-4 h-4" />
+              Save Cut-offs
+            </button>
+            <button
+              onClick={() => { setCutoffs(DEFAULT_BAND_CUTOFFS); setCosts(DEFAULT_COST_SETTINGS); }}
+              className="px-4 py-3 bg-white border border-slate-200 rounded-xl text-sm font-medium text-slate-600 hover:bg-slate-50 transition-colors"
+            >
+              Defaults
+            </button>
+          </div>
+        </Card>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        <Card className="p-8">
+          <h3 className="text-lg font-bold mb-2">Decision Curve</h3>
+          <p className="text-xs text-slate-400 mb-6">
+            Net benefit: true positives per patient minus false positives weighted by the threshold odds. The model is useful where it beats both following up everyone and no one.
+          </p>
+          <div className="h-[300px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={curve} margin={{ bottom: 16 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#f1f5f9" />
+                <XAxis
+                  type="number" dataKey="threshold" domain={[0, CURVE_MAX_THRESHOLD]} tickCount={9}
+                  axisLine={false} tickLine={false} tick={{ fill: '#64748b', fontSize: 12 }}
+                  label={{ value: 'Threshold probability', position: 'insideBottom', offset: -8, fill: '#94a3b8', fontSize: 12 }}
+                />
+                <YAxis
+                  domain={[-0.05, +maxBenefit.toFixed(2)]} allowDataOverflow
+                  axisLine={false} tickLine={false} tick={{ fill: '#64748b', fontSize: 12 }}
+                />
+                <Tooltip formatter={(v: number) => v.toFixed(3)} labelFormatter={(t: number) => `Threshold ${t}`} />
+                <Legend verticalAlign="top" height={32} />
+                <ReferenceLine y={0} stroke="#94a3b8" />
+                <ReferenceLine x={cutoffs.moderate} stroke="#f59e0b" strokeDasharray="4 4" />
+                <Line dataKey="netBenefit" name="Model" stroke="#6366f1" strokeWidth={2} dot={false} />
+                <Line dataKey="treatAll" name="Follow up all" stroke="#f43f5e" strokeDasharray="5 5" dot={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </Card>
+
+        <Card className="p-8">
+          <h3 className="text-lg font-bold mb-2">Cost and Workload by Threshold</h3>
+          <p className="text-xs text-slate-400 mb-6">
+            Expected misclassification cost per discharge and the share of discharges flagged for follow-up. The dashed line marks the moderate cut-off.
+          </p>
+          <div className="h-[300px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={curve} margin={{ bottom: 16 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#f1f5f9" />
+                <XAxis
+                  type="number" dataKey="threshold" domain={[0, CURVE_MAX_THRESHOLD]} tickCount={9}
+                  axisLine={false} tickLine={false} tick={{ fill: '#64748b', fontSize: 12 }}
+                  label={{ value: 'Threshold probability', position: 'insideBottom', offset: -8, fill: '#94a3b8', fontSize: 12 }}
+                />
+                <YAxis yAxisId="cost" axisLine={false} tickLine={false} tick={{ fill: '#64748b', fontSize: 12 }} />
+                <YAxis yAxisId="rate" orientation="right" domain={[0, 1]} tickFormatter={(v: number) => pct(v)}
+                  axisLine={false} tickLine={false} tick={{ fill: '#64748b', fontSize: 12 }} />
+                <Tooltip
+                  formatter={(v: number, name: string) => name === 'Flagged' ? pct(v) : money(v)}
+                  labelFormatter={(t: number) => `Threshold ${t}`}
+                />
+                <Legend verticalAlign="top" height={32} />
+                <ReferenceLine yAxisId="rate" y={costs.capacity} stroke="#10b981" strokeDasharray="2 2" />
+                <ReferenceLine yAxisId="cost" x={cutoffs.moderate} stroke="#f59e0b" strokeDasharray="4 4" />
+                <Line yAxisId="cost" dataKey="expectedCost" name="Expected cost" stroke="#6366f1" strokeWidth={2} dot={false} />
+                <Line yAxisId="rate" dataKey="flaggedRate" name="Flagged" stroke="#10b981" dot={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </Card>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,116 @@
+import React from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { Activity, RefreshCw, XCircle } from 'lucide-react';
+import { Card } from './ui';
+import { TrainingReport } from '../utils/mlModel';
+
+export interface TrainingState {
+  status: 'idle' | 'training' | 'evaluating' | 'cancelled' | 'error';
+  totalEpochs: number;
+  lossCurve: { epoch: number; loss: number; validationLoss?: number }[];
+  message?: string;
+}
+
+export const INITIAL_TRAINING_STATE: TrainingState = { status: 'idle', totalEpochs: 0, lossCurve: [] };
+
+export const isTrainingBusy = (t: TrainingState) => t.status === 'training' || t.status === 'evaluating';
+
+const STATUS_TEXT: Record<TrainingState['status'], string> = {
+  idle: 'Model trained',
+  training: 'Training',
+  evaluating: 'Evaluating on held-out data',
+  cancelled: 'Training cancelled; previous model kept',
+  error: 'Training failed'
+};
+
+export const TrainingMonitor = ({ training, report, onRetrain, onCancel }: {
+  training: TrainingState,
+  report: TrainingReport | null,
+  onRetrain: () => void,
+  onCancel: () => void
+}) => {
+  const last = training.lossCurve[training.lossCurve.length - 1];
+  const busy = isTrainingBusy(training);
+  const progress = training.totalEpochs > 0 && last ? last.epoch / training.totalEpochs : 0;
+
+  return (
+    <Card className="p-8">
+      <div className="flex items-start justify-between mb-6">
+        <div>
+          <h3 className="text-lg font-bold flex items-center gap-2">
+            <Activity className="w-5 h-5 text-indigo-600" />
+            Training Log-Loss
+          </h3>
+          <p className={`text-xs mt-1 ${training.status === 'error' ? 'text-rose-600' : 'text-slate-400'}`}>
+            {STATUS_TEXT[training.status]}
+            {training.status === 'training' && last && ` · epoch ${last.epoch} / ${training.totalEpochs}`}
+            {last && ` · loss ${last.loss.toFixed(4)}`}
+            {training.message && ` · ${training.message}`}
+          </p>
+        </div>
+        {busy ? (
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 bg-white border border-slate-200 rounded-xl text-sm font-medium text-rose-600 hover:bg-rose-50 transition-colors flex items-center gap-2"
+          >
+            <XCircle className="w-4 h-4" />
+            Cancel
+          </button>
+        ) : (
+          <button
+            onClick={onRetrain}
+            className="px-4 py-2 bg-white border border-slate-200 rounded-xl text-sm font-medium text-slate-600 hover:bg-slate-50 transition-colors flex items-center gap-2"
+          >
+            <RefreshCw className="w-4 h-4" />
+            Retrain
+          </button>
+        )}
+      </div>
+      <div className="w-full h-1.5 bg-slate-100 rounded-full overflow-hidden mb-6">
+        <div className="h-full bg-indigo-500 transition-all" style={{ width: `${(progress * 100).toFixed(1)}%` }} />
+      </div>
+      <div className="h-[220px]">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={training.lossCurve}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+            <XAxis
+              type="number" dataKey="epoch" domain={[0, training.totalEpochs || 'auto']}
+              axisLine={false} tickLine={false} tick={{ fill: '#64748b', fontSize: 12 }}
+            />
+            <YAxis
+              domain={['auto', 'auto']} tickFormatter={(v: number) => v.toFixed(3)}
+              axisLine={false} tickLine={false} tick={{ fill: '#64748b', fontSize: 12 }}
+            />
+            <Tooltip formatter={(v: number) => v.toFixed(4)} labelFormatter={(e: number) => `Epoch ${e}`} />
+            <Line type="monotone" dataKey="loss" name="Training loss" stroke="#6366f1" strokeWidth={2} dot={false} isAnimationActive={false} />
+            {training.lossCurve.some(p => p.validationLoss !== undefined) && (
+              <Line type="monotone" dataKey="validationLoss" name="Validation loss" stroke="#f59e0b" strokeWidth={2} dot={false} isAnimationActive={false} />
+            )}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+      {report && !busy && (
+        <div className="mt-6 grid grid-cols-2 md:grid-cols-4 gap-4 text-xs">
+          <div>
+            <p className="font-bold text-slate-400 uppercase">Epochs Run</p>
+            <p className="text-sm font-bold text-slate-900">{report.epochsRun}</p>
+          </div>
+          <div>
+            <p className="font-bold text-slate-400 uppercase">Final Loss</p>
+            <p className="text-sm font-bold text-slate-900">{report.finalLoss.toFixed(4)}</p>
+          </div>
+          <div>
+            <p className="font-bold text-slate-400 uppercase">Validation Loss</p>
+            <p className="text-sm font-bold text-slate-900">{report.validationLoss?.toFixed(4) ?? '—'}</p>
+          </div>
+          <div>
+            <p className="font-bold text-slate-400 uppercase">Stopping</p>
+            <p className="text-sm font-bold text-slate-900">
+              {report.stoppedEarly ? 'Early stopped' : report.converged ? 'Converged' : 'Max epochs reached'}
+            </p>
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import { RotateCcw, Settings } from 'lucide-react';
+import { Card } from './ui';
+import { APP_MODEL_OPTIONS, LogisticRegressionOptions, Optimizer, Penalty } from '../utils/mlModel';
+
+const inputClass = "w-full bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-sm focus:ring-2 focus:ring-indigo-500 outline-none";
+
+const Field = ({ label, children }: { label: string, children: React.ReactNode }) => (
+  <div>
+    <label className="block text-xs font-semibold text-slate-500 mb-1">{label}</label>
+    {children}
+  </div>
+);
+
+const NumberInput = ({ value, step = 1, min, onChange }: { value: number, step?: number, min?: number, onChange: (v: number) => void }) => (
+  <input
+    type="number" step={step} min={min} value={value}
+    onChange={(e) => {
+      const v = parseFloat(e.target.value);
+      if (!Number.isNaN(v)) onChange(v);
+    }}
+    className={inputClass}
+  />
+);
+
+export const TrainingSettings = ({ options, disabled, onApply }: {
+  options: LogisticRegressionOptions,
+  disabled?: boolean,
+  onApply: (options: LogisticRegressionOptions) => void
+}) => {
+  const [draft, setDraft] = useState<LogisticRegressionOptions>(options);
+  const set = (patch: Partial<LogisticRegressionOptions>) => setDraft({ ...draft, ...patch });
+  const miniBatch = draft.optimizer !== 'gd';
+  const classWeightMode = typeof draft.classWeight === 'string' ? draft.classWeight : 'custom';
+
+  return (
+    <Card className="p-8">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-lg font-bold flex items-center gap-2">
+          <Settings className="w-5 h-5 text-indigo-600" />
+          Training Settings
+        </h3>
+        <button
+          onClick={() => setDraft(APP_MODEL_OPTIONS)}
+          className="px-3 py-2 bg-white border border-slate-200 rounded-xl text-sm font-medium text-slate-600 hover:bg-slate-50 transition-colors flex items-center gap-2"
+        >
+          <RotateCcw className="w-4 h-4" />
+          Defaults
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        <Field label="Optimizer">
+          <select value={draft.optimizer} onChange={(e) => set({ optimizer: e.target.value as Optimizer })} className={inputClass}>
+            <option value="gd">Full-batch gradient descent</option>
+            <option value="sgd">Mini-batch SGD</option>
+            <option value="adam">Adam</option>
+          </select>
+        </Field>
+        <Field label="Learning Rate">
+          <NumberInput value={draft.learningRate} step={0.01} min={0} onChange={(v) => set({ learningRate: v })} />
+        </Field>
+        <Field label="Max Epochs">
+          <NumberInput value={draft.iterations} min={1} onChange={(v) => set({ iterations: Math.max(1, Math.floor(v)) })} />
+        </Field>
+        <Field label="Batch Size">
+          {miniBatch
+            ? <NumberInput value={draft.batchSize} min={1} onChange={(v) => set({ batchSize: Math.max(1, Math.floor(v)) })} />
+            : <p className="text-xs text-slate-400 py-2">Full batch</p>}
+        </Field>
+
+        <Field label="Penalty">
+          <select value={draft.penalty} onChange={(e) => set({ penalty: e.target.value as Penalty })} className={inputClass}>
+            <option value="none">None</option>
+            <option value="l1">L1 (lasso)</option>
+            <option value="l2">L2 (ridge)</option>
+            <option value="elasticnet">Elastic-net</option>
+          </select>
+        </Field>
+        <Field label="λ (strength)">
+          <NumberInput value={draft.lambda} step={0.001} min={0} onChange={(v) => set({ lambda: v })} />
+        </Field>
+        <Field label="L1 Ratio">
+          <NumberInput value={draft.l1Ratio} step={0.05} min={0} onChange={(v) => set({ l1Ratio: Math.min(1, Math.max(0, v)) })} />
+        </Field>
+        <Field label="Convergence Tolerance">
+          <NumberInput value={draft.tolerance} step={0.000001} min={0} onChange={(v) => set({ tolerance: v })} />
+        </Field>
+
+        <Field label="Class Weight">
+          <select
+            value={classWeightMode}
+            onChange={(e) => set({
+              classWeight: e.target.value === 'custom' ? { negative: 1, positive: 2 } : e.target.value as 'none' | 'balanced'
+            })}
+            className={inputClass}
+          >
+            <option value="none">None</option>
+            <option value="balanced">Balanced</option>
+            <option value="custom">Custom</option>
+          </select>
+        </Field>
+        <Field label="Readmitted Weight">
+          {typeof draft.classWeight === 'object'
+            ? <NumberInput value={draft.classWeight.positive} step={0.1} min={0}
+                onChange={(v) => set({ classWeight: { negative: 1, positive: v } })} />
+            : <p className="text-xs text-slate-400 py-2">—</p>}
+        </Field>
+        <div className="col-span-2 flex items-center gap-3 p-3 bg-slate-50 rounded-xl border border-slate-200">
+          <input
+            type="checkbox" id="balancedSampling"
+            checked={draft.balancedSampling}
+            disabled={!miniBatch}
+            onChange={(e) => set({ balancedSampling: e.target.checked })}
+            className="w-4 h-4 rounded border-slate-300 text-indigo-600"
+          />
+          <label htmlFor="balancedSampling" className={`text-sm font-medium ${miniBatch ? 'text-slate-700' : 'text-slate-400'}`}>
+            Balanced sampling (oversample readmissions per epoch)
+          </label>
+        </div>
+
+        <div className="col-span-2 lg:col-span-4 flex flex-wrap items-end gap-4 p-3 bg-slate-50 rounded-xl border border-slate-200">
+          <div className="flex items-center gap-3 py-2">
+            <input
+              type="checkbox" id="earlyStopping"
+              checked={draft.earlyStopping !== null}
+              onChange={(e) => set({ earlyStopping: e.target.checked ? { validationFraction: 0.2, patience: 25, minDelta: 1e-4 } : null })}
+              className="w-4 h-4 rounded border-slate-300 text-indigo-600"
+            />
+            <label htmlFor="earlyStopping" className="text-sm font-medium text-slate-700">Early stopping</label>
+          </div>
+          {draft.earlyStopping && (
+            <>
+              <Field label="Validation Fraction">
+                <NumberInput value={draft.earlyStopping.validationFraction} step={0.05} min={0.05}
+                  onChange={(v) => set({ earlyStopping: { ...draft.earlyStopping!, validationFraction: Math.min(0.5, Math.max(0.05, v)) } })} />
+              </Field>
+              <Field label="Patience (epochs)">
+                <NumberInput value={draft.earlyStopping.patience} min={1}
+                  onChange={(v) => set({ earlyStopping: { ...draft.earlyStopping!, patience: Math.max(1, Math.floor(v)) } })} />
+              </Field>
+              <Field label="Min Δ Loss">
+                <NumberInput value={draft.earlyStopping.minDelta} step={0.0001} min={0}
+                  onChange={(v) => set({ earlyStopping: { ...draft.earlyStopping!, minDelta: v } })} />
+              </Field>
+            </>
+          )}
+        </div>
+      </div>
+
+      <button
+        onClick={() => onApply(draft)}
+        disabled={disabled}
+        className="mt-6 w-full py-3 bg-indigo-600 text-white rounded-xl font-bold hover:bg-indigo-700 transition-all shadow-lg shadow-indigo-200 disabled:opacity-40 disabled:cursor-not-allowed"
+      >
+        Apply & Retrain
+      </button>
+    </Card>
+  );
+};
@@ -0,0 +1,97 @@
+import { RiskBand } from './mlModel';
+import { PatientInput } from './explanation';
+import { OutcomePeriod, PredictionPage, PredictionQuery, PredictionRecord, RetrospectiveSummary, TimelineBucket } from './predictionLog';
+
+/**
+ * Browser client for the MatRisk API (`npm run api`). The Vite dev server
+ * proxies `/api` to it, so paths are relative to the app's origin.
+ */
+
+const API_BASE = '/api';
+
+export class ApiError extends Error {
+  constructor(
+    public readonly code: string,
+    message: string,
+    public readonly details: { path: string; message: string }[] = []
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+async function call<T>(path: string, init?: RequestInit): Promise<T> {
+  let res: Response;
+  try {
+    res = await fetch(`${API_BASE}${path}`, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', ...init?.headers }
+    });
+  } catch {
+    throw new ApiError('UNREACHABLE', 'The MatRisk API is not reachable; start it with `npm run api`.');
+  }
+  const body = await res.json().catch(() => null);
+  if (!res.ok) {
+    const error = body?.error;
+    // A missing structured error usually means the dev proxy could not reach the API
+    if (!error) throw new ApiError('UNREACHABLE', `The MatRisk API is not reachable (HTTP ${res.status}); start it with \`npm run api\`.`);
+    throw new ApiError(error.code, error.message, error.details);
+  }
+  return body as T;
+}
+
+const queryString = (query: PredictionQuery) => {
+  const params = new URLSearchParams();
+  if (query.text) params.set('q', query.text);
+  if (query.band) params.set('band', query.band);
+  if (query.modelVersion) params.set('model', query.modelVersion);
+  if (query.outcome) params.set('outcome', query.outcome);
+  if (query.from) params.set('from', query.from);
+  if (query.to) params.set('to', query.to);
+  if (query.limit !== undefined) params.set('limit', String(query.limit));
+  if (query.offset !== undefined) params.set('offset', String(query.offset));
+  const s = params.toString();
+  return s ? `?${s}` : '';
+};
+
+export interface LoggedPrediction {
+  patient: PatientInput & { id?: string };
+  modelVersion: string;
+  family: string;
+  probability: number;
+  rawProbability?: number;
+  band: RiskBand;
+  note?: string;
+}
+
+/** Add a prediction made in the browser to the server's audit log. */
+export const logPrediction = (prediction: LoggedPrediction) =>
+  call<PredictionRecord>('/predictions', { method: 'POST', body: JSON.stringify(prediction) });
+
+export const searchPredictions = (query: PredictionQuery) =>
+  call<PredictionPage>(`/predictions${queryString(query)}`);
+
+/** Record the observed readmission outcome; `null` clears it. */
+export const recordOutcome = (id: number, readmitted: boolean | null) =>
+  call<PredictionRecord>(`/predictions/${id}/outcome`, { method: 'PUT', body: JSON.stringify({ readmitted }) });
+
+export const fetchRetrospective = (query: PredictionQuery) =>
+  call<RetrospectiveSummary>(`/predictions/retrospective${queryString({ ...query, limit: undefined, offset: undefined })}`);
+
+export const fetchTimeline = (query: PredictionQuery, bucket: TimelineBucket) => {
+  const qs = queryString({ ...query, limit: undefined, offset: undefined });
+  return call<OutcomePeriod[]>(`/predictions/timeline${qs ? `${qs}&` : '?'}bucket=${bucket}`);
+};
+
+// The API caps a page at 500 rows
+const MAX_PAGE = 500;
+
+/** Every logged prediction matching the query, fetched page by page. */
+export async function fetchAllPredictions(query: PredictionQuery): Promise<PredictionRecord[]> {
+  const items: PredictionRecord[] = [];
+  for (let offset = 0; ; offset += MAX_PAGE) {
+    const page = await searchPredictions({ ...query, limit: MAX_PAGE, offset });
+    items.push(...page.items);
+    if (items.length >= page.total || page.items.length === 0) return items;
+  }
+}
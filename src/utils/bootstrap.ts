@@ -0,0 +1,142 @@
+import { Patient, createRng } from './dataGenerator';
+import { Classifier, fitOnPatients, predictPatient } from './classifier';
+import { EncodableRecord } from './featurePipeline';
+import { FairnessAuditOptions, FairnessCriterionKey, FAIRNESS_CRITERIA, Interval, fairnessAudit } from './fairness';
+
+/**
+ * Nonparametric bootstrap: resample with replacement, recompute, and report
+ * the 2.5th and 97.5th percentiles of the replicates (bias-corrected for
+ * fairness gaps). Model replicates refit
+ * the whole pipeline on a resampled training set, so an individual
+ * prediction's interval reflects how much it depends on which patients the
+ * model happened to be trained on.
+ */
+
+export interface BootstrapOptions {
+  replicates?: number;
+  seed?: number;
+}
+
+/** Model refits are expensive; metric and gap replicates only rescore. */
+export const MODEL_REPLICATES = 30;
+export const METRIC_REPLICATES = 500;
+export const FAIRNESS_REPLICATES = 200;
+
+/** n indices drawn uniformly with replacement from 0..n-1. */
+export function resampleIndices(n: number, rng: () => number): number[] {
+  return Array.from({ length: n }, () => Math.floor(rng() * n));
+}
+
+const quantile = (sorted: number[], q: number) => {
+  const pos = q * (sorted.length - 1);
+  const lo = Math.floor(pos), hi = Math.ceil(pos);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+};
+
+/** `value` with the central `level` range of the replicates around it. */
+export function percentileInterval(value: number, replicates: number[], level = 0.95): Interval {
+  if (replicates.length === 0) return { value, lower: value, upper: value };
+  const sorted = [...replicates].sort((a, b) => a - b);
+  const tail = (1 - level) / 2;
+  return { value, lower: quantile(sorted, tail), upper: quantile(sorted, 1 - tail) };
+}
+
+// Standard normal CDF (Abramowitz & Stegun 7.1.26, error < 1.5e-7) and its inverse by bisection
+const normalCdf = (z: number) => {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429)))) * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+};
+const normalQuantile = (p: number) => {
+  let lo = -10, hi = 10;
+  for (let i = 0; i < 60; i++) {
+    const mid = (lo + hi) / 2;
+    if (normalCdf(mid) < p) lo = mid; else hi = mid;
+  }
+  return (lo + hi) / 2;
+};
+
+/**
+ * Bias-corrected (BC) percentile interval, for statistics such as max-min
+ * gaps whose replicates sit systematically above the observed value: the
+ * percentiles are shifted by how far the replicates' median is from
+ * `value`. With heavy bias the shifted range can still miss `value`, so it
+ * is widened to include it; the interval is then conservative on that side.
+ */
+export function biasCorrectedInterval(value: number, replicates: number[], level = 0.95): Interval {
+  if (replicates.length === 0) return { value, lower: value, upper: value };
+  const sorted = [...replicates].sort((a, b) => a - b);
+  const below = sorted.filter(r => r < value).length + sorted.filter(r => r === value).length / 2;
+  // Clamped so an observed value outside every replicate gives a finite correction
+  const n = sorted.length;
+  const z0 = normalQuantile(Math.min(Math.max(below / n, 0.5 / n), 1 - 0.5 / n));
+  const z = normalQuantile(1 - (1 - level) / 2);
+  const lower = quantile(sorted, normalCdf(2 * z0 - z));
+  const upper = quantile(sorted, normalCdf(2 * z0 + z));
+  return { value, lower: Math.min(lower, value), upper: Math.max(upper, value) };
+}
+
+/**
+ * Clones of `model`, each fitted on its own bootstrap resample of the
+ * training patients. Yields after every replicate so callers can report
+ * progress or stop early.
+ */
+export function* bootstrapModels(
+  model: Classifier,
+  train: Patient[],
+  { replicates = MODEL_REPLICATES, seed = 2024 }: BootstrapOptions = {}
+): Generator<Classifier> {
+  const rng = createRng(seed);
+  for (let b = 0; b < replicates; b++) {
+    const sample = resampleIndices(train.length, rng).map(i => train[i]);
+    yield fitOnPatients(model.clone(), sample);
+  }
+}
+
+/**
+ * Interval for one patient's risk across the bootstrap models, around the
+ * deployed model's prediction. `transform` (e.g. calibration) is applied to
+ * every replicate so the interval is on the same scale as the displayed risk.
+ */
+export function predictionInterval(
+  value: number,
+  replicates: Classifier[],
+  record: EncodableRecord,
+  transform: (p: number) => number = p => p
+): Interval {
+  return percentileInterval(value, replicates.map(m => transform(predictPatient(m, record))));
+}
+
+export type FairnessGapIntervals = Record<string, Record<FairnessCriterionKey, Interval>>;
+
+/**
+ * Intervals for every family's fairness gaps, keyed by family label, from
+ * audits of resampled populations. Scores are computed once; the model is
+ * not refitted. A gap is a spread across groups, so resampling noise
+ * inflates it and plain percentiles of the replicates are biased upward;
+ * the intervals are bias-corrected instead.
+ */
+export function bootstrapFairnessGaps(
+  patients: Patient[],
+  score: (p: Patient) => number,
+  options: FairnessAuditOptions,
+  { replicates = FAIRNESS_REPLICATES, seed = 2024 }: BootstrapOptions = {}
+): FairnessGapIntervals {
+  const scores = new Map(patients.map(p => [p, score(p)]));
+  const cached = (p: Patient) => scores.get(p)!;
+  const observed = fairnessAudit(patients, cached, options);
+  const samples = observed.families.map(() => FAIRNESS_CRITERIA.map(() => [] as number[]));
+
+  const rng = createRng(seed);
+  for (let b = 0; b < replicates; b++) {
+    const sample = resampleIndices(patients.length, rng).map(i => patients[i]);
+    fairnessAudit(sample, cached, options).families.forEach((f, i) =>
+      FAIRNESS_CRITERIA.forEach((c, j) => samples[i][j].push(f.gaps[c.key])));
+  }
+
+  return Object.fromEntries(observed.families.map((f, i) => [
+    f.label,
+    Object.fromEntries(FAIRNESS_CRITERIA.map((c, j) => [c.key, biasCorrectedInterval(f.gaps[c.key], samples[i][j])])) as Record<FairnessCriterionKey, Interval>
+  ]));
+}
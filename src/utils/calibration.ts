@@ -0,0 +1,174 @@
+/**
+ * Probability calibration: diagnostics (reliability diagram, Brier score,
+ * expected calibration error) and post-hoc recalibration maps that sit on
+ * top of a model's raw `predictProba` output.
+ *
+ * Calibrators are plain data so they can be serialized with the model.
+ */
+
+export type CalibrationMethod = 'none' | 'platt' | 'isotonic';
+
+export type Calibrator =
+  | { method: 'none' }
+  | { method: 'platt'; a: number; b: number }
+  | { method: 'isotonic'; x: number[]; y: number[] };
+
+export interface ReliabilityBin {
+  lower: number;
+  upper: number;
+  count: number;
+  meanPredicted: number;
+  observedRate: number;
+}
+
+export interface CalibrationReport {
+  brier: number;
+  ece: number;
+  bins: ReliabilityBin[];
+}
+
+export const CALIBRATION_LABELS: Record<CalibrationMethod, string> = {
+  none: 'Uncalibrated',
+  platt: 'Platt Scaling',
+  isotonic: 'Isotonic Regression'
+};
+
+const EPS = 1e-6;
+const clamp01 = (p: number) => Math.min(1 - EPS, Math.max(EPS, p));
+const logit = (p: number) => Math.log(clamp01(p) / (1 - clamp01(p)));
+const sigmoid = (z: number) => 1 / (1 + Math.exp(-z));
+
+export function applyCalibration(calibrator: Calibrator, p: number): number {
+  switch (calibrator.method) {
+    case 'none':
+      return p;
+    case 'platt':
+      return sigmoid(calibrator.a * logit(p) + calibrator.b);
+    case 'isotonic': {
+      const { x, y } = calibrator;
+      if (x.length === 0) return p;
+      if (p <= x[0]) return y[0];
+      if (p >= x[x.length - 1]) return y[y.length - 1];
+      let hi = 1;
+      while (x[hi] < p) hi++;
+      const lo = hi - 1;
+      const span = x[hi] - x[lo];
+      return span === 0 ? y[hi] : y[lo] + (y[hi] - y[lo]) * (p - x[lo]) / span;
+    }
+  }
+}
+
+/** Fit sigmoid(a * logit(p) + b) by Newton-Raphson on the log-loss. */
+function fitPlatt(yTrue: number[], yProb: number[]): Calibrator {
+  const z = yProb.map(logit);
+  let a = 1;
+  let b = 0;
+  for (let iter = 0; iter < 100; iter++) {
+    let ga = 0, gb = 0, haa = 0, hab = 0, hbb = 0;
+    z.forEach((zi, i) => {
+      const p = sigmoid(a * zi + b);
+      const w = p * (1 - p);
+      ga += (p - yTrue[i]) * zi;
+      gb += p - yTrue[i];
+      haa += w * zi * zi;
+      hab += w * zi;
+      hbb += w;
+    });
+    // Small ridge keeps the Hessian invertible on separable or tiny samples
+    haa += 1e-6;
+    hbb += 1e-6;
+    const det = haa * hbb - hab * hab;
+    if (det <= 0) break;
+    const da = (hbb * ga - hab * gb) / det;
+    const db = (haa * gb - hab * ga) / det;
+    a -= da;
+    b -= db;
+    if (Math.abs(da) + Math.abs(db) < 1e-9) break;
+  }
+  return { method: 'platt', a, b };
+}
+
+/** Pool-adjacent-violators; each pooled block contributes its [min, max] score range. */
+function fitIsotonic(yTrue: number[], yProb: number[]): Calibrator {
+  const order = yProb.map((_, i) => i).sort((i, j) => yProb[i] - yProb[j]);
+  const blocks: { sum: number; count: number; xMin: number; xMax: number }[] = [];
+  for (const i of order) {
+    blocks.push({ sum: yTrue[i], count: 1, xMin: yProb[i], xMax: yProb[i] });
+    while (blocks.length > 1) {
+      const last = blocks[blocks.length - 1];
+      const prev = blocks[blocks.length - 2];
+      if (prev.sum / prev.count < last.sum / last.count) break;
+      blocks.splice(blocks.length - 2, 2, {
+        sum: prev.sum + last.sum,
+        count: prev.count + last.count,
+        xMin: prev.xMin,
+        xMax: last.xMax
+      });
+    }
+  }
+  const x: number[] = [];
+  const y: number[] = [];
+  for (const block of blocks) {
+    const value = block.sum / block.count;
+    x.push(block.xMin);
+    y.push(value);
+    if (block.xMax !== block.xMin) {
+      x.push(block.xMax);
+      y.push(value);
+    }
+  }
+  return { method: 'isotonic', x, y };
+}
+
+export function fitCalibrator(method: CalibrationMethod, yTrue: number[], yProb: number[]): Calibrator {
+  if (method === 'none' || yTrue.length === 0) return { method: 'none' };
+  return method === 'platt' ? fitPlatt(yTrue, yProb) : fitIsotonic(yTrue, yProb);
+}
+
+export function brierScore(yTrue: number[], yProb: number[]): number {
+  if (yTrue.length === 0) return 0;
+  return yTrue.reduce((acc, y, i) => acc + (yProb[i] - y) ** 2, 0) / yTrue.length;
+}
+
+/** Equal-width reliability bins; ECE is the count-weighted |observed - predicted| gap. */
+export function calibrationReport(yTrue: number[], yProb: number[], nBins = 10): CalibrationReport {
+  const bins: ReliabilityBin[] = Array.from({ length: nBins }, (_, b) => ({
+    lower: b / nBins,
+    upper: (b + 1) / nBins,
+    count: 0,
+    meanPredicted: 0,
+    observedRate: 0
+  }));
+  yProb.forEach((p, i) => {
+    const bin = bins[Math.min(nBins - 1, Math.floor(p * nBins))];
+    bin.count++;
+    bin.meanPredicted += p;
+    bin.observedRate += yTrue[i];
+  });
+  let ece = 0;
+  for (const bin of bins) {
+    if (bin.count === 0) continue;
+    bin.meanPredicted /= bin.count;
+    bin.observedRate /= bin.count;
+    ece += (bin.count / Math.max(1, yTrue.length)) * Math.abs(bin.observedRate - bin.meanPredicted);
+  }
+  return { brier: brierScore(yTrue, yProb), ece, bins };
+}
+
+export type CalibrationComparison = Record<CalibrationMethod, { calibrator: Calibrator; report: CalibrationReport }>;
+
+/**
+ * Fit every calibration method on out-of-fold training scores and report
+ * how each one performs on the held-out test scores.
+ */
+export function compareCalibration(
+  train: { yTrue: number[]; yProb: number[] },
+  test: { yTrue: number[]; yProb: number[] }
+): CalibrationComparison {
+  const methods: CalibrationMethod[] = ['none', 'platt', 'isotonic'];
+  return Object.fromEntries(methods.map(method => {
+    const calibrator = fitCalibrator(method, train.yTrue, train.yProb);
+    const calibrated = test.yProb.map(p => applyCalibration(calibrator, p));
+    return [method, { calibrator, report: calibrationReport(test.yTrue, calibrated) }];
+  })) as CalibrationComparison;
+}
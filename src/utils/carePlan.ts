@@ -0,0 +1,289 @@
+import { RiskBand } from './mlModel';
+import { FeatureContribution, PatientInput } from './explanation';
+import { FOLLOW_UP } from './worklist';
+import { TextGenerationClient, TextGenerationError } from './textGeneration';
+
+/**
+ * Discharge care-plan drafting: prompt templates, the response schema and
+ * its validation, and a deterministic offline client that fills the same
+ * schema from the prompt's patient data. Drafts are for clinician review.
+ */
+
+export interface CarePlanContext {
+  input: PatientInput;
+  /** Calibrated probability shown to the user */
+  probability: number;
+  band: RiskBand;
+  contributions: FeatureContribution[];
+}
+
+export interface CarePlanAction {
+  timeframe: string;
+  action: string;
+  responsible: string;
+  rationale: string;
+}
+
+export interface CarePlan {
+  /** Clinician-facing summary of the risk and its drivers */
+  riskSummary: string;
+  followUp: CarePlanAction[];
+  /** Symptoms that should prompt the patient to seek care */
+  warningSigns: string[];
+  /** Plain-language summary for the patient */
+  patientSummary: string;
+}
+
+const LIMITS = { text: 600, patientSummary: 1200, actions: { min: 1, max: 8 }, warningSigns: { min: 1, max: 10 } };
+const TOP_FACTORS = 4;
+
+export const CARE_PLAN_SCHEMA = {
+  type: 'object',
+  properties: {
+    riskSummary: { type: 'string', description: 'Two sentences for the care team on the risk level and its main drivers.' },
+    followUp: {
+      type: 'array',
+      minItems: LIMITS.actions.min,
+      maxItems: LIMITS.actions.max,
+      items: {
+        type: 'object',
+        properties: {
+          timeframe: { type: 'string', description: 'When, relative to discharge, e.g. "Within 48 hours".' },
+          action: { type: 'string' },
+          responsible: { type: 'string', description: 'Role that carries out the action, e.g. "Community midwife".' },
+          rationale: { type: 'string', description: 'Which patient factor the action addresses.' }
+        },
+        required: ['timeframe', 'action', 'responsible', 'rationale']
+      }
+    },
+    warningSigns: { type: 'array', minItems: LIMITS.warningSigns.min, maxItems: LIMITS.warningSigns.max, items: { type: 'string' } },
+    patientSummary: { type: 'string', description: 'Plain language at a reading age of about 12, addressed to the patient, under 120 words.' }
+  },
+  required: ['riskSummary', 'followUp', 'warningSigns', 'patientSummary']
+};
+
+export const CARE_PLAN_SYSTEM_PROMPT = [
+  'You are a postnatal discharge planning assistant supporting a maternity care team.',
+  'Draft a follow-up plan for one patient from the readmission risk model output you are given.',
+  'Base every action on the patient data and risk factors provided; do not invent diagnoses, medications or test results.',
+  `The follow-up intensity must be at least the unit's standard for the risk band.`,
+  'The patient summary must be kind, plain and free of jargon and must not state the probability as a percentage.',
+  'Respond only with JSON matching the response schema.'
+].join('\n');
+
+/** The patient data block of the prompt; the offline client reads it back. */
+function promptData(context: CarePlanContext) {
+  const { input } = context;
+  return {
+    patient: {
+      age: input.age,
+      deliveryType: input.deliveryType,
+      laborDurationHours: input.laborDuration,
+      complications: input.complications,
+      lengthOfStayDays: input.los,
+      location: input.location,
+      // Extended risk factors; unrecorded ones are left out of the prompt
+      hypertensiveDisorder: input.hypertension,
+      gestationalDiabetes: input.gestationalDiabetes,
+      postpartumHemorrhage: input.hemorrhage,
+      bmi: input.bmi,
+      parity: input.parity,
+      gestationalAgeWeeks: input.gestationalAge,
+      preterm: input.preterm,
+      priorReadmissions: input.priorReadmissions,
+      payer: input.payer
+    },
+    readmissionProbability: +context.probability.toFixed(3),
+    riskBand: context.band,
+    standardFollowUp: FOLLOW_UP[context.band].action,
+    riskFactors: [...context.contributions]
+      .sort((a, b) => Math.abs(b.contribution) - Math.abs(a.contribution))
+      .slice(0, TOP_FACTORS)
+      .map(c => ({ factor: c.label, effect: c.contribution >= 0 ? 'raises risk' : 'lowers risk', logOdds: +c.contribution.toFixed(2) }))
+  };
+}
+
+export function carePlanPrompt(context: CarePlanContext): string {
+  return [
+    'Draft a 30-day post-discharge care plan for this patient.',
+    'Risk factors are log-odds contributions from the model; a positive value raises the predicted risk.',
+    '',
+    'Patient data:',
+    '```json',
+    JSON.stringify(promptData(context), null, 2),
+    '```'
+  ].join('\n');
+}
+
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+/** Parse and validate a generated response against the care-plan schema. */
+export function parseCarePlan(text: string): CarePlan {
+  let raw: unknown;
+  try {
+    // Some models wrap JSON in a code fence despite the MIME type
+    raw = JSON.parse(text.trim().replace(/^```(?:json)?\s*|\s*```$/g, ''));
+  } catch {
+    throw new TextGenerationError('INVALID_RESPONSE', 'The response was not valid JSON.');
+  }
+  const errors: { path: string; message: string }[] = [];
+  const requireText = (v: unknown, path: string, max = LIMITS.text) => {
+    if (typeof v !== 'string' || !v.trim()) errors.push({ path, message: 'must be a non-empty string' });
+    else if (v.length > max) errors.push({ path, message: `must be at most ${max} characters` });
+  };
+  const requireList = (v: unknown, path: string, { min, max }: { min: number; max: number }) => {
+    if (!Array.isArray(v)) {
+      errors.push({ path, message: 'must be an array' });
+      return [];
+    }
+    if (v.length < min || v.length > max) errors.push({ path, message: `must have ${min} to ${max} items` });
+    return v;
+  };
+
+  if (!isObject(raw)) throw new TextGenerationError('INVALID_RESPONSE', 'The response was not a JSON object.');
+  requireText(raw.riskSummary, 'riskSummary');
+  requireList(raw.followUp, 'followUp', LIMITS.actions).forEach((a, i) => {
+    if (!isObject(a)) errors.push({ path: `followUp[${i}]`, message: 'must be an object' });
+    else (['timeframe', 'action', 'responsible', 'rationale'] as const).forEach(k => requireText(a[k], `followUp[${i}].${k}`));
+  });
+  requireList(raw.warningSigns, 'warningSigns', LIMITS.warningSigns).forEach((s, i) => requireText(s, `warningSigns[${i}]`));
+  requireText(raw.patientSummary, 'patientSummary', LIMITS.patientSummary);
+
+  if (errors.length) throw new TextGenerationError('INVALID_RESPONSE', 'The response did not match the care-plan schema.', errors);
+  const actions = raw.followUp as Record<string, string>[];
+  return {
+    riskSummary: (raw.riskSummary as string).trim(),
+    followUp: actions.map(a => ({
+      timeframe: a.timeframe.trim(), action: a.action.trim(), responsible: a.responsible.trim(), rationale: a.rationale.trim()
+    })),
+    warningSigns: (raw.warningSigns as string[]).map(s => s.trim()),
+    patientSummary: (raw.patientSummary as string).trim()
+  };
+}
+
+export async function draftCarePlan(client: TextGenerationClient, context: CarePlanContext): Promise<CarePlan> {
+  const text = await client.generate({
+    system: CARE_PLAN_SYSTEM_PROMPT,
+    prompt: carePlanPrompt(context),
+    responseSchema: CARE_PLAN_SCHEMA
+  });
+  return parseCarePlan(text);
+}
+
+const WARNING_SIGNS = [
+  'Heavy vaginal bleeding (soaking a pad an hour) or large clots',
+  'Fever of 38 °C or higher, or chills',
+  'Severe headache, blurred vision or swelling of the face and hands',
+  'Chest pain or difficulty breathing',
+  'A painful, red or swollen leg',
+  'Thoughts of harming yourself or your baby'
+];
+
+type PromptData = ReturnType<typeof promptData>;
+
+const BAND_WORDING: Record<RiskBand, string> = {
+  high: 'a higher than usual chance',
+  moderate: 'a somewhat raised chance',
+  low: 'a low chance'
+};
+
+function offlinePlan(data: PromptData): CarePlan {
+  const { patient } = data;
+  const raising = data.riskFactors.filter(f => f.effect === 'raises risk').map(f => f.factor.toLowerCase());
+  const followUp: CarePlanAction[] = [];
+  if (patient.complications) followUp.push({
+    timeframe: 'Before discharge',
+    action: 'Confirm the management plan for the recorded complications and who to contact if symptoms return',
+    responsible: 'Obstetrician',
+    rationale: 'Complications were recorded during this admission.'
+  });
+  if (patient.postpartumHemorrhage) followUp.push({
+    timeframe: 'Before discharge',
+    action: 'Check hemoglobin and start iron replacement if anemic',
+    responsible: 'Ward midwife',
+    rationale: 'Postpartum hemorrhage during this admission.'
+  });
+  if (patient.location === 'Rural') followUp.push({
+    timeframe: 'At discharge',
+    action: 'Agree a telephone contact schedule and confirm transport to the nearest unit',
+    responsible: 'Discharge coordinator',
+    rationale: 'Rural residence makes in-person review harder to reach.'
+  });
+  followUp.push({
+    timeframe: 'First contact',
+    action: data.standardFollowUp,
+    responsible: data.riskBand === 'low' ? 'Community midwife' : 'Discharge coordinator',
+    rationale: `Standard follow-up for the ${data.riskBand} risk band (${(data.readmissionProbability * 100).toFixed(1)}%).`
+  });
+  if (patient.hypertensiveDisorder && patient.hypertensiveDisorder !== 'None') followUp.push({
+    timeframe: 'Within 72 hours',
+    action: 'Blood pressure check and review of antihypertensive medication',
+    responsible: 'Community midwife',
+    rationale: patient.hypertensiveDisorder === 'Preeclampsia' ? 'Preeclampsia in this pregnancy.' : 'Gestational hypertension in this pregnancy.'
+  });
+  if (patient.deliveryType === 'Cesarean') followUp.push({
+    timeframe: 'Day 5–7',
+    action: 'Wound check and pain review',
+    responsible: 'Community midwife',
+    rationale: 'Cesarean delivery.'
+  });
+  if (data.riskBand !== 'low') followUp.push({
+    timeframe: 'Day 14',
+    action: 'Review recovery, feeding and mood; escalate if any warning sign has occurred',
+    responsible: 'Community midwife',
+    rationale: raising.length ? `Risk is raised mainly by ${raising.slice(0, 2).join(' and ')}.` : 'Elevated predicted risk.'
+  });
+  if (patient.gestationalDiabetes) followUp.push({
+    timeframe: 'Week 4–12',
+    action: 'Arrange a glucose tolerance test to check for persistent diabetes',
+    responsible: 'Primary care provider',
+    rationale: 'Gestational diabetes in this pregnancy.'
+  });
+
+  return {
+    riskSummary: `${data.riskBand[0].toUpperCase()}${data.riskBand.slice(1)} readmission risk (${(data.readmissionProbability * 100).toFixed(1)}%) for a ${patient.age}-year-old after ${patient.deliveryType.toLowerCase()} delivery. `
+      + (raising.length ? `Main contributing factors: ${raising.join(', ')}.` : 'No single factor raises the risk substantially.'),
+    followUp: followUp.slice(0, LIMITS.actions.max),
+    warningSigns: patient.deliveryType === 'Cesarean'
+      ? [...WARNING_SIGNS, 'Your wound becomes red, hot, leaks fluid or opens']
+      : WARNING_SIGNS,
+    patientSummary: `Based on how your birth and hospital stay went, you have ${BAND_WORDING[data.riskBand]} of needing to come back to hospital in the next month. `
+      + `${followUp.length > 1 ? 'We have planned some extra check-ins to support your recovery.' : 'Your midwife will check on you as usual.'} `
+      + 'Please rest, eat and drink well, and ask for help when you need it. If you notice any of the warning signs on this sheet, call the maternity unit or emergency services straight away.'
+  };
+}
+
+/**
+ * Rule-based stand-in for an LLM: reads the patient data block from the
+ * prompt and returns the same JSON shape. The same prompt always gives the
+ * same plan, so the drafting flow works and can be tested offline.
+ */
+export function createOfflineCarePlanClient(): TextGenerationClient {
+  return {
+    id: 'offline',
+    label: 'Offline template',
+    async generate({ prompt }) {
+      const block = prompt.match(/```json\n([\s\S]*?)\n```/);
+      if (!block) throw new TextGenerationError('REQUEST_FAILED', 'The offline client only handles care-plan prompts.');
+      return JSON.stringify(offlinePlan(JSON.parse(block[1]) as PromptData));
+    }
+  };
+}
+
+/** Plain-text rendering for the patient record or a printed handout. */
+export function carePlanText(plan: CarePlan): string {
+  return [
+    'DISCHARGE CARE PLAN (draft for clinician review)',
+    '',
+    plan.riskSummary,
+    '',
+    'Follow-up',
+    ...plan.followUp.map(a => `- ${a.timeframe}: ${a.action} (${a.responsible}). ${a.rationale}`),
+    '',
+    'For the patient',
+    plan.patientSummary,
+    '',
+    'Seek help straight away if you have:',
+    ...plan.warningSigns.map(s => `- ${s}`)
+  ].join('\n');
+}
@@ -0,0 +1,91 @@
+import { Patient } from './dataGenerator';
+import { APP_MODEL_OPTIONS, LogisticRegression, LogisticRegressionOptions, SerializedLogisticRegression } from './mlModel';
+import { EncodableRecord, FeaturePipeline, encodePatient, fitFeaturePipeline } from './featurePipeline';
+import { DecisionTree, SerializedDecisionTree } from './decisionTree';
+import { GradientBoostedStumps, SerializedGradientBoostedStumps } from './gradientBoosting';
+import { BernoulliNaiveBayes, GaussianNaiveBayes, SerializedBernoulliNB, SerializedGaussianNB } from './naiveBayes';
+
+export type ModelFamily = 'logistic' | 'tree' | 'boosted' | 'gaussianNB' | 'bernoulliNB';
+
+export type SerializedClassifier =
+  | SerializedLogisticRegression
+  | SerializedDecisionTree
+  | SerializedGradientBoostedStumps
+  | SerializedGaussianNB
+  | SerializedBernoulliNB;
+
+/**
+ * Optional per-sample information for `fit`, aligned with X. Families that
+ * cannot use a field ignore it.
+ */
+export interface FitContext {
+  /** Multiplies each sample's contribution to the loss (e.g. reweighing) */
+  sampleWeights?: number[];
+  /** Protected-group index per sample, for in-training fairness penalties */
+  groups?: number[];
+}
+
+/**
+ * Common surface of every model family. Inputs are feature vectors from
+ * the model's own `pipeline` and labels are 0/1 readmission flags.
+ */
+export interface Classifier {
+  readonly family: ModelFamily;
+  /** Feature encoding fitted with the model; serialized with it. Null until fitted. */
+  pipeline: FeaturePipeline | null;
+  fit(X: number[][], y: number[], context?: FitContext): void;
+  predictProba(x: number[]): number;
+  predict(x: number[]): number;
+  serialize(): SerializedClassifier;
+  /** An unfitted copy with the same hyperparameters, e.g. for cross-validation folds. */
+  clone(): Classifier;
+}
+
+export const MODEL_FAMILY_LABELS: Record<ModelFamily, string> = {
+  logistic: 'Logistic Regression',
+  tree: 'Decision Tree',
+  boosted: 'Gradient-Boosted Stumps',
+  gaussianNB: 'Gaussian Naive Bayes',
+  bernoulliNB: 'Bernoulli Naive Bayes'
+};
+
+export const MODEL_FAMILIES = Object.keys(MODEL_FAMILY_LABELS) as ModelFamily[];
+
+export function createClassifier(family: ModelFamily, logisticOptions: LogisticRegressionOptions = APP_MODEL_OPTIONS): Classifier {
+  switch (family) {
+    case 'logistic': return new LogisticRegression(logisticOptions);
+    case 'tree': return new DecisionTree();
+    case 'boosted': return new GradientBoostedStumps();
+    case 'gaussianNB': return new GaussianNaiveBayes();
+    case 'bernoulliNB': return new BernoulliNaiveBayes();
+  }
+}
+
+export function deserializeClassifier(data: SerializedClassifier): Classifier {
+  switch (data.family) {
+    case 'logistic': return LogisticRegression.deserialize(data);
+    case 'tree': return DecisionTree.deserialize(data);
+    case 'boosted': return GradientBoostedStumps.deserialize(data);
+    case 'gaussianNB': return GaussianNaiveBayes.deserialize(data);
+    case 'bernoulliNB': return BernoulliNaiveBayes.deserialize(data);
+  }
+}
+
+/** Encode a patient with the pipeline the model was fitted with. */
+export function encodeFor(model: Classifier, record: EncodableRecord): number[] {
+  if (!model.pipeline) throw new Error('Model has no feature pipeline; fit it with fitOnPatients');
+  return encodePatient(model.pipeline, record);
+}
+
+/** Raw (uncalibrated) probability for a patient record. */
+export const predictPatient = (model: Classifier, record: EncodableRecord) => model.predictProba(encodeFor(model, record));
+
+/**
+ * Fit the feature pipeline and then the classifier, in place, on a set of
+ * patients and return it. The pipeline only ever sees training patients.
+ */
+export function fitOnPatients<T extends Classifier>(classifier: T, patients: Patient[], context?: FitContext): T {
+  classifier.pipeline = fitFeaturePipeline(patients);
+  classifier.fit(patients.map(p => encodeFor(classifier, p)), patients.map(p => p.readmitted ? 1 : 0), context);
+  return classifier;
+}
@@ -0,0 +1,222 @@
+import { Patient } from './dataGenerator';
+import { Interval, wilsonInterval } from './fairness';
+import { explorerVariable } from './cohortExplorer';
+import { TestResult, chiSquareTest, fisherExactTest } from './statistics';
+
+/**
+ * Rule-based cohorts over `Patient` fields, e.g. "rural Cesarean patients
+ * over 35", and a side-by-side comparison of their readmission rates. Cohorts
+ * are plain JSON so they can be saved and restored.
+ */
+
+export type CohortFieldKey =
+  | 'age' | 'deliveryType' | 'laborDuration' | 'complications' | 'los' | 'location'
+  | 'hypertension' | 'gestationalDiabetes' | 'hemorrhage' | 'bmi' | 'parity' | 'gestationalAge' | 'preterm' | 'priorReadmissions' | 'payer';
+
+export interface CohortField {
+  key: CohortFieldKey;
+  label: string;
+  type: 'numeric' | 'categorical' | 'boolean';
+  /** Allowed values of a categorical field */
+  options?: string[];
+  unit?: string;
+}
+
+export type RuleOperator = '=' | '≠' | '<' | '≤' | '>' | '≥' | 'missing';
+
+export interface CohortRule {
+  field: CohortFieldKey;
+  operator: RuleOperator;
+  /** Ignored by 'missing' */
+  value: number | string | boolean;
+}
+
+export interface Cohort {
+  id: string;
+  name: string;
+  /** Whether a patient must satisfy every rule or at least one */
+  match: 'all' | 'any';
+  rules: CohortRule[];
+}
+
+const categoricalField = (key: CohortFieldKey, label: string): CohortField =>
+  ({ key, label, type: 'categorical', options: explorerVariable(key).groups });
+
+export const COHORT_FIELDS: CohortField[] = [
+  { key: 'age', label: 'Maternal age', type: 'numeric', unit: 'y' },
+  categoricalField('deliveryType', 'Delivery type'),
+  { key: 'laborDuration', label: 'Labor duration', type: 'numeric', unit: 'h' },
+  { key: 'complications', label: 'Complications', type: 'boolean' },
+  { key: 'los', label: 'Length of stay', type: 'numeric', unit: 'd' },
+  categoricalField('location', 'Location'),
+  categoricalField('hypertension', 'Hypertensive disorder'),
+  { key: 'gestationalDiabetes', label: 'Gestational diabetes', type: 'boolean' },
+  { key: 'hemorrhage', label: 'Postpartum hemorrhage', type: 'boolean' },
+  { key: 'bmi', label: 'BMI', type: 'numeric', unit: 'kg/m²' },
+  { key: 'parity', label: 'Parity', type: 'numeric' },
+  { key: 'gestationalAge', label: 'Gestational age', type: 'numeric', unit: 'wk' },
+  { key: 'preterm', label: 'Preterm birth', type: 'boolean' },
+  { key: 'priorReadmissions', label: 'Prior readmissions', type: 'numeric' },
+  categoricalField('payer', 'Payer')
+];
+
+export const cohortField = (key: CohortFieldKey) => COHORT_FIELDS.find(f => f.key === key)!;
+
+export const OPERATORS: Record<CohortField['type'], RuleOperator[]> = {
+  numeric: ['≥', '>', '≤', '<', '=', '≠', 'missing'],
+  categorical: ['=', '≠', 'missing'],
+  boolean: ['=', 'missing']
+};
+
+/** A valid starting rule for a field. */
+export function defaultRule(key: CohortFieldKey): CohortRule {
+  const field = cohortField(key);
+  if (field.type === 'numeric') return { field: key, operator: '≥', value: 0 };
+  if (field.type === 'boolean') return { field: key, operator: '=', value: true };
+  return { field: key, operator: '=', value: field.options![0] };
+}
+
+/** Unrecorded values fail every comparison; only 'missing' matches them. */
+export function matchesRule(p: Patient, rule: CohortRule): boolean {
+  const v = p[rule.field];
+  const missing = v === undefined || v === null;
+  if (rule.operator === 'missing') return missing;
+  if (missing) return false;
+  switch (rule.operator) {
+    case '=': return v === rule.value;
+    case '≠': return v !== rule.value;
+    case '<': return (v as number) < (rule.value as number);
+    case '≤': return (v as number) <= (rule.value as number);
+    case '>': return (v as number) > (rule.value as number);
+    case '≥': return (v as number) >= (rule.value as number);
+  }
+}
+
+/** A cohort without rules contains every patient. */
+export function matchesCohort(p: Patient, cohort: Cohort): boolean {
+  if (cohort.rules.length === 0) return true;
+  return cohort.match === 'all'
+    ? cohort.rules.every(r => matchesRule(p, r))
+    : cohort.rules.some(r => matchesRule(p, r));
+}
+
+export const selectCohort = (patients: Patient[], cohort: Cohort) => patients.filter(p => matchesCohort(p, cohort));
+
+export function describeRule(rule: CohortRule): string {
+  const field = cohortField(rule.field);
+  if (rule.operator === 'missing') return `${field.label} not recorded`;
+  if (field.type === 'boolean') return `${field.label}: ${rule.value ? 'yes' : 'no'}`;
+  return `${field.label} ${rule.operator} ${rule.value}${field.unit ? ` ${field.unit}` : ''}`;
+}
+
+export function describeCohort(cohort: Cohort): string {
+  if (cohort.rules.length === 0) return 'All patients';
+  return cohort.rules.map(describeRule).join(cohort.match === 'all' ? ' and ' : ' or ');
+}
+
+/** Shown until cohorts of one's own are saved. */
+export const EXAMPLE_COHORTS: Cohort[] = [
+  {
+    id: 'example-rural-cesarean-35',
+    name: 'Rural Cesarean, 35+',
+    match: 'all',
+    rules: [
+      { field: 'location', operator: '=', value: 'Rural' },
+      { field: 'deliveryType', operator: '=', value: 'Cesarean' },
+      { field: 'age', operator: '≥', value: 35 }
+    ]
+  },
+  {
+    id: 'example-urban-cesarean-35',
+    name: 'Urban Cesarean, 35+',
+    match: 'all',
+    rules: [
+      { field: 'location', operator: '=', value: 'Urban' },
+      { field: 'deliveryType', operator: '=', value: 'Cesarean' },
+      { field: 'age', operator: '≥', value: 35 }
+    ]
+  }
+];
+
+export interface CohortSummary {
+  cohort: Cohort;
+  n: number;
+  readmitted: number;
+  /** Readmission rate with a 95% Wilson interval */
+  rate: Interval;
+  /** Mean predicted risk; null without a model or for an empty cohort */
+  meanPredicted: number | null;
+  /** Observed readmissions over the sum of predicted risks */
+  observedToExpected: number | null;
+}
+
+export interface CohortContrast {
+  cohort: Cohort;
+  /** Risk relative to the reference cohort, with a 95% log-normal interval; null when either cohort has no readmissions */
+  riskRatio: Interval | null;
+  riskDifference: number;
+  /** Fisher's exact test whenever an expected cell count is below 5, Pearson chi-square otherwise */
+  test: TestResult & { method: 'fisher' | 'chi-square' };
+}
+
+export interface CohortComparison {
+  summaries: CohortSummary[];
+  /** Each further cohort against the first */
+  contrasts: CohortContrast[];
+  /** Chi-square test of equal rates across all non-empty cohorts, when there are more than two */
+  overall: (TestResult & { df: number }) | null;
+  /** Patients that belong to more than one cohort; the tests assume there are none */
+  overlap: number;
+}
+
+function contrast(reference: CohortSummary, other: CohortSummary): CohortContrast {
+  const a = other.readmitted, b = other.n - other.readmitted;
+  const c = reference.readmitted, d = reference.n - reference.readmitted;
+  const n = a + b + c + d;
+  const expected = [[a + b, a + c], [a + b, b + d], [c + d, a + c], [c + d, b + d]].map(([row, col]) => row * col / n);
+  const test = n > 0 && expected.some(e => e < 5)
+    ? { ...fisherExactTest(a, b, c, d), method: 'fisher' as const }
+    : { ...chiSquareTest([[a, b], [c, d]]), method: 'chi-square' as const };
+
+  let riskRatio: Interval | null = null;
+  if (a > 0 && c > 0) {
+    const ratio = (a / other.n) / (c / reference.n);
+    const se = Math.sqrt(1 / a - 1 / other.n + 1 / c - 1 / reference.n);
+    riskRatio = { value: ratio, lower: ratio * Math.exp(-1.96 * se), upper: ratio * Math.exp(1.96 * se) };
+  }
+  return { cohort: other.cohort, riskRatio, riskDifference: other.rate.value - reference.rate.value, test };
+}
+
+/**
+ * Readmission rates, predicted versus observed risk and significance tests
+ * for two or more cohorts. The first cohort is the reference.
+ */
+export function compareCohorts(patients: Patient[], cohorts: Cohort[], predict?: (p: Patient) => number): CohortComparison {
+  const members = cohorts.map(c => selectCohort(patients, c));
+  const risk = predict ? new Map(patients.map(p => [p, predict(p)])) : null;
+
+  const summaries: CohortSummary[] = cohorts.map((cohort, i) => {
+    const group = members[i];
+    const readmitted = group.filter(p => p.readmitted).length;
+    const expected = risk && group.length ? group.reduce((s, p) => s + risk.get(p)!, 0) : null;
+    return {
+      cohort,
+      n: group.length,
+      readmitted,
+      rate: wilsonInterval(readmitted, group.length),
+      meanPredicted: expected === null ? null : expected / group.length,
+      observedToExpected: expected ? readmitted / expected : null
+    };
+  });
+
+  const counted = new Map<Patient, number>();
+  members.flat().forEach(p => counted.set(p, (counted.get(p) ?? 0) + 1));
+  const nonEmpty = summaries.filter(s => s.n > 0);
+
+  return {
+    summaries,
+    contrasts: summaries.length > 1 ? summaries.slice(1).map(s => contrast(summaries[0], s)) : [],
+    overall: nonEmpty.length > 2 ? chiSquareTest(nonEmpty.map(s => [s.readmitted, s.n - s.readmitted])) : null,
+    overlap: [...counted.values()].filter(count => count > 1).length
+  };
+}
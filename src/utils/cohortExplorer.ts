@@ -0,0 +1,265 @@
+import { Patient } from './dataGenerator';
+
+/**
+ * Grouping, cross-filtering and correlation over a patient cohort for the
+ * Exploratory Data tab. Every variable maps a patient to a display group
+ * (numeric variables through fixed bands), so charts, filters and rate
+ * breakdowns share one definition.
+ */
+
+export interface Band {
+  label: string;
+  /** Inclusive lower bound */
+  min: number;
+  /** Exclusive upper bound */
+  max: number;
+}
+
+export type ExplorerKey =
+  | 'age' | 'deliveryType' | 'laborDuration' | 'complications' | 'los' | 'location'
+  | 'hypertension' | 'gestationalDiabetes' | 'hemorrhage' | 'bmi' | 'parity' | 'gestationalAge' | 'preterm' | 'priorReadmissions' | 'payer'
+  | 'readmitted';
+
+export interface ExplorerVariable {
+  key: ExplorerKey;
+  label: string;
+  /** Group labels in display order */
+  groups: string[];
+  /** The patient's group, or null when the value was not recorded */
+  group: (p: Patient) => string | null;
+}
+
+export const NOT_RECORDED = 'Not recorded';
+
+export const AGE_BANDS: Band[] = [
+  { label: '< 20', min: 0, max: 20 },
+  { label: '20–24', min: 20, max: 25 },
+  { label: '25–29', min: 25, max: 30 },
+  { label: '30–34', min: 30, max: 35 },
+  { label: '35–39', min: 35, max: 40 },
+  { label: '≥ 40', min: 40, max: Infinity }
+];
+
+export const LABOR_DURATION_BANDS: Band[] = [
+  { label: '< 6 h', min: 0, max: 6 },
+  { label: '6–11 h', min: 6, max: 12 },
+  { label: '12–17 h', min: 12, max: 18 },
+  { label: '18–23 h', min: 18, max: 24 },
+  { label: '≥ 24 h', min: 24, max: Infinity }
+];
+
+export const LOS_BANDS: Band[] = [
+  { label: '≤ 1 d', min: 0, max: 2 },
+  { label: '2 d', min: 2, max: 3 },
+  { label: '3 d', min: 3, max: 4 },
+  { label: '4 d', min: 4, max: 5 },
+  { label: '5 d', min: 5, max: 6 },
+  { label: '6 d', min: 6, max: 7 },
+  { label: '≥ 7 d', min: 7, max: Infinity }
+];
+
+/** WHO adult BMI categories, with obesity split into classes I, II and III. */
+export const BMI_BANDS: Band[] = [
+  { label: '< 18.5', min: 0, max: 18.5 },
+  { label: '18.5–25', min: 18.5, max: 25 },
+  { label: '25–30', min: 25, max: 30 },
+  { label: '30–35', min: 30, max: 35 },
+  { label: '35–40', min: 35, max: 40 },
+  { label: '≥ 40', min: 40, max: Infinity }
+];
+
+export const GESTATIONAL_AGE_BANDS: Band[] = [
+  { label: '< 32 wk', min: 0, max: 32 },
+  { label: '32–33 wk', min: 32, max: 34 },
+  { label: '34–36 wk', min: 34, max: 37 },
+  { label: '37–38 wk', min: 37, max: 39 },
+  { label: '39–40 wk', min: 39, max: 41 },
+  { label: '≥ 41 wk', min: 41, max: Infinity }
+];
+
+const PARITY_BANDS: Band[] = [
+  { label: '0', min: 0, max: 1 },
+  { label: '1', min: 1, max: 2 },
+  { label: '2', min: 2, max: 3 },
+  { label: '≥ 3', min: 3, max: Infinity }
+];
+
+const PRIOR_READMISSION_BANDS: Band[] = [
+  { label: '0', min: 0, max: 1 },
+  { label: '1', min: 1, max: 2 },
+  { label: '≥ 2', min: 2, max: Infinity }
+];
+
+const isRecorded = (v: unknown) => v !== undefined && v !== null;
+
+function banded(key: ExplorerKey & keyof Patient, label: string, bands: Band[]): ExplorerVariable {
+  return {
+    key,
+    label,
+    groups: bands.map(b => b.label),
+    group: p => {
+      const v = p[key];
+      if (typeof v !== 'number') return null;
+      return bands.find(b => v >= b.min && v < b.max)?.label ?? null;
+    }
+  };
+}
+
+function categorical(key: ExplorerKey & keyof Patient, label: string, groups: string[]): ExplorerVariable {
+  return { key, label, groups, group: p => isRecorded(p[key]) ? String(p[key]) : null };
+}
+
+function flag(key: ExplorerKey & keyof Patient, label: string, yes = 'Yes', no = 'No'): ExplorerVariable {
+  return { key, label, groups: [no, yes], group: p => isRecorded(p[key]) ? (p[key] ? yes : no) : null };
+}
+
+export const EXPLORER_VARIABLES: ExplorerVariable[] = [
+  banded('age', 'Maternal age', AGE_BANDS),
+  categorical('deliveryType', 'Delivery type', ['Vaginal', 'Cesarean']),
+  banded('laborDuration', 'Labor duration', LABOR_DURATION_BANDS),
+  flag('complications', 'Complications'),
+  banded('los', 'Length of stay', LOS_BANDS),
+  categorical('location', 'Location', ['Urban', 'Rural']),
+  categorical('hypertension', 'Hypertensive disorder', ['None', 'Gestational', 'Preeclampsia']),
+  flag('gestationalDiabetes', 'Gestational diabetes'),
+  flag('hemorrhage', 'Postpartum hemorrhage'),
+  banded('bmi', 'BMI', BMI_BANDS),
+  banded('parity', 'Parity', PARITY_BANDS),
+  banded('gestationalAge', 'Gestational age', GESTATIONAL_AGE_BANDS),
+  flag('preterm', 'Preterm birth'),
+  banded('priorReadmissions', 'Prior readmissions', PRIOR_READMISSION_BANDS),
+  categorical('payer', 'Payer', ['Private', 'Medicaid', 'Uninsured']),
+  flag('readmitted', 'Outcome', 'Readmitted', 'Stable')
+];
+
+export const explorerVariable = (key: ExplorerKey) => EXPLORER_VARIABLES.find(v => v.key === key)!;
+
+/** A selected group of one variable, e.g. clicking the "Cesarean" bar. */
+export interface CohortFilter {
+  key: ExplorerKey;
+  group: string;
+}
+
+/**
+ * Groups selected on the same variable are alternatives (OR); filters on
+ * different variables must all hold (AND).
+ */
+export function applyFilters(patients: Patient[], filters: CohortFilter[]): Patient[] {
+  const byKey = new Map<ExplorerKey, Set<string>>();
+  filters.forEach(f => byKey.set(f.key, (byKey.get(f.key) ?? new Set()).add(f.group)));
+  if (byKey.size === 0) return patients;
+  const checks = [...byKey].map(([key, groups]) => ({ variable: explorerVariable(key), groups }));
+  return patients.filter(p => checks.every(({ variable, groups }) => groups.has(variable.group(p) ?? NOT_RECORDED)));
+}
+
+/** Toggle one group in or out of the selection. */
+export function toggleFilter(filters: CohortFilter[], key: ExplorerKey, group: string): CohortFilter[] {
+  return filters.some(f => f.key === key && f.group === group)
+    ? filters.filter(f => !(f.key === key && f.group === group))
+    : [...filters, { key, group }];
+}
+
+export interface GroupSummary {
+  group: string;
+  n: number;
+  readmitted: number;
+  /** Readmission rate, 0-1; 0 for an empty group */
+  rate: number;
+}
+
+/** Counts and readmission rate per group; "Not recorded" is added only when some patients lack the value. */
+export function summarizeBy(patients: Patient[], variable: ExplorerVariable): GroupSummary[] {
+  const counts = new Map<string, { n: number; readmitted: number }>();
+  [...variable.groups, NOT_RECORDED].forEach(g => counts.set(g, { n: 0, readmitted: 0 }));
+  patients.forEach(p => {
+    const c = counts.get(variable.group(p) ?? NOT_RECORDED)!;
+    c.n++;
+    if (p.readmitted) c.readmitted++;
+  });
+  return [...counts]
+    .filter(([group, c]) => group !== NOT_RECORDED || c.n > 0)
+    .map(([group, c]) => ({ group, ...c, rate: c.n ? c.readmitted / c.n : 0 }));
+}
+
+export interface CorrelationVariable {
+  key: string;
+  label: string;
+  value: (p: Patient) => number | undefined;
+}
+
+const indicator = (v: boolean | undefined) => v === undefined ? undefined : v ? 1 : 0;
+
+/** Numeric and 0/1 versions of the cohort's variables, for the correlation heatmap. */
+export const CORRELATION_VARIABLES: CorrelationVariable[] = [
+  { key: 'age', label: 'Age', value: p => p.age },
+  { key: 'laborDuration', label: 'Labor duration', value: p => p.laborDuration },
+  { key: 'los', label: 'Length of stay', value: p => p.los },
+  { key: 'bmi', label: 'BMI', value: p => p.bmi },
+  { key: 'parity', label: 'Parity', value: p => p.parity },
+  { key: 'gestationalAge', label: 'Gestational age', value: p => p.gestationalAge },
+  { key: 'priorReadmissions', label: 'Prior readmissions', value: p => p.priorReadmissions },
+  { key: 'cesarean', label: 'Cesarean', value: p => indicator(p.deliveryType === 'Cesarean') },
+  { key: 'complications', label: 'Complications', value: p => indicator(p.complications) },
+  { key: 'rural', label: 'Rural', value: p => indicator(p.location === 'Rural') },
+  { key: 'hypertension', label: 'Hypertensive', value: p => p.hypertension === undefined ? undefined : indicator(p.hypertension !== 'None') },
+  { key: 'preeclampsia', label: 'Preeclampsia', value: p => p.hypertension === undefined ? undefined : indicator(p.hypertension === 'Preeclampsia') },
+  { key: 'gestationalDiabetes', label: 'Gest. diabetes', value: p => indicator(p.gestationalDiabetes) },
+  { key: 'hemorrhage', label: 'Hemorrhage', value: p => indicator(p.hemorrhage) },
+  { key: 'preterm', label: 'Preterm', value: p => indicator(p.preterm) },
+  { key: 'publicPayer', label: 'Medicaid / uninsured', value: p => p.payer === undefined ? undefined : indicator(p.payer !== 'Private') },
+  { key: 'readmitted', label: 'Readmitted', value: p => indicator(p.readmitted) }
+];
+
+/** Pearson correlation over the pairs where both values are present; null if undefined. */
+export function pearson(xs: (number | undefined)[], ys: (number | undefined)[]): number | null {
+  let n = 0, sx = 0, sy = 0, sxx = 0, syy = 0, sxy = 0;
+  xs.forEach((x, i) => {
+    const y = ys[i];
+    if (x === undefined || y === undefined) return;
+    n++; sx += x; sy += y; sxx += x * x; syy += y * y; sxy += x * y;
+  });
+  if (n < 3) return null;
+  const cov = sxy - sx * sy / n;
+  const vx = sxx - sx * sx / n;
+  const vy = syy - sy * sy / n;
+  return vx > 0 && vy > 0 ? cov / Math.sqrt(vx * vy) : null;
+}
+
+export interface CorrelationMatrix {
+  variables: CorrelationVariable[];
+  /** values[i][j] is the correlation between variables i and j */
+  values: (number | null)[][];
+}
+
+/** Variables with no recorded values in this cohort are left out. */
+export function correlationMatrix(patients: Patient[], variables: CorrelationVariable[] = CORRELATION_VARIABLES): CorrelationMatrix {
+  const columns = variables
+    .map(v => ({ variable: v, values: patients.map(v.value) }))
+    .filter(c => c.values.some(x => x !== undefined));
+  return {
+    variables: columns.map(c => c.variable),
+    values: columns.map(a => columns.map(b => a === b ? 1 : pearson(a.values, b.values)))
+  };
+}
+
+/**
+ * The recorded group whose readmission rate differs most from the rest of
+ * the cohort, among groups with at least `minSize` patients on each side.
+ */
+export function strongestGroup(patients: Patient[], minSize = 20) {
+  let best: { variable: ExplorerVariable; group: string; rate: number; otherRate: number } | null = null;
+  EXPLORER_VARIABLES.filter(v => v.key !== 'readmitted').forEach(variable => {
+    const groups = summarizeBy(patients, variable).filter(g => g.group !== NOT_RECORDED);
+    const recorded = groups.reduce((s, g) => s + g.n, 0);
+    const readmitted = groups.reduce((s, g) => s + g.readmitted, 0);
+    groups.forEach(g => {
+      const others = recorded - g.n;
+      if (g.n < minSize || others < minSize) return;
+      const otherRate = (readmitted - g.readmitted) / others;
+      if (!best || Math.abs(g.rate - otherRate) > Math.abs(best.rate - best.otherRate)) {
+        best = { variable, group: g.group, rate: g.rate, otherRate };
+      }
+    });
+  });
+  return best as { variable: ExplorerVariable; group: string; rate: number; otherRate: number } | null;
+}
@@ -0,0 +1,346 @@
+import { Patient } from './dataGenerator';
+import { PatientInput } from './explanation';
+
+/**
+ * Patient fields that can be populated from an imported extract.
+ * `id` is optional: rows are numbered sequentially when it is not mapped.
+ */
+export const IMPORT_FIELDS = [
+  'id', 'age', 'deliveryType', 'laborDuration', 'complications', 'los', 'location',
+  'hypertension', 'gestationalDiabetes', 'hemorrhage', 'bmi', 'parity', 'gestationalAge', 'preterm', 'priorReadmissions', 'payer',
+  'readmitted'
+] as const;
+
+export type ImportField = typeof IMPORT_FIELDS[number];
+export type ColumnMapping = Record<ImportField, string | null>;
+
+/**
+ * Extended risk factors: these may be left unmapped, and blank cells are
+ * allowed. The feature pipeline imputes whatever is absent.
+ */
+export const OPTIONAL_IMPORT_FIELDS: ImportField[] = [
+  'hypertension', 'gestationalDiabetes', 'hemorrhage', 'bmi', 'parity', 'gestationalAge', 'preterm', 'priorReadmissions', 'payer'
+];
+
+export interface ParsedCsv {
+  headers: string[];
+  rows: string[][];
+  /** 1-based line in the source file on which each row starts, parallel to `rows` */
+  lines: number[];
+}
+
+export interface RejectedRow {
+  line: number; // 1-based line number in the source file, header included
+  values: string[];
+  errors: string[];
+}
+
+export interface ImportResult {
+  patients: Patient[];
+  rejected: RejectedRow[];
+}
+
+export const AGE_RANGE = { min: 12, max: 60 };
+export const BMI_RANGE = { min: 10, max: 80 };
+export const GESTATIONAL_AGE_RANGE = { min: 20, max: 45 };
+export const PRETERM_WEEKS = 37;
+
+/**
+ * RFC 4180-style parser: quoted fields, escaped quotes ("") and
+ * CRLF/LF line endings. Blank lines are skipped, and quoted fields may span
+ * lines, so each row keeps the line it starts on for error reporting.
+ */
+export function parseCsv(text: string): ParsedCsv {
+  const records: { values: string[], line: number }[] = [];
+  let field = '';
+  let record: string[] = [];
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        if (ch === '\n' || (ch === '\r' && text[i + 1] !== '\n')) line++;
+        field += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ',') {
+      record.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push({ values: record, line: recordLine });
+      record = [];
+      field = '';
+      recordLine = ++line;
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push({ values: record, line: recordLine });
+  }
+
+  const [header, ...rows] = records.filter(r => r.values.some(v => v.trim() !== ''));
+  return {
+    headers: (header?.values ?? []).map(h => h.trim()),
+    rows: rows.map(r => r.values),
+    lines: rows.map(r => r.line)
+  };
+}
+
+const normalizeHeader = (h: string) => h.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  id: ['id', 'patientid', 'mrn', 'recordid'],
+  age: ['age', 'maternalage', 'ageyears'],
+  deliveryType: ['deliverytype', 'delivery', 'deliverymode', 'mode'],
+  laborDuration: ['laborduration', 'labourduration', 'laborhours', 'labor', 'labour'],
+  complications: ['complications', 'complication', 'hascomplications'],
+  los: ['los', 'lengthofstay', 'staydays'],
+  location: ['location', 'residence', 'urbanrural', 'setting'],
+  hypertension: ['hypertension', 'hypertensivedisorder', 'hdp', 'htn'],
+  gestationalDiabetes: ['gestationaldiabetes', 'gdm'],
+  hemorrhage: ['hemorrhage', 'haemorrhage', 'postpartumhemorrhage', 'postpartumhaemorrhage', 'pph'],
+  bmi: ['bmi', 'bodymassindex', 'prepregnancybmi'],
+  parity: ['parity', 'para', 'previousbirths'],
+  gestationalAge: ['gestationalage', 'gestation', 'gaweeks', 'ga'],
+  preterm: ['preterm', 'pretermbirth', 'premature'],
+  priorReadmissions: ['priorreadmissions', 'previousreadmissions', 'priorreadmits'],
+  payer: ['payer', 'insurance', 'payertype', 'insurancetype'],
+  readmitted: ['readmitted', 'readmission', 'readmit', 'outcome', 'readmitted30d']
+};
+
+/** Best-effort initial mapping from CSV headers to patient fields. */
+export function autoMapColumns(headers: string[]): ColumnMapping {
+  const mapping = {} as ColumnMapping;
+  for (const field of IMPORT_FIELDS) {
+    const match = headers.find(h => HEADER_ALIASES[field].includes(normalizeHeader(h)));
+    mapping[field] = match ?? null;
+  }
+  return mapping;
+}
+
+const parseBoolean = (raw: string): boolean | null => {
+  const v = raw.trim().toLowerCase();
+  if (['1', 'true', 'yes', 'y', 't'].includes(v)) return true;
+  if (['0', 'false', 'no', 'n', 'f'].includes(v)) return false;
+  return null;
+};
+
+const parseDeliveryType = (raw: string): Patient['deliveryType'] | null => {
+  const v = raw.trim().toLowerCase();
+  if (['vaginal', 'svd', 'nvd', 'v'].includes(v)) return 'Vaginal';
+  if (['cesarean', 'caesarean', 'c-section', 'csection', 'cs', 'lscs', 'c'].includes(v)) return 'Cesarean';
+  return null;
+};
+
+const parseLocation = (raw: string): Patient['location'] | null => {
+  const v = raw.trim().toLowerCase();
+  if (['urban', 'u'].includes(v)) return 'Urban';
+  if (['rural', 'r'].includes(v)) return 'Rural';
+  return null;
+};
+
+const parseHypertension = (raw: string): Patient['hypertension'] | null => {
+  const v = raw.trim().toLowerCase().replace(/[^a-z]/g, '');
+  if (['none', 'no', 'n', 'normotensive'].includes(v) || raw.trim() === '0') return 'None';
+  if (['gestational', 'gestationalhypertension', 'ghtn', 'gh', 'pih'].includes(v)) return 'Gestational';
+  if (['preeclampsia', 'pe', 'eclampsia', 'hellp'].includes(v)) return 'Preeclampsia';
+  return null;
+};
+
+const parsePayer = (raw: string): Patient['payer'] | null => {
+  const v = raw.trim().toLowerCase().replace(/[^a-z]/g, '');
+  if (['private', 'commercial'].includes(v)) return 'Private';
+  if (['medicaid', 'public'].includes(v)) return 'Medicaid';
+  if (['uninsured', 'selfpay', 'none'].includes(v)) return 'Uninsured';
+  return null;
+};
+
+const parseNumber = (raw: string): number | null => {
+  if (raw.trim() === '') return null;
+  const n = Number(raw.trim());
+  return Number.isFinite(n) ? n : null;
+};
+
+const parseCount = (raw: string): number | null => {
+  const n = parseNumber(raw);
+  return n !== null && Number.isInteger(n) && n >= 0 ? n : null;
+};
+
+const parseInRange = (range: { min: number; max: number }) => (raw: string): number | null => {
+  const n = parseNumber(raw);
+  return n !== null && n >= range.min && n <= range.max ? n : null;
+};
+
+/** Parse the extended risk factors that are present, appending problems to `errors`. */
+function parseOptionalFields(get: (field: ImportField) => string, errors: string[]): Partial<PatientInput> {
+  const fields: Partial<PatientInput> = {};
+  const read = <K extends keyof PatientInput & ImportField>(field: K, parse: (raw: string) => PatientInput[K] | null, expected: string) => {
+    const raw = get(field);
+    if (raw.trim() === '') return;
+    const value = parse(raw);
+    if (value === null) errors.push(`${field}: "${raw}" is not ${expected}`);
+    else fields[field] = value;
+  };
+
+  read('hypertension', parseHypertension, 'none, gestational or preeclampsia');
+  read('gestationalDiabetes', parseBoolean, 'yes/no');
+  read('hemorrhage', parseBoolean, 'yes/no');
+  read('bmi', parseInRange(BMI_RANGE), `a BMI between ${BMI_RANGE.min} and ${BMI_RANGE.max}`);
+  read('parity', parseCount, 'a whole number of births');
+  read('gestationalAge', parseInRange(GESTATIONAL_AGE_RANGE), `a number of weeks between ${GESTATIONAL_AGE_RANGE.min} and ${GESTATIONAL_AGE_RANGE.max}`);
+  read('preterm', parseBoolean, 'yes/no');
+  read('priorReadmissions', parseCount, 'a whole number of readmissions');
+  read('payer', parsePayer, 'private, medicaid or uninsured');
+
+  if (fields.preterm === undefined && fields.gestationalAge !== undefined) fields.preterm = fields.gestationalAge < PRETERM_WEEKS;
+  return fields;
+}
+
+/** Parse and validate the model's input fields, appending problems to `errors`. */
+function parsePatientFields(get: (field: ImportField) => string, errors: string[]): PatientInput | null {
+  const before = errors.length;
+
+  const age = parseNumber(get('age'));
+  if (age === null) errors.push(`age: "${get('age')}" is not a number`);
+  else if (age < AGE_RANGE.min || age > AGE_RANGE.max) errors.push(`age: ${age} is outside ${AGE_RANGE.min}-${AGE_RANGE.max}`);
+
+  const deliveryType = parseDeliveryType(get('deliveryType'));
+  if (deliveryType === null) errors.push(`deliveryType: unknown category "${get('deliveryType')}"`);
+
+  const laborDuration = parseNumber(get('laborDuration'));
+  if (laborDuration === null) errors.push(`laborDuration: "${get('laborDuration')}" is not a number`);
+  else if (laborDuration < 0) errors.push(`laborDuration: ${laborDuration} is negative`);
+
+  const complications = parseBoolean(get('complications'));
+  if (complications === null) errors.push(`complications: "${get('complications')}" is not yes/no`);
+
+  const los = parseNumber(get('los'));
+  if (los === null) errors.push(`los: "${get('los')}" is not a number`);
+  else if (los < 0) errors.push(`los: ${los} is negative`);
+
+  const location = parseLocation(get('location'));
+  if (location === null) errors.push(`location: unknown category "${get('location')}"`);
+
+  const extended = parseOptionalFields(get, errors);
+
+  if (errors.length > before) return null;
+  return { age: age!, deliveryType: deliveryType!, laborDuration: laborDuration!, complications: complications!, los: los!, location: location!, ...extended };
+}
+
+/**
+ * Apply a column mapping to parsed rows, validating every value.
+ * Rows with any error are rejected whole and reported with all their errors.
+ */
+export function mapRowsToPatients(csv: ParsedCsv, mapping: ColumnMapping): ImportResult {
+  const patients: Patient[] = [];
+  const rejected: RejectedRow[] = [];
+  const index = (field: ImportField) => mapping[field] ? csv.headers.indexOf(mapping[field]!) : -1;
+  const required = IMPORT_FIELDS.filter(f => f !== 'id' && !OPTIONAL_IMPORT_FIELDS.includes(f));
+  const missing = required.filter(f => index(f) === -1);
+  if (missing.length > 0) {
+    throw new Error(`Unmapped required columns: ${missing.join(', ')}`);
+  }
+
+  const usedIds = new Set<number>();
+  csv.rows.forEach((values, r) => {
+    const errors: string[] = [];
+    const get = (field: ImportField) => values[index(field)] ?? '';
+    const input = parsePatientFields(get, errors);
+
+    const readmitted = parseBoolean(get('readmitted'));
+    if (readmitted === null) errors.push(`readmitted: "${get('readmitted')}" is not yes/no`);
+
+    let id = r + 1;
+    if (index('id') !== -1) {
+      const parsedId = parseNumber(get('id'));
+      if (parsedId === null || !Number.isInteger(parsedId)) errors.push(`id: "${get('id')}" is not an integer`);
+      else if (usedIds.has(parsedId)) errors.push(`id: ${parsedId} is duplicated`);
+      else id = parsedId;
+    }
+
+    if (errors.length > 0) {
+      rejected.push({ line: csv.lines[r], values, errors });
+      return;
+    }
+    usedIds.add(id);
+    patients.push({ id, ...input!, readmitted: readmitted! });
+  });
+
+  return { patients, rejected };
+}
+
+/** A patient being discharged today: model inputs only, outcome not yet known. */
+export interface Discharge {
+  line: number;
+  /** The extract's patient identifier, or "Line n" (the row's line in the file) when none is mapped */
+  reference: string;
+  input: PatientInput;
+  /** Known outcome, when the extract maps a readmission column and the cell is filled */
+  readmitted?: boolean;
+}
+
+export interface DischargeImportResult {
+  discharges: Discharge[];
+  rejected: RejectedRow[];
+}
+
+/**
+ * Like `mapRowsToPatients`, for an extract of current discharges: the
+ * outcome column is optional (blank cells are allowed) and ids are free
+ * text (MRNs) rather than integers.
+ */
+export function mapRowsToDischarges(csv: ParsedCsv, mapping: ColumnMapping): DischargeImportResult {
+  const discharges: Discharge[] = [];
+  const rejected: RejectedRow[] = [];
+  const index = (field: ImportField) => mapping[field] ? csv.headers.indexOf(mapping[field]!) : -1;
+  const missing = IMPORT_FIELDS.filter(f => f !== 'id' && f !== 'readmitted' && !OPTIONAL_IMPORT_FIELDS.includes(f) && index(f) === -1);
+  if (missing.length > 0) {
+    throw new Error(`Unmapped required columns: ${missing.join(', ')}`);
+  }
+
+  const usedReferences = new Set<string>();
+  csv.rows.forEach((values, r) => {
+    const errors: string[] = [];
+    const get = (field: ImportField) => values[index(field)] ?? '';
+    const input = parsePatientFields(get, errors);
+
+    let readmitted: boolean | undefined;
+    if (index('readmitted') !== -1 && get('readmitted').trim() !== '') {
+      const parsed = parseBoolean(get('readmitted'));
+      if (parsed === null) errors.push(`readmitted: "${get('readmitted')}" is not yes/no`);
+      else readmitted = parsed;
+    }
+
+    let reference = `Line ${csv.lines[r]}`;
+    if (index('id') !== -1) {
+      const id = get('id').trim();
+      if (id === '') errors.push('id: missing');
+      else if (usedReferences.has(id)) errors.push(`id: ${id} is duplicated`);
+      else reference = id;
+    }
+
+    if (errors.length > 0) {
+      rejected.push({ line: csv.lines[r], values, errors });
+      return;
+    }
+    usedReferences.add(reference);
+    discharges.push({ line: csv.lines[r], reference, input: input!, ...(readmitted !== undefined && { readmitted }) });
+  });
+
+  return { discharges, rejected };
+}
@@ -1,3 +1,5 @@
+export type HypertensiveDisorder = 'None' | 'Gestational' | 'Preeclampsia';
+export type Payer = 'Private' | 'Medicaid' | 'Uninsured';
 
 export interface Patient {
   id: number;
@@ -7,35 +9,242 @@ export interface Patient {
   complications: boolean;
   los: number; // length of stay in days
   location: 'Urban' | 'Rural';
+  // Extended obstetric risk factors. Optional so extracts and API callers
+  // without them still load; the feature pipeline imputes what is missing.
+  hypertension?: HypertensiveDisorder; // hypertensive disorder of pregnancy
+  gestationalDiabetes?: boolean;
+  hemorrhage?: boolean; // postpartum hemorrhage
+  bmi?: number; // pre-pregnancy, kg/m²
+  parity?: number; // previous births
+  gestationalAge?: number; // completed weeks at delivery
+  preterm?: boolean; // delivered before 37 weeks
+  priorReadmissions?: number; // in the previous 12 months
+  payer?: Payer;
   readmitted: boolean;
   riskScore?: number;
 }
 
-export function generateMaternityData(count: number = 500): Patient[] {
+/**
+ * Ground-truth description of a synthetic cohort. Every number that shapes
+ * the simulated population or its readmission labels lives here so a demo
+ * can be reproduced from (seed, scenario) alone.
+ */
+export interface ScenarioConfig {
+  seed: number;
+  cohortSize: number;
+  // Category mixes (probability of the non-reference category)
+  cesareanRate: number; // cohort average; preeclampsia, obesity and preterm birth raise the odds per patient
+  complicationRate: number;
+  ruralRate: number;
+  // Extended risk factors: rates for a typical patient, which BMI, age,
+  // parity and the other factors raise or lower per patient
+  hypertensionRate: number; // any hypertensive disorder
+  preeclampsiaShare: number; // share of hypertensive disorders that are preeclampsia
+  gestationalDiabetesRate: number;
+  hemorrhageRate: number;
+  pretermRate: number;
+  bmi: { mean: number; sd: number };
+  payerMix: { medicaid: number; uninsured: number };
+  ageRange: { min: number; max: number };
+  laborDurationRange: { min: number; max: number }; // hours
+  // Additive effects on readmission probability
+  effects: {
+    base: number;
+    cesarean: number;
+    complications: number;
+    rural: number;
+    advancedAge: number; // age > advancedAgeCutoff
+    shortVaginalStay: number; // vaginal delivery with LOS < 3
+    hypertension: number; // any hypertensive disorder
+    preeclampsia: number; // on top of `hypertension`
+    gestationalDiabetes: number;
+    hemorrhage: number;
+    obesity: number; // BMI ≥ 30
+    preterm: number;
+    priorReadmission: number; // per prior readmission, up to two
+    medicaid: number;
+    uninsured: number;
+  };
+  advancedAgeCutoff: number;
+  // Extra effect applied only when both factors are present
+  interactions: {
+    ruralCesarean: number;
+    ruralComplications: number;
+    advancedAgeCesarean: number;
+  };
+  labelNoise: number; // probability that a simulated label is flipped
+}
+
+export const DEFAULT_SCENARIO: ScenarioConfig = {
+  seed: 42,
+  cohortSize: 500,
+  cesareanRate: 0.3,
+  complicationRate: 0.2,
+  ruralRate: 0.4,
+  hypertensionRate: 0.14,
+  preeclampsiaShare: 0.4,
+  gestationalDiabetesRate: 0.08,
+  hemorrhageRate: 0.05,
+  pretermRate: 0.09,
+  bmi: { mean: 27, sd: 5.5 },
+  payerMix: { medicaid: 0.42, uninsured: 0.06 },
+  ageRange: { min: 18, max: 45 },
+  laborDurationRange: { min: 4, max: 23 },
+  effects: {
+    base: 0.05,
+    cesarean: 0.15,
+    complications: 0.25,
+    rural: 0.10,
+    advancedAge: 0.10,
+    shortVaginalStay: 0.15,
+    hypertension: 0.05,
+    preeclampsia: 0.08,
+    gestationalDiabetes: 0.03,
+    hemorrhage: 0.10,
+    obesity: 0.04,
+    preterm: 0.05,
+    priorReadmission: 0.08,
+    medicaid: 0.03,
+    uninsured: 0.05
+  },
+  advancedAgeCutoff: 35,
+  interactions: {
+    ruralCesarean: 0,
+    ruralComplications: 0,
+    advancedAgeCesarean: 0
+  },
+  labelNoise: 0
+};
+
+/**
+ * Mulberry32 PRNG: small, fast and good enough for simulation.
+ * Returns a function producing floats in [0, 1).
+ */
+export function createRng(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const randomInt = (rng: () => number, min: number, max: number) =>
+  Math.floor(rng() * (max - min + 1)) + min;
+
+/** Box-Muller transform: a standard normal draw from two uniforms. */
+const randomNormal = (rng: () => number) =>
+  Math.sqrt(-2 * Math.log(1 - rng())) * Math.cos(2 * Math.PI * rng());
+
+const chance = (rng: () => number, p: number) => rng() < Math.min(0.95, p);
+
+const sigmoid = (z: number) => 1 / (1 + Math.exp(-z));
+
+/**
+ * Intercept b for which sigmoid(b + lift) averages `rate` over the
+ * population, so per-patient odds ratios shift who is affected without
+ * moving the overall rate away from the scenario's.
+ */
+function interceptForRate(lifts: number[], rate: number): number {
+  if (rate <= 0) return -Infinity;
+  if (rate >= 1) return Infinity;
+  const meanRate = (b: number) => lifts.reduce((s, l) => s + sigmoid(b + l), 0) / Math.max(1, lifts.length);
+  let lo = -30, hi = 30;
+  for (let i = 0; i < 60; i++) {
+    const mid = (lo + hi) / 2;
+    if (meanRate(mid) < rate) lo = mid; else hi = mid;
+  }
+  return (lo + hi) / 2;
+}
+
+// Odds ratios for a cesarean delivery
+const CESAREAN_ODDS = { preeclampsia: 1.6, obesity: 1.3, preterm: 1.3 };
+
+export function generateMaternityData(scenario: ScenarioConfig = DEFAULT_SCENARIO): Patient[] {
+  const rng = createRng(scenario.seed);
+  const { effects, interactions } = scenario;
   const patients: Patient[] = [];
-  
-  for (let i = 0; i < count; i++) {
-    const age = Math.floor(Math.random() * (45 - 18 + 1)) + 18;
-    const deliveryType = Math.random() > 0.7 ? 'Cesarean' : 'Vaginal';
-    const location = Math.random() > 0.4 ? 'Urban' : 'Rural';
-    const laborDuration = Math.floor(Math.random() * 20) + 4; // 4 to 24 hours
-    const complications = Math.random() > 0.8;
-    
+
+  // Antenatal risk factors are drawn for the whole cohort first, so the
+  // cesarean odds can be normalised to the scenario's cesarean rate
+  const mothers = Array.from({ length: scenario.cohortSize }, () => {
+    const age = randomInt(rng, scenario.ageRange.min, scenario.ageRange.max);
+    // Older mothers tend to have had more births
+    const parityDraw = rng() * (0.7 + (age - 18) / 45);
+    const parity = parityDraw < 0.4 ? 0 : parityDraw < 0.73 ? 1 : parityDraw < 0.9 ? 2 : 3 + Math.floor(rng() * 3);
+    const bmi = +Math.min(55, Math.max(16, scenario.bmi.mean + scenario.bmi.sd * randomNormal(rng) + 0.1 * (age - 30))).toFixed(1);
+    const isAdvancedAge = age > scenario.advancedAgeCutoff;
+
+    // Higher BMI, first pregnancies and older mothers carry more
+    // hypertensive disease and gestational diabetes
+    const bmiFactor = Math.exp(0.07 * (bmi - scenario.bmi.mean));
+    const hypertensive = chance(rng, scenario.hypertensionRate * bmiFactor * (parity === 0 ? 1.3 : 1) * (isAdvancedAge ? 1.3 : 1));
+    const hypertension: HypertensiveDisorder = !hypertensive ? 'None' : rng() < scenario.preeclampsiaShare ? 'Preeclampsia' : 'Gestational';
+    const isPreeclampsia = hypertension === 'Preeclampsia';
+    const gestationalDiabetes = chance(rng, scenario.gestationalDiabetesRate * bmiFactor * (isAdvancedAge ? 1.6 : 1));
+
+    // Preeclampsia often forces an early, operative delivery
+    const preterm = chance(rng, scenario.pretermRate * (isPreeclampsia ? 3 : hypertension === 'Gestational' ? 1.5 : 1));
+    const gestationalAge = preterm ? randomInt(rng, 28, 36) : randomInt(rng, 37, 41);
+    const cesareanLift = (isPreeclampsia ? Math.log(CESAREAN_ODDS.preeclampsia) : 0)
+      + (bmi >= 30 ? Math.log(CESAREAN_ODDS.obesity) : 0) + (preterm ? Math.log(CESAREAN_ODDS.preterm) : 0);
+    return { age, parity, bmi, isAdvancedAge, hypertension, isPreeclampsia, gestationalDiabetes, preterm, gestationalAge, cesareanLift };
+  });
+  const cesareanIntercept = interceptForRate(mothers.map(m => m.cesareanLift), scenario.cesareanRate);
+
+  for (let i = 0; i < mothers.length; i++) {
+    const { age, parity, bmi, isAdvancedAge, hypertension, isPreeclampsia, gestationalDiabetes, preterm, gestationalAge, cesareanLift } = mothers[i];
+    const deliveryType = rng() < sigmoid(cesareanIntercept + cesareanLift) ? 'Cesarean' : 'Vaginal';
+    const location = rng() < scenario.ruralRate ? 'Rural' : 'Urban';
+    const medicaidRate = scenario.payerMix.medicaid * (location === 'Rural' ? 1.3 : 0.8) * (age < 25 ? 1.3 : 1);
+    const payerDraw = rng();
+    const payer: Patient['payer'] = payerDraw < scenario.payerMix.uninsured ? 'Uninsured'
+      : payerDraw < scenario.payerMix.uninsured + medicaidRate ? 'Medicaid' : 'Private';
+    // First labors run longer
+    const laborDuration = Math.min(scenario.laborDurationRange.max,
+      randomInt(rng, scenario.laborDurationRange.min, scenario.laborDurationRange.max) + (parity === 0 ? 3 : 0));
+    const complications = rng() < scenario.complicationRate;
+    const hemorrhage = chance(rng, scenario.hemorrhageRate
+      * (deliveryType === 'Cesarean' ? 1.5 : 1) * (laborDuration > 18 ? 1.5 : 1) * (isPreeclampsia ? 1.5 : 1));
+    const priorDraw = rng();
+    const priorRate = parity === 0 ? 0 : hypertension !== 'None' ? 0.15 : 0.08;
+    const priorReadmissions = priorDraw < priorRate / 5 ? 2 : priorDraw < priorRate ? 1 : 0;
+
     // Base LOS
     let los = deliveryType === 'Cesarean' ? 4 : 2;
     if (complications) los += 2;
-    los += Math.floor(Math.random() * 2);
+    if (isPreeclampsia || hemorrhage || preterm) los += 1;
+    los += Math.floor(rng() * 2);
+
+    const isCesarean = deliveryType === 'Cesarean';
+    const isRural = location === 'Rural';
 
     // Calculate Readmission Probability (Ground Truth for simulation)
-    // Factors: Cesarean (+15%), Complications (+25%), Rural (+10%), Age > 35 (+10%), LOS < 3 (+15%)
-    let prob = 0.05; // Base 5%
-    if (deliveryType === 'Cesarean') prob += 0.15;
-    if (complications) prob += 0.25;
-    if (location === 'Rural') prob += 0.10;
-    if (age > 35) prob += 0.10;
-    if (los < 3 && deliveryType === 'Vaginal') prob += 0.15;
-    
-    const readmitted = Math.random() < prob;
+    let prob = effects.base;
+    if (isCesarean) prob += effects.cesarean;
+    if (complications) prob += effects.complications;
+    if (isRural) prob += effects.rural;
+    if (isAdvancedAge) prob += effects.advancedAge;
+    if (los < 3 && !isCesarean) prob += effects.shortVaginalStay;
+    if (hypertension !== 'None') prob += effects.hypertension;
+    if (isPreeclampsia) prob += effects.preeclampsia;
+    if (gestationalDiabetes) prob += effects.gestationalDiabetes;
+    if (hemorrhage) prob += effects.hemorrhage;
+    if (bmi >= 30) prob += effects.obesity;
+    if (preterm) prob += effects.preterm;
+    prob += effects.priorReadmission * Math.min(2, priorReadmissions);
+    if (payer === 'Medicaid') prob += effects.medicaid;
+    if (payer === 'Uninsured') prob += effects.uninsured;
+
+    if (isRural && isCesarean) prob += interactions.ruralCesarean;
+    if (isRural && complications) prob += interactions.ruralComplications;
+    if (isAdvancedAge && isCesarean) prob += interactions.advancedAgeCesarean;
+    prob = Math.min(1, Math.max(0, prob));
+
+    let readmitted = rng() < prob;
+    if (rng() < scenario.labelNoise) readmitted = !readmitted;
 
     patients.push({
       id: i + 1,
@@ -45,9 +254,18 @@ export function generateMaternityData(count: number = 500): Patient[] {
       complications,
       los,
       location,
+      hypertension,
+      gestationalDiabetes,
+      hemorrhage,
+      bmi,
+      parity,
+      gestationalAge,
+      preterm,
+      priorReadmissions,
+      payer,
       readmitted
     });
   }
-  
+
   return patients;
 }
@@ -0,0 +1,122 @@
+import type { Classifier } from './classifier';
+import { FeaturePipeline, LEGACY_PIPELINE } from './featurePipeline';
+
+export interface DecisionTreeOptions {
+  maxDepth: number;
+  minSamplesLeaf: number;
+  maxThresholds: number; // candidate split points per feature (quantiles)
+}
+
+export type TreeNode =
+  | { leaf: true; value: number; samples: number }
+  | { leaf: false; feature: number; threshold: number; left: TreeNode; right: TreeNode; samples: number };
+
+export interface SerializedDecisionTree {
+  family: 'tree';
+  options: DecisionTreeOptions;
+  root: TreeNode | null;
+  /** Absent in models saved before feature pipelines; those used LEGACY_PIPELINE */
+  pipeline?: FeaturePipeline | null;
+}
+
+export const DEFAULT_TREE_OPTIONS: DecisionTreeOptions = { maxDepth: 4, minSamplesLeaf: 10, maxThresholds: 32 };
+
+/** Candidate split points: midpoints between distinct values, thinned to quantiles. */
+export function candidateThresholds(values: number[], max: number): number[] {
+  const distinct = [...new Set(values)].sort((a, b) => a - b);
+  const mids = distinct.slice(1).map((v, i) => (v + distinct[i]) / 2);
+  if (mids.length <= max) return mids;
+  return Array.from({ length: max }, (_, i) => mids[Math.floor((i + 0.5) * mids.length / max)]);
+}
+
+const gini = (pos: number, n: number) => {
+  if (n === 0) return 0;
+  const p = pos / n;
+  return 2 * p * (1 - p);
+};
+
+/**
+ * CART classification tree with Gini impurity. Leaves predict the
+ * Laplace-smoothed share of readmissions among their training samples.
+ */
+export class DecisionTree implements Classifier {
+  public readonly family = 'tree';
+  public pipeline: FeaturePipeline | null = null;
+  private root: TreeNode | null = null;
+  private options: DecisionTreeOptions;
+
+  constructor(options: Partial<DecisionTreeOptions> = {}) {
+    this.options = { ...DEFAULT_TREE_OPTIONS, ...options };
+  }
+
+  public fit(X: number[][], y: number[]): void {
+    this.root = this.build(X, y, X.map((_, i) => i), 0);
+  }
+
+  private build(X: number[][], y: number[], idx: number[], depth: number): TreeNode {
+    const pos = idx.reduce((a, i) => a + y[i], 0);
+    const leaf: TreeNode = { leaf: true, value: (pos + 1) / (idx.length + 2), samples: idx.length };
+    if (depth >= this.options.maxDepth || idx.length < 2 * this.options.minSamplesLeaf || pos === 0 || pos === idx.length) {
+      return leaf;
+    }
+
+    const parentImpurity = gini(pos, idx.length);
+    let best: { feature: number; threshold: number; gain: number } | null = null;
+    for (let f = 0; f < X[0].length; f++) {
+      for (const t of candidateThresholds(idx.map(i => X[i][f]), this.options.maxThresholds)) {
+        let nL = 0, posL = 0;
+        for (const i of idx) {
+          if (X[i][f] <= t) {
+            nL++;
+            posL += y[i];
+          }
+        }
+        const nR = idx.length - nL;
+        if (nL < this.options.minSamplesLeaf || nR < this.options.minSamplesLeaf) continue;
+        const impurity = (nL * gini(posL, nL) + nR * gini(pos - posL, nR)) / idx.length;
+        const gain = parentImpurity - impurity;
+        if (gain > 1e-12 && (!best || gain > best.gain)) best = { feature: f, threshold: t, gain };
+      }
+    }
+    if (!best) return leaf;
+
+    const left = idx.filter(i => X[i][best!.feature] <= best!.threshold);
+    const right = idx.filter(i => X[i][best!.feature] > best!.threshold);
+    return {
+      leaf: false,
+      feature: best.feature,
+      threshold: best.threshold,
+      samples: idx.length,
+      left: this.build(X, y, left, depth + 1),
+      right: this.build(X, y, right, depth + 1)
+    };
+  }
+
+  public predictProba(x: number[]): number {
+    if (!this.root) return 0.5;
+    let node: TreeNode = this.root;
+    while (node.leaf === false) {
+      node = x[node.feature] <= node.threshold ? node.left : node.right;
+    }
+    return node.value;
+  }
+
+  public predict(x: number[]): number {
+    return this.predictProba(x) >= 0.5 ? 1 : 0;
+  }
+
+  public serialize(): SerializedDecisionTree {
+    return { family: 'tree', options: this.options, root: this.root, pipeline: this.pipeline };
+  }
+
+  public clone(): DecisionTree {
+    return new DecisionTree(this.options);
+  }
+
+  public static deserialize(data: SerializedDecisionTree): DecisionTree {
+    const tree = new DecisionTree(data.options);
+    tree.root = data.root;
+    tree.pipeline = data.pipeline ?? LEGACY_PIPELINE;
+    return tree;
+  }
+}
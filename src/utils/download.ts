@@ -0,0 +1,25 @@
+/** Quote a CSV cell when it contains a delimiter, quote or newline. */
+export const csvEscape = (v: string) => /[",\n\r]/.test(v) ? `"${v.replace(/"/g, '""')}"` : v;
+
+export const toCsv = (rows: (string | number | boolean)[][]) =>
+  rows.map(r => r.map(v => csvEscape(String(v))).join(',')).join('\n');
+
+/** Trigger a browser download of in-memory text. */
+export function downloadText(filename: string, text: string, type = 'text/csv') {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+/** Open an HTML document in a new tab and show the print dialog, from which it can be saved as PDF. */
+export function printHtml(html: string) {
+  const win = window.open('', '_blank');
+  if (!win) throw new Error('The browser blocked the report window; allow pop-ups for this site to print it');
+  win.document.write(html);
+  win.document.close();
+  win.focus();
+  win.print();
+}
@@ -0,0 +1,263 @@
+import { Patient } from './dataGenerator';
+import { PatientInput } from './explanation';
+import { OutcomePeriod } from './predictionLog';
+import { TestResult, chiSquareTest, ksTest } from './statistics';
+
+/**
+ * Population drift between the training cohort and a new batch: PSI per
+ * feature, KS tests for continuous inputs, category shifts with a
+ * chi-square test, and the same for the model's predicted risk.
+ */
+
+export interface DriftThresholds {
+  /** PSI above which a feature is flagged for review */
+  psiWarning: number;
+  /** PSI above which a feature raises an alert */
+  psiAlert: number;
+  /** Significance level for the KS and chi-square tests */
+  alpha: number;
+  /** Largest acceptable change in any category's share, in proportion points */
+  categoryShift: number;
+  /** Largest acceptable |observed − mean predicted| readmission rate */
+  calibrationGap: number;
+  /** Outcomes needed before a calibration gap is judged */
+  minOutcomes: number;
+}
+
+export const DEFAULT_DRIFT_THRESHOLDS: DriftThresholds = {
+  psiWarning: 0.1,
+  psiAlert: 0.25,
+  alpha: 0.01,
+  categoryShift: 0.1,
+  calibrationGap: 0.05,
+  minOutcomes: 30
+};
+
+export type DriftStatus = 'stable' | 'warning' | 'alert';
+
+type NumericKey = 'age' | 'laborDuration' | 'los';
+type CategoricalKey = 'deliveryType' | 'location' | 'complications';
+
+export const NUMERIC_DRIFT_FEATURES: { key: NumericKey; label: string }[] = [
+  { key: 'age', label: 'Maternal age' },
+  { key: 'laborDuration', label: 'Labor duration' },
+  { key: 'los', label: 'Length of stay' }
+];
+
+export const CATEGORICAL_DRIFT_FEATURES: { key: CategoricalKey; label: string; categories: { value: string | boolean; label: string }[] }[] = [
+  { key: 'deliveryType', label: 'Delivery type', categories: [{ value: 'Vaginal', label: 'Vaginal' }, { value: 'Cesarean', label: 'Cesarean' }] },
+  { key: 'location', label: 'Location', categories: [{ value: 'Urban', label: 'Urban' }, { value: 'Rural', label: 'Rural' }] },
+  { key: 'complications', label: 'Complications', categories: [{ value: false, label: 'No' }, { value: true, label: 'Yes' }] }
+];
+
+export interface DistributionBin {
+  label: string;
+  reference: number;
+  batch: number;
+}
+
+interface DriftBase {
+  key: string;
+  label: string;
+  psi: number;
+  bins: DistributionBin[];
+  status: DriftStatus;
+  reasons: string[];
+}
+
+export interface NumericDrift extends DriftBase {
+  kind: 'numeric';
+  ks: TestResult;
+  referenceMean: number;
+  batchMean: number;
+}
+
+export interface CategoricalDrift extends DriftBase {
+  kind: 'categorical';
+  chiSquare: TestResult;
+  /** Largest absolute change in a category's share */
+  maxShift: number;
+}
+
+export type FeatureDrift = NumericDrift | CategoricalDrift;
+
+export interface DriftAlert {
+  level: Exclude<DriftStatus, 'stable'>;
+  subject: string;
+  message: string;
+}
+
+export interface BatchPerformance {
+  withOutcome: number;
+  meanPredicted: number;
+  observedRate: number;
+}
+
+export interface DriftReport {
+  referenceSize: number;
+  batchSize: number;
+  features: FeatureDrift[];
+  /** Drift in the model's output, which combines all input shifts */
+  predictedRisk: NumericDrift;
+  performance: BatchPerformance | null;
+  alerts: DriftAlert[];
+}
+
+// Keeps empty bins from making PSI infinite
+const PSI_FLOOR = 1e-4;
+const QUANTILE_BINS = 10;
+
+/** Population stability index over matching proportion vectors. */
+export function populationStabilityIndex(expected: number[], actual: number[]): number {
+  return expected.reduce((sum, e, i) => {
+    const p = Math.max(e, PSI_FLOOR);
+    const q = Math.max(actual[i], PSI_FLOOR);
+    return sum + (q - p) * Math.log(q / p);
+  }, 0);
+}
+
+const mean = (values: number[]) => values.reduce((s, v) => s + v, 0) / Math.max(1, values.length);
+const round = (v: number) => +v.toFixed(2);
+
+/** Bin edges at the reference deciles; ties collapse, so discrete features get fewer bins. */
+function quantileEdges(reference: number[]): number[] {
+  const sorted = [...reference].sort((a, b) => a - b);
+  const edges: number[] = [];
+  for (let q = 1; q < QUANTILE_BINS; q++) {
+    const edge = sorted[Math.min(sorted.length - 1, Math.floor(q * sorted.length / QUANTILE_BINS))];
+    if (edges[edges.length - 1] !== edge && edge !== sorted[sorted.length - 1]) edges.push(edge);
+  }
+  return edges;
+}
+
+const proportions = (values: number[], edges: number[]) => {
+  const counts = new Array(edges.length + 1).fill(0);
+  values.forEach(v => {
+    let b = 0;
+    while (b < edges.length && v > edges[b]) b++;
+    counts[b]++;
+  });
+  return counts.map(c => c / Math.max(1, values.length));
+};
+
+function statusOf(reasons: { level: DriftStatus }[]): DriftStatus {
+  if (reasons.some(r => r.level === 'alert')) return 'alert';
+  if (reasons.some(r => r.level === 'warning')) return 'warning';
+  return 'stable';
+}
+
+function psiReason(psi: number, t: DriftThresholds) {
+  if (psi > t.psiAlert) return { level: 'alert' as const, text: `PSI ${psi.toFixed(3)} above ${t.psiAlert}` };
+  if (psi > t.psiWarning) return { level: 'warning' as const, text: `PSI ${psi.toFixed(3)} above ${t.psiWarning}` };
+  return null;
+}
+
+export function numericDrift(key: string, label: string, reference: number[], batch: number[], t: DriftThresholds): NumericDrift {
+  const edges = quantileEdges(reference);
+  const expected = proportions(reference, edges);
+  const actual = proportions(batch, edges);
+  const psi = populationStabilityIndex(expected, actual);
+  const ks = ksTest(reference, batch);
+  const bins = expected.map((e, i) => ({
+    label: i === 0 ? `≤ ${round(edges[0] ?? Infinity)}` : i === edges.length ? `> ${round(edges[i - 1])}` : `${round(edges[i - 1])}–${round(edges[i])}`,
+    reference: e,
+    batch: actual[i]
+  }));
+  const reasons = [
+    psiReason(psi, t),
+    ks.pValue < t.alpha ? { level: 'warning' as const, text: `KS D=${ks.statistic.toFixed(3)}, p=${ks.pValue.toExponential(1)}` } : null
+  ].filter(Boolean) as { level: DriftStatus; text: string }[];
+  return {
+    kind: 'numeric', key, label, psi, bins, ks,
+    referenceMean: mean(reference), batchMean: mean(batch),
+    status: statusOf(reasons), reasons: reasons.map(r => r.text)
+  };
+}
+
+function categoricalDrift(
+  feature: typeof CATEGORICAL_DRIFT_FEATURES[number],
+  reference: PatientInput[],
+  batch: PatientInput[],
+  t: DriftThresholds
+): CategoricalDrift {
+  const counts = (rows: PatientInput[]) => feature.categories.map(c => rows.filter(r => r[feature.key] === c.value).length);
+  const refCounts = counts(reference);
+  const batchCounts = counts(batch);
+  const expected = refCounts.map(c => c / Math.max(1, reference.length));
+  const actual = batchCounts.map(c => c / Math.max(1, batch.length));
+  const psi = populationStabilityIndex(expected, actual);
+  const chiSquare = chiSquareTest([refCounts, batchCounts]);
+  const maxShift = Math.max(...expected.map((e, i) => Math.abs(actual[i] - e)));
+  const reasons = [
+    psiReason(psi, t),
+    maxShift > t.categoryShift ? { level: 'alert' as const, text: `Category share moved ${(maxShift * 100).toFixed(1)} points` } : null,
+    chiSquare.pValue < t.alpha ? { level: 'warning' as const, text: `χ²=${chiSquare.statistic.toFixed(1)}, p=${chiSquare.pValue.toExponential(1)}` } : null
+  ].filter(Boolean) as { level: DriftStatus; text: string }[];
+  return {
+    kind: 'categorical', key: feature.key, label: feature.label, psi, chiSquare, maxShift,
+    bins: feature.categories.map((c, i) => ({ label: c.label, reference: expected[i], batch: actual[i] })),
+    status: statusOf(reasons), reasons: reasons.map(r => r.text)
+  };
+}
+
+/** A batch patient, with its outcome when known. */
+export interface BatchRecord {
+  input: PatientInput;
+  readmitted?: boolean;
+}
+
+/**
+ * Compare a batch against the reference (training) cohort. `score` gives
+ * the displayed probability for an input, so output drift and calibration
+ * are judged on the same number users see.
+ */
+export function driftReport(
+  reference: Patient[],
+  batch: BatchRecord[],
+  score: (input: PatientInput) => number,
+  t: DriftThresholds
+): DriftReport {
+  const inputs = batch.map(b => b.input);
+  const features: FeatureDrift[] = [
+    ...NUMERIC_DRIFT_FEATURES.map(f => numericDrift(f.key, f.label, reference.map(p => p[f.key]), inputs.map(p => p[f.key]), t)),
+    ...CATEGORICAL_DRIFT_FEATURES.map(f => categoricalDrift(f, reference, inputs, t))
+  ];
+  const batchScores = inputs.map(score);
+  const predictedRisk = numericDrift('predictedRisk', 'Predicted risk', reference.map(score), batchScores, t);
+
+  const known = batch.map((b, i) => ({ y: b.readmitted, p: batchScores[i] })).filter(r => r.y !== undefined);
+  const performance = known.length > 0 ? {
+    withOutcome: known.length,
+    meanPredicted: mean(known.map(r => r.p)),
+    observedRate: mean(known.map(r => r.y ? 1 : 0))
+  } : null;
+
+  const alerts: DriftAlert[] = [...features, predictedRisk]
+    .filter(f => f.status !== 'stable')
+    .map(f => ({ level: f.status as DriftAlert['level'], subject: f.label, message: f.reasons.join('; ') }));
+  if (performance && performance.withOutcome >= t.minOutcomes) {
+    const gap = performance.observedRate - performance.meanPredicted;
+    if (Math.abs(gap) > t.calibrationGap) {
+      alerts.push({
+        level: 'alert',
+        subject: 'Calibration',
+        message: `Observed readmission ${(performance.observedRate * 100).toFixed(1)}% vs predicted ${(performance.meanPredicted * 100).toFixed(1)}% in this batch`
+      });
+    }
+  }
+  alerts.sort((a, b) => (a.level === b.level ? 0 : a.level === 'alert' ? -1 : 1));
+
+  return { referenceSize: reference.length, batchSize: batch.length, features, predictedRisk, performance, alerts };
+}
+
+/** Periods of the prediction log whose observed rate strays from the predicted rate. */
+export function timelineAlerts(periods: OutcomePeriod[], t: DriftThresholds): DriftAlert[] {
+  return periods
+    .filter(p => p.withOutcome >= t.minOutcomes && p.observedRate !== null
+      && Math.abs(p.observedRate - p.meanPredictedWithOutcome!) > t.calibrationGap)
+    .map(p => ({
+      level: 'alert',
+      subject: `Period from ${p.period}`,
+      message: `Observed ${(p.observedRate! * 100).toFixed(1)}% vs predicted ${(p.meanPredictedWithOutcome! * 100).toFixed(1)}% over ${p.withOutcome} outcomes`
+    }));
+}
@@ -0,0 +1,333 @@
+import { Patient, createRng } from './dataGenerator';
+import { APP_MODEL_OPTIONS, LogisticRegression, LogisticRegressionOptions } from './mlModel';
+import { Classifier, FitContext, fitOnPatients, predictPatient } from './classifier';
+import { Interval } from './fairness';
+import { METRIC_REPLICATES, percentileInterval, resampleIndices } from './bootstrap';
+
+export interface ConfusionMatrix {
+  tp: number;
+  fp: number;
+  tn: number;
+  fn: number;
+}
+
+export interface ClassificationMetrics {
+  accuracy: number;
+  precision: number;
+  recall: number;
+  f1: number;
+  specificity: number;
+  auc: number;
+}
+
+export interface CurvePoint {
+  x: number;
+  y: number;
+  threshold: number;
+}
+
+export interface Curve {
+  points: CurvePoint[];
+  auc: number;
+}
+
+export interface ModelEvaluation {
+  trainSize: number;
+  testSize: number;
+  threshold: number;
+  confusion: ConfusionMatrix;
+  metrics: ClassificationMetrics;
+  roc: Curve; // x = false positive rate, y = true positive rate
+  pr: Curve; // x = recall, y = precision
+  /** 95% bootstrap intervals of the held-out metrics */
+  intervals: Record<keyof ClassificationMetrics, Interval>;
+  /** Out-of-fold raw scores for the training patients, in split order; calibrators are fitted on these */
+  calibrationScores: number[];
+  crossValidation: {
+    /** Fold metrics are on raw scores at this threshold, whatever `threshold` is reported at */
+    threshold: number;
+    folds: ClassificationMetrics[];
+    mean: ClassificationMetrics;
+    std: ClassificationMetrics;
+  };
+}
+
+const METRIC_KEYS: (keyof ClassificationMetrics)[] = ['accuracy', 'precision', 'recall', 'f1', 'specificity', 'auc'];
+
+const safeDiv = (a: number, b: number) => b === 0 ? 0 : a / b;
+
+function shuffle<T>(items: T[], rng: () => number): T[] {
+  const out = [...items];
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+}
+
+/**
+ * Assign each index to one of k folds so every fold keeps roughly the
+ * cohort's positive/negative ratio.
+ */
+export function stratifiedFolds(labels: number[], k: number, seed: number): number[][] {
+  const rng = createRng(seed);
+  const folds: number[][] = Array.from({ length: k }, () => []);
+  for (const cls of [0, 1]) {
+    const idx = shuffle(labels.map((y, i) => y === cls ? i : -1).filter(i => i >= 0), rng);
+    idx.forEach((i, n) => folds[n % k].push(i));
+  }
+  return folds;
+}
+
+export function stratifiedSplit(labels: number[], testFraction: number, seed: number) {
+  const rng = createRng(seed);
+  const train: number[] = [];
+  const test: number[] = [];
+  for (const cls of [0, 1]) {
+    const idx = shuffle(labels.map((y, i) => y === cls ? i : -1).filter(i => i >= 0), rng);
+    // Never move a class entirely into the test split
+    const nTest = Math.min(Math.round(idx.length * testFraction), Math.max(0, idx.length - 1));
+    test.push(...idx.slice(0, nTest));
+    train.push(...idx.slice(nTest));
+  }
+  return { train: train.sort((a, b) => a - b), test: test.sort((a, b) => a - b) };
+}
+
+export function confusionMatrix(yTrue: number[], yProb: number[], threshold = 0.5): ConfusionMatrix {
+  const cm = { tp: 0, fp: 0, tn: 0, fn: 0 };
+  yTrue.forEach((y, i) => {
+    const pred = yProb[i] >= threshold ? 1 : 0;
+    if (pred === 1 && y === 1) cm.tp++;
+    else if (pred === 1 && y === 0) cm.fp++;
+    else if (pred === 0 && y === 0) cm.tn++;
+    else cm.fn++;
+  });
+  return cm;
+}
+
+/** Threshold sweep over distinct scores, highest first; tied scores move together. */
+function sweep(yTrue: number[], yProb: number[]) {
+  const order = yProb.map((p, i) => i).sort((a, b) => yProb[b] - yProb[a]);
+  const positives = yTrue.filter(y => y === 1).length;
+  const negatives = yTrue.length - positives;
+  const steps: { tp: number; fp: number; threshold: number }[] = [];
+  let tp = 0;
+  let fp = 0;
+  for (let n = 0; n < order.length; n++) {
+    const i = order[n];
+    if (yTrue[i] === 1) tp++;
+    else fp++;
+    if (n === order.length - 1 || yProb[order[n + 1]] !== yProb[i]) {
+      steps.push({ tp, fp, threshold: yProb[i] });
+    }
+  }
+  return { steps, positives, negatives };
+}
+
+export function rocCurve(yTrue: number[], yProb: number[]): Curve {
+  const { steps, positives, negatives } = sweep(yTrue, yProb);
+  const points: CurvePoint[] = [{ x: 0, y: 0, threshold: 1 }];
+  for (const s of steps) {
+    points.push({ x: safeDiv(s.fp, negatives), y: safeDiv(s.tp, positives), threshold: s.threshold });
+  }
+  let auc = 0;
+  for (let i = 1; i < points.length; i++) {
+    auc += (points[i].x - points[i - 1].x) * (points[i].y + points[i - 1].y) / 2;
+  }
+  return { points, auc };
+}
+
+/** Precision-recall curve; `auc` is average precision (step-wise integral). */
+export function prCurve(yTrue: number[], yProb: number[]): Curve {
+  const { steps, positives } = sweep(yTrue, yProb);
+  const points: CurvePoint[] = [];
+  let auc = 0;
+  let prevRecall = 0;
+  for (const s of steps) {
+    const recall = safeDiv(s.tp, positives);
+    const precision = safeDiv(s.tp, s.tp + s.fp);
+    points.push({ x: recall, y: precision, threshold: s.threshold });
+    auc += (recall - prevRecall) * precision;
+    prevRecall = recall;
+  }
+  return { points, auc };
+}
+
+/** Mean binary cross-entropy, with probabilities clipped away from 0 and 1. */
+export function logLoss(yTrue: number[], yProb: number[]): number {
+  const eps = 1e-12;
+  let sum = 0;
+  yTrue.forEach((y, i) => {
+    const p = Math.min(1 - eps, Math.max(eps, yProb[i]));
+    sum -= y * Math.log(p) + (1 - y) * Math.log(1 - p);
+  });
+  return safeDiv(sum, yTrue.length);
+}
+
+export function computeMetrics(yTrue: number[], yProb: number[], threshold = 0.5): ClassificationMetrics {
+  const { tp, fp, tn, fn } = confusionMatrix(yTrue, yProb, threshold);
+  const precision = safeDiv(tp, tp + fp);
+  const recall = safeDiv(tp, tp + fn);
+  return {
+    accuracy: safeDiv(tp + tn, yTrue.length),
+    precision,
+    recall,
+    f1: safeDiv(2 * precision * recall, precision + recall),
+    specificity: safeDiv(tn, tn + fp),
+    auc: rocCurve(yTrue, yProb).auc
+  };
+}
+
+/** Percentile intervals for every metric from rescoring bootstrap resamples of the test set. */
+export function bootstrapMetrics(
+  yTrue: number[],
+  yProb: number[],
+  threshold = 0.5,
+  replicates = METRIC_REPLICATES,
+  seed = 2024
+): Record<keyof ClassificationMetrics, Interval> {
+  const rng = createRng(seed);
+  const samples = Array.from({ length: replicates }, () => {
+    const idx = resampleIndices(yTrue.length, rng);
+    return computeMetrics(idx.map(i => yTrue[i]), idx.map(i => yProb[i]), threshold);
+  });
+  const observed = computeMetrics(yTrue, yProb, threshold);
+  return Object.fromEntries(METRIC_KEYS.map(k => [k, percentileInterval(observed[k], samples.map(s => s[k]))])) as Record<keyof ClassificationMetrics, Interval>;
+}
+
+function summarize(folds: ClassificationMetrics[]) {
+  const mean = {} as ClassificationMetrics;
+  const std = {} as ClassificationMetrics;
+  for (const key of METRIC_KEYS) {
+    const values = folds.map(f => f[key]);
+    const m = values.reduce((a, b) => a + b, 0) / values.length;
+    mean[key] = m;
+    std[key] = Math.sqrt(values.reduce((a, v) => a + (v - m) ** 2, 0) / Math.max(1, values.length - 1));
+  }
+  return { mean, std };
+}
+
+export interface EvaluationOptions {
+  testFraction?: number;
+  folds?: number;
+  seed?: number;
+  threshold?: number;
+}
+
+/** Stratified train/test split of a cohort, returned as patient arrays and indices. */
+export function splitCohort(patients: Patient[], { testFraction = 0.25, seed = 2024 }: EvaluationOptions = {}) {
+  const split = stratifiedSplit(patients.map(p => p.readmitted ? 1 : 0), testFraction, seed);
+  return {
+    trainIndex: split.train,
+    testIndex: split.test,
+    train: split.train.map(i => patients[i]),
+    test: split.test.map(i => patients[i])
+  };
+}
+
+/**
+ * Score every patient with a clone of `model` fitted on the other k-1
+ * folds, so the scores behave like those of unseen patients. Calibrators
+ * fitted on in-sample scores (isotonic especially) come out overconfident.
+ * `context` is aligned with `patients` and subset for each fold.
+ */
+export function outOfFoldScores(
+  model: Classifier,
+  patients: Patient[],
+  { folds = 5, seed = 2024 }: EvaluationOptions = {},
+  context?: FitContext
+): number[] {
+  const scores: number[] = [];
+  const k = Math.max(2, Math.min(folds, patients.length));
+  stratifiedFolds(patients.map(p => p.readmitted ? 1 : 0), k, seed).filter(f => f.length > 0 && f.length < patients.length).forEach(foldIdx => {
+    const held = new Set(foldIdx);
+    const keep = (_: unknown, i: number) => !held.has(i);
+    const foldModel = fitOnPatients(model.clone(), patients.filter(keep), context && {
+      sampleWeights: context.sampleWeights?.filter(keep),
+      groups: context.groups?.filter(keep)
+    });
+    foldIdx.forEach(i => { scores[i] = predictPatient(foldModel, patients[i]); });
+  });
+  // Too few patients to fold: fall back to the model's own scores
+  return patients.map((p, i) => scores[i] ?? predictPatient(model, p));
+}
+
+/**
+ * Score a fitted model on the held-out patients and run k-fold
+ * cross-validation over the full cohort for a variance estimate. Fold
+ * models are unfitted clones of `model`, so they share its hyperparameters.
+ */
+export function evaluateModel(
+  model: Classifier,
+  split: { train: Patient[]; test: Patient[] },
+  patients: Patient[],
+  { folds = 5, seed = 2024, threshold = 0.5 }: EvaluationOptions = {}
+): ModelEvaluation {
+  const { train, test } = split;
+  const labels = patients.map(p => p.readmitted ? 1 : 0);
+  const yTrue = test.map(p => p.readmitted ? 1 : 0);
+  const yProb = test.map(p => predictPatient(model, p));
+
+  const k = Math.max(2, Math.min(folds, patients.length));
+  const foldMetrics = stratifiedFolds(labels, k, seed).filter(f => f.length > 0 && f.length < patients.length).map(foldIdx => {
+    const held = new Set(foldIdx);
+    const foldModel = fitOnPatients(model.clone(), patients.filter((_, i) => !held.has(i)));
+    const foldTest = foldIdx.map(i => patients[i]);
+    return computeMetrics(
+      foldTest.map(p => p.readmitted ? 1 : 0),
+      foldTest.map(p => predictPatient(foldModel, p)),
+      threshold
+    );
+  });
+
+  return {
+    trainSize: train.length,
+    testSize: test.length,
+    threshold,
+    confusion: confusionMatrix(yTrue, yProb, threshold),
+    metrics: computeMetrics(yTrue, yProb, threshold),
+    roc: rocCurve(yTrue, yProb),
+    pr: prCurve(yTrue, yProb),
+    intervals: bootstrapMetrics(yTrue, yProb, threshold, METRIC_REPLICATES, seed),
+    calibrationScores: outOfFoldScores(model, train, { folds, seed }),
+    crossValidation: { threshold, folds: foldMetrics, ...summarize(foldMetrics) }
+  };
+}
+
+/**
+ * `evaluation` with its held-out metrics, curves and intervals recomputed on
+ * `scores` at `threshold`. The app reports calibrated probabilities at the
+ * moderate-band cut-off it acts on, not raw scores at the training default.
+ * Cross-validation is kept as fitted.
+ */
+export function atOperatingPoint(
+  evaluation: ModelEvaluation,
+  { yTrue, yProb }: { yTrue: number[]; yProb: number[] },
+  threshold: number,
+  seed = 2024
+): ModelEvaluation {
+  return {
+    ...evaluation,
+    threshold,
+    confusion: confusionMatrix(yTrue, yProb, threshold),
+    metrics: computeMetrics(yTrue, yProb, threshold),
+    roc: rocCurve(yTrue, yProb),
+    pr: prCurve(yTrue, yProb),
+    intervals: bootstrapMetrics(yTrue, yProb, threshold, METRIC_REPLICATES, seed)
+  };
+}
+
+/**
+ * Train on a stratified training split and evaluate on the held-out split.
+ * Returns the model alongside its evaluation and the split itself, so
+ * downstream analyses score the same patients.
+ */
+export function trainAndEvaluate(
+  patients: Patient[],
+  options: EvaluationOptions = {},
+  modelOptions: LogisticRegressionOptions = APP_MODEL_OPTIONS
+): { model: LogisticRegression; evaluation: ModelEvaluation; train: Patient[]; test: Patient[] } {
+  const { train, test } = splitCohort(patients, options);
+  const model = fitOnPatients(new LogisticRegression(modelOptions), train);
+  return { model, train, test, evaluation: evaluateModel(model, { train, test }, patients, options) };
+}
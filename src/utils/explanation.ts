@@ -0,0 +1,142 @@
+import { Patient } from './dataGenerator';
+import { BandCutoffs, DEFAULT_BAND_CUTOFFS, LogisticRegression, RiskBand, riskBand } from './mlModel';
+import { Classifier, encodeFor } from './classifier';
+import { pipelineFeatures } from './featurePipeline';
+
+/** The inputs a prediction is made from. */
+export type PatientInput = Pick<Patient,
+  'age' | 'deliveryType' | 'laborDuration' | 'complications' | 'los' | 'location' |
+  'hypertension' | 'gestationalDiabetes' | 'hemorrhage' | 'bmi' | 'parity' | 'gestationalAge' | 'preterm' | 'priorReadmissions' | 'payer'
+>;
+
+export interface FeatureContribution {
+  feature: string;
+  label: string;
+  /** Change in log-odds attributed to this feature */
+  contribution: number;
+}
+
+export interface PredictionExplanation {
+  /**
+   * 'exact': logistic regression, contributions are weight × feature value
+   * and the baseline is the intercept, so they sum to the log-odds exactly.
+   * 'occlusion': any other family; each contribution is the log-odds change
+   * from swapping that one feature to the training-cohort mean, and the
+   * baseline is the log-odds of the mean patient. What the single-feature
+   * swaps do not account for is reported as `interaction`.
+   */
+  method: 'exact' | 'occlusion';
+  baseline: number;
+  contributions: FeatureContribution[];
+  interaction: number;
+  logOdds: number;
+}
+
+const EPS = 1e-6;
+export const logit = (p: number) => {
+  const q = Math.min(1 - EPS, Math.max(EPS, p));
+  return Math.log(q / (1 - q));
+};
+
+/** Mean encoded feature vector of a cohort under the model's pipeline, used as the occlusion reference. */
+export function meanFeatureVector(model: Classifier, patients: Patient[]): number[] {
+  const sums = pipelineFeatures(model.pipeline!).map(() => 0);
+  patients.forEach(p => encodeFor(model, p).forEach((v, i) => { sums[i] += v; }));
+  return sums.map(s => s / Math.max(1, patients.length));
+}
+
+export function explainPrediction(model: Classifier, input: PatientInput, reference: number[]): PredictionExplanation {
+  const x = encodeFor(model, input);
+  const features = pipelineFeatures(model.pipeline!);
+
+  if (model instanceof LogisticRegression) {
+    const { weights, bias } = model.serialize();
+    const contributions = features.map((f, i) => ({ feature: f.name, label: f.label, contribution: weights[i] * x[i] }));
+    return {
+      method: 'exact',
+      baseline: bias,
+      contributions,
+      interaction: 0,
+      logOdds: bias + contributions.reduce((s, c) => s + c.contribution, 0)
+    };
+  }
+
+  const logOdds = logit(model.predictProba(x));
+  const baseline = logit(model.predictProba(reference));
+  const contributions = features.map((f, i) => {
+    const occluded = [...x];
+    occluded[i] = reference[i];
+    return { feature: f.name, label: f.label, contribution: logOdds - logit(model.predictProba(occluded)) };
+  });
+  const explained = contributions.reduce((s, c) => s + c.contribution, 0);
+  return { method: 'occlusion', baseline, contributions, interaction: logOdds - baseline - explained, logOdds };
+}
+
+export interface CounterfactualFeature {
+  key: 'los' | 'laborDuration';
+  label: string;
+  unit: string;
+  min: number;
+  max: number;
+  step: number;
+}
+
+/** Inputs a care team can plausibly act on before discharge. */
+export const COUNTERFACTUAL_FEATURES: CounterfactualFeature[] = [
+  { key: 'los', label: 'Length of stay', unit: 'days', min: 1, max: 10, step: 1 }
+];
+
+export interface Counterfactual {
+  changes: { feature: CounterfactualFeature; from: number; to: number }[];
+  probability: number;
+  band: RiskBand;
+  /** Sum of the changes, each as a fraction of that feature's range */
+  distance: number;
+}
+
+const BAND_RANK: Record<RiskBand, number> = { low: 0, moderate: 1, high: 2 };
+
+/**
+ * Smallest change to the modifiable inputs that moves the patient into a
+ * lower risk band. `score` maps an input to the probability shown to the
+ * user (i.e. after calibration), so the band is judged on the same number.
+ * Searches the full grid of the given features; returns null if the
+ * patient is already low risk or no grid point lowers the band.
+ */
+export function findCounterfactual(
+  input: PatientInput,
+  score: (input: PatientInput) => number,
+  features: CounterfactualFeature[] = COUNTERFACTUAL_FEATURES,
+  cutoffs: BandCutoffs = DEFAULT_BAND_CUTOFFS
+): Counterfactual | null {
+  const currentRank = BAND_RANK[riskBand(score(input), cutoffs)];
+  if (currentRank === 0 || features.length === 0) return null;
+
+  const grids = features.map(f => {
+    const values: number[] = [];
+    for (let v = f.min; v <= f.max + 1e-9; v += f.step) values.push(+v.toFixed(6));
+    return values;
+  });
+
+  let best: Counterfactual | null = null;
+  const visit = (i: number, candidate: PatientInput) => {
+    if (i < features.length) {
+      grids[i].forEach(v => visit(i + 1, { ...candidate, [features[i].key]: v }));
+      return;
+    }
+    const changes = features
+      .map(f => ({ feature: f, from: input[f.key], to: candidate[f.key] }))
+      .filter(c => c.from !== c.to);
+    if (changes.length === 0) return;
+    const distance = changes.reduce((s, c) => s + Math.abs(c.to - c.from) / (c.feature.max - c.feature.min), 0);
+    if (best && distance > best.distance) return;
+    const probability = score(candidate);
+    const band = riskBand(probability, cutoffs);
+    if (BAND_RANK[band] >= currentRank) return;
+    if (!best || distance < best.distance || probability < best.probability) {
+      best = { changes, probability, band, distance };
+    }
+  };
+  visit(0, input);
+  return best;
+}
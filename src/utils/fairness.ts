@@ -0,0 +1,243 @@
+import { Patient } from './dataGenerator';
+
+export type AuditAttribute = 'deliveryType' | 'location';
+
+export const AUDIT_ATTRIBUTES: { attribute: AuditAttribute; label: string; groups: string[] }[] = [
+  { attribute: 'deliveryType', label: 'Delivery Type', groups: ['Vaginal', 'Cesarean'] },
+  { attribute: 'location', label: 'Location', groups: ['Urban', 'Rural'] }
+];
+
+export interface GroupRates {
+  group: string;
+  n: number;
+  accuracy: number;
+  tpr: number; // true positive rate (sensitivity)
+  fpr: number; // false positive rate
+}
+
+export interface AttributeAudit {
+  attribute: AuditAttribute;
+  groups: GroupRates[];
+  accuracyGap: number;
+  tprGap: number;
+  fprGap: number;
+}
+
+const safeDiv = (a: number, b: number) => b === 0 ? 0 : a / b;
+
+export function groupRates(group: string, patients: Patient[], score: (p: Patient) => number, threshold = 0.5): GroupRates {
+  let tp = 0, fp = 0, tn = 0, fn = 0;
+  for (const p of patients) {
+    const pred = score(p) >= threshold;
+    if (pred && p.readmitted) tp++;
+    else if (pred) fp++;
+    else if (p.readmitted) fn++;
+    else tn++;
+  }
+  return {
+    group,
+    n: patients.length,
+    accuracy: safeDiv(tp + tn, patients.length),
+    tpr: safeDiv(tp, tp + fn),
+    fpr: safeDiv(fp, fp + tn)
+  };
+}
+
+const spread = (values: number[]) => values.length ? Math.max(...values) - Math.min(...values) : 0;
+
+/** Per-group accuracy/TPR/FPR and the largest between-group gaps for one attribute. */
+export function auditAttribute(
+  patients: Patient[],
+  attribute: AuditAttribute,
+  score: (p: Patient) => number,
+  threshold = 0.5
+): AttributeAudit {
+  const { groups } = AUDIT_ATTRIBUTES.find(a => a.attribute === attribute)!;
+  const rates = groups.map(g => groupRates(g, patients.filter(p => p[attribute] === g), score, threshold));
+  const present = rates.filter(r => r.n > 0);
+  return {
+    attribute,
+    groups: rates,
+    accuracyGap: spread(present.map(r => r.accuracy)),
+    tprGap: spread(present.map(r => r.tpr)),
+    fprGap: spread(present.map(r => r.fpr))
+  };
+}
+
+// --- Full fairness suite ---
+
+export interface Interval {
+  value: number;
+  lower: number;
+  upper: number;
+}
+
+/** Wilson score interval for a binomial proportion; well-behaved for small groups. */
+export function wilsonInterval(successes: number, trials: number, z = 1.96): Interval {
+  if (trials === 0) return { value: 0, lower: 0, upper: 1 };
+  const p = successes / trials;
+  const denom = 1 + z * z / trials;
+  const centre = (p + z * z / (2 * trials)) / denom;
+  const half = (z * Math.sqrt(p * (1 - p) / trials + z * z / (4 * trials * trials))) / denom;
+  return { value: p, lower: Math.max(0, centre - half), upper: Math.min(1, centre + half) };
+}
+
+export interface AuditDimension {
+  key: 'deliveryType' | 'location' | 'ageBand';
+  label: string;
+  groups: { label: string; test: (p: Patient) => boolean }[];
+}
+
+/** Half-open [min, max) so fractional ages fall in exactly one band. */
+export const AGE_BANDS = [
+  { label: 'Age <25', min: 0, max: 25 },
+  { label: 'Age 25–34', min: 25, max: 35 },
+  { label: 'Age 35+', min: 35, max: Infinity }
+];
+
+export const AUDIT_DIMENSIONS: AuditDimension[] = [
+  ...AUDIT_ATTRIBUTES.map(a => ({
+    key: a.attribute,
+    label: a.label,
+    groups: a.groups.map(g => ({ label: g, test: (p: Patient) => p[a.attribute] === g }))
+  })),
+  {
+    key: 'ageBand',
+    label: 'Age Band',
+    groups: AGE_BANDS.map(b => ({ label: b.label, test: (p: Patient) => p.age >= b.min && p.age < b.max }))
+  }
+];
+
+export interface GroupFairness {
+  label: string;
+  n: number;
+  positives: number;
+  flagged: number;
+  /** P(flagged) — demographic parity */
+  selectionRate: Interval;
+  /** P(flagged | readmitted) and P(flagged | not readmitted) — equalized odds */
+  tpr: Interval;
+  fpr: Interval;
+  /** P(readmitted | flagged) — predictive parity */
+  ppv: Interval;
+  accuracy: Interval;
+  /** Mean predicted risk vs observed readmission rate — calibration within group */
+  meanPredicted: number;
+  observedRate: Interval;
+}
+
+export type FairnessCriterionKey = 'equalizedOdds' | 'demographicParity' | 'predictiveParity' | 'calibration';
+
+export const FAIRNESS_CRITERIA: { key: FairnessCriterionKey; label: string; description: string }[] = [
+  { key: 'equalizedOdds', label: 'Equalized Odds', description: 'Largest gap in TPR or FPR between groups' },
+  { key: 'demographicParity', label: 'Demographic Parity', description: 'Largest gap in the share of patients flagged' },
+  { key: 'predictiveParity', label: 'Predictive Parity', description: 'Largest gap in precision among flagged patients' },
+  { key: 'calibration', label: 'Group Calibration', description: 'Largest |mean predicted − observed rate| in any group' }
+];
+
+/** The criterion whose violations raise the bias flag; the others are reported as warnings. */
+export const PRIMARY_FAIRNESS_CRITERION: FairnessCriterionKey = 'equalizedOdds';
+
+export interface GroupFamilyAudit {
+  /** e.g. "Location" or "Location × Delivery Type" */
+  label: string;
+  intersectional: boolean;
+  groups: GroupFairness[];
+  /** Groups with fewer than `minGroupSize` patients are reported but not used for gaps */
+  gaps: Record<FairnessCriterionKey, number>;
+}
+
+export interface FairnessAuditOptions {
+  threshold: number;
+  tolerance: number;
+  minGroupSize: number;
+}
+
+export const DEFAULT_FAIRNESS_OPTIONS: FairnessAuditOptions = { threshold: 0.5, tolerance: 0.1, minGroupSize: 10 };
+
+export interface FairnessAudit {
+  options: FairnessAuditOptions;
+  families: GroupFamilyAudit[];
+  /** Every (family, criterion) whose gap exceeds the tolerance */
+  violations: { family: string; criterion: FairnessCriterionKey; gap: number }[];
+}
+
+/** A single decision threshold, or one per patient (e.g. group-specific thresholds). */
+export type DecisionThreshold = number | ((p: Patient) => number);
+
+export function groupFairness(label: string, patients: Patient[], score: (p: Patient) => number, threshold: DecisionThreshold): GroupFairness {
+  let tp = 0, fp = 0, tn = 0, fn = 0, predicted = 0;
+  for (const p of patients) {
+    const s = score(p);
+    predicted += s;
+    const flagged = s >= (typeof threshold === 'number' ? threshold : threshold(p));
+    if (flagged && p.readmitted) tp++;
+    else if (flagged) fp++;
+    else if (p.readmitted) fn++;
+    else tn++;
+  }
+  const n = patients.length;
+  return {
+    label,
+    n,
+    positives: tp + fn,
+    flagged: tp + fp,
+    selectionRate: wilsonInterval(tp + fp, n),
+    tpr: wilsonInterval(tp, tp + fn),
+    fpr: wilsonInterval(fp, fp + tn),
+    ppv: wilsonInterval(tp, tp + fp),
+    accuracy: wilsonInterval(tp + tn, n),
+    meanPredicted: safeDiv(predicted, n),
+    observedRate: wilsonInterval(tp + fn, n)
+  };
+}
+
+// Conditional rates (TPR, FPR, precision) are only compared when their own
+// denominator reaches this size; otherwise one patient can swing a gap to 100%.
+const MIN_CONDITIONAL_DENOMINATOR = 5;
+
+function familyGaps(groups: GroupFairness[], minGroupSize: number): Record<FairnessCriterionKey, number> {
+  const eligible = groups.filter(g => g.n >= minGroupSize);
+  const withPositives = eligible.filter(g => g.positives >= MIN_CONDITIONAL_DENOMINATOR);
+  const withNegatives = eligible.filter(g => g.n - g.positives >= MIN_CONDITIONAL_DENOMINATOR);
+  const flagged = eligible.filter(g => g.flagged >= MIN_CONDITIONAL_DENOMINATOR);
+  return {
+    equalizedOdds: Math.max(spread(withPositives.map(g => g.tpr.value)), spread(withNegatives.map(g => g.fpr.value))),
+    demographicParity: spread(eligible.map(g => g.selectionRate.value)),
+    predictiveParity: spread(flagged.map(g => g.ppv.value)),
+    calibration: eligible.length ? Math.max(...eligible.map(g => Math.abs(g.meanPredicted - g.observedRate.value))) : 0
+  };
+}
+
+/**
+ * Audit every single attribute and every pairwise intersection of
+ * attributes (e.g. Rural × Cesarean). Decisions use `options.threshold`
+ * unless a per-patient `thresholdFor` is given.
+ */
+export function fairnessAudit(
+  patients: Patient[],
+  score: (p: Patient) => number,
+  options: FairnessAuditOptions = DEFAULT_FAIRNESS_OPTIONS,
+  thresholdFor?: (p: Patient) => number
+): FairnessAudit {
+  const { tolerance, minGroupSize } = options;
+  const threshold = thresholdFor ?? options.threshold;
+  const families: GroupFamilyAudit[] = [];
+  const addFamily = (label: string, intersectional: boolean, groups: { label: string; test: (p: Patient) => boolean }[]) => {
+    const audited = groups.map(g => groupFairness(g.label, patients.filter(g.test), score, threshold));
+    families.push({ label, intersectional, groups: audited, gaps: familyGaps(audited, minGroupSize) });
+  };
+
+  AUDIT_DIMENSIONS.forEach(d => addFamily(d.label, false, d.groups));
+  AUDIT_DIMENSIONS.forEach((a, i) => AUDIT_DIMENSIONS.slice(i + 1).forEach(b => addFamily(
+    `${a.label} × ${b.label}`,
+    true,
+    a.groups.flatMap(ga => b.groups.map(gb => ({ label: `${ga.label} × ${gb.label}`, test: (p: Patient) => ga.test(p) && gb.test(p) })))
+  )));
+
+  const violations = families.flatMap(f => FAIRNESS_CRITERIA
+    .filter(c => f.gaps[c.key] > tolerance)
+    .map(c => ({ family: f.label, criterion: c.key, gap: f.gaps[c.key] })));
+
+  return { options, families, violations };
+}
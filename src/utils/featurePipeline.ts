@@ -0,0 +1,201 @@
+import type { Patient } from './dataGenerator';
+
+/**
+ * Declarative feature encoding. Each input column declares its type and
+ * transform; `fitFeaturePipeline` learns the scaling statistics, imputation
+ * values and whether missing indicators are needed from the training
+ * patients. The fitted pipeline is plain JSON, serialized inside every model,
+ * so training, the Risk Predictor, batch scoring and the API encode a patient
+ * identically.
+ */
+
+export type PatientColumn = Exclude<keyof Patient, 'id' | 'readmitted' | 'riskScore'>;
+
+/** A patient record as it arrives for encoding; absent or null values are imputed. */
+export type EncodableRecord = { [K in PatientColumn]?: Patient[K] | null };
+
+export type Scaling = 'standardize' | 'minmax' | 'none';
+
+interface ColumnBase {
+  column: PatientColumn;
+  label: string;
+  /** Add a 0/1 "was missing" feature, if the training data had missing values */
+  missingIndicator?: boolean;
+}
+
+export type ColumnSpec = ColumnBase & (
+  | { type: 'numeric'; scaling: Scaling; impute: 'median' | 'mean' }
+  /** Imputed with the training mode */
+  | { type: 'boolean' }
+  /**
+   * One-hot over `categories` except `reference`, whose effect is absorbed by
+   * the intercept. Imputed with the training mode; unseen values count as missing.
+   */
+  | { type: 'categorical'; categories: string[]; reference: string }
+);
+
+export type FittedColumn = { column: PatientColumn; label: string; indicator: boolean } & (
+  | { type: 'numeric'; center: number; scale: number; fill: number }
+  | { type: 'boolean'; fill: boolean }
+  | { type: 'categorical'; categories: string[]; reference: string; fill: string }
+);
+
+export interface FeaturePipeline {
+  columns: FittedColumn[];
+}
+
+/** One entry of the encoded feature vector. */
+export interface FeatureSpec {
+  name: string;
+  label: string;
+  /** How the feature is derived from a Patient record */
+  transform: string;
+}
+
+/** The columns every model in this build is trained on. */
+export const FEATURE_COLUMNS: ColumnSpec[] = [
+  { column: 'age', label: 'Maternal age', type: 'numeric', scaling: 'standardize', impute: 'median', missingIndicator: true },
+  { column: 'deliveryType', label: 'Delivery type', type: 'categorical', categories: ['Vaginal', 'Cesarean'], reference: 'Vaginal' },
+  { column: 'laborDuration', label: 'Labor duration', type: 'numeric', scaling: 'standardize', impute: 'median', missingIndicator: true },
+  { column: 'complications', label: 'Complications', type: 'boolean' },
+  { column: 'los', label: 'Length of stay', type: 'numeric', scaling: 'standardize', impute: 'median', missingIndicator: true },
+  { column: 'location', label: 'Location', type: 'categorical', categories: ['Urban', 'Rural'], reference: 'Urban' },
+  { column: 'hypertension', label: 'Hypertensive disorder', type: 'categorical', categories: ['None', 'Gestational', 'Preeclampsia'], reference: 'None', missingIndicator: true },
+  { column: 'gestationalDiabetes', label: 'Gestational diabetes', type: 'boolean', missingIndicator: true },
+  { column: 'hemorrhage', label: 'Postpartum hemorrhage', type: 'boolean', missingIndicator: true },
+  { column: 'bmi', label: 'BMI', type: 'numeric', scaling: 'standardize', impute: 'median', missingIndicator: true },
+  { column: 'parity', label: 'Parity', type: 'numeric', scaling: 'standardize', impute: 'median', missingIndicator: true },
+  { column: 'gestationalAge', label: 'Gestational age', type: 'numeric', scaling: 'standardize', impute: 'median', missingIndicator: true },
+  { column: 'preterm', label: 'Preterm birth', type: 'boolean', missingIndicator: true },
+  { column: 'priorReadmissions', label: 'Prior readmissions', type: 'numeric', scaling: 'standardize', impute: 'median', missingIndicator: true },
+  { column: 'payer', label: 'Payer', type: 'categorical', categories: ['Private', 'Medicaid', 'Uninsured'], reference: 'Private', missingIndicator: true }
+];
+
+/**
+ * The fixed encoding used before pipelines were fitted (age / 45,
+ * laborDuration / 24, los / 10). Models serialized without a pipeline were
+ * trained on it; those models never saw missing values, so the fills are
+ * only typical values.
+ */
+export const LEGACY_PIPELINE: FeaturePipeline = {
+  columns: [
+    { column: 'age', label: 'Maternal age', type: 'numeric', center: 0, scale: 45, fill: 28, indicator: false },
+    { column: 'deliveryType', label: 'Delivery type', type: 'categorical', categories: ['Cesarean'], reference: 'Vaginal', fill: 'Vaginal', indicator: false },
+    { column: 'laborDuration', label: 'Labor duration', type: 'numeric', center: 0, scale: 24, fill: 12, indicator: false },
+    { column: 'complications', label: 'Complications', type: 'boolean', fill: false, indicator: false },
+    { column: 'los', label: 'Length of stay', type: 'numeric', center: 0, scale: 10, fill: 3, indicator: false },
+    { column: 'location', label: 'Location', type: 'categorical', categories: ['Rural'], reference: 'Urban', fill: 'Urban', indicator: false }
+  ]
+};
+
+const isMissing = (v: unknown) => v === undefined || v === null || v === '' || (typeof v === 'number' && !Number.isFinite(v));
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+function mode<T>(values: T[], fallback: T): T {
+  const counts = new Map<T, number>();
+  values.forEach(v => counts.set(v, (counts.get(v) ?? 0) + 1));
+  let best = fallback, bestCount = 0;
+  counts.forEach((n, v) => { if (n > bestCount) { best = v; bestCount = n; } });
+  return best;
+}
+
+function fitColumn(spec: ColumnSpec, records: EncodableRecord[]): FittedColumn {
+  const raw = records.map(r => r[spec.column]);
+  const indicator = !!spec.missingIndicator && raw.some(isMissing);
+  const base = { column: spec.column, label: spec.label, indicator };
+
+  switch (spec.type) {
+    case 'numeric': {
+      const values = raw.filter(v => !isMissing(v)) as number[];
+      if (values.length === 0) return { ...base, type: 'numeric', center: 0, scale: 1, fill: 0 };
+      const mean = values.reduce((s, v) => s + v, 0) / values.length;
+      const fill = spec.impute === 'median' ? median(values) : mean;
+      if (spec.scaling === 'none') return { ...base, type: 'numeric', center: 0, scale: 1, fill };
+      if (spec.scaling === 'minmax') {
+        const min = Math.min(...values), max = Math.max(...values);
+        return { ...base, type: 'numeric', center: min, scale: max - min || 1, fill };
+      }
+      const sd = Math.sqrt(values.reduce((s, v) => s + (v - mean) ** 2, 0) / values.length);
+      return { ...base, type: 'numeric', center: mean, scale: sd || 1, fill };
+    }
+    case 'boolean':
+      return { ...base, type: 'boolean', fill: mode(raw.filter(v => typeof v === 'boolean') as boolean[], false) };
+    case 'categorical': {
+      const known = raw.filter(v => spec.categories.includes(v as string)) as string[];
+      return {
+        ...base,
+        type: 'categorical',
+        categories: spec.categories.filter(c => c !== spec.reference),
+        reference: spec.reference,
+        fill: mode(known, spec.reference)
+      };
+    }
+  }
+}
+
+/** Learn scaling, imputation values and indicator columns from the training patients. */
+export function fitFeaturePipeline(records: EncodableRecord[], columns: ColumnSpec[] = FEATURE_COLUMNS): FeaturePipeline {
+  return { columns: columns.map(spec => fitColumn(spec, records)) };
+}
+
+/** Encode one record as the feature vector described by `pipelineFeatures`. */
+export function encodePatient(pipeline: FeaturePipeline, record: EncodableRecord): number[] {
+  const x: number[] = [];
+  for (const col of pipeline.columns) {
+    const v = record[col.column];
+    switch (col.type) {
+      case 'numeric': {
+        const missing = isMissing(v);
+        x.push(((missing ? col.fill : v as number) - col.center) / col.scale);
+        if (col.indicator) x.push(missing ? 1 : 0);
+        break;
+      }
+      case 'boolean': {
+        const missing = typeof v !== 'boolean';
+        x.push((missing ? col.fill : v) ? 1 : 0);
+        if (col.indicator) x.push(missing ? 1 : 0);
+        break;
+      }
+      case 'categorical': {
+        const missing = v !== col.reference && !col.categories.includes(v as string);
+        const value = missing ? col.fill : v;
+        col.categories.forEach(c => x.push(value === c ? 1 : 0));
+        if (col.indicator) x.push(missing ? 1 : 0);
+        break;
+      }
+    }
+  }
+  return x;
+}
+
+const round = (v: number) => +v.toFixed(3);
+
+function numericTransform(col: Extract<FittedColumn, { type: 'numeric' }>) {
+  const centered = col.center === 0 ? col.column : `(${col.column} − ${round(col.center)})`;
+  return col.scale === 1 ? centered : `${centered} / ${round(col.scale)}`;
+}
+
+/** Names, labels and transforms of the encoded features, in vector order. */
+export function pipelineFeatures(pipeline: FeaturePipeline): FeatureSpec[] {
+  return pipeline.columns.flatMap(col => {
+    const missing = col.indicator
+      ? [{ name: `${col.column}:missing`, label: `${col.label} missing`, transform: `${col.column} is missing` }]
+      : [];
+    switch (col.type) {
+      case 'numeric':
+        return [{ name: col.column, label: col.label, transform: `${numericTransform(col)}; missing → ${round(col.fill)}` }, ...missing];
+      case 'boolean':
+        return [{ name: col.column, label: col.label, transform: `${col.column} ? 1 : 0; missing → ${col.fill}` }, ...missing];
+      case 'categorical':
+        return [
+          ...col.categories.map(c => ({ name: `${col.column}:${c}`, label: `${col.label}: ${c}`, transform: `${col.column} === '${c}'` })),
+          ...missing
+        ];
+    }
+  });
+}
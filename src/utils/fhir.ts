@@ -0,0 +1,237 @@
+import { Patient } from './dataGenerator';
+
+/**
+ * Minimal FHIR R4 mapping for the maternity cohort.
+ *
+ * Only the slice of each resource we read or write is typed here; unknown
+ * properties are ignored on import. Mapping rules:
+ *  - the index encounter is the patient's earliest inpatient Encounter;
+ *  - age comes from Patient.birthDate at the index encounter start;
+ *  - LOS is the index Encounter.period length in days;
+ *  - a cesarean Procedure (SNOMED 11466000 or a descendant listed below)
+ *    on the index encounter makes the delivery Cesarean;
+ *  - any Condition on the index encounter counts as a complication;
+ *  - urban/rural comes from the index encounter's Location.type, falling
+ *    back to the URBAN_RURAL_EXTENSION on Patient.address;
+ *  - labor duration is read from the index encounter's Observation coded
+ *    LABOR_DURATION_CODE;
+ *  - readmitted means another inpatient encounter started within
+ *    READMISSION_WINDOW_DAYS of the index discharge;
+ *  - the extended risk factors (hypertension, BMI, payer, ...) are not
+ *    mapped; the feature pipeline imputes them.
+ */
+
+export interface FhirReference { reference?: string; display?: string }
+export interface FhirCoding { system?: string; code?: string; display?: string }
+export interface FhirCodeableConcept { coding?: FhirCoding[]; text?: string }
+export interface FhirPeriod { start?: string; end?: string }
+export interface FhirExtension { url: string; valueCode?: string; valueString?: string }
+
+export interface FhirResource {
+  resourceType: string;
+  id?: string;
+  [key: string]: unknown;
+}
+
+export interface FhirBundle {
+  resourceType: 'Bundle';
+  type: string;
+  entry?: { fullUrl?: string; resource?: FhirResource }[];
+}
+
+interface FhirPatient extends FhirResource {
+  birthDate?: string;
+  address?: { extension?: FhirExtension[]; district?: string }[];
+}
+interface FhirEncounter extends FhirResource {
+  status?: string;
+  class?: FhirCoding;
+  subject?: FhirReference;
+  period?: FhirPeriod;
+  location?: { location: FhirReference }[];
+}
+interface FhirProcedure extends FhirResource {
+  subject?: FhirReference;
+  encounter?: FhirReference;
+  code?: FhirCodeableConcept;
+}
+interface FhirCondition extends FhirResource {
+  subject?: FhirReference;
+  encounter?: FhirReference;
+}
+interface FhirObservation extends FhirResource {
+  subject?: FhirReference;
+  encounter?: FhirReference;
+  code?: FhirCodeableConcept;
+  valueQuantity?: { value?: number; unit?: string };
+}
+interface FhirLocation extends FhirResource {
+  type?: FhirCodeableConcept[];
+}
+
+export const SNOMED = 'http://snomed.info/sct';
+export const CESAREAN_CODES = ['11466000', '177141003', '274130007', '84195007'];
+export const URBAN_RURAL_EXTENSION = 'http://matrisk.example.org/fhir/StructureDefinition/urban-rural';
+export const LABOR_DURATION_CODE = { system: 'http://matrisk.example.org/fhir/CodeSystem/observation', code: 'labor-duration' };
+export const READMISSION_WINDOW_DAYS = 30;
+
+const INPATIENT_CLASSES = ['IMP', 'ACUTE', 'NONAC'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface FhirImportResult {
+  patients: Patient[];
+  /** FHIR Patient reference (e.g. "Patient/abc") for each imported patient id */
+  references: Record<number, string>;
+  skipped: { reference: string; reason: string }[];
+}
+
+const isInpatient = (e: FhirEncounter) =>
+  !e.class?.code || INPATIENT_CLASSES.includes(e.class.code.toUpperCase());
+
+const hasCode = (concept: FhirCodeableConcept | undefined, system: string, codes: string[]) =>
+  !!concept?.coding?.some(c => c.system === system && !!c.code && codes.includes(c.code));
+
+const classifyUrbanRural = (text: string | undefined): Patient['location'] | null => {
+  const v = text?.toLowerCase() ?? '';
+  if (v.includes('rural')) return 'Rural';
+  if (v.includes('urban')) return 'Urban';
+  return null;
+};
+
+export function importFhirBundle(bundle: FhirBundle): FhirImportResult {
+  if (bundle?.resourceType !== 'Bundle') {
+    throw new Error(`Expected a FHIR Bundle, got ${bundle?.resourceType ?? 'unknown content'}`);
+  }
+
+  // Index resources by both "Type/id" and fullUrl so either reference style resolves
+  const byRef = new Map<string, FhirResource>();
+  const byType = new Map<string, FhirResource[]>();
+  for (const entry of bundle.entry ?? []) {
+    const r = entry.resource;
+    if (!r) continue;
+    if (r.id) byRef.set(`${r.resourceType}/${r.id}`, r);
+    if (entry.fullUrl) byRef.set(entry.fullUrl, r);
+    byType.set(r.resourceType, [...(byType.get(r.resourceType) ?? []), r]);
+  }
+  const refOf = (r: FhirResource) => `${r.resourceType}/${r.id}`;
+  const sameTarget = (ref: FhirReference | undefined, target: FhirResource) =>
+    !!ref?.reference && byRef.get(ref.reference) === target;
+  const all = <T extends FhirResource>(type: string) => (byType.get(type) ?? []) as T[];
+
+  const result: FhirImportResult = { patients: [], references: {}, skipped: [] };
+
+  all<FhirPatient>('Patient').forEach((fp) => {
+    const reference = refOf(fp);
+    const encounters = all<FhirEncounter>('Encounter')
+      .filter(e => sameTarget(e.subject, fp) && isInpatient(e) && e.period?.start)
+      .sort((a, b) => Date.parse(a.period!.start!) - Date.parse(b.period!.start!));
+    const index = encounters[0];
+    if (!index) {
+      result.skipped.push({ reference, reason: 'no inpatient encounter with a start date' });
+      return;
+    }
+    if (!index.period?.end) {
+      result.skipped.push({ reference, reason: 'index encounter has no discharge date' });
+      return;
+    }
+    if (!fp.birthDate) {
+      result.skipped.push({ reference, reason: 'missing birthDate' });
+      return;
+    }
+
+    const start = Date.parse(index.period.start!);
+    const end = Date.parse(index.period.end);
+    const birth = new Date(fp.birthDate);
+    const admit = new Date(start);
+    // A date-only birthDate parses as UTC midnight, so compare in UTC too
+    let age = admit.getUTCFullYear() - birth.getUTCFullYear();
+    if (admit.getUTCMonth() < birth.getUTCMonth() || (admit.getUTCMonth() === birth.getUTCMonth() && admit.getUTCDate() < birth.getUTCDate())) age--;
+
+    const onIndex = (r: { encounter?: FhirReference }) => sameTarget(r.encounter, index);
+
+    const cesarean = all<FhirProcedure>('Procedure')
+      .some(p => onIndex(p) && hasCode(p.code, SNOMED, CESAREAN_CODES));
+    const complications = all<FhirCondition>('Condition').some(onIndex);
+
+    const laborObs = all<FhirObservation>('Observation')
+      .find(o => onIndex(o) && hasCode(o.code, LABOR_DURATION_CODE.system, [LABOR_DURATION_CODE.code]));
+    const laborDuration = laborObs?.valueQuantity?.value;
+    if (typeof laborDuration !== 'number' || !Number.isFinite(laborDuration) || laborDuration < 0) {
+      result.skipped.push({ reference, reason: 'no labor duration observation on the index encounter' });
+      return;
+    }
+
+    let location: Patient['location'] | null = null;
+    for (const l of index.location ?? []) {
+      const loc = l.location.reference ? byRef.get(l.location.reference) as FhirLocation | undefined : undefined;
+      for (const t of loc?.type ?? []) {
+        location = location ?? classifyUrbanRural(t.text) ?? classifyUrbanRural(t.coding?.map(c => `${c.code} ${c.display}`).join(' '));
+      }
+    }
+    for (const a of fp.address ?? []) {
+      const ext = a.extension?.find(x => x.url === URBAN_RURAL_EXTENSION);
+      location = location ?? classifyUrbanRural(ext?.valueCode ?? ext?.valueString);
+    }
+    if (!location) {
+      result.skipped.push({ reference, reason: 'urban/rural location could not be determined' });
+      return;
+    }
+
+    const readmitted = encounters.slice(1).some(e => {
+      const gap = (Date.parse(e.period!.start!) - end) / DAY_MS;
+      return gap >= 0 && gap <= READMISSION_WINDOW_DAYS;
+    });
+
+    const id = result.patients.length + 1;
+    result.references[id] = reference;
+    result.patients.push({
+      id,
+      age,
+      deliveryType: cesarean ? 'Cesarean' : 'Vaginal',
+      laborDuration,
+      complications,
+      los: Math.round(((end - start) / DAY_MS) * 10) / 10,
+      location,
+      readmitted
+    });
+  });
+
+  return result;
+}
+
+export interface RiskAssessmentInput {
+  patientReference: string;
+  probability: number;
+  band: 'low' | 'moderate' | 'high';
+  modelVersion: string;
+  occurrence?: Date;
+}
+
+export function toRiskAssessment({ patientReference, probability, band, modelVersion, occurrence = new Date() }: RiskAssessmentInput): FhirResource {
+  return {
+    resourceType: 'RiskAssessment',
+    status: 'final',
+    subject: { reference: patientReference },
+    occurrenceDateTime: occurrence.toISOString(),
+    method: {
+      coding: [{ system: 'http://matrisk.example.org/fhir/CodeSystem/model', code: modelVersion, display: 'MatRisk AI readmission model' }],
+      text: `MatRisk AI ${modelVersion}`
+    },
+    prediction: [{
+      outcome: { text: `Hospital readmission within ${READMISSION_WINDOW_DAYS} days of postpartum discharge` },
+      probabilityDecimal: Math.round(probability * 10000) / 10000,
+      qualitativeRisk: {
+        coding: [{ system: 'http://terminology.hl7.org/CodeSystem/risk-probability', code: band }]
+      },
+      whenPeriod: { start: occurrence.toISOString(), end: new Date(occurrence.getTime() + READMISSION_WINDOW_DAYS * DAY_MS).toISOString() }
+    }]
+  };
+}
+
+export function toRiskAssessmentBundle(assessments: RiskAssessmentInput[]): FhirBundle {
+  return {
+    resourceType: 'Bundle',
+    type: 'collection',
+    entry: assessments.map(a => ({ resource: toRiskAssessment(a) }))
+  };
+}
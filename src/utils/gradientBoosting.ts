@@ -0,0 +1,129 @@
+import type { Classifier } from './classifier';
+import { FeaturePipeline, LEGACY_PIPELINE } from './featurePipeline';
+import { candidateThresholds } from './decisionTree';
+
+export interface GradientBoostingOptions {
+  nEstimators: number;
+  learningRate: number;
+  maxThresholds: number;
+}
+
+export interface Stump {
+  feature: number;
+  threshold: number;
+  left: number; // log-odds increment when x[feature] <= threshold
+  right: number;
+}
+
+export interface SerializedGradientBoostedStumps {
+  family: 'boosted';
+  options: GradientBoostingOptions;
+  init: number;
+  stumps: Stump[];
+  /** Absent in models saved before feature pipelines; those used LEGACY_PIPELINE */
+  pipeline?: FeaturePipeline | null;
+}
+
+export const DEFAULT_BOOSTING_OPTIONS: GradientBoostingOptions = { nEstimators: 100, learningRate: 0.1, maxThresholds: 32 };
+
+const sigmoid = (z: number) => 1 / (1 + Math.exp(-z));
+
+/**
+ * Gradient boosting on the log-loss with depth-1 trees. Each stump is
+ * chosen by least squares on the residuals and its leaves take a Newton
+ * step, as in Friedman's LogitBoost-style two-class algorithm.
+ */
+export class GradientBoostedStumps implements Classifier {
+  public readonly family = 'boosted';
+  public pipeline: FeaturePipeline | null = null;
+  private options: GradientBoostingOptions;
+  private init = 0;
+  private stumps: Stump[] = [];
+
+  constructor(options: Partial<GradientBoostingOptions> = {}) {
+    this.options = { ...DEFAULT_BOOSTING_OPTIONS, ...options };
+  }
+
+  private rawScore(x: number[]): number {
+    return this.stumps.reduce(
+      (acc, s) => acc + this.options.learningRate * (x[s.feature] <= s.threshold ? s.left : s.right),
+      this.init
+    );
+  }
+
+  public fit(X: number[][], y: number[]): void {
+    const n = X.length;
+    const mean = Math.min(1 - 1e-6, Math.max(1e-6, y.reduce((a, b) => a + b, 0) / n));
+    this.init = Math.log(mean / (1 - mean));
+    this.stumps = [];
+    const F = new Array(n).fill(this.init);
+    const thresholds = X[0].map((_, f) => candidateThresholds(X.map(x => x[f]), this.options.maxThresholds));
+
+    for (let m = 0; m < this.options.nEstimators; m++) {
+      const p = F.map(sigmoid);
+      const r = y.map((yi, i) => yi - p[i]);
+      const h = p.map(pi => pi * (1 - pi));
+      const totalR = r.reduce((a, b) => a + b, 0);
+
+      let best: { feature: number; threshold: number; sse: number } | null = null;
+      thresholds.forEach((ts, f) => {
+        for (const t of ts) {
+          let nL = 0, sumL = 0;
+          for (let i = 0; i < n; i++) {
+            if (X[i][f] <= t) {
+              nL++;
+              sumL += r[i];
+            }
+          }
+          const nR = n - nL;
+          if (nL === 0 || nR === 0) continue;
+          // Minimizing SSE is equivalent to maximizing the between-group term
+          const sse = -(sumL * sumL / nL + (totalR - sumL) ** 2 / nR);
+          if (!best || sse < best.sse) best = { feature: f, threshold: t, sse };
+        }
+      });
+      if (!best) break;
+      const { feature, threshold } = best;
+
+      let rL = 0, hL = 0, rR = 0, hR = 0;
+      for (let i = 0; i < n; i++) {
+        if (X[i][feature] <= threshold) {
+          rL += r[i];
+          hL += h[i];
+        } else {
+          rR += r[i];
+          hR += h[i];
+        }
+      }
+      const stump: Stump = { feature, threshold, left: rL / (hL + 1e-12), right: rR / (hR + 1e-12) };
+      this.stumps.push(stump);
+      for (let i = 0; i < n; i++) {
+        F[i] += this.options.learningRate * (X[i][feature] <= threshold ? stump.left : stump.right);
+      }
+    }
+  }
+
+  public predictProba(x: number[]): number {
+    return sigmoid(this.rawScore(x));
+  }
+
+  public predict(x: number[]): number {
+    return this.predictProba(x) >= 0.5 ? 1 : 0;
+  }
+
+  public serialize(): SerializedGradientBoostedStumps {
+    return { family: 'boosted', options: this.options, init: this.init, stumps: this.stumps, pipeline: this.pipeline };
+  }
+
+  public clone(): GradientBoostedStumps {
+    return new GradientBoostedStumps(this.options);
+  }
+
+  public static deserialize(data: SerializedGradientBoostedStumps): GradientBoostedStumps {
+    const model = new GradientBoostedStumps(data.options);
+    model.init = data.init;
+    model.stumps = data.stumps;
+    model.pipeline = data.pipeline ?? LEGACY_PIPELINE;
+    return model;
+  }
+}
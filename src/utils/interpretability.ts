@@ -0,0 +1,131 @@
+import { Patient, createRng } from './dataGenerator';
+import { Classifier, encodeFor, predictPatient } from './classifier';
+import { pipelineFeatures } from './featurePipeline';
+import { logLoss, rocCurve } from './evaluation';
+
+/**
+ * Cohort-level model explanations: permutation importance over the
+ * model's encoded features, and partial dependence / ICE curves over
+ * the continuous inputs in their natural units.
+ */
+
+export interface PermutationImportance {
+  feature: string;
+  label: string;
+  /** Mean drop in ROC AUC when the feature is shuffled (higher = more important) */
+  aucDrop: number;
+  aucDropStd: number;
+  /** Mean increase in log-loss when the feature is shuffled */
+  logLossIncrease: number;
+  logLossIncreaseStd: number;
+}
+
+const meanStd = (values: number[]) => {
+  const mean = values.reduce((s, v) => s + v, 0) / values.length;
+  const variance = values.reduce((s, v) => s + (v - mean) ** 2, 0) / values.length;
+  return { mean, std: Math.sqrt(variance) };
+};
+
+function shuffleInPlace<T>(values: T[], rand: () => number) {
+  for (let i = values.length - 1; i > 0; i--) {
+    const j = Math.floor(rand() * (i + 1));
+    [values[i], values[j]] = [values[j], values[i]];
+  }
+}
+
+/**
+ * Shuffle one feature column at a time, `repeats` times, and measure how
+ * much held-out performance degrades. Evaluate on patients the model was
+ * not fitted on, or importance reflects memorisation rather than signal.
+ */
+export function permutationImportance(
+  model: Classifier,
+  patients: Patient[],
+  { repeats = 5, seed = 7 }: { repeats?: number; seed?: number } = {}
+): PermutationImportance[] {
+  const X = patients.map(p => encodeFor(model, p));
+  const y = patients.map(p => p.readmitted ? 1 : 0);
+  const baseProb = X.map(x => model.predictProba(x));
+  const baseAuc = rocCurve(y, baseProb).auc;
+  const baseLoss = logLoss(y, baseProb);
+  const rand = createRng(seed);
+
+  return pipelineFeatures(model.pipeline!).map((f, j) => {
+    const aucDrops: number[] = [];
+    const lossIncreases: number[] = [];
+    for (let r = 0; r < repeats; r++) {
+      const column = X.map(x => x[j]);
+      shuffleInPlace(column, rand);
+      const prob = X.map((x, i) => {
+        const permuted = [...x];
+        permuted[j] = column[i];
+        return model.predictProba(permuted);
+      });
+      aucDrops.push(baseAuc - rocCurve(y, prob).auc);
+      lossIncreases.push(logLoss(y, prob) - baseLoss);
+    }
+    const auc = meanStd(aucDrops);
+    const loss = meanStd(lossIncreases);
+    return {
+      feature: f.name,
+      label: f.label,
+      aucDrop: auc.mean,
+      aucDropStd: auc.std,
+      logLossIncrease: loss.mean,
+      logLossIncreaseStd: loss.std
+    };
+  }).sort((a, b) => b.aucDrop - a.aucDrop);
+}
+
+export type DependenceFeature = 'age' | 'laborDuration' | 'los' | 'bmi' | 'gestationalAge';
+
+export const DEPENDENCE_FEATURES: { key: DependenceFeature; label: string; unit: string }[] = [
+  { key: 'age', label: 'Maternal age', unit: 'years' },
+  { key: 'laborDuration', label: 'Labor duration', unit: 'hours' },
+  { key: 'los', label: 'Length of stay', unit: 'days' },
+  { key: 'bmi', label: 'BMI', unit: 'kg/m²' },
+  { key: 'gestationalAge', label: 'Gestational age', unit: 'weeks' }
+];
+
+// Inputs defined by a swept one, updated with it so every grid point is a possible patient
+const DERIVED_INPUTS: Partial<Record<DependenceFeature, (value: number) => Partial<Patient>>> = {
+  gestationalAge: weeks => ({ preterm: weeks < 37 })
+};
+
+export interface PartialDependence {
+  feature: DependenceFeature;
+  grid: number[];
+  /** Average predicted probability at each grid value (the PD curve) */
+  average: number[];
+  /** One curve per sampled patient (ICE), aligned with `grid` */
+  ice: number[][];
+}
+
+/**
+ * Sweep one input across its observed range while holding every other
+ * input at each patient's own value, apart from inputs derived from it
+ * (preterm follows gestational age). PD is the mean over the cohort; ICE
+ * keeps a sample of the individual curves to reveal heterogeneity that the
+ * average hides.
+ */
+export function partialDependence(
+  model: Classifier,
+  patients: Patient[],
+  feature: DependenceFeature,
+  { gridSize = 20, iceSamples = 40, seed = 11 }: { gridSize?: number; iceSamples?: number; seed?: number } = {}
+): PartialDependence {
+  const values = patients.map(p => p[feature]).filter(v => typeof v === 'number');
+  if (values.length === 0) return { feature, grid: [], average: [], ice: [] };
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const steps = max > min ? gridSize : 1;
+  const grid = Array.from({ length: steps }, (_, i) => steps === 1 ? min : +(min + (max - min) * i / (steps - 1)).toFixed(2));
+
+  const derived = DERIVED_INPUTS[feature];
+  const curves = patients.map(p => grid.map(v => predictPatient(model, { ...p, [feature]: v, ...derived?.(v) })));
+  const average = grid.map((_, g) => curves.reduce((s, c) => s + c[g], 0) / Math.max(1, curves.length));
+
+  const order = curves.map((_, i) => i);
+  shuffleInPlace(order, createRng(seed));
+  return { feature, grid, average, ice: order.slice(0, iceSamples).map(i => curves[i]) };
+}
@@ -0,0 +1,158 @@
+import { Patient } from './dataGenerator';
+import { APP_MODEL_OPTIONS, LogisticRegression, LogisticRegressionOptions } from './mlModel';
+import { Classifier, FitContext, ModelFamily, fitOnPatients, predictPatient } from './classifier';
+import { ClassificationMetrics, computeMetrics, outOfFoldScores, rocCurve } from './evaluation';
+import { CalibrationMethod, applyCalibration, fitCalibrator } from './calibration';
+import { AUDIT_DIMENSIONS, AuditDimension, FairnessAudit, FairnessAuditOptions, fairnessAudit } from './fairness';
+
+/**
+ * Bias mitigation at the three usual stages, each compared with the active
+ * model on the same held-out patients:
+ *  - pre-processing: reweighing (Kamiran & Calders) so group and label are
+ *    independent in the weighted training set;
+ *  - in-training: logistic regression with an equalized-odds penalty;
+ *  - post-processing: group-specific thresholds on the active model, chosen
+ *    on the training split's out-of-fold scores to match the overall TPR/FPR.
+ * Every variant is calibrated with the app's calibration method on its own
+ * out-of-fold training scores, so thresholds mean the same thing across rows.
+ */
+
+export type MitigationMethod = 'baseline' | 'reweighing' | 'fairnessPenalty' | 'groupThresholds';
+
+export const MITIGATION_LABELS: Record<MitigationMethod, string> = {
+  baseline: 'Active model (no mitigation)',
+  reweighing: 'Reweighing (pre-processing)',
+  fairnessPenalty: 'Fairness penalty (in-training)',
+  groupThresholds: 'Group thresholds (post-processing)'
+};
+
+export interface MitigationOptions {
+  /** The protected attribute mitigation targets */
+  dimension: AuditDimension['key'];
+  fairnessPenalty: number;
+  calibration: CalibrationMethod;
+  fairness: FairnessAuditOptions;
+}
+
+export interface MitigationRow {
+  method: MitigationMethod;
+  family: ModelFamily;
+  metrics: ClassificationMetrics;
+  audit: FairnessAudit;
+  groupThresholds?: { group: string; threshold: number }[];
+}
+
+export interface MitigationResult {
+  dimension: AuditDimension['key'];
+  rows: MitigationRow[];
+}
+
+/** w(g, y) = P(g)·P(y) / P(g, y): up-weights label/group combinations that are rarer than independence predicts. */
+export function reweighingWeights(groups: number[], y: number[]): number[] {
+  const n = y.length;
+  const count = (pred: (j: number) => boolean) => y.reduce((c, _, j) => c + (pred(j) ? 1 : 0), 0);
+  const cache = new Map<string, number>();
+  return y.map((label, i) => {
+    const key = `${groups[i]}|${label}`;
+    if (!cache.has(key)) {
+      const pGroup = count(j => groups[j] === groups[i]) / n;
+      const pLabel = count(j => y[j] === label) / n;
+      const pJoint = count(j => groups[j] === groups[i] && y[j] === label) / n;
+      cache.set(key, pJoint > 0 ? pGroup * pLabel / pJoint : 1);
+    }
+    return cache.get(key)!;
+  });
+}
+
+const rates = (scores: number[], y: number[], threshold: number) => {
+  let tp = 0, fp = 0, pos = 0, neg = 0;
+  scores.forEach((s, i) => {
+    if (y[i] === 1) { pos++; if (s >= threshold) tp++; }
+    else { neg++; if (s >= threshold) fp++; }
+  });
+  return { tpr: pos ? tp / pos : 0, fpr: neg ? fp / neg : 0 };
+};
+
+/**
+ * For each group, the threshold whose TPR and FPR are closest (L1) to the
+ * overall rates at `threshold`. Groups without both labels keep `threshold`.
+ */
+export function equalizingThresholds(scores: number[], y: number[], groups: number[], nGroups: number, threshold: number): number[] {
+  const target = rates(scores, y, threshold);
+  return Array.from({ length: nGroups }, (_, g) => {
+    const idx = scores.map((_, i) => i).filter(i => groups[i] === g);
+    const gy = idx.map(i => y[i]);
+    if (!gy.includes(0) || !gy.includes(1)) return threshold;
+    const gs = idx.map(i => scores[i]);
+    let best = threshold;
+    let bestDistance = Infinity;
+    for (let t = 0.01; t < 1; t += 0.01) {
+      const r = rates(gs, gy, t);
+      const distance = Math.abs(r.tpr - target.tpr) + Math.abs(r.fpr - target.fpr);
+      if (distance < bestDistance - 1e-12) {
+        bestDistance = distance;
+        best = +t.toFixed(2);
+      }
+    }
+    return best;
+  });
+}
+
+export function runMitigation(
+  model: Classifier,
+  train: Patient[],
+  test: Patient[],
+  options: MitigationOptions,
+  logisticOptions: LogisticRegressionOptions = APP_MODEL_OPTIONS
+): MitigationResult {
+  const dimension = AUDIT_DIMENSIONS.find(d => d.key === options.dimension)!;
+  const groupOf = (p: Patient) => dimension.groups.findIndex(g => g.test(p));
+  const y = train.map(p => p.readmitted ? 1 : 0);
+  const groups = train.map(groupOf);
+  const yTest = test.map(p => p.readmitted ? 1 : 0);
+  const { threshold } = options.fairness;
+
+  // Also returns the calibrated out-of-fold training scores, which behave
+  // like scores on unseen patients
+  const calibrated = (m: Classifier, context?: FitContext) => {
+    const outOfFold = outOfFoldScores(m, train, {}, context);
+    const calibrator = fitCalibrator(options.calibration, y, outOfFold);
+    return {
+      score: (p: Patient) => applyCalibration(calibrator, predictPatient(m, p)),
+      trainScores: outOfFold.map(s => applyCalibration(calibrator, s))
+    };
+  };
+
+  const row = (method: MitigationMethod, m: Classifier, score: (p: Patient) => number, thresholdFor?: (p: Patient) => number): MitigationRow => {
+    const scores = test.map(score);
+    const decisions = test.map((p, i) => scores[i] >= (thresholdFor ? thresholdFor(p) : threshold) ? 1 : 0);
+    return {
+      method,
+      family: m.family,
+      metrics: { ...computeMetrics(yTest, decisions, 0.5), auc: rocCurve(yTest, scores).auc },
+      audit: fairnessAudit(test, score, options.fairness, thresholdFor)
+    };
+  };
+
+  const base = calibrated(model);
+
+  const reweighing = { sampleWeights: reweighingWeights(groups, y) };
+  const reweighed = fitOnPatients(new LogisticRegression(logisticOptions), train, reweighing);
+  const penalised = fitOnPatients(new LogisticRegression({ ...logisticOptions, fairnessPenalty: options.fairnessPenalty }), train, { groups });
+
+  const thresholds = equalizingThresholds(base.trainScores, y, groups, dimension.groups.length, threshold);
+  const thresholdFor = (p: Patient) => thresholds[groupOf(p)] ?? threshold;
+
+  return {
+    dimension: options.dimension,
+    rows: [
+      row('baseline', model, base.score),
+      row('reweighing', reweighed, calibrated(reweighed, reweighing).score),
+      row('fairnessPenalty', penalised, calibrated(penalised, { groups }).score),
+      {
+        ...row('groupThresholds', model, base.score, thresholdFor),
+        groupThresholds: dimension.groups.map((g, i) => ({ group: g.label, threshold: thresholds[i] }))
+      }
+    ]
+  };
+}
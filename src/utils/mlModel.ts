@@ -1,67 +1,398 @@
+import { createRng } from './dataGenerator';
+import { FeaturePipeline, LEGACY_PIPELINE } from './featurePipeline';
+import type { Classifier, FitContext } from './classifier';
+
+export const MODEL_NAME = 'matrisk';
+
+export type Penalty = 'none' | 'l1' | 'l2' | 'elasticnet';
+export type Optimizer = 'gd' | 'sgd' | 'adam';
+export type ClassWeight = 'none' | 'balanced' | { negative: number; positive: number };
+
+export interface LogisticRegressionOptions {
+  learningRate: number;
+  iterations: number; // maximum number of epochs
+  penalty: Penalty;
+  lambda: number; // regularization strength
+  l1Ratio: number; // share of the L1 term under elastic-net
+  optimizer: Optimizer; // 'gd' is full-batch; 'sgd' and 'adam' use mini-batches
+  batchSize: number;
+  classWeight: ClassWeight;
+  balancedSampling: boolean; // oversample the minority class in each mini-batch epoch
+  earlyStopping: { validationFraction: number; patience: number; minDelta: number } | null;
+  tolerance: number; // converged when the epoch-to-epoch loss change falls below this
+  seed: number;
+  // Strength of the equalized-odds penalty; only applies when fit() is given groups
+  fairnessPenalty: number;
+}
+
+export const DEFAULT_MODEL_OPTIONS: LogisticRegressionOptions = {
+  learningRate: 0.1,
+  iterations: 1000,
+  penalty: 'none',
+  lambda: 0.01,
+  l1Ratio: 0.5,
+  optimizer: 'gd',
+  batchSize: 32,
+  classWeight: 'none',
+  balancedSampling: false,
+  earlyStopping: null,
+  tolerance: 0,
+  seed: 1,
+  fairnessPenalty: 0
+};
+
+export interface TrainingProgress {
+  epoch: number;
+  loss: number; // weighted log-loss plus penalty over the training set
+  validationLoss?: number; // only when early stopping holds out a validation set
+}
+
+export interface TrainingReport {
+  finalLoss: number;
+  validationLoss: number | null;
+  epochsRun: number;
+  converged: boolean;
+  stoppedEarly: boolean;
+}
+
+export interface SerializedLogisticRegression {
+  family: 'logistic';
+  options: LogisticRegressionOptions;
+  weights: number[];
+  bias: number;
+  report: TrainingReport | null;
+  /** Absent in models saved before feature pipelines; those used LEGACY_PIPELINE */
+  pipeline?: FeaturePipeline | null;
+}
+
+const ADAM = { beta1: 0.9, beta2: 0.999, epsilon: 1e-8 };
 
 /**
- * Simple Logistic Regression implementation for client-side ML
+ * Logistic Regression implementation for client-side ML, with optional
+ * regularization, mini-batch/Adam optimizers, class weighting and early
+ * stopping. `new LogisticRegression(lr, iterations)` keeps the original
+ * plain gradient-descent behaviour.
  */
-export class LogisticRegression {
+export class LogisticRegression implements Classifier {
+  public readonly family = 'logistic';
+  public pipeline: FeaturePipeline | null = null;
   private weights: number[] = [];
   private bias: number = 0;
-  private learningRate: number = 0.1;
-  private iterations: number = 1000;
+  private opts: LogisticRegressionOptions;
+  private report: TrainingReport | null = null;
+
+  constructor(learningRateOrOptions: number | Partial<LogisticRegressionOptions> = 0.1, iterations = 1000) {
+    this.opts = typeof learningRateOrOptions === 'number'
+      ? { ...DEFAULT_MODEL_OPTIONS, learningRate: learningRateOrOptions, iterations }
+      : { ...DEFAULT_MODEL_OPTIONS, ...learningRateOrOptions };
+  }
 
-  constructor(learningRate = 0.1, iterations = 1000) {
-    this.learningRate = learningRate;
-    this.iterations = iterations;
+  public get options(): LogisticRegressionOptions {
+    return this.opts;
+  }
+
+  /** Outcome of the last fit, or null if the model has not been trained here. */
+  public get trainingReport(): TrainingReport | null {
+    return this.report;
   }
 
   private sigmoid(z: number): number {
     return 1 / (1 + Math.exp(-z));
   }
 
-  public fit(X: number[][], y: number[]): void {
-    const numSamples = X.length;
+  private linear(x: number[]): number {
+    return x.reduce((acc, val, idx) => acc + val * this.weights[idx], 0) + this.bias;
+  }
+
+  private sampleWeights(y: number[]): number[] {
+    const cw = this.opts.classWeight;
+    if (cw === 'none') return y.map(() => 1);
+    if (cw === 'balanced') {
+      const positives = y.filter(v => v === 1).length;
+      const negatives = y.length - positives;
+      const wPos = positives > 0 ? y.length / (2 * positives) : 1;
+      const wNeg = negatives > 0 ? y.length / (2 * negatives) : 1;
+      return y.map(v => v === 1 ? wPos : wNeg);
+    }
+    return y.map(v => v === 1 ? cw.positive : cw.negative);
+  }
+
+  private penaltyValue(): number {
+    const { penalty, lambda, l1Ratio } = this.opts;
+    if (penalty === 'none') return 0;
+    const l1 = this.weights.reduce((a, w) => a + Math.abs(w), 0);
+    const l2 = this.weights.reduce((a, w) => a + w * w, 0) / 2;
+    if (penalty === 'l1') return lambda * l1;
+    if (penalty === 'l2') return lambda * l2;
+    return lambda * (l1Ratio * l1 + (1 - l1Ratio) * l2);
+  }
+
+  private penaltyGradient(w: number): number {
+    const { penalty, lambda, l1Ratio } = this.opts;
+    if (penalty === 'none') return 0;
+    if (penalty === 'l1') return lambda * Math.sign(w);
+    if (penalty === 'l2') return lambda * w;
+    return lambda * (l1Ratio * Math.sign(w) + (1 - l1Ratio) * w);
+  }
+
+  /**
+   * Equalized-odds penalty: for each label, the squared gap between every
+   * group's mean predicted probability and the label's overall mean, so the
+   * model is pushed towards equal TPR/FPR-like behaviour across groups.
+   * Returns the penalty and its gradient over the given samples.
+   */
+  private fairnessTerm(X: number[][], y: number[], groups: number[], idx: number[]) {
+    const numFeatures = this.weights.length;
+    const lambda = this.opts.fairnessPenalty;
+    let value = 0;
+    const dw = new Array(numFeatures).fill(0);
+    let db = 0;
+    for (const label of [0, 1]) {
+      const members = idx.filter(j => y[j] === label);
+      if (members.length === 0) continue;
+      // Mean probability and mean dp/dθ (= p(1-p)·[x, 1]) per group and overall
+      const stats = new Map<number, { n: number; p: number; grad: number[] }>();
+      const overall = { n: 0, p: 0, grad: new Array(numFeatures + 1).fill(0) };
+      for (const j of members) {
+        const p = this.sigmoid(this.linear(X[j]));
+        const s = p * (1 - p);
+        const g = stats.get(groups[j]) ?? { n: 0, p: 0, grad: new Array(numFeatures + 1).fill(0) };
+        for (const acc of [g, overall]) {
+          acc.n++;
+          acc.p += p;
+          for (let k = 0; k < numFeatures; k++) acc.grad[k] += s * X[j][k];
+          acc.grad[numFeatures] += s;
+        }
+        stats.set(groups[j], g);
+      }
+      for (const g of stats.values()) {
+        const gap = g.p / g.n - overall.p / overall.n;
+        value += lambda * gap * gap;
+        for (let k = 0; k < numFeatures; k++) dw[k] += 2 * lambda * gap * (g.grad[k] / g.n - overall.grad[k] / overall.n);
+        db += 2 * lambda * gap * (g.grad[numFeatures] / g.n - overall.grad[numFeatures] / overall.n);
+      }
+    }
+    return { value, dw, db };
+  }
+
+  private logLoss(X: number[][], y: number[], weights?: number[]): number {
+    let total = 0;
+    let weightSum = 0;
+    X.forEach((x, j) => {
+      const p = this.sigmoid(this.linear(x));
+      const w = weights ? weights[j] : 1;
+      total -= w * (y[j] * Math.log(p + 1e-12) + (1 - y[j]) * Math.log(1 - p + 1e-12));
+      weightSum += w;
+    });
+    return weightSum > 0 ? total / weightSum : 0;
+  }
+
+  public fit(X: number[][], y: number[], context: FitContext = {}): void {
+    for (const _ of this.fitSteps(X, y, context)) {
+      // drain the generator
+    }
+  }
+
+  /**
+   * Training as a generator, yielding after every epoch so callers (e.g. the
+   * training worker) can report progress or stop early.
+   */
+  public *fitSteps(X: number[][], y: number[], context: FitContext = {}): Generator<TrainingProgress> {
+    const o = this.opts;
+    const rng = createRng(o.seed);
     const numFeatures = X[0].length;
     this.weights = new Array(numFeatures).fill(0);
     this.bias = 0;
+    this.report = null;
+
+    // Hold out a validation split for early stopping
+    let trainIdx = X.map((_, i) => i);
+    let valIdx: number[] = [];
+    if (o.earlyStopping && X.length > 1) {
+      const shuffled = shuffleIndices(trainIdx, rng);
+      const nVal = Math.max(1, Math.round(X.length * o.earlyStopping.validationFraction));
+      valIdx = shuffled.slice(0, nVal);
+      trainIdx = shuffled.slice(nVal);
+    }
+    const Xt = trainIdx.map(i => X[i]);
+    const yt = trainIdx.map(i => y[i]);
+    const Xv = valIdx.map(i => X[i]);
+    const yv = valIdx.map(i => y[i]);
+    const classWeights = this.sampleWeights(yt);
+    const sw = context.sampleWeights ? trainIdx.map((i, j) => classWeights[j] * context.sampleWeights![i]) : classWeights;
+    const gt = context.groups && o.fairnessPenalty > 0 ? trainIdx.map(i => context.groups![i]) : null;
+    const fairnessValue = () => gt ? this.fairnessTerm(Xt, yt, gt, Xt.map((_, j) => j)).value : 0;
+
+    // Adam moment estimates (index numFeatures holds the bias)
+    const m = new Array(numFeatures + 1).fill(0);
+    const v = new Array(numFeatures + 1).fill(0);
+    let step = 0;
+
+    let prevLoss = Infinity;
+    let bestVal = Infinity;
+    let best = { weights: [...this.weights], bias: this.bias };
+    let sinceBest = 0;
+    let converged = false;
+    let stoppedEarly = false;
+    let loss = 0;
+    let validationLoss: number | undefined;
+    let epoch = 0;
 
-    for (let i = 0; i < this.iterations; i++) {
-      let dw = new Array(numFeatures).fill(0);
+    const applyGradient = (batch: number[]) => {
+      const dw = new Array(numFeatures).fill(0);
       let db = 0;
+      let weightSum = 0;
+      for (const j of batch) {
+        const diff = (this.sigmoid(this.linear(Xt[j])) - yt[j]) * sw[j];
+        for (let k = 0; k < numFeatures; k++) dw[k] += diff * Xt[j][k];
+        db += diff;
+        weightSum += sw[j];
+      }
+      if (weightSum === 0) return;
+      for (let k = 0; k < numFeatures; k++) dw[k] = dw[k] / weightSum + this.penaltyGradient(this.weights[k]);
+      db /= weightSum;
+      if (gt) {
+        const fair = this.fairnessTerm(Xt, yt, gt, batch);
+        for (let k = 0; k < numFeatures; k++) dw[k] += fair.dw[k];
+        db += fair.db;
+      }
 
-      for (let j = 0; j < numSamples; j++) {
-        const linearModel = X[j].reduce((acc, val, idx) => acc + val * this.weights[idx], 0) + this.bias;
-        const yPred = this.sigmoid(linearModel);
+      if (o.optimizer === 'adam') {
+        step++;
+        const grads = [...dw, db];
+        const params = [...this.weights, this.bias];
+        for (let k = 0; k <= numFeatures; k++) {
+          m[k] = ADAM.beta1 * m[k] + (1 - ADAM.beta1) * grads[k];
+          v[k] = ADAM.beta2 * v[k] + (1 - ADAM.beta2) * grads[k] ** 2;
+          const mHat = m[k] / (1 - ADAM.beta1 ** step);
+          const vHat = v[k] / (1 - ADAM.beta2 ** step);
+          params[k] -= o.learningRate * mHat / (Math.sqrt(vHat) + ADAM.epsilon);
+        }
+        this.weights = params.slice(0, numFeatures);
+        this.bias = params[numFeatures];
+      } else {
+        for (let k = 0; k < numFeatures; k++) this.weights[k] -= o.learningRate * dw[k];
+        this.bias -= o.learningRate * db;
+      }
+    };
 
-        const diff = yPred - y[j];
-        for (let k = 0; k < numFeatures; k++) {
-          dw[k] += diff * X[j][k];
+    for (epoch = 1; epoch <= o.iterations; epoch++) {
+      if (o.optimizer === 'gd') {
+        applyGradient(Xt.map((_, j) => j));
+      } else {
+        let order = Xt.map((_, j) => j);
+        if (o.balancedSampling) order = balancedResample(order, yt, rng);
+        order = shuffleIndices(order, rng);
+        for (let b = 0; b < order.length; b += Math.max(1, o.batchSize)) {
+          applyGradient(order.slice(b, b + Math.max(1, o.batchSize)));
         }
-        db += diff;
       }
 
-      for (let k = 0; k < numFeatures; k++) {
-        this.weights[k] -= (this.learningRate * dw[k]) / numSamples;
+      loss = this.logLoss(Xt, yt, sw) + this.penaltyValue() + fairnessValue();
+      validationLoss = Xv.length > 0 ? this.logLoss(Xv, yv) : undefined;
+      yield { epoch, loss, validationLoss };
+
+      if (o.tolerance > 0 && Math.abs(prevLoss - loss) < o.tolerance) {
+        converged = true;
+        break;
+      }
+      prevLoss = loss;
+
+      if (o.earlyStopping && validationLoss !== undefined) {
+        if (validationLoss < bestVal - o.earlyStopping.minDelta) {
+          bestVal = validationLoss;
+          best = { weights: [...this.weights], bias: this.bias };
+          sinceBest = 0;
+        } else if (++sinceBest >= o.earlyStopping.patience) {
+          this.weights = best.weights;
+          this.bias = best.bias;
+          stoppedEarly = true;
+          break;
+        }
       }
-      this.bias -= (this.learningRate * db) / numSamples;
     }
+
+    this.report = {
+      finalLoss: this.logLoss(Xt, yt, sw) + this.penaltyValue() + fairnessValue(),
+      validationLoss: Xv.length > 0 ? this.logLoss(Xv, yv) : null,
+      epochsRun: Math.min(epoch, o.iterations),
+      converged,
+      stoppedEarly
+    };
   }
 
   public predictProba(x: number[]): number {
-    const linearModel = x.reduce((acc, val, idx) => acc + val * this.weights[idx], 0) + this.bias;
-    return this.sigmoid(linearModel);
+    return this.sigmoid(this.linear(x));
   }
 
   public predict(x: number[]): number {
     return this.predictProba(x) >= 0.5 ? 1 : 0;
   }
+
+  public serialize(): SerializedLogisticRegression {
+    return {
+      family: 'logistic',
+      options: this.opts,
+      weights: [...this.weights],
+      bias: this.bias,
+      report: this.report,
+      pipeline: this.pipeline
+    };
+  }
+
+  public clone(): LogisticRegression {
+    return new LogisticRegression(this.opts);
+  }
+
+  public static deserialize(data: SerializedLogisticRegression): LogisticRegression {
+    const lr = new LogisticRegression(data.options);
+    lr.weights = [...data.weights];
+    lr.bias = data.bias;
+    lr.report = data.report;
+    lr.pipeline = data.pipeline ?? LEGACY_PIPELINE;
+    return lr;
+  }
 }
 
-export function preprocessPatient(p: any) {
-  return [
-    p.age / 45, // Normalize age
-    p.deliveryType === 'Cesarean' ? 1 : 0,
-    p.laborDuration / 24,
-    p.complications ? 1 : 0,
-    p.los / 10,
-    p.location === 'Rural' ? 1 : 0
-  ];
+function shuffleIndices(idx: number[], rng: () => number): number[] {
+  const out = [...idx];
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+}
+
+/** Oversample the minority class (with replacement) up to the majority count. */
+function balancedResample(idx: number[], y: number[], rng: () => number): number[] {
+  const pos = idx.filter(j => y[j] === 1);
+  const neg = idx.filter(j => y[j] === 0);
+  if (pos.length === 0 || neg.length === 0) return idx;
+  const [minority, majority] = pos.length < neg.length ? [pos, neg] : [neg, pos];
+  const extra = Array.from({ length: majority.length - minority.length }, () => minority[Math.floor(rng() * minority.length)]);
+  return [...majority, ...minority, ...extra];
 }
+
+export type RiskBand = 'low' | 'moderate' | 'high';
+
+/** Lower bounds of the moderate and high bands, on the displayed (calibrated) probability. */
+export interface BandCutoffs {
+  moderate: number;
+  high: number;
+}
+
+export const DEFAULT_BAND_CUTOFFS: BandCutoffs = { moderate: 0.3, high: 0.6 };
+
+/**
+ * Band for a probability. Moderate and high patients both receive
+ * follow-up, so `cutoffs.moderate` is also the decision threshold used for
+ * binary metrics and the fairness audit.
+ */
+export function riskBand(prob: number, cutoffs: BandCutoffs = DEFAULT_BAND_CUTOFFS): RiskBand {
+  if (prob >= cutoffs.high) return 'high';
+  if (prob >= cutoffs.moderate) return 'moderate';
+  return 'low';
+}
+
+/** The app's default training configuration. */
+export const APP_MODEL_OPTIONS: LogisticRegressionOptions = { ...DEFAULT_MODEL_OPTIONS, learningRate: 0.5, iterations: 2000 };
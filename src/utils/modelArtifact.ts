@@ -0,0 +1,248 @@
+import { Patient } from './dataGenerator';
+import { ColumnSpec, FEATURE_COLUMNS, FeaturePipeline, FeatureSpec, LEGACY_PIPELINE, pipelineFeatures } from './featurePipeline';
+import { Classifier, MODEL_FAMILIES, SerializedClassifier } from './classifier';
+import { ClassificationMetrics, ModelEvaluation } from './evaluation';
+import { Calibrator } from './calibration';
+
+/**
+ * Versioned JSON artifact for a trained model. An artifact is
+ * self-describing: it carries the fitted parameters, hyperparameters and
+ * feature pipeline (inside `model`), a readable list of the encoded
+ * features, a fingerprint of the training data and the held-out metrics at
+ * save time.
+ *
+ * Schema history: 1 had no pipeline and used the fixed LEGACY_PIPELINE
+ * encoding; 2 stores the fitted pipeline with the model, and optionally the
+ * calibrator that was active when it was saved.
+ */
+
+export const ARTIFACT_FORMAT = 'matrisk-model';
+export const ARTIFACT_SCHEMA_VERSION = 2;
+
+export interface DataFingerprint {
+  size: number;
+  positives: number;
+  /** FNV-1a hash of the canonicalised patient rows, independent of row order */
+  hash: string;
+}
+
+export interface ArtifactMetrics {
+  threshold: number;
+  trainSize: number;
+  testSize: number;
+  test: ClassificationMetrics;
+  crossValidationAuc: { mean: number; std: number };
+}
+
+export interface ModelArtifact {
+  format: typeof ARTIFACT_FORMAT;
+  schemaVersion: number;
+  version: string;
+  createdAt: string;
+  model: SerializedClassifier;
+  featureSchema: FeatureSpec[];
+  trainingData: DataFingerprint;
+  metrics: ArtifactMetrics | null;
+  /** Fitted on out-of-fold training scores, never the held-out split; absent from artifacts saved without one */
+  calibrator?: Calibrator;
+}
+
+// Feature names written by schema version 1 artifacts
+const LEGACY_FEATURE_NAMES = ['age', 'cesarean', 'laborDuration', 'complications', 'los', 'rural'];
+
+const fnv1a = (text: string) => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(16).padStart(8, '0');
+};
+
+export function fingerprintCohort(patients: Patient[]): DataFingerprint {
+  const rows = patients
+    .map(p => [
+      p.age, p.deliveryType, p.laborDuration, p.complications, p.los, p.location,
+      p.hypertension, p.gestationalDiabetes, p.hemorrhage, p.bmi, p.parity, p.gestationalAge, p.preterm, p.priorReadmissions, p.payer,
+      p.readmitted
+    ].join('|'))
+    .sort();
+  return {
+    size: patients.length,
+    positives: patients.filter(p => p.readmitted).length,
+    hash: fnv1a(rows.join('\n'))
+  };
+}
+
+export const sameFingerprint = (a: DataFingerprint, b: DataFingerprint) =>
+  a.size === b.size && a.positives === b.positives && a.hash === b.hash;
+
+export function createArtifact({ model, version, trainingData, evaluation, calibrator, createdAt = new Date() }: {
+  model: Classifier;
+  version: string;
+  trainingData: Patient[];
+  evaluation: ModelEvaluation | null;
+  calibrator?: Calibrator;
+  createdAt?: Date;
+}): ModelArtifact {
+  return {
+    format: ARTIFACT_FORMAT,
+    schemaVersion: ARTIFACT_SCHEMA_VERSION,
+    version,
+    createdAt: createdAt.toISOString(),
+    model: model.serialize(),
+    featureSchema: pipelineFeatures(model.pipeline!),
+    trainingData: fingerprintCohort(trainingData),
+    metrics: evaluation && {
+      threshold: evaluation.threshold,
+      trainSize: evaluation.trainSize,
+      testSize: evaluation.testSize,
+      test: evaluation.metrics,
+      crossValidationAuc: { mean: evaluation.crossValidation.mean.auc, std: evaluation.crossValidation.std.auc }
+    },
+    ...(calibrator && { calibrator })
+  };
+}
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (v: unknown): v is JsonObject => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isNumberArray = (v: unknown): v is number[] => Array.isArray(v) && v.every(Number.isFinite);
+
+function isCalibrator(v: unknown): v is Calibrator {
+  if (!isObject(v)) return false;
+  switch (v.method) {
+    case 'none': return true;
+    case 'platt': return Number.isFinite(v.a) && Number.isFinite(v.b);
+    case 'isotonic': return isNumberArray(v.x) && isNumberArray(v.y) && v.x.length === v.y.length;
+    default: return false;
+  }
+}
+
+/** What is wrong with a fitted pipeline column of a known feature, or null if it can encode patients. */
+function fittedColumnProblem(c: JsonObject, spec: ColumnSpec): string | null {
+  if (c.type !== spec.type) return `${spec.column} is encoded as ${String(c.type)}, this build expects ${spec.type}`;
+  if (typeof c.label !== 'string' || typeof c.indicator !== 'boolean') return `${spec.column} has no label or missing-indicator flag`;
+  switch (spec.type) {
+    case 'numeric':
+      if (!Number.isFinite(c.center) || !Number.isFinite(c.fill)) return `${spec.column} needs a numeric center and fill`;
+      return Number.isFinite(c.scale) && c.scale !== 0 ? null : `${spec.column} needs a non-zero numeric scale`;
+    case 'boolean':
+      return typeof c.fill === 'boolean' ? null : `${spec.column} needs a true/false fill`;
+    case 'categorical':
+      return Array.isArray(c.categories) && c.categories.every(v => typeof v === 'string') && typeof c.reference === 'string' && typeof c.fill === 'string'
+        ? null
+        : `${spec.column} needs string categories, reference and fill`;
+  }
+}
+
+const isLogPriors = (v: unknown) => isNumberArray(v) && v.length === 2;
+const isPerClass = (v: unknown, width: number, valid: (x: number) => boolean = () => true) =>
+  Array.isArray(v) && v.length === 2 && v.every(row => isNumberArray(row) && row.length === width && row.every(valid));
+const isFeatureIndex = (v: unknown, width: number) => Number.isInteger(v) && (v as number) >= 0 && (v as number) < width;
+
+function isTreeNode(v: unknown, width: number): boolean {
+  if (!isObject(v) || !Number.isFinite(v.samples)) return false;
+  if (v.leaf === true) return Number.isFinite(v.value) && (v.value as number) >= 0 && (v.value as number) <= 1;
+  return v.leaf === false && isFeatureIndex(v.feature, width) && Number.isFinite(v.threshold)
+    && isTreeNode(v.left, width) && isTreeNode(v.right, width);
+}
+
+/** What is wrong with a model's fitted parameters for `width` encoded features, or null if it can score. */
+function modelParameterProblem(m: JsonObject, width: number): string | null {
+  switch (m.family) {
+    case 'logistic':
+      if (!isObject(m.options)) return 'logistic regression has no options';
+      if (!isNumberArray(m.weights) || m.weights.length !== width) return `logistic regression needs ${width} finite weights`;
+      return Number.isFinite(m.bias) ? null : 'logistic regression needs a finite bias';
+    case 'tree':
+      if (!isObject(m.options)) return 'decision tree has no options';
+      return isTreeNode(m.root, width) ? null : 'decision tree has a malformed node';
+    case 'boosted':
+      if (!isObject(m.options)) return 'boosted stumps have no options';
+      if (!Number.isFinite(m.init)) return 'boosted stumps need a finite initial score';
+      return Array.isArray(m.stumps) && m.stumps.every(st => isObject(st) && isFeatureIndex(st.feature, width)
+        && Number.isFinite(st.threshold) && Number.isFinite(st.left) && Number.isFinite(st.right))
+        ? null
+        : 'boosted stumps have a malformed stump';
+    case 'gaussianNB':
+      if (!Number.isFinite(m.varSmoothing) || !isLogPriors(m.logPriors)) return 'Gaussian naive Bayes needs finite smoothing and two log priors';
+      return isPerClass(m.means, width) && isPerClass(m.variances, width, x => x > 0)
+        ? null
+        : `Gaussian naive Bayes needs ${width} finite means and positive variances per class`;
+    case 'bernoulliNB':
+      if (!Number.isFinite(m.alpha) || !isLogPriors(m.logPriors)) return 'Bernoulli naive Bayes needs finite smoothing and two log priors';
+      if (!isNumberArray(m.thresholds) || m.thresholds.length !== width) return `Bernoulli naive Bayes needs ${width} finite thresholds`;
+      return isPerClass(m.featureProbs, width, x => x > 0 && x < 1)
+        ? null
+        : `Bernoulli naive Bayes needs ${width} feature probabilities strictly between 0 and 1 per class`;
+    default:
+      return `unknown model family "${String(m.family)}"`;
+  }
+}
+
+function assertModelParameters(model: JsonObject, width: number) {
+  const problem = modelParameterProblem(model, width);
+  if (problem) throw new Error(`Artifact model parameters are malformed: ${problem}`);
+}
+
+/**
+ * Parse and validate an artifact file. Throws with a user-facing message if
+ * the file is not an artifact, was written by a newer schema, encodes
+ * columns this build does not have or cannot use, or has model parameters
+ * that do not fit its encoding.
+ */
+export function parseArtifact(text: string): ModelArtifact {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+  if (!isObject(raw) || raw.format !== ARTIFACT_FORMAT) {
+    throw new Error('File is not a MatRisk model artifact');
+  }
+  if (typeof raw.schemaVersion !== 'number' || raw.schemaVersion > ARTIFACT_SCHEMA_VERSION) {
+    throw new Error(`Unsupported artifact schema version ${raw.schemaVersion}; this build reads up to ${ARTIFACT_SCHEMA_VERSION}`);
+  }
+  if (typeof raw.version !== 'string' || !raw.version) {
+    throw new Error('Artifact has no version');
+  }
+  const model = isObject(raw.model) ? raw.model : {};
+  if (!(MODEL_FAMILIES as unknown[]).includes(model.family)) {
+    throw new Error(`Unknown model family "${model.family}"`);
+  }
+  if (raw.calibrator !== undefined && !isCalibrator(raw.calibrator)) {
+    throw new Error('Artifact calibrator is malformed');
+  }
+  const schema = Array.isArray(raw.featureSchema) ? raw.featureSchema : [];
+  const actual = schema.map(f => isObject(f) ? f.name : undefined).join(', ');
+  if (raw.schemaVersion < 2) {
+    if (actual !== LEGACY_FEATURE_NAMES.join(', ')) {
+      throw new Error(`Feature schema mismatch: artifact expects [${actual}], the legacy encoding produces [${LEGACY_FEATURE_NAMES.join(', ')}]`);
+    }
+    assertModelParameters(model, pipelineFeatures(LEGACY_PIPELINE).length);
+    return { ...raw, model: { ...model, pipeline: LEGACY_PIPELINE } } as unknown as ModelArtifact;
+  }
+  const pipeline = isObject(model.pipeline) ? model.pipeline : {};
+  const columns = (Array.isArray(pipeline.columns) ? pipeline.columns : []).map(c => isObject(c) ? c : {});
+  const unknown = columns.map(c => c.column).filter(c => !FEATURE_COLUMNS.some(f => f.column === c));
+  if (columns.length === 0 || unknown.length > 0) {
+    throw new Error(`Artifact feature pipeline uses columns this build does not have: [${unknown.map(String).join(', ') || 'none'}]`);
+  }
+  const problems = columns
+    .map(c => fittedColumnProblem(c, FEATURE_COLUMNS.find(f => f.column === c.column)!))
+    .filter((p): p is string => p !== null);
+  if (problems.length > 0) {
+    throw new Error(`Artifact feature pipeline is malformed: ${problems.join('; ')}`);
+  }
+  const features = pipelineFeatures(pipeline as unknown as FeaturePipeline);
+  const expected = features.map(f => f.name).join(', ');
+  if (actual !== expected) {
+    throw new Error(`Feature schema mismatch: artifact lists [${actual}], its pipeline produces [${expected}]`);
+  }
+  assertModelParameters(model, features.length);
+  return raw as unknown as ModelArtifact;
+}
+
+export const artifactFileName = (artifact: ModelArtifact) => `${artifact.version}.json`;
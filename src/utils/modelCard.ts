@@ -0,0 +1,364 @@
+import { Patient } from './dataGenerator';
+import { Classifier, MODEL_FAMILY_LABELS, ModelFamily, SerializedClassifier } from './classifier';
+import { FeatureSpec, pipelineFeatures } from './featurePipeline';
+import { ClassificationMetrics, ModelEvaluation } from './evaluation';
+import {
+  FAIRNESS_CRITERIA, FairnessAudit, FairnessAuditOptions, FairnessCriterionKey, GroupFairness, Interval, PRIMARY_FAIRNESS_CRITERION
+} from './fairness';
+import { FairnessGapIntervals } from './bootstrap';
+import { CalibrationMethod, CALIBRATION_LABELS } from './calibration';
+import { BandCutoffs } from './mlModel';
+import { DataFingerprint, fingerprintCohort } from './modelArtifact';
+import { GroupSummary, explorerVariable, summarizeBy } from './cohortExplorer';
+
+/**
+ * Model card and ethics report assembled from the app's live state: the
+ * cohort, the active model and its settings, held-out evaluation, the
+ * fairness audit and the bias flag outcome. The card is plain JSON for
+ * machine-readable export; `modelCardHtml` renders it as a standalone,
+ * printable page.
+ */
+
+export const MODEL_CARD_FORMAT = 'matrisk-model-card';
+export const MODEL_CARD_SCHEMA_VERSION = 1;
+
+export const INTENDED_USE = {
+  purpose: 'Estimate the risk of 30-day readmission for postpartum patients at discharge, so care teams can prioritise follow-up calls and visits.',
+  users: 'Obstetric discharge and care-coordination teams, with clinical review of every flag.',
+  outOfScope: [
+    'Diagnosis, or replacing clinical judgement about discharge readiness.',
+    'Withholding, delaying or rationing care, or insurance and payer decisions.',
+    'Populations unlike the training cohort without re-validation and a fresh fairness audit.'
+  ]
+};
+
+export interface ModelCardInput {
+  version: string;
+  model: Classifier;
+  calibration: CalibrationMethod;
+  cutoffs: BandCutoffs;
+  data: { source: 'synthetic' | 'imported'; description: string; patients: Patient[] };
+  split: { train: Patient[]; test: Patient[] };
+  /** Held-out metrics on calibrated risk at the moderate cut-off, as the app reports them */
+  evaluation: ModelEvaluation;
+  fairness: FairnessAudit;
+  fairnessPopulation: 'test' | 'cohort';
+  gapIntervals?: FairnessGapIntervals | null;
+  generatedAt?: Date;
+}
+
+export interface ModelCardGroup {
+  label: string;
+  n: number;
+  positives: number;
+  /** Reported but excluded from gaps */
+  belowMinimumSize: boolean;
+  tpr: Interval;
+  fpr: Interval;
+  selectionRate: Interval;
+  ppv: Interval;
+  meanPredicted: number;
+  observedRate: Interval;
+}
+
+export interface ModelCardFamily {
+  label: string;
+  intersectional: boolean;
+  gaps: Record<FairnessCriterionKey, Interval>;
+  groups: ModelCardGroup[];
+}
+
+export interface ModelCard {
+  format: typeof MODEL_CARD_FORMAT;
+  schemaVersion: number;
+  generatedAt: string;
+  model: {
+    version: string;
+    family: ModelFamily;
+    familyLabel: string;
+    calibration: string;
+  };
+  intendedUse: typeof INTENDED_USE;
+  data: {
+    source: 'synthetic' | 'imported';
+    description: string;
+    fingerprint: DataFingerprint;
+    readmissionRate: number;
+    trainSize: number;
+    testSize: number;
+    /** Patients without the extended obstetric risk factors */
+    extendedFieldsMissing: number;
+    breakdown: { variable: string; groups: GroupSummary[] }[];
+  };
+  features: FeatureSpec[];
+  training: {
+    /** The family's hyperparameters as serialized with the model */
+    hyperparameters: Record<string, unknown>;
+    riskBandCutoffs: BandCutoffs;
+  };
+  evaluation: {
+    threshold: number;
+    metrics: Record<keyof ClassificationMetrics, Interval>;
+    crossValidation: { folds: number; threshold: number; mean: ClassificationMetrics; std: ClassificationMetrics };
+  };
+  fairness: {
+    population: string;
+    options: FairnessAuditOptions;
+    primaryCriterion: { key: FairnessCriterionKey; label: string; description: string };
+    families: ModelCardFamily[];
+  };
+  biasFlag: {
+    status: 'passed' | 'biasDetected';
+    summary: string;
+    violations: { family: string; criterion: string; gap: number; primary: boolean }[];
+  };
+  limitations: string[];
+}
+
+const BREAKDOWN_VARIABLES = ['age', 'deliveryType', 'location', 'hypertension', 'payer'] as const;
+
+/** Fitted parameters are left out; only the settings that produced them. */
+function hyperparameters(serialized: SerializedClassifier): Record<string, unknown> {
+  switch (serialized.family) {
+    case 'logistic': return { ...serialized.options, ...(serialized.report && { epochsRun: serialized.report.epochsRun }) };
+    case 'tree': return { ...serialized.options };
+    case 'boosted': return { ...serialized.options };
+    case 'gaussianNB': return { varSmoothing: serialized.varSmoothing };
+    case 'bernoulliNB': return { alpha: serialized.alpha };
+  }
+}
+
+const pct = (v: number) => `${(v * 100).toFixed(1)}%`;
+const criterionLabel = (key: FairnessCriterionKey) => FAIRNESS_CRITERIA.find(c => c.key === key)!.label;
+
+function limitations(input: ModelCardInput, families: ModelCardFamily[], extendedFieldsMissing: number): string[] {
+  const notes: string[] = [];
+  const { data, evaluation, fairness } = input;
+  if (data.source === 'synthetic') {
+    notes.push('Trained and evaluated on a synthetic cohort; performance and fairness on real patients are unknown.');
+  }
+  if (extendedFieldsMissing > 0) {
+    notes.push(`${extendedFieldsMissing} of ${data.patients.length} patients have no extended obstetric risk factors recorded; they are imputed with training values.`);
+  }
+  const auc = evaluation.intervals.auc;
+  if (auc.lower < 0.6) {
+    notes.push(`Held-out AUC ${auc.value.toFixed(3)} (95% CI ${auc.lower.toFixed(3)}–${auc.upper.toFixed(3)}) leaves substantial room for missed readmissions and false alarms.`);
+  }
+  const small = families.filter(f => !f.intersectional).flatMap(f => f.groups.filter(g => g.belowMinimumSize).map(g => g.label));
+  if (small.length > 0) {
+    notes.push(`Groups below ${fairness.options.minGroupSize} patients are excluded from gaps: ${small.join(', ')}.`);
+  }
+  const uncertain = families.filter(f => {
+    const gap = f.gaps[PRIMARY_FAIRNESS_CRITERION];
+    return gap.lower <= fairness.options.tolerance && gap.upper > fairness.options.tolerance;
+  });
+  if (uncertain.length > 0) {
+    notes.push(`The ${criterionLabel(PRIMARY_FAIRNESS_CRITERION)} gap's 95% interval straddles the tolerance for ${uncertain.map(f => f.label).join(', ')}; the bias flag could go either way on a new sample.`);
+  }
+  return notes;
+}
+
+export function buildModelCard(input: ModelCardInput): ModelCard {
+  const { model, data, split, evaluation, fairness, gapIntervals } = input;
+  const patients = data.patients;
+  const extendedFieldsMissing = patients.filter(p => p.hypertension === undefined).length;
+
+  const families: ModelCardFamily[] = fairness.families.map(f => ({
+    label: f.label,
+    intersectional: f.intersectional,
+    gaps: Object.fromEntries(FAIRNESS_CRITERIA.map(c => [
+      c.key,
+      gapIntervals?.[f.label]?.[c.key] ?? { value: f.gaps[c.key], lower: f.gaps[c.key], upper: f.gaps[c.key] }
+    ])) as Record<FairnessCriterionKey, Interval>,
+    groups: f.groups.map((g: GroupFairness) => ({
+      label: g.label,
+      n: g.n,
+      positives: g.positives,
+      belowMinimumSize: g.n < fairness.options.minGroupSize,
+      tpr: g.tpr,
+      fpr: g.fpr,
+      selectionRate: g.selectionRate,
+      ppv: g.ppv,
+      meanPredicted: g.meanPredicted,
+      observedRate: g.observedRate
+    }))
+  }));
+
+  const violations = fairness.violations.map(v => ({
+    family: v.family,
+    criterion: criterionLabel(v.criterion),
+    gap: v.gap,
+    primary: v.criterion === PRIMARY_FAIRNESS_CRITERION
+  }));
+  const primary = violations.filter(v => v.primary);
+  const primaryLabel = criterionLabel(PRIMARY_FAIRNESS_CRITERION);
+  const tolerance = pct(fairness.options.tolerance);
+
+  return {
+    format: MODEL_CARD_FORMAT,
+    schemaVersion: MODEL_CARD_SCHEMA_VERSION,
+    generatedAt: (input.generatedAt ?? new Date()).toISOString(),
+    model: {
+      version: input.version,
+      family: model.family,
+      familyLabel: MODEL_FAMILY_LABELS[model.family],
+      calibration: CALIBRATION_LABELS[input.calibration]
+    },
+    intendedUse: INTENDED_USE,
+    data: {
+      source: data.source,
+      description: data.description,
+      fingerprint: fingerprintCohort(patients),
+      readmissionRate: patients.length ? patients.filter(p => p.readmitted).length / patients.length : 0,
+      trainSize: split.train.length,
+      testSize: split.test.length,
+      extendedFieldsMissing,
+      breakdown: BREAKDOWN_VARIABLES.map(key => {
+        const variable = explorerVariable(key);
+        return { variable: variable.label, groups: summarizeBy(patients, variable) };
+      })
+    },
+    features: model.pipeline ? pipelineFeatures(model.pipeline) : [],
+    training: {
+      hyperparameters: hyperparameters(model.serialize()),
+      riskBandCutoffs: input.cutoffs
+    },
+    evaluation: {
+      threshold: evaluation.threshold,
+      metrics: evaluation.intervals,
+      crossValidation: {
+        folds: evaluation.crossValidation.folds.length,
+        threshold: evaluation.crossValidation.threshold,
+        mean: evaluation.crossValidation.mean,
+        std: evaluation.crossValidation.std
+      }
+    },
+    fairness: {
+      population: input.fairnessPopulation === 'test' ? 'Held-out test set' : 'Full cohort',
+      options: fairness.options,
+      primaryCriterion: FAIRNESS_CRITERIA.find(c => c.key === PRIMARY_FAIRNESS_CRITERION)!,
+      families
+    },
+    biasFlag: primary.length > 0
+      ? {
+          status: 'biasDetected',
+          summary: `Bias detected: the ${primaryLabel} gap exceeds ${tolerance} for ${primary.map(v => `${v.family} (${pct(v.gap)})`).join(', ')}.`,
+          violations
+        }
+      : {
+          status: 'passed',
+          summary: `Fairness check passed: ${primaryLabel} gaps are within ${tolerance} for every group family.`,
+          violations
+        },
+    limitations: limitations(input, families, extendedFieldsMissing)
+  };
+}
+
+export const modelCardFileName = (card: ModelCard, extension: 'json' | 'html') =>
+  `model-card-${card.model.version.replace(/[^\w.-]+/g, '_')}.${extension}`;
+
+const escapeHtml = (v: unknown) => String(v)
+  .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const intervalText = (i: Interval, format: (v: number) => string = pct) =>
+  i.lower === i.upper ? format(i.value) : `${format(i.value)} <span class="muted">[${format(i.lower)}–${format(i.upper)}]</span>`;
+
+const table = (head: string[], rows: string[][]) =>
+  `<table><thead><tr>${head.map(h => `<th>${h}</th>`).join('')}</tr></thead><tbody>${
+    rows.map(r => `<tr>${r.map(c => `<td>${c}</td>`).join('')}</tr>`).join('')
+  }</tbody></table>`;
+
+const METRIC_LABELS: Record<keyof ClassificationMetrics, string> = {
+  accuracy: 'Accuracy', precision: 'Precision', recall: 'Recall', f1: 'F1', specificity: 'Specificity', auc: 'AUC'
+};
+
+/** A self-contained HTML page of the card, laid out for printing or saving as PDF. */
+export function modelCardHtml(card: ModelCard): string {
+  const e = escapeHtml;
+  const { data, evaluation, fairness, biasFlag } = card;
+  const metricKeys = Object.keys(METRIC_LABELS) as (keyof ClassificationMetrics)[];
+
+  const sections = [
+    `<h2>Intended use</h2>
+    <p>${e(card.intendedUse.purpose)}</p>
+    <p><strong>Users:</strong> ${e(card.intendedUse.users)}</p>
+    <p><strong>Out of scope:</strong></p>
+    <ul>${card.intendedUse.outOfScope.map(o => `<li>${e(o)}</li>`).join('')}</ul>`,
+
+    `<h2>Data</h2>
+    <p>${e(data.description)} · ${data.fingerprint.size} patients · ${pct(data.readmissionRate)} readmitted ·
+    ${data.trainSize} training / ${data.testSize} held-out · fingerprint <code>${e(data.fingerprint.hash)}</code></p>
+    ${data.breakdown.map(b => `<h3>${e(b.variable)}</h3>${table(
+      ['Group', 'Patients', 'Readmitted', 'Rate'],
+      b.groups.map(g => [e(g.group), String(g.n), String(g.readmitted), pct(g.rate)])
+    )}`).join('')}`,
+
+    `<h2>Features</h2>
+    ${table(['Feature', 'Encoding'], card.features.map(f => [e(f.label), `<code>${e(f.transform)}</code>`]))}`,
+
+    `<h2>Training</h2>
+    ${table(['Setting', 'Value'], [
+      ...Object.entries(card.training.hyperparameters).map(([k, v]) => [e(k), `<code>${e(JSON.stringify(v))}</code>`]),
+      ['Calibration', e(card.model.calibration)],
+      ['Risk band cut-offs', `moderate ≥ ${pct(card.training.riskBandCutoffs.moderate)}, high ≥ ${pct(card.training.riskBandCutoffs.high)}`]
+    ])}`,
+
+    `<h2>Evaluation</h2>
+    <p class="muted">Held-out test set on calibrated risk at the moderate cut-off (${evaluation.threshold.toFixed(2)}), with 95% bootstrap intervals;
+    ${evaluation.crossValidation.folds}-fold cross-validation mean ± SD on uncalibrated scores at threshold ${evaluation.crossValidation.threshold.toFixed(2)}.</p>
+    ${table(['Metric', 'Held-out', 'Cross-validation'], metricKeys.map(k => [
+      METRIC_LABELS[k],
+      intervalText(evaluation.metrics[k]),
+      `${pct(evaluation.crossValidation.mean[k])} ± ${pct(evaluation.crossValidation.std[k])}`
+    ]))}`,
+
+    `<h2>Fairness</h2>
+    <p><strong>Primary criterion:</strong> ${e(fairness.primaryCriterion.label)} — ${e(fairness.primaryCriterion.description)}.
+    Audited on the ${e(fairness.population.toLowerCase())} at threshold ${fairness.options.threshold.toFixed(2)}, tolerance ${pct(fairness.options.tolerance)};
+    groups under ${fairness.options.minGroupSize} patients are excluded from gaps.</p>
+    <p class="flag ${biasFlag.status === 'passed' ? 'pass' : 'fail'}">${e(biasFlag.summary)}</p>
+    ${biasFlag.violations.filter(v => !v.primary).length > 0
+      ? `<p>Also over tolerance: ${biasFlag.violations.filter(v => !v.primary).map(v => `${e(v.criterion)} in ${e(v.family)} (${pct(v.gap)})`).join('; ')}.</p>`
+      : ''}
+    ${fairness.families.map(f => `<h3>${e(f.label)}</h3>
+    <p class="muted">${FAIRNESS_CRITERIA.map(c => `${e(c.label)} Δ ${intervalText(f.gaps[c.key])}`).join(' · ')}</p>
+    ${table(['Group', 'n (readmitted)', 'TPR', 'FPR', 'Flagged', 'Precision', 'Predicted / observed'], f.groups.map(g => [
+      `${e(g.label)}${g.belowMinimumSize ? ' <span class="muted">(too small)</span>' : ''}`,
+      `${g.n} (${g.positives})`,
+      intervalText(g.tpr), intervalText(g.fpr), intervalText(g.selectionRate), intervalText(g.ppv),
+      `${pct(g.meanPredicted)} / ${pct(g.observedRate.value)}`
+    ]))}`).join('')}`,
+
+    `<h2>Limitations</h2>
+    ${card.limitations.length > 0 ? `<ul>${card.limitations.map(l => `<li>${e(l)}</li>`).join('')}</ul>` : '<p>None identified from the current audit.</p>'}`
+  ];
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Model card · ${e(card.model.version)}</title>
+<style>
+  body { font: 14px/1.5 system-ui, sans-serif; color: #0f172a; max-width: 960px; margin: 2rem auto; padding: 0 1.5rem; }
+  h1 { font-size: 1.6rem; margin-bottom: 0; }
+  h2 { font-size: 1.2rem; margin-top: 2rem; border-bottom: 1px solid #e2e8f0; padding-bottom: .25rem; }
+  h3 { font-size: 1rem; margin: 1.25rem 0 .25rem; }
+  table { border-collapse: collapse; width: 100%; font-size: 12px; margin: .5rem 0; }
+  th, td { text-align: left; padding: .3rem .5rem; border-bottom: 1px solid #f1f5f9; vertical-align: top; }
+  th { color: #64748b; font-weight: 600; }
+  code { font-size: 11px; }
+  .muted { color: #64748b; }
+  .flag { padding: .6rem .8rem; border-radius: .5rem; font-weight: 600; }
+  .pass { background: #ecfdf5; color: #047857; }
+  .fail { background: #fff1f2; color: #be123c; }
+  @media print { body { margin: 0; } h2 { break-after: avoid; } table { break-inside: auto; } tr { break-inside: avoid; } }
+</style>
+</head>
+<body>
+<h1>Model Card &amp; Ethics Report</h1>
+<p class="muted">${e(card.model.familyLabel)} · version <code>${e(card.model.version)}</code> · generated ${e(new Date(card.generatedAt).toLocaleString())}</p>
+${sections.join('\n')}
+</body>
+</html>
+`;
+}
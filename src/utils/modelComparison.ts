@@ -0,0 +1,42 @@
+import { Patient } from './dataGenerator';
+import { LogisticRegressionOptions } from './mlModel';
+import { Classifier, ModelFamily, createClassifier, fitOnPatients, predictPatient } from './classifier';
+import { EvaluationOptions, ModelEvaluation, evaluateModel, splitCohort } from './evaluation';
+import { AUDIT_ATTRIBUTES, AttributeAudit, auditAttribute } from './fairness';
+
+export interface ComparisonEntry {
+  family: ModelFamily;
+  model: Classifier;
+  evaluation: ModelEvaluation;
+  fairness: AttributeAudit[]; // on the held-out test split
+}
+
+export interface ModelComparison {
+  entries: ComparisonEntry[];
+  trainIndex: number[];
+  testIndex: number[];
+}
+
+/**
+ * Train every requested model family on the same stratified split and
+ * evaluate each one identically, so their metrics are directly comparable.
+ */
+export function compareModels(
+  patients: Patient[],
+  families: ModelFamily[],
+  logisticOptions?: LogisticRegressionOptions,
+  options: EvaluationOptions = {}
+): ModelComparison {
+  const split = splitCohort(patients, options);
+  const entries = families.map(family => {
+    const model = fitOnPatients(createClassifier(family, logisticOptions), split.train);
+    const score = (p: Patient) => predictPatient(model, p);
+    return {
+      family,
+      model,
+      evaluation: evaluateModel(model, split, patients, options),
+      fairness: AUDIT_ATTRIBUTES.map(a => auditAttribute(split.test, a.attribute, score, options.threshold))
+    };
+  });
+  return { entries, trainIndex: split.trainIndex, testIndex: split.testIndex };
+}
@@ -0,0 +1,94 @@
+import { ModelArtifact } from './modelArtifact';
+import { DecisionPolicy } from './thresholds';
+import { Cohort } from './cohortBuilder';
+
+/**
+ * Browser-local model registry backed by IndexedDB. Artifacts are keyed by
+ * version; a separate settings store remembers which version is active so
+ * it can be restored on the next visit, along with the saved decision policy
+ * and the cohort builder's saved cohorts.
+ */
+
+const DB_NAME = 'matrisk';
+const DB_VERSION = 1;
+const MODELS = 'models';
+const SETTINGS = 'settings';
+const ACTIVE_VERSION_KEY = 'activeModelVersion';
+const DECISION_POLICY_KEY = 'decisionPolicy';
+const COHORTS_KEY = 'cohorts';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const request = <T>(req: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        if (!db.objectStoreNames.contains(MODELS)) db.createObjectStore(MODELS, { keyPath: 'version' });
+        if (!db.objectStoreNames.contains(SETTINGS)) db.createObjectStore(SETTINGS);
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => {
+        dbPromise = null;
+        reject(req.error ?? new Error('Could not open the model registry'));
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function store(name: string, mode: IDBTransactionMode) {
+  return (await openDb()).transaction(name, mode).objectStore(name);
+}
+
+/** All saved artifacts, newest first. */
+export async function listArtifacts(): Promise<ModelArtifact[]> {
+  const all = await request((await store(MODELS, 'readonly')).getAll() as IDBRequest<ModelArtifact[]>);
+  return all.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function getArtifact(version: string): Promise<ModelArtifact | null> {
+  return (await request((await store(MODELS, 'readonly')).get(version) as IDBRequest<ModelArtifact | undefined>)) ?? null;
+}
+
+/** Save an artifact, replacing any existing artifact with the same version. */
+export async function saveArtifact(artifact: ModelArtifact): Promise<void> {
+  await request((await store(MODELS, 'readwrite')).put(artifact));
+}
+
+export async function deleteArtifact(version: string): Promise<void> {
+  await request((await store(MODELS, 'readwrite')).delete(version));
+  if (await getActiveVersion() === version) await setActiveVersion(null);
+}
+
+export async function getActiveVersion(): Promise<string | null> {
+  return (await request((await store(SETTINGS, 'readonly')).get(ACTIVE_VERSION_KEY) as IDBRequest<string | undefined>)) ?? null;
+}
+
+export async function setActiveVersion(version: string | null): Promise<void> {
+  const settings = await store(SETTINGS, 'readwrite');
+  await request(version === null ? settings.delete(ACTIVE_VERSION_KEY) : settings.put(version, ACTIVE_VERSION_KEY));
+}
+
+export async function getDecisionPolicy(): Promise<DecisionPolicy | null> {
+  return (await request((await store(SETTINGS, 'readonly')).get(DECISION_POLICY_KEY) as IDBRequest<DecisionPolicy | undefined>)) ?? null;
+}
+
+export async function saveDecisionPolicy(policy: DecisionPolicy): Promise<void> {
+  await request((await store(SETTINGS, 'readwrite')).put(policy, DECISION_POLICY_KEY));
+}
+
+/** Saved cohorts, or null if none have been saved yet. */
+export async function getSavedCohorts(): Promise<Cohort[] | null> {
+  return (await request((await store(SETTINGS, 'readonly')).get(COHORTS_KEY) as IDBRequest<Cohort[] | undefined>)) ?? null;
+}
+
+export async function saveCohorts(cohorts: Cohort[]): Promise<void> {
+  await request((await store(SETTINGS, 'readwrite')).put(cohorts, COHORTS_KEY));
+}
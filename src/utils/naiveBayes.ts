@@ -0,0 +1,180 @@
+import type { Classifier } from './classifier';
+import { FeaturePipeline, LEGACY_PIPELINE } from './featurePipeline';
+
+export interface SerializedGaussianNB {
+  family: 'gaussianNB';
+  varSmoothing: number;
+  logPriors: [number, number];
+  means: [number[], number[]];
+  variances: [number[], number[]];
+  /** Absent in models saved before feature pipelines; those used LEGACY_PIPELINE */
+  pipeline?: FeaturePipeline | null;
+}
+
+export interface SerializedBernoulliNB {
+  family: 'bernoulliNB';
+  alpha: number;
+  thresholds: number[];
+  logPriors: [number, number];
+  featureProbs: [number[], number[]]; // P(x_f = 1 | class)
+  /** Absent in models saved before feature pipelines; those used LEGACY_PIPELINE */
+  pipeline?: FeaturePipeline | null;
+}
+
+/** Posterior P(class 1) from per-class joint log-likelihoods, computed stably. */
+const posterior = (log0: number, log1: number) => 1 / (1 + Math.exp(log0 - log1));
+
+const classPriors = (y: number[]): [number, number] => {
+  const pos = y.filter(v => v === 1).length;
+  // Add-one smoothing so a single-class training set still predicts
+  return [Math.log((y.length - pos + 1) / (y.length + 2)), Math.log((pos + 1) / (y.length + 2))];
+};
+
+/** Naive Bayes with a per-class normal likelihood for every feature. */
+export class GaussianNaiveBayes implements Classifier {
+  public readonly family = 'gaussianNB';
+  public pipeline: FeaturePipeline | null = null;
+  private logPriors: [number, number] = [Math.log(0.5), Math.log(0.5)];
+  private means: [number[], number[]] = [[], []];
+  private variances: [number[], number[]] = [[], []];
+  private varSmoothing: number;
+
+  constructor(varSmoothing = 1e-3) {
+    this.varSmoothing = varSmoothing;
+  }
+
+  public fit(X: number[][], y: number[]): void {
+    const numFeatures = X[0].length;
+    this.logPriors = classPriors(y);
+    const overallVar = Array.from({ length: numFeatures }, (_, f) => {
+      const m = X.reduce((a, x) => a + x[f], 0) / X.length;
+      return X.reduce((a, x) => a + (x[f] - m) ** 2, 0) / X.length;
+    });
+    const epsilon = this.varSmoothing * Math.max(1e-9, ...overallVar);
+
+    for (const cls of [0, 1] as const) {
+      const rows = X.filter((_, i) => y[i] === cls);
+      this.means[cls] = Array.from({ length: numFeatures }, (_, f) =>
+        rows.length ? rows.reduce((a, x) => a + x[f], 0) / rows.length : 0);
+      this.variances[cls] = Array.from({ length: numFeatures }, (_, f) =>
+        (rows.length ? rows.reduce((a, x) => a + (x[f] - this.means[cls][f]) ** 2, 0) / rows.length : overallVar[f]) + epsilon);
+    }
+  }
+
+  private logLikelihood(cls: 0 | 1, x: number[]): number {
+    return x.reduce((acc, v, f) => {
+      const variance = this.variances[cls][f];
+      return acc - 0.5 * Math.log(2 * Math.PI * variance) - (v - this.means[cls][f]) ** 2 / (2 * variance);
+    }, this.logPriors[cls]);
+  }
+
+  public predictProba(x: number[]): number {
+    return posterior(this.logLikelihood(0, x), this.logLikelihood(1, x));
+  }
+
+  public predict(x: number[]): number {
+    return this.predictProba(x) >= 0.5 ? 1 : 0;
+  }
+
+  public serialize(): SerializedGaussianNB {
+    return {
+      family: 'gaussianNB',
+      varSmoothing: this.varSmoothing,
+      logPriors: this.logPriors,
+      means: this.means,
+      variances: this.variances,
+      pipeline: this.pipeline
+    };
+  }
+
+  public clone(): GaussianNaiveBayes {
+    return new GaussianNaiveBayes(this.varSmoothing);
+  }
+
+  public static deserialize(data: SerializedGaussianNB): GaussianNaiveBayes {
+    const model = new GaussianNaiveBayes(data.varSmoothing);
+    model.logPriors = data.logPriors;
+    model.means = data.means;
+    model.variances = data.variances;
+    model.pipeline = data.pipeline ?? LEGACY_PIPELINE;
+    return model;
+  }
+}
+
+/**
+ * Naive Bayes over binary features. Non-binary features are binarized at
+ * their training-set median; alpha is the Laplace smoothing count.
+ */
+export class BernoulliNaiveBayes implements Classifier {
+  public readonly family = 'bernoulliNB';
+  public pipeline: FeaturePipeline | null = null;
+  private thresholds: number[] = [];
+  private logPriors: [number, number] = [Math.log(0.5), Math.log(0.5)];
+  private featureProbs: [number[], number[]] = [[], []];
+  private alpha: number;
+
+  constructor(alpha = 1) {
+    this.alpha = alpha;
+  }
+
+  private binarize(x: number[]): number[] {
+    return x.map((v, f) => v > this.thresholds[f] ? 1 : 0);
+  }
+
+  public fit(X: number[][], y: number[]): void {
+    const numFeatures = X[0].length;
+    this.thresholds = Array.from({ length: numFeatures }, (_, f) => {
+      const values = X.map(x => x[f]);
+      if (values.every(v => v === 0 || v === 1)) return 0.5;
+      const sorted = [...values].sort((a, b) => a - b);
+      return sorted[Math.floor(sorted.length / 2)];
+    });
+    const B = X.map(x => this.binarize(x));
+    this.logPriors = classPriors(y);
+    for (const cls of [0, 1] as const) {
+      const rows = B.filter((_, i) => y[i] === cls);
+      this.featureProbs[cls] = Array.from({ length: numFeatures }, (_, f) =>
+        (rows.reduce((a, b) => a + b[f], 0) + this.alpha) / (rows.length + 2 * this.alpha));
+    }
+  }
+
+  private logLikelihood(cls: 0 | 1, b: number[]): number {
+    return b.reduce((acc, v, f) => {
+      const p = this.featureProbs[cls][f];
+      return acc + Math.log(v === 1 ? p : 1 - p);
+    }, this.logPriors[cls]);
+  }
+
+  public predictProba(x: number[]): number {
+    const b = this.binarize(x);
+    return posterior(this.logLikelihood(0, b), this.logLikelihood(1, b));
+  }
+
+  public predict(x: number[]): number {
+    return this.predictProba(x) >= 0.5 ? 1 : 0;
+  }
+
+  public serialize(): SerializedBernoulliNB {
+    return {
+      family: 'bernoulliNB',
+      alpha: this.alpha,
+      thresholds: this.thresholds,
+      logPriors: this.logPriors,
+      featureProbs: this.featureProbs,
+      pipeline: this.pipeline
+    };
+  }
+
+  public clone(): BernoulliNaiveBayes {
+    return new BernoulliNaiveBayes(this.alpha);
+  }
+
+  public static deserialize(data: SerializedBernoulliNB): BernoulliNaiveBayes {
+    const model = new BernoulliNaiveBayes(data.alpha);
+    model.thresholds = data.thresholds;
+    model.logPriors = data.logPriors;
+    model.featureProbs = data.featureProbs;
+    model.pipeline = data.pipeline ?? LEGACY_PIPELINE;
+    return model;
+  }
+}
@@ -0,0 +1,125 @@
+import { RiskBand } from './mlModel';
+import { PatientInput } from './explanation';
+import { computeMetrics } from './evaluation';
+import { brierScore } from './calibration';
+
+/**
+ * Shapes shared by the prediction audit log in the API server and the
+ * Prediction History view.
+ */
+
+export interface PredictionRecord {
+  id: number;
+  patientId: number | null;
+  /** The caller's patient identifier, if one was given */
+  externalId: string | null;
+  modelVersion: string;
+  features: PatientInput;
+  probability: number;
+  rawProbability: number | null;
+  band: RiskBand;
+  note: string | null;
+  source: 'api' | 'app';
+  createdAt: string;
+  /** Actual 30-day readmission, once known */
+  outcome: boolean | null;
+  outcomeRecordedAt: string | null;
+}
+
+export interface PredictionQuery {
+  /** Matches the external patient id or the note */
+  text?: string;
+  band?: RiskBand;
+  modelVersion?: string;
+  outcome?: 'recorded' | 'pending';
+  from?: string;
+  to?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface PredictionPage {
+  total: number;
+  items: PredictionRecord[];
+}
+
+export interface RetrospectiveSummary {
+  withOutcome: number;
+  pending: number;
+  observedRate: number;
+  meanPredicted: number;
+  brier: number | null;
+  /** Discrimination and threshold metrics at 0.5, or null with fewer than two outcome classes */
+  metrics: ReturnType<typeof computeMetrics> | null;
+  byBand: { band: RiskBand; n: number; observedRate: number; meanPredicted: number }[];
+}
+
+const BANDS: RiskBand[] = ['low', 'moderate', 'high'];
+const mean = (values: number[]) => values.length ? values.reduce((s, v) => s + v, 0) / values.length : 0;
+
+/** How well logged predictions matched the outcomes recorded against them. */
+export function summarizeOutcomes(records: PredictionRecord[]): RetrospectiveSummary {
+  const known = records.filter(r => r.outcome !== null);
+  const y = known.map(r => r.outcome ? 1 : 0);
+  const p = known.map(r => r.probability);
+  const bothClasses = y.includes(0) && y.includes(1);
+  return {
+    withOutcome: known.length,
+    pending: records.length - known.length,
+    observedRate: mean(y),
+    meanPredicted: mean(p),
+    brier: known.length ? brierScore(y, p) : null,
+    metrics: bothClasses ? computeMetrics(y, p) : null,
+    byBand: BANDS.map(band => {
+      const inBand = known.filter(r => r.band === band);
+      return {
+        band,
+        n: inBand.length,
+        observedRate: mean(inBand.map(r => r.outcome ? 1 : 0)),
+        meanPredicted: mean(inBand.map(r => r.probability))
+      };
+    })
+  };
+}
+
+export type TimelineBucket = 'day' | 'week' | 'month';
+
+export interface OutcomePeriod {
+  /** First day of the period, YYYY-MM-DD (UTC; weeks start on Monday) */
+  period: string;
+  predictions: number;
+  meanPredicted: number;
+  withOutcome: number;
+  /** Mean predicted risk over the predictions that have an outcome */
+  meanPredictedWithOutcome: number | null;
+  observedRate: number | null;
+}
+
+function periodStart(iso: string, bucket: TimelineBucket): string {
+  const d = new Date(iso);
+  if (bucket === 'month') return `${d.toISOString().slice(0, 7)}-01`;
+  if (bucket === 'week') d.setUTCDate(d.getUTCDate() - (d.getUTCDay() + 6) % 7);
+  return d.toISOString().slice(0, 10);
+}
+
+/** Predicted vs observed readmission rate per period, oldest first. */
+export function outcomeTimeline(records: PredictionRecord[], bucket: TimelineBucket): OutcomePeriod[] {
+  const byPeriod = new Map<string, PredictionRecord[]>();
+  records.forEach(r => {
+    const key = periodStart(r.createdAt, bucket);
+    byPeriod.set(key, [...(byPeriod.get(key) ?? []), r]);
+  });
+  return [...byPeriod.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([period, rows]) => {
+      const known = rows.filter(r => r.outcome !== null);
+      return {
+        period,
+        predictions: rows.length,
+        meanPredicted: mean(rows.map(r => r.probability)),
+        withOutcome: known.length,
+        meanPredictedWithOutcome: known.length ? mean(known.map(r => r.probability)) : null,
+        observedRate: known.length ? mean(known.map(r => r.outcome ? 1 : 0)) : null
+      };
+    });
+}
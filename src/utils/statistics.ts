@@ -0,0 +1,123 @@
+/**
+ * Hypothesis tests used by drift monitoring and cohort comparison. The
+ * chi-square and KS p-values are asymptotic; fine for the cohort sizes this
+ * app works with, optimistic for very small samples, where Fisher's exact
+ * test should be used instead.
+ */
+
+export interface TestResult {
+  statistic: number;
+  pValue: number;
+}
+
+/** Kolmogorov distribution tail, P(K > lambda). */
+function kolmogorovTail(lambda: number): number {
+  if (lambda < 1e-3) return 1;
+  let sum = 0;
+  for (let k = 1; k <= 100; k++) {
+    const term = 2 * (k % 2 === 1 ? 1 : -1) * Math.exp(-2 * k * k * lambda * lambda);
+    sum += term;
+    if (Math.abs(term) < 1e-10) break;
+  }
+  return Math.min(1, Math.max(0, sum));
+}
+
+/** Two-sample Kolmogorov–Smirnov test with Stephens' small-sample correction. */
+export function ksTest(a: number[], b: number[]): TestResult {
+  if (a.length === 0 || b.length === 0) return { statistic: 0, pValue: 1 };
+  const x = [...a].sort((p, q) => p - q);
+  const y = [...b].sort((p, q) => p - q);
+  let i = 0, j = 0, d = 0;
+  while (i < x.length && j < y.length) {
+    const v = Math.min(x[i], y[j]);
+    while (i < x.length && x[i] === v) i++;
+    while (j < y.length && y[j] === v) j++;
+    d = Math.max(d, Math.abs(i / x.length - j / y.length));
+  }
+  const ne = Math.sqrt((x.length * y.length) / (x.length + y.length));
+  return { statistic: d, pValue: kolmogorovTail((ne + 0.12 + 0.11 / ne) * d) };
+}
+
+/** ln Γ(x), Lanczos approximation. */
+function logGamma(x: number): number {
+  const c = [76.18009172947146, -86.50532032941677, 24.01409824083091, -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5];
+  let y = x;
+  const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5);
+  let ser = 1.000000000190015;
+  for (const cj of c) ser += cj / ++y;
+  return -tmp + Math.log(2.5066282746310005 * ser / x);
+}
+
+/** Upper regularized incomplete gamma Q(s, x). */
+function gammaQ(s: number, x: number): number {
+  if (x <= 0) return 1;
+  if (x < s + 1) {
+    // Series for P, then complement
+    let sum = 1 / s, term = sum;
+    for (let n = 1; n < 500 && Math.abs(term) > Math.abs(sum) * 1e-12; n++) {
+      term *= x / (s + n);
+      sum += term;
+    }
+    return 1 - sum * Math.exp(-x + s * Math.log(x) - logGamma(s));
+  }
+  // Continued fraction for Q (Lentz)
+  let b = x + 1 - s, c = 1e300, d = 1 / b, h = d;
+  for (let n = 1; n < 500; n++) {
+    const an = -n * (n - s);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < 1e-300) d = 1e-300;
+    c = b + an / c;
+    if (Math.abs(c) < 1e-300) c = 1e-300;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 1e-12) break;
+  }
+  return Math.exp(-x + s * Math.log(x) - logGamma(s)) * h;
+}
+
+export const chiSquareSurvival = (statistic: number, df: number) => df > 0 ? gammaQ(df / 2, statistic / 2) : 1;
+
+/**
+ * Pearson chi-square test of independence on a contingency table
+ * (rows = samples, columns = categories). Empty columns are dropped.
+ */
+export function chiSquareTest(table: number[][]): TestResult & { df: number } {
+  const columns = table[0].map((_, c) => c).filter(c => table.some(row => row[c] > 0));
+  const rowTotals = table.map(row => columns.reduce((s, c) => s + row[c], 0));
+  const total = rowTotals.reduce((s, v) => s + v, 0);
+  let statistic = 0;
+  for (const c of columns) {
+    const colTotal = table.reduce((s, row) => s + row[c], 0);
+    table.forEach((row, r) => {
+      const expected = rowTotals[r] * colTotal / total;
+      if (expected > 0) statistic += (row[c] - expected) ** 2 / expected;
+    });
+  }
+  const df = (table.filter((_, r) => rowTotals[r] > 0).length - 1) * (columns.length - 1);
+  return { statistic, pValue: chiSquareSurvival(statistic, df), df };
+}
+
+/** ln C(n, k) */
+const logChoose = (n: number, k: number) => logGamma(n + 1) - logGamma(k + 1) - logGamma(n - k + 1);
+
+/**
+ * Two-sided Fisher exact test on the 2×2 table [[a, b], [c, d]]: the total
+ * probability of every table with the same margins that is no more likely
+ * than the observed one. The statistic is the observed table's probability.
+ */
+export function fisherExactTest(a: number, b: number, c: number, d: number): TestResult {
+  const row1 = a + b, col1 = a + c, n = a + b + c + d;
+  if (row1 === 0 || col1 === 0 || row1 === n || col1 === n) return { statistic: 1, pValue: 1 };
+  const logDenom = logChoose(n, col1);
+  const probability = (x: number) => Math.exp(logChoose(row1, x) + logChoose(n - row1, col1 - x) - logDenom);
+  const observed = probability(a);
+  let pValue = 0;
+  for (let x = Math.max(0, col1 - (n - row1)); x <= Math.min(row1, col1); x++) {
+    const p = probability(x);
+    // Relative tolerance so tables tied with the observed one are not lost to rounding
+    if (p <= observed * (1 + 1e-7)) pValue += p;
+  }
+  return { statistic: observed, pValue: Math.min(1, pValue) };
+}
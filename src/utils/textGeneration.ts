@@ -0,0 +1,73 @@
+/**
+ * Pluggable structured text generation. Callers build a prompt and a JSON
+ * schema; a client returns the model's raw JSON text, which the caller
+ * parses and validates. Swap clients to change provider or run offline.
+ */
+
+export interface TextGenerationRequest {
+  /** System instruction: role, constraints and output rules */
+  system: string;
+  prompt: string;
+  /** JSON Schema the response must follow */
+  responseSchema: object;
+  temperature?: number;
+}
+
+export interface TextGenerationClient {
+  id: string;
+  label: string;
+  /** Resolves to the raw response text, expected to be JSON. */
+  generate(request: TextGenerationRequest): Promise<string>;
+}
+
+export class TextGenerationError extends Error {
+  constructor(
+    public readonly code: 'NOT_CONFIGURED' | 'REQUEST_FAILED' | 'EMPTY_RESPONSE' | 'INVALID_RESPONSE',
+    message: string,
+    public readonly details: { path: string; message: string }[] = []
+  ) {
+    super(message);
+    this.name = 'TextGenerationError';
+  }
+}
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash';
+
+// .env.example ships this placeholder; treat it as unset
+const PLACEHOLDER_KEY = 'MY_GEMINI_API_KEY';
+
+export const isGeminiConfigured = (apiKey: string | undefined): apiKey is string =>
+  !!apiKey && apiKey !== PLACEHOLDER_KEY;
+
+/** Gemini client; the SDK is loaded on first use so it stays out of the main bundle. */
+export function createGeminiClient(apiKey: string | undefined, model = DEFAULT_GEMINI_MODEL): TextGenerationClient {
+  return {
+    id: 'gemini',
+    label: `Gemini (${model})`,
+    async generate({ system, prompt, responseSchema, temperature = 0.2 }) {
+      if (!isGeminiConfigured(apiKey)) {
+        throw new TextGenerationError('NOT_CONFIGURED', 'Set GEMINI_API_KEY in .env.local to use Gemini.');
+      }
+      let text: string | undefined;
+      try {
+        const { GoogleGenAI } = await import('@google/genai');
+        const ai = new GoogleGenAI({ apiKey });
+        const response = await ai.models.generateContent({
+          model,
+          contents: prompt,
+          config: {
+            systemInstruction: system,
+            responseMimeType: 'application/json',
+            responseJsonSchema: responseSchema,
+            temperature
+          }
+        });
+        text = response.text;
+      } catch (err) {
+        throw new TextGenerationError('REQUEST_FAILED', `Gemini request failed: ${err instanceof Error ? err.message : String(err)}`);
+      }
+      if (!text?.trim()) throw new TextGenerationError('EMPTY_RESPONSE', 'Gemini returned an empty response.');
+      return text;
+    }
+  };
+}
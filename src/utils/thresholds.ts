@@ -0,0 +1,120 @@
+import { BandCutoffs } from './mlModel';
+
+/**
+ * Cost-aware choice of the intervention threshold and decision curve
+ * analysis, both computed on calibrated held-out probabilities.
+ */
+
+export interface CostSettings {
+  /** Cost of a readmission that follow-up would have caught (a false negative) */
+  missedReadmission: number;
+  /** Cost of following up a patient who would not have been readmitted (a false positive) */
+  unnecessaryFollowUp: number;
+  /** Share of discharges the team can follow up, 0–1 */
+  capacity: number;
+}
+
+export const DEFAULT_COST_SETTINGS: CostSettings = { missedReadmission: 10000, unnecessaryFollowUp: 1500, capacity: 0.3 };
+
+/** Band cut-offs and the costs they were chosen under, saved together. */
+export interface DecisionPolicy {
+  cutoffs: BandCutoffs;
+  costs: CostSettings;
+}
+
+export interface ThresholdPoint {
+  threshold: number;
+  flaggedRate: number;
+  sensitivity: number;
+  specificity: number;
+  ppv: number;
+  /** Net benefit of following up patients at or above the threshold (Vickers & Elkin) */
+  netBenefit: number;
+  /** Net benefit of following up everyone */
+  treatAll: number;
+  /** Misclassification cost per discharge */
+  expectedCost: number;
+}
+
+/**
+ * The threshold at which following up and not following up have equal
+ * expected cost for a calibrated probability: C_fp / (C_fp + C_fn).
+ */
+export const costRatioThreshold = (costs: CostSettings) =>
+  costs.unnecessaryFollowUp / (costs.unnecessaryFollowUp + costs.missedReadmission);
+
+const safeDiv = (a: number, b: number) => b === 0 ? 0 : a / b;
+
+/** Evaluate every threshold on a grid; net benefit uses the threshold's own odds as the harm weight. */
+export function thresholdSweep(
+  yTrue: number[],
+  yProb: number[],
+  costs: CostSettings,
+  { from = 0.01, to = 0.99, step = 0.01 } = {}
+): ThresholdPoint[] {
+  const n = yTrue.length;
+  const positives = yTrue.filter(y => y === 1).length;
+  const negatives = n - positives;
+  const prevalence = safeDiv(positives, n);
+  const points: ThresholdPoint[] = [];
+  for (let t = from; t <= to + 1e-9; t += step) {
+    const threshold = +t.toFixed(4);
+    let tp = 0, fp = 0;
+    for (let i = 0; i < n; i++) {
+      if (yProb[i] < threshold) continue;
+      if (yTrue[i] === 1) tp++; else fp++;
+    }
+    const fn = positives - tp;
+    const odds = threshold / (1 - threshold);
+    points.push({
+      threshold,
+      flaggedRate: safeDiv(tp + fp, n),
+      sensitivity: safeDiv(tp, positives),
+      specificity: safeDiv(negatives - fp, negatives),
+      ppv: safeDiv(tp, tp + fp),
+      netBenefit: safeDiv(tp, n) - safeDiv(fp, n) * odds,
+      treatAll: prevalence - (1 - prevalence) * odds,
+      expectedCost: safeDiv(fn * costs.missedReadmission + fp * costs.unnecessaryFollowUp, n)
+    });
+  }
+  return points;
+}
+
+export interface ThresholdRecommendation {
+  point: ThresholdPoint;
+  /** Decision-theoretic threshold from the cost ratio alone */
+  costRatioThreshold: number;
+  /** True when capacity, not cost, determined the threshold */
+  capacityBound: boolean;
+  treatAllCost: number;
+  treatNoneCost: number;
+}
+
+/**
+ * Lowest-cost threshold among those that flag no more than the capacity
+ * allows. Ties go to the higher threshold (fewer follow-ups for the same cost).
+ */
+export function recommendThreshold(points: ThresholdPoint[], yTrue: number[], costs: CostSettings): ThresholdRecommendation {
+  const cheapest = (candidates: ThresholdPoint[]) =>
+    candidates.reduce((best, p) => p.expectedCost <= best.expectedCost ? p : best);
+  const feasible = points.filter(p => p.flaggedRate <= costs.capacity);
+  const unconstrained = cheapest(points);
+  const point = feasible.length ? cheapest(feasible) : points[points.length - 1];
+  const n = yTrue.length;
+  const positives = yTrue.filter(y => y === 1).length;
+  return {
+    point,
+    costRatioThreshold: costRatioThreshold(costs),
+    capacityBound: unconstrained.flaggedRate > costs.capacity,
+    treatAllCost: safeDiv((n - positives) * costs.unnecessaryFollowUp, n),
+    treatNoneCost: safeDiv(positives * costs.missedReadmission, n)
+  };
+}
+
+/** Share of patients that fall in each band under the given cut-offs. */
+export function bandDistribution(yProb: number[], cutoffs: BandCutoffs) {
+  const n = Math.max(1, yProb.length);
+  const high = yProb.filter(p => p >= cutoffs.high).length;
+  const moderate = yProb.filter(p => p >= cutoffs.moderate && p < cutoffs.high).length;
+  return { low: (yProb.length - high - moderate) / n, moderate: moderate / n, high: high / n };
+}
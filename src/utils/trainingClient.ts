@@ -0,0 +1,243 @@
+import { Patient } from './dataGenerator';
+import { LogisticRegressionOptions, TrainingProgress } from './mlModel';
+import { EvaluationOptions, ModelEvaluation } from './evaluation';
+import { Classifier, ModelFamily, SerializedClassifier, deserializeClassifier } from './classifier';
+import { ComparisonEntry } from './modelComparison';
+import { MitigationOptions, MitigationResult } from './mitigation';
+import { FairnessAuditOptions } from './fairness';
+import { FairnessGapIntervals } from './bootstrap';
+import { TrainingRequest, TrainingResponse } from './trainingProtocol';
+
+export interface TrainingResult {
+  model: Classifier;
+  evaluation: ModelEvaluation;
+  train: Patient[];
+  test: Patient[];
+}
+
+export interface TrainingCallbacks {
+  onProgress: (progress: TrainingProgress & { totalEpochs: number }) => void;
+  onEvaluating?: () => void;
+  onDone: (result: TrainingResult) => void;
+  onCancelled?: () => void;
+  onError: (message: string) => void;
+}
+
+export interface ComparisonCallbacks {
+  onDone: (result: { entries: ComparisonEntry[]; train: Patient[]; test: Patient[] }) => void;
+  onCancelled?: () => void;
+  onError: (message: string) => void;
+}
+
+export interface BootstrapCallbacks {
+  onProgress?: (completed: number, total: number) => void;
+  onDone: (models: Classifier[]) => void;
+  onCancelled?: () => void;
+  onError: (message: string) => void;
+}
+
+export interface FairnessGapCallbacks {
+  onDone: (intervals: FairnessGapIntervals) => void;
+  onCancelled?: () => void;
+  onError: (message: string) => void;
+}
+
+export interface MitigationCallbacks {
+  onDone: (result: MitigationResult) => void;
+  onCancelled?: () => void;
+  onError: (message: string) => void;
+}
+
+/**
+ * Main-thread handle on a training worker. Only one job runs at a time:
+ * starting a new job cancels the previous one, and messages from any job
+ * other than the active one are dropped.
+ */
+export class TrainingClient {
+  private worker: Worker;
+  private nextJobId = 1;
+  private active: {
+    jobId: number;
+    handle: (msg: TrainingResponse) => void;
+    onCancelled?: () => void;
+    onError: (message: string) => void;
+  } | null = null;
+
+  constructor() {
+    this.worker = new Worker(new URL('../workers/training.worker.ts', import.meta.url), { type: 'module' });
+    this.worker.onmessage = (e: MessageEvent<TrainingResponse>) => this.dispatch(e.data);
+    this.worker.onerror = (e) => {
+      this.active?.onError(e.message || 'Training worker failed');
+      this.active = null;
+    };
+  }
+
+  public get isRunning(): boolean {
+    return this.active !== null;
+  }
+
+  /** Fit a fresh model of `family`; only logistic regression reports per-epoch progress. */
+  public start(
+    patients: Patient[],
+    family: ModelFamily,
+    callbacks: TrainingCallbacks,
+    modelOptions?: LogisticRegressionOptions,
+    options?: EvaluationOptions
+  ): number {
+    const jobId = this.begin(this.trainingHandler(patients, callbacks), callbacks);
+    this.send({ type: 'start', jobId, patients, family, options, modelOptions });
+    return jobId;
+  }
+
+  /** Evaluate a fitted model on the cohort's split without refitting it. */
+  public evaluate(
+    patients: Patient[],
+    model: SerializedClassifier,
+    callbacks: Omit<TrainingCallbacks, 'onProgress'>,
+    options?: EvaluationOptions
+  ): number {
+    const jobId = this.begin(this.trainingHandler(patients, { ...callbacks, onProgress: () => {} }), callbacks);
+    this.send({ type: 'evaluate', jobId, patients, model, options });
+    return jobId;
+  }
+
+  public compare(
+    patients: Patient[],
+    families: ModelFamily[],
+    callbacks: ComparisonCallbacks,
+    modelOptions?: LogisticRegressionOptions,
+    options?: EvaluationOptions
+  ): number {
+    const jobId = this.begin(msg => {
+      if (msg.type !== 'compared') return;
+      this.active = null;
+      callbacks.onDone({
+        entries: msg.entries.map(e => ({ ...e, model: deserializeClassifier(e.model) })),
+        train: msg.trainIndex.map(i => patients[i]),
+        test: msg.testIndex.map(i => patients[i])
+      });
+    }, callbacks);
+    this.send({ type: 'compare', jobId, patients, families, options, modelOptions });
+    return jobId;
+  }
+
+  /** Run every bias-mitigation variant against a fitted model on the cohort's split. */
+  public mitigate(
+    patients: Patient[],
+    model: SerializedClassifier,
+    mitigation: MitigationOptions,
+    callbacks: MitigationCallbacks,
+    modelOptions?: LogisticRegressionOptions,
+    options?: EvaluationOptions
+  ): number {
+    const jobId = this.begin(msg => {
+      if (msg.type !== 'mitigated') return;
+      this.active = null;
+      callbacks.onDone(msg.result);
+    }, callbacks);
+    this.send({ type: 'mitigate', jobId, patients, model, mitigation, options, modelOptions });
+    return jobId;
+  }
+
+  /** Refit clones of a fitted model on bootstrap resamples of its training patients. */
+  public bootstrap(
+    train: Patient[],
+    model: SerializedClassifier,
+    callbacks: BootstrapCallbacks,
+    replicates?: number
+  ): number {
+    const jobId = this.begin(msg => {
+      if (msg.type === 'bootstrapProgress') {
+        callbacks.onProgress?.(msg.completed, msg.total);
+      } else if (msg.type === 'bootstrapped') {
+        this.active = null;
+        callbacks.onDone(msg.models.map(deserializeClassifier));
+      }
+    }, callbacks);
+    this.send({ type: 'bootstrap', jobId, patients: train, model, replicates });
+    return jobId;
+  }
+
+  /** Bootstrap intervals for the fairness gaps of `patients`, scored by the caller. */
+  public fairnessGaps(
+    patients: Patient[],
+    scores: number[],
+    options: FairnessAuditOptions,
+    callbacks: FairnessGapCallbacks,
+    replicates?: number
+  ): number {
+    const jobId = this.begin(msg => {
+      if (msg.type !== 'fairnessBootstrapped') return;
+      this.active = null;
+      callbacks.onDone(msg.intervals);
+    }, callbacks);
+    this.send({ type: 'fairnessBootstrap', jobId, patients, scores, options, replicates });
+    return jobId;
+  }
+
+  public cancel(): void {
+    if (!this.active) return;
+    this.send({ type: 'cancel', jobId: this.active.jobId });
+    const { onCancelled } = this.active;
+    this.active = null;
+    onCancelled?.();
+  }
+
+  public dispose(): void {
+    this.active = null;
+    this.worker.terminate();
+  }
+
+  private begin(
+    handle: (msg: TrainingResponse) => void,
+    callbacks: { onCancelled?: () => void; onError: (message: string) => void }
+  ): number {
+    this.cancel();
+    const jobId = this.nextJobId++;
+    this.active = { jobId, handle, onCancelled: callbacks.onCancelled, onError: callbacks.onError };
+    return jobId;
+  }
+
+  private trainingHandler(patients: Patient[], callbacks: TrainingCallbacks) {
+    return (msg: TrainingResponse) => {
+      switch (msg.type) {
+        case 'progress':
+          callbacks.onProgress({ epoch: msg.epoch, loss: msg.loss, validationLoss: msg.validationLoss, totalEpochs: msg.totalEpochs });
+          break;
+        case 'evaluating':
+          callbacks.onEvaluating?.();
+          break;
+        case 'done':
+          this.active = null;
+          callbacks.onDone({
+            model: deserializeClassifier(msg.model),
+            evaluation: msg.evaluation,
+            train: msg.trainIndex.map(i => patients[i]),
+            test: msg.testIndex.map(i => patients[i])
+          });
+          break;
+      }
+    };
+  }
+
+  private send(msg: TrainingRequest) {
+    this.worker.postMessage(msg);
+  }
+
+  private dispatch(msg: TrainingResponse) {
+    if (!this.active || msg.jobId !== this.active.jobId) return;
+    const { handle, onCancelled, onError } = this.active;
+    switch (msg.type) {
+      case 'cancelled':
+        this.active = null;
+        onCancelled?.();
+        break;
+      case 'error':
+        this.active = null;
+        onError(msg.message);
+        break;
+      default:
+        handle(msg);
+    }
+  }
+}
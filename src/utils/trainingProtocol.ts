@@ -0,0 +1,76 @@
+import { Patient } from './dataGenerator';
+import { LogisticRegressionOptions, TrainingProgress } from './mlModel';
+import { EvaluationOptions, ModelEvaluation } from './evaluation';
+import { ModelFamily, SerializedClassifier } from './classifier';
+import { AttributeAudit, FairnessAuditOptions } from './fairness';
+import { MitigationOptions, MitigationResult } from './mitigation';
+import { FairnessGapIntervals } from './bootstrap';
+
+/**
+ * Messages exchanged with the training worker. Every message carries the
+ * jobId of the run it belongs to, so stale messages from a cancelled or
+ * superseded run can be ignored.
+ */
+export type TrainingRequest =
+  | {
+      type: 'start';
+      jobId: number;
+      patients: Patient[];
+      family: ModelFamily;
+      options?: EvaluationOptions;
+      modelOptions?: LogisticRegressionOptions;
+    }
+  | {
+      type: 'compare';
+      jobId: number;
+      patients: Patient[];
+      families: ModelFamily[];
+      options?: EvaluationOptions;
+      modelOptions?: LogisticRegressionOptions;
+    }
+  | { type: 'evaluate'; jobId: number; patients: Patient[]; model: SerializedClassifier; options?: EvaluationOptions }
+  | {
+      type: 'mitigate';
+      jobId: number;
+      patients: Patient[];
+      model: SerializedClassifier;
+      mitigation: MitigationOptions;
+      options?: EvaluationOptions;
+      modelOptions?: LogisticRegressionOptions;
+    }
+  | { type: 'bootstrap'; jobId: number; patients: Patient[]; model: SerializedClassifier; replicates?: number }
+  | {
+      type: 'fairnessBootstrap';
+      jobId: number;
+      patients: Patient[];
+      /** Calibrated risk for each patient, aligned with `patients` */
+      scores: number[];
+      options: FairnessAuditOptions;
+      replicates?: number;
+    }
+  | { type: 'cancel'; jobId: number };
+
+export type TrainingResponse =
+  | ({ type: 'progress'; jobId: number; totalEpochs: number } & TrainingProgress)
+  | { type: 'evaluating'; jobId: number }
+  | {
+      type: 'done';
+      jobId: number;
+      model: SerializedClassifier;
+      evaluation: ModelEvaluation;
+      trainIndex: number[];
+      testIndex: number[];
+    }
+  | {
+      type: 'compared';
+      jobId: number;
+      entries: { family: ModelFamily; model: SerializedClassifier; evaluation: ModelEvaluation; fairness: AttributeAudit[] }[];
+      trainIndex: number[];
+      testIndex: number[];
+    }
+  | { type: 'mitigated'; jobId: number; result: MitigationResult }
+  | { type: 'bootstrapProgress'; jobId: number; completed: number; total: number }
+  | { type: 'bootstrapped'; jobId: number; models: SerializedClassifier[] }
+  | { type: 'fairnessBootstrapped'; jobId: number; intervals: FairnessGapIntervals }
+  | { type: 'cancelled'; jobId: number }
+  | { type: 'error'; jobId: number; message: string };
@@ -0,0 +1,78 @@
+import { BandCutoffs, RiskBand, riskBand } from './mlModel';
+import { Classifier, predictPatient } from './classifier';
+import { Discharge } from './csvImport';
+import { FeatureContribution, PatientInput, explainPrediction } from './explanation';
+
+/** Post-discharge follow-up recommended for each risk band. */
+export const FOLLOW_UP: Record<RiskBand, { action: string; detail: string }> = {
+  high: {
+    action: 'Home visit within 48 h',
+    detail: 'Immediate follow-up care and home visits recommended.'
+  },
+  moderate: {
+    action: 'Phone call within 72 h',
+    detail: 'Follow-up phone call within 72 hours of discharge; escalate to a visit if concerns are raised.'
+  },
+  low: {
+    action: 'Routine postnatal check',
+    detail: 'Standard post-discharge monitoring required.'
+  }
+};
+
+const TOP_FACTORS = 3;
+
+export interface WorklistEntry {
+  /** 1 = highest risk */
+  rank: number;
+  reference: string;
+  input: PatientInput;
+  probability: number;
+  rawProbability: number;
+  band: RiskBand;
+  /** Features pushing this patient's risk up the most, largest first */
+  topFactors: FeatureContribution[];
+}
+
+/**
+ * Score every discharge and rank by calibrated risk. Factors come from the
+ * same log-odds explanation as the Risk Predictor, against the training mean.
+ */
+export function buildWorklist(
+  model: Classifier,
+  discharges: Discharge[],
+  calibrate: (p: number) => number,
+  reference: number[],
+  cutoffs: BandCutoffs
+): WorklistEntry[] {
+  return discharges
+    .map(d => {
+      const rawProbability = predictPatient(model, d.input);
+      const probability = calibrate(rawProbability);
+      const topFactors = explainPrediction(model, d.input, reference).contributions
+        .filter(c => c.contribution > 0)
+        .sort((a, b) => b.contribution - a.contribution)
+        .slice(0, TOP_FACTORS);
+      return { reference: d.reference, input: d.input, probability, rawProbability, band: riskBand(probability, cutoffs), topFactors };
+    })
+    .sort((a, b) => b.probability - a.probability)
+    .map((e, i) => ({ rank: i + 1, ...e }));
+}
+
+const EXTENDED_EXPORT_KEYS = [
+  'hypertension', 'gestationalDiabetes', 'hemorrhage', 'bmi', 'parity', 'gestationalAge', 'preterm', 'priorReadmissions', 'payer'
+] as const;
+
+export function worklistCsvRows(entries: WorklistEntry[], modelVersion: string): (string | number | boolean)[][] {
+  return [
+    ['rank', 'patient_id', 'risk_probability', 'risk_band', 'top_factors', 'follow_up', 'age', 'delivery_type', 'labor_duration', 'complications', 'los', 'location',
+      'hypertension', 'gestational_diabetes', 'hemorrhage', 'bmi', 'parity', 'gestational_age', 'preterm', 'prior_readmissions', 'payer', 'model_version'],
+    ...entries.map(e => [
+      e.rank, e.reference, e.probability.toFixed(4), e.band,
+      e.topFactors.map(f => f.label).join('; '),
+      FOLLOW_UP[e.band].action,
+      e.input.age, e.input.deliveryType, e.input.laborDuration, e.input.complications, e.input.los, e.input.location,
+      ...EXTENDED_EXPORT_KEYS.map(k => e.input[k] ?? ''),
+      modelVersion
+    ])
+  ];
+}
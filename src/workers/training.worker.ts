@@ -0,0 +1,132 @@
+import { APP_MODEL_OPTIONS, LogisticRegression } from '../utils/mlModel';
+import { fitFeaturePipeline } from '../utils/featurePipeline';
+import { evaluateModel, splitCohort } from '../utils/evaluation';
+import { compareModels } from '../utils/modelComparison';
+import { SerializedClassifier, createClassifier, deserializeClassifier, encodeFor } from '../utils/classifier';
+import { runMitigation } from '../utils/mitigation';
+import { MODEL_REPLICATES, bootstrapFairnessGaps, bootstrapModels } from '../utils/bootstrap';
+import { TrainingRequest, TrainingResponse } from '../utils/trainingProtocol';
+
+// Post progress at most this often and yield to the event loop between
+// batches of epochs so a 'cancel' message can be received mid-fit.
+const PROGRESS_EVERY = 10;
+
+const cancelled = new Set<number>();
+const post = (msg: TrainingResponse) => self.postMessage(msg);
+const yieldToEventLoop = () => new Promise(resolve => setTimeout(resolve, 0));
+
+async function train({ jobId, patients, family, options, modelOptions }: Extract<TrainingRequest, { type: 'start' }>) {
+  const split = splitCohort(patients, options);
+  const model = createClassifier(family, modelOptions ?? APP_MODEL_OPTIONS);
+  model.pipeline = fitFeaturePipeline(split.train);
+  const X = split.train.map(p => encodeFor(model, p));
+  const y = split.train.map(p => p.readmitted ? 1 : 0);
+
+  // Other families fit in one step and have no loss curve to report
+  if (model instanceof LogisticRegression) {
+    const totalEpochs = model.options.iterations;
+    for (const step of model.fitSteps(X, y)) {
+      if (step.epoch % PROGRESS_EVERY === 0 || step.epoch === 1) {
+        post({ type: 'progress', jobId, totalEpochs, ...step });
+        await yieldToEventLoop();
+        if (cancelled.has(jobId)) {
+          post({ type: 'cancelled', jobId });
+          return;
+        }
+      }
+    }
+
+    // Final point, in case training stopped between progress reports
+    const report = model.trainingReport!;
+    if (report.epochsRun % PROGRESS_EVERY !== 0) {
+      post({ type: 'progress', jobId, totalEpochs, epoch: report.epochsRun, loss: report.finalLoss, validationLoss: report.validationLoss ?? undefined });
+    }
+  } else {
+    model.fit(X, y);
+  }
+  post({ type: 'evaluating', jobId });
+  await yieldToEventLoop();
+  if (cancelled.has(jobId)) {
+    post({ type: 'cancelled', jobId });
+    return;
+  }
+  const evaluation = evaluateModel(model, split, patients, options);
+  post({
+    type: 'done',
+    jobId,
+    model: model.serialize(),
+    evaluation,
+    trainIndex: split.trainIndex,
+    testIndex: split.testIndex
+  });
+}
+
+async function compare({ jobId, patients, families, options, modelOptions }: Extract<TrainingRequest, { type: 'compare' }>) {
+  const result = compareModels(patients, families, modelOptions, options);
+  post({
+    type: 'compared',
+    jobId,
+    entries: result.entries.map(e => ({ ...e, model: e.model.serialize() })),
+    trainIndex: result.trainIndex,
+    testIndex: result.testIndex
+  });
+}
+
+// Evaluate an already fitted model (e.g. one restored from the registry) on
+// the cohort's split; the model itself is not refitted.
+async function evaluate({ jobId, patients, model, options }: Extract<TrainingRequest, { type: 'evaluate' }>) {
+  const split = splitCohort(patients, options);
+  post({ type: 'evaluating', jobId });
+  const evaluation = evaluateModel(deserializeClassifier(model), split, patients, options);
+  post({ type: 'done', jobId, model, evaluation, trainIndex: split.trainIndex, testIndex: split.testIndex });
+}
+
+async function mitigate({ jobId, patients, model, mitigation, options, modelOptions }: Extract<TrainingRequest, { type: 'mitigate' }>) {
+  const { train, test } = splitCohort(patients, options);
+  post({ type: 'mitigated', jobId, result: runMitigation(deserializeClassifier(model), train, test, mitigation, modelOptions) });
+}
+
+// Refit on bootstrap resamples of the training patients, one replicate at a
+// time so progress is reported and a 'cancel' message can be received.
+async function bootstrap({ jobId, patients, model, replicates = MODEL_REPLICATES }: Extract<TrainingRequest, { type: 'bootstrap' }>) {
+  const models: SerializedClassifier[] = [];
+  for (const replicate of bootstrapModels(deserializeClassifier(model), patients, { replicates })) {
+    models.push(replicate.serialize());
+    post({ type: 'bootstrapProgress', jobId, completed: models.length, total: replicates });
+    await yieldToEventLoop();
+    if (cancelled.has(jobId)) {
+      post({ type: 'cancelled', jobId });
+      return;
+    }
+  }
+  post({ type: 'bootstrapped', jobId, models });
+}
+
+// Resampled fairness audits on scores computed by the caller, so the worker
+// needs neither the model nor its calibrator.
+async function fairnessBootstrap({ jobId, patients, scores, options, replicates }: Extract<TrainingRequest, { type: 'fairnessBootstrap' }>) {
+  const byPatient = new Map(patients.map((p, i) => [p, scores[i]]));
+  post({ type: 'fairnessBootstrapped', jobId, intervals: bootstrapFairnessGaps(patients, p => byPatient.get(p)!, options, { replicates }) });
+}
+
+function run(msg: Exclude<TrainingRequest, { type: 'cancel' }>) {
+  switch (msg.type) {
+    case 'start': return train(msg);
+    case 'compare': return compare(msg);
+    case 'evaluate': return evaluate(msg);
+    case 'mitigate': return mitigate(msg);
+    case 'bootstrap': return bootstrap(msg);
+    case 'fairnessBootstrap': return fairnessBootstrap(msg);
+  }
+}
+
+self.onmessage = (e: MessageEvent<TrainingRequest>) => {
+  const msg = e.data;
+  if (msg.type === 'cancel') {
+    cancelled.add(msg.jobId);
+    return;
+  }
+  run(msg)
+    .catch(err => post({ type: 'error', jobId: msg.jobId, message: (err as Error).message }))
+    .finally(() => cancelled.delete(msg.jobId));
+};